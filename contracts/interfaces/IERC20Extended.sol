@@ -4,5 +4,9 @@ pragma solidity ^0.8.17;
 import { IERC20Upgradeable } from "@openzeppelin/contracts-upgradeable/interfaces/IERC20Upgradeable.sol";
 
 interface IERC20Extended is IERC20Upgradeable {
+    function name() external view returns (string memory);
+
+    function symbol() external view returns (string memory);
+
     function decimals() external view returns (uint8);
 }
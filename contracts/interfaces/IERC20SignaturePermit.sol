@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+/// @dev Permit extension implemented by ERC20Permit (EIP-712 signature passed as bytes)
+interface IERC20SignaturePermit {
+    function permit(
+        address _owner,
+        address _spender,
+        uint256 _value,
+        uint256 _deadline,
+        bytes memory _signature
+    ) external;
+
+    function nonces(address _owner) external view returns (uint256);
+
+    function DOMAIN_SEPARATOR() external view returns (bytes32);
+}
@@ -0,0 +1,6 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+interface IInitialRealEstateOffering {
+    function unclaimedUnits(uint256 _realEstateId) external view returns (uint256);
+}
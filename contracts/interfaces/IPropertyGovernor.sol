@@ -0,0 +1,6 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+interface IPropertyGovernor {
+    function updateSnapshots(uint256[] memory _ids, address _from, address _to) external;
+}
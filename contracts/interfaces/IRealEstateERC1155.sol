@@ -14,5 +14,15 @@ interface IRealEstateERC1155 {
 
     function mint(uint256 _id, address _to, uint256 _amount) external;
 
-    function burn(uint256 _id, uint256 _amount) external;
+    function burn(uint256 _id, address _originAccount, uint256 _amount) external;
+
+    function totalSupply(uint256 _id) external view returns (uint256);
+
+    function yieldCurrency() external view returns (address);
+
+    function pendingYield(uint256 _id, address _account) external view returns (uint256);
+
+    function claimYield(uint256 _id, address _to) external;
+
+    function collectYield(uint256 _id, address _account) external returns (uint256);
 }
@@ -2,5 +2,20 @@
 pragma solidity ^0.8.17;
 
 interface IRealEstateReserves {
+    /// @dev Buffers of the reserves of a real estate
+    enum Buffer {
+        Maintenance,
+        Vacancy,
+        Proceeds
+    }
+
     function deposit(uint256 _id, uint256 _amount, address _currency) external;
+
+    function depositToBuffer(uint256 _id, Buffer _buffer, uint256 _amount, address _currency) external;
+
+    function withdraw(uint256 _id, address _currency, uint256 _amount, address _to) external;
+
+    function reserves(uint256 _id, address _currency) external view returns (uint256);
+
+    function bufferBalance(uint256 _id, address _currency, Buffer _buffer) external view returns (uint256);
 }
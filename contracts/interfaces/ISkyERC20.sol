@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+interface ISkyERC20 {
+    function mint(address _to, uint256 _amount) external;
+
+    function mintableSupply() external view returns (uint256);
+}
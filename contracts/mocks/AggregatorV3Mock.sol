@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import { AggregatorV3Interface } from "@chainlink/contracts/src/v0.8/interfaces/AggregatorV3Interface.sol";
+
+contract AggregatorV3Mock is AggregatorV3Interface {
+    uint8 public decimals;
+    string public description;
+    uint256 public constant version = 4;
+
+    uint80 public latestRound;
+    int256 public answer;
+    uint256 public updatedAt;
+
+    constructor(uint8 _decimals, string memory _description, int256 _answer) {
+        decimals = _decimals;
+        description = _description;
+        setAnswer(_answer);
+    }
+
+    function setAnswer(int256 _answer) public {
+        latestRound++;
+        answer = _answer;
+        updatedAt = block.timestamp;
+    }
+
+    function setUpdatedAt(uint256 _updatedAt) external {
+        updatedAt = _updatedAt;
+    }
+
+    function getRoundData(uint80 _roundId) external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (_roundId, answer, updatedAt, updatedAt, _roundId);
+    }
+
+    function latestRoundData() external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (latestRound, answer, updatedAt, updatedAt, latestRound);
+    }
+}
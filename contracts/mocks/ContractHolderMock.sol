@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import { ERC1155Holder } from "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+
+contract ContractHolderMock is ERC1155Holder {
+    function execute(address _target, bytes calldata _data) external {
+        (bool success, ) = _target.call(_data);
+        require(success, "Call failed");
+    }
+}
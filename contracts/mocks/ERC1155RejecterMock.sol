@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import { ContractHolderMock } from "./ContractHolderMock.sol";
+
+contract ERC1155RejecterMock is ContractHolderMock {
+    bool public reject;
+
+    function setReject(bool _reject) external {
+        reject = _reject;
+    }
+
+    function onERC1155Received(
+        address _operator,
+        address _from,
+        uint256 _id,
+        uint256 _value,
+        bytes memory _data
+    ) public override returns (bytes4) {
+        require(!reject, "ERC1155 rejected");
+        return super.onERC1155Received(_operator, _from, _id, _value, _data);
+    }
+}
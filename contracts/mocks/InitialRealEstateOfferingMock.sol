@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import { IInitialRealEstateOffering } from "../interfaces/IInitialRealEstateOffering.sol";
+
+contract InitialRealEstateOfferingMock is IInitialRealEstateOffering {
+    mapping(uint256 => uint256) public unclaimedUnits;
+
+    function setUnclaimedUnits(uint256 _realEstateId, uint256 _units) external {
+        unclaimedUnits[_realEstateId] = _units;
+    }
+}
@@ -13,4 +13,22 @@ contract RealEstateReservesMock is IRealEstateReserves {
         funds[_id][_currency] += _amount;
         IERC20(_currency).safeTransferFrom(msg.sender, address(this), _amount);
     }
+
+    function depositToBuffer(uint256 _id, Buffer, uint256 _amount, address _currency) external {
+        funds[_id][_currency] += _amount;
+        IERC20(_currency).safeTransferFrom(msg.sender, address(this), _amount);
+    }
+
+    function withdraw(uint256 _id, address _currency, uint256 _amount, address _to) external {
+        funds[_id][_currency] -= _amount;
+        IERC20(_currency).safeTransfer(_to, _amount);
+    }
+
+    function reserves(uint256 _id, address _currency) external view returns (uint256) {
+        return funds[_id][_currency];
+    }
+
+    function bufferBalance(uint256 _id, address _currency, Buffer) external view returns (uint256) {
+        return funds[_id][_currency];
+    }
 }
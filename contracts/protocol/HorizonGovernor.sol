@@ -0,0 +1,117 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import { Governor, IGovernor } from "@openzeppelin/contracts/governance/Governor.sol";
+import { GovernorCountingSimple } from "@openzeppelin/contracts/governance/extensions/GovernorCountingSimple.sol";
+import { GovernorSettings } from "@openzeppelin/contracts/governance/extensions/GovernorSettings.sol";
+import { GovernorTimelockControl } from "@openzeppelin/contracts/governance/extensions/GovernorTimelockControl.sol";
+import { GovernorVotes, IVotes } from "@openzeppelin/contracts/governance/extensions/GovernorVotes.sol";
+import { GovernorVotesQuorumFraction } from "@openzeppelin/contracts/governance/extensions/GovernorVotesQuorumFraction.sol";
+import { TimelockController } from "@openzeppelin/contracts/governance/TimelockController.sol";
+
+/// @title Horizon Governor
+/// @author Horizon DAO
+/// @notice On-chain governance of the Horizon DAO, voting with veSKY (see VoteEscrow)
+/// @dev Proposals are executed by the timelock, which should own the IRO and be the admin of the
+///     RealEstateERC1155 and SkyERC20 contracts
+/// @dev Follows the clock of the voting token: voting delay and period are expressed in seconds with veSKY
+contract HorizonGovernor is
+    Governor,
+    GovernorSettings,
+    GovernorCountingSimple,
+    GovernorVotes,
+    GovernorVotesQuorumFraction,
+    GovernorTimelockControl
+{
+    /// @dev Initialize HorizonGovernor contract
+    /// @param _token Voting token (veSKY)
+    /// @param _timelock Timelock executing the proposals
+    /// @param _votingDelay Delay between a proposal and the start of its vote
+    /// @param _votingPeriod Duration of the vote of a proposal
+    /// @param _proposalThreshold Voting power required to make a proposal
+    /// @param _quorumFraction Share of the total voting power required for a proposal to pass, in percent
+    constructor(
+        IVotes _token,
+        TimelockController _timelock,
+        uint256 _votingDelay,
+        uint256 _votingPeriod,
+        uint256 _proposalThreshold,
+        uint256 _quorumFraction
+    )
+        Governor("Horizon Governor")
+        GovernorSettings(_votingDelay, _votingPeriod, _proposalThreshold)
+        GovernorVotes(_token)
+        GovernorVotesQuorumFraction(_quorumFraction)
+        GovernorTimelockControl(_timelock)
+    {}
+
+    /// @inheritdoc GovernorSettings
+    function votingDelay() public view override(IGovernor, GovernorSettings) returns (uint256) {
+        return super.votingDelay();
+    }
+
+    /// @inheritdoc GovernorSettings
+    function votingPeriod() public view override(IGovernor, GovernorSettings) returns (uint256) {
+        return super.votingPeriod();
+    }
+
+    /// @inheritdoc GovernorVotesQuorumFraction
+    function quorum(uint256 _timepoint) public view override(IGovernor, GovernorVotesQuorumFraction) returns (uint256) {
+        return super.quorum(_timepoint);
+    }
+
+    /// @inheritdoc GovernorTimelockControl
+    function state(
+        uint256 _proposalId
+    ) public view override(Governor, GovernorTimelockControl) returns (ProposalState) {
+        return super.state(_proposalId);
+    }
+
+    /// @inheritdoc Governor
+    function propose(
+        address[] memory _targets,
+        uint256[] memory _values,
+        bytes[] memory _calldatas,
+        string memory _description
+    ) public override(Governor, IGovernor) returns (uint256) {
+        return super.propose(_targets, _values, _calldatas, _description);
+    }
+
+    /// @inheritdoc GovernorSettings
+    function proposalThreshold() public view override(Governor, GovernorSettings) returns (uint256) {
+        return super.proposalThreshold();
+    }
+
+    /// @inheritdoc GovernorTimelockControl
+    function supportsInterface(
+        bytes4 _interfaceId
+    ) public view override(Governor, GovernorTimelockControl) returns (bool) {
+        return super.supportsInterface(_interfaceId);
+    }
+
+    /// @inheritdoc GovernorTimelockControl
+    function _execute(
+        uint256 _proposalId,
+        address[] memory _targets,
+        uint256[] memory _values,
+        bytes[] memory _calldatas,
+        bytes32 _descriptionHash
+    ) internal override(Governor, GovernorTimelockControl) {
+        super._execute(_proposalId, _targets, _values, _calldatas, _descriptionHash);
+    }
+
+    /// @inheritdoc GovernorTimelockControl
+    function _cancel(
+        address[] memory _targets,
+        uint256[] memory _values,
+        bytes[] memory _calldatas,
+        bytes32 _descriptionHash
+    ) internal override(Governor, GovernorTimelockControl) returns (uint256) {
+        return super._cancel(_targets, _values, _calldatas, _descriptionHash);
+    }
+
+    /// @inheritdoc GovernorTimelockControl
+    function _executor() internal view override(Governor, GovernorTimelockControl) returns (address) {
+        return super._executor();
+    }
+}
@@ -4,11 +4,17 @@ pragma solidity ^0.8.17;
 import { OwnableUpgradeable } from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import { CountersUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/CountersUpgradeable.sol";
 import { BitMapsUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/structs/BitMapsUpgradeable.sol";
+import { MerkleProofUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/cryptography/MerkleProofUpgradeable.sol";
 import { UUPSUpgradeable } from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import { AddressUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/AddressUpgradeable.sol";
 import { SafeERC20Upgradeable } from "@openzeppelin/contracts-upgradeable/token/ERC20/utils/SafeERC20Upgradeable.sol";
 
 import { IERC20Upgradeable } from "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
 
+import { IERC20Extended } from "../interfaces/IERC20Extended.sol";
+import { IERC20SignaturePermit } from "../interfaces/IERC20SignaturePermit.sol";
+import { IInitialRealEstateOffering } from "../interfaces/IInitialRealEstateOffering.sol";
+import { IPriceOracle } from "../interfaces/IPriceOracle.sol";
 import { IRealEstateERC1155 } from "../interfaces/IRealEstateERC1155.sol";
 import { IRealEstateReserves } from "../interfaces/IRealEstateReserves.sol";
 
@@ -16,14 +22,18 @@ import { IRealEstateReserves } from "../interfaces/IRealEstateReserves.sol";
 /// @author Horizon DAO (Yuri Fernandes)
 /// @notice Used to run IROs, mint tokens to RealEstateNFT
 ///     and distribute funds
-contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
+contract InitialRealEstateOffering is IInitialRealEstateOffering, OwnableUpgradeable, UUPSUpgradeable {
     using SafeERC20Upgradeable for IERC20Upgradeable;
     using CountersUpgradeable for CountersUpgradeable.Counter;
     using BitMapsUpgradeable for BitMapsUpgradeable.BitMap;
+    using AddressUpgradeable for address payable;
 
     /// @dev Denominator used to calculate fees/shares
     uint16 public constant DENOMINATOR = 10000;
 
+    /// @dev Address representing native ETH in token commits
+    address public constant ETH = address(0);
+
     /// @dev IRO status enum
     /// @dev Status descriptions:
     ///     - PENDING: IRO hasn't started
@@ -51,6 +61,8 @@ contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
     ///     - targetFunding: Target funding for the IRO to be successful
     ///     - unitPrice: IRO price per token
     ///     - totalFunding: Total amount of funds collected during an IRO
+    ///     - minUnits: Minimum amount of IRO tokens per commit, unless buying all remaining tokens
+    ///     - maxUnitsPerWallet: Maximum amount of IRO tokens a wallet can purchase (zero for no cap)
     struct IRO {
         address listingOwner;
         uint64 start;
@@ -61,6 +73,17 @@ contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
         uint256 targetFunding;
         uint256 unitPrice;
         uint256 totalFunding;
+        uint256 minUnits;
+        uint256 maxUnitsPerWallet;
+    }
+
+    /// @dev IRO whitelist structure
+    /// @dev Field description:
+    ///     - root: Merkle root of the whitelisted addresses (see PioneerTree)
+    ///     - end: Whitelist end time, only whitelisted addresses can commit before it
+    struct Whitelist {
+        bytes32 root;
+        uint64 end;
     }
 
     /// @notice Currency address
@@ -90,6 +113,48 @@ contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
     /// @dev Whether an ID has already been set in the RealEstateNFT contract for the IRO
     BitMapsUpgradeable.BitMap private _realEstateIdSet;
 
+    /// @notice Maximum amount of IRO tokens a wallet can hold in commits across all IROs (zero for no cap)
+    uint256 public globalMaxUnitsPerWallet;
+
+    /// @dev mapping (user => amount of IRO tokens committed across IROs, excluding refunds)
+    mapping(address => uint256) public unitsCommitted;
+
+    /// @dev mapping (iroId => whitelist)
+    mapping(uint256 => Whitelist) private _whitelists;
+
+    /// @notice Price oracle used to convert whitelisted tokens to the IRO currency
+    IPriceOracle public priceOracle;
+
+    /// @notice Whether a token (or ETH) can be used to commit to IROs
+    mapping(address => bool) public isWhitelistedToken;
+
+    /// @dev mapping (iroId => user => token => amount paid in token)
+    mapping(uint256 => mapping(address => mapping(address => uint256))) public tokenCommits;
+
+    /// @dev mapping (iroId => user => value of the commits paid in whitelisted tokens, in the IRO currency)
+    mapping(uint256 => mapping(address => uint256)) public tokenCommitsValue;
+
+    /// @dev mapping (iroId => token => amount of token collected)
+    mapping(uint256 => mapping(address => uint256)) public tokenFunding;
+
+    /// @dev mapping (iroId => value of the funds collected in whitelisted tokens, in the IRO currency)
+    mapping(uint256 => uint256) public tokenFundingValue;
+
+    /// @dev mapping (iroId => whitelisted tokens collected)
+    mapping(uint256 => address[]) private _fundingTokens;
+
+    /// @notice RealEstateReserves contract receiving a share of the operation fee of successful IROs
+    IRealEstateReserves public reserves;
+
+    /// @notice Share of the operation fee routed to the real estate reserves on withdrawal, over DENOMINATOR
+    uint16 public reservesShare;
+
+    /// @dev mapping (iroId => token => reserves share withdrawn before the real estate ID was minted)
+    mapping(uint256 => mapping(address => uint256)) public pendingReserves;
+
+    /// @dev mapping (realEstateId => units committed to its IRO and not claimed yet)
+    mapping(uint256 => uint256) public unclaimedUnits;
+
     /// @dev Emitted when a new IRO is created
     event CreateIRO(
         uint256 indexed _iroId,
@@ -122,6 +187,30 @@ contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
     /// @dev Emitted when the Treasury contract is set
     event SetTreasury(address indexed _by, address indexed _treasury);
 
+    /// @dev Emitted when the global cap of IRO tokens per wallet is set
+    event SetGlobalMaxUnitsPerWallet(address indexed _by, uint256 _globalMaxUnitsPerWallet);
+
+    /// @dev Emitted when the whitelist of an IRO is set
+    event SetWhitelist(uint256 indexed _iroId, address indexed _by, bytes32 _root, uint64 _end);
+
+    /// @dev Emitted when the price oracle is set
+    event SetPriceOracle(address indexed _by, address indexed _priceOracle);
+
+    /// @dev Emitted when a token is added to or removed from the commit whitelist
+    event WhitelistToken(address indexed _by, address indexed _token, bool _whitelisted);
+
+    /// @dev Emitted when commits paid in a whitelisted token are refunded
+    event TokenCashBack(
+        uint256 indexed _iroId,
+        address indexed _by,
+        address indexed _to,
+        address _token,
+        uint256 _amount
+    );
+
+    /// @dev Emitted when the reserves or their share of the operation fee are set
+    event SetReserves(address indexed _by, address indexed _reserves, uint16 _reservesShare);
+
     /// @dev Emitted when a new real estate token ID is created
     event RealEstateCreated(uint256 indexed _iroId, uint256 indexed _realEstateId);
 
@@ -147,6 +236,8 @@ contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
         require(_realEstateNft != address(0), "!_realEstateNft");
         require(_treasury != address(0), "!_treasury");
         require(_currency != address(0), "!_currency");
+        __Ownable_init();
+        __UUPSUpgradeable_init();
         realEstateNft = IRealEstateERC1155(_realEstateNft);
         treasury = _treasury;
         currency = _currency;
@@ -169,6 +260,24 @@ contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
         emit SetTreasury(msg.sender, _treasury);
     }
 
+    /// @dev Set the reserves and the share of the operation fee routed to them
+    /// @param _reserves RealEstateReserves address
+    /// @param _reservesShare Share of the operation fee, over DENOMINATOR (zero to send it all to the treasury)
+    function setReserves(address _reserves, uint16 _reservesShare) external onlyOwner {
+        require(_reserves != address(0) || _reservesShare == 0, "!_reserves");
+        require(_reservesShare <= DENOMINATOR, "Invalid share");
+        reserves = IRealEstateReserves(_reserves);
+        reservesShare = _reservesShare;
+        emit SetReserves(msg.sender, _reserves, _reservesShare);
+    }
+
+    /// @dev Set the global cap of IRO tokens per wallet
+    /// @param _globalMaxUnitsPerWallet Maximum amount of IRO tokens a wallet can commit to across IROs (zero for no cap)
+    function setGlobalMaxUnitsPerWallet(uint256 _globalMaxUnitsPerWallet) external onlyOwner {
+        globalMaxUnitsPerWallet = _globalMaxUnitsPerWallet;
+        emit SetGlobalMaxUnitsPerWallet(msg.sender, _globalMaxUnitsPerWallet);
+    }
+
     /// @dev Create new IRO
     /// @param _listingOwner Listing owner address
     /// @param _treasuryFee Treasury fee in absolute value
@@ -177,6 +286,8 @@ contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
     /// @param _assetPrice Price of the asset
     /// @param _unitPrice Price per unit of IRO token in the IRO currency
     /// @param _startOffset Time before IRO begins
+    /// @param _minUnits Minimum amount of IRO tokens per commit
+    /// @param _maxUnitsPerWallet Maximum amount of IRO tokens per wallet (zero for no cap)
     function createIRO(
         address _listingOwner,
         uint256 _treasuryFee,
@@ -184,13 +295,19 @@ contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
         uint64 _duration,
         uint256 _assetPrice,
         uint256 _unitPrice,
-        uint64 _startOffset
+        uint64 _startOffset,
+        uint256 _minUnits,
+        uint256 _maxUnitsPerWallet
     ) external onlyOwner {
         uint256 targetFunding = _assetPrice + _operationFee + _treasuryFee;
         require(
             (targetFunding / _unitPrice) * _unitPrice == targetFunding,
             "Target funding should be divisible by unit price"
         );
+        require(
+            _maxUnitsPerWallet == 0 || _minUnits <= _maxUnitsPerWallet,
+            "Minimum units should not exceed maximum units per wallet"
+        );
 
         uint256 currentId = iroLength();
         uint64 start_ = now64() + _startOffset;
@@ -204,35 +321,115 @@ contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
             operationFee: _operationFee,
             targetFunding: targetFunding,
             unitPrice: _unitPrice,
-            totalFunding: 0
+            totalFunding: 0,
+            minUnits: _minUnits,
+            maxUnitsPerWallet: _maxUnitsPerWallet
         });
         _nextAvailableId.increment();
 
         emit CreateIRO(currentId, _listingOwner, currency, start_, end_, _unitPrice, targetFunding);
     }
 
+    /// @dev Set the price oracle
+    /// @param _priceOracle PriceOracle address
+    function setPriceOracle(address _priceOracle) external onlyOwner {
+        require(_priceOracle != address(0), "!_priceOracle");
+        priceOracle = IPriceOracle(_priceOracle);
+        emit SetPriceOracle(msg.sender, _priceOracle);
+    }
+
+    /// @dev Add or remove a token from the commit whitelist
+    /// @param _token Token address (ETH for native ETH)
+    /// @param _whitelisted Whether the token can be used to commit
+    function whitelistToken(address _token, bool _whitelisted) external onlyOwner {
+        isWhitelistedToken[_token] = _whitelisted;
+        emit WhitelistToken(msg.sender, _token, _whitelisted);
+    }
+
+    /// @dev Set the whitelist of an IRO, only whitelisted addresses can commit
+    ///     from the IRO start until the whitelist end
+    /// @param _iroId ID of the IRO
+    /// @param _root Merkle root of the whitelisted addresses (zero to remove the whitelist)
+    /// @param _end Whitelist end time
+    function setWhitelist(uint256 _iroId, bytes32 _root, uint64 _end) external onlyOwner {
+        IRO memory iro = getIRO(_iroId);
+        require(_getStatus(iro) <= Status.FUNDING, "IRO finished");
+        require(_end <= iro.end, "Whitelist should end before the IRO");
+        _whitelists[_iroId] = Whitelist({ root: _root, end: _end });
+        emit SetWhitelist(_iroId, msg.sender, _root, _end);
+    }
+
     /// @notice Commit to an IRO
     /// @param _iroId ID of the IRO
     /// @param _amountToPurchase Amount of IRO tokens to purchase
     function commit(uint256 _iroId, uint256 _amountToPurchase) external {
-        require(_amountToPurchase > 0, "_amountToPurchase should be greater than zero");
-        IRO memory iro = getIRO(_iroId);
-        require(_getStatus(iro) == Status.FUNDING, "IRO is not active");
-        require(iro.totalFunding + _amountToPurchase * iro.unitPrice <= iro.targetFunding, "Target funding reached");
+        _commit(_iroId, _amountToPurchase, new bytes32[](0), getIRO(_iroId).currency, type(uint256).max);
+    }
 
-        uint256 valueInBase = _processPayment(iro.unitPrice, _amountToPurchase, iro.currency);
+    /// @notice Commit to an IRO during its whitelist phase
+    /// @param _iroId ID of the IRO
+    /// @param _amountToPurchase Amount of IRO tokens to purchase
+    /// @param _proof Merkle proof of msg.sender in the IRO whitelist
+    function commitWhitelisted(uint256 _iroId, uint256 _amountToPurchase, bytes32[] memory _proof) external {
+        _commit(_iroId, _amountToPurchase, _proof, getIRO(_iroId).currency, type(uint256).max);
+    }
 
-        commits[_iroId][msg.sender] += valueInBase;
-        _iros[_iroId].totalFunding += valueInBase;
+    /// @notice Commit to an IRO paying with a whitelisted token (or ETH), converted to the IRO currency
+    ///     through the price oracle
+    /// @dev Excess ETH is sent back
+    /// @param _iroId ID of the IRO
+    /// @param _amountToPurchase Amount of IRO tokens to purchase
+    /// @param _token Payment token (ETH for native ETH)
+    /// @param _maxAmountIn Maximum amount of token to pay, protects against slippage (see quote)
+    /// @param _proof Merkle proof of msg.sender in the IRO whitelist (only checked during the whitelist phase)
+    function commitWithToken(
+        uint256 _iroId,
+        uint256 _amountToPurchase,
+        address _token,
+        uint256 _maxAmountIn,
+        bytes32[] memory _proof
+    ) external payable {
+        _commit(_iroId, _amountToPurchase, _proof, _token, _maxAmountIn);
+    }
 
-        emit Commit(_iroId, msg.sender, iro.currency, valueInBase, _amountToPurchase);
+    /// @notice Commit to an IRO, approving the payment through an EIP-712 signed permit
+    /// @dev IRO currency should implement IERC20SignaturePermit (see ERC20Permit)
+    /// @param _iroId ID of the IRO
+    /// @param _amountToPurchase Amount of IRO tokens to purchase
+    /// @param _deadline Permit validity
+    /// @param _signature Permit signature of msg.sender, allowing this contract to spend the purchase price
+    function commitWithPermit(
+        uint256 _iroId,
+        uint256 _amountToPurchase,
+        uint256 _deadline,
+        bytes memory _signature
+    ) external {
+        _permit(_iroId, _amountToPurchase, _deadline, _signature);
+        _commit(_iroId, _amountToPurchase, new bytes32[](0), getIRO(_iroId).currency, type(uint256).max);
+    }
+
+    /// @notice Commit to an IRO during its whitelist phase, approving the payment through an EIP-712 signed permit
+    /// @param _iroId ID of the IRO
+    /// @param _amountToPurchase Amount of IRO tokens to purchase
+    /// @param _deadline Permit validity
+    /// @param _signature Permit signature of msg.sender, allowing this contract to spend the purchase price
+    /// @param _proof Merkle proof of msg.sender in the IRO whitelist
+    function commitWithPermitWhitelisted(
+        uint256 _iroId,
+        uint256 _amountToPurchase,
+        uint256 _deadline,
+        bytes memory _signature,
+        bytes32[] memory _proof
+    ) external {
+        _permit(_iroId, _amountToPurchase, _deadline, _signature);
+        _commit(_iroId, _amountToPurchase, _proof, getIRO(_iroId).currency, type(uint256).max);
     }
 
     /// @dev Enable receiving ETH
     receive() external payable {}
 
     /// @notice Claim purchased tokens when IRO successful or
-    ///     get back commit amount in base currency if IRO failed
+    ///     get back commit amount in base currency (and whitelisted tokens paid) if IRO failed
     /// @param _iroId ID of the IRO
     /// @param _to Address to send the claimed tokens
     function claim(uint256 _iroId, address _to) external {
@@ -241,13 +438,26 @@ contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
         require(status > Status.FUNDING, "IRO not finished");
         uint256 commitAmount = commits[_iroId][msg.sender];
         require(commitAmount > 0, "Nothing to mint");
+        commits[_iroId][msg.sender] = 0;
         if (status == Status.SUCCESS) {
             uint256 amountToMint = commitAmount / iro.unitPrice;
-            realEstateNft.mint(_retrieveRealEstateId(_iroId), _to, amountToMint);
+            bool firstMint = !_realEstateIdSet.get(_iroId);
+            uint256 realEstateId_ = _retrieveRealEstateId(_iroId);
+            if (firstMint) unclaimedUnits[realEstateId_] = _calculateSupply(iro.totalFunding, iro.unitPrice);
+            // real estates minted before unclaimed units were tracked start at zero
+            uint256 unclaimed = unclaimedUnits[realEstateId_];
+            unclaimedUnits[realEstateId_] -= amountToMint < unclaimed ? amountToMint : unclaimed;
+            realEstateNft.mint(realEstateId_, _to, amountToMint);
+            if (firstMint && _fundsWithdrawn.get(_iroId)) _depositPendingReserves(_iroId, iro, realEstateId_);
             emit TokensClaimed(_iroId, msg.sender, _to, amountToMint);
         } else {
-            IERC20Upgradeable(currency).safeTransfer(_to, commitAmount);
-            commits[_iroId][msg.sender] = 0;
+            // commits made before wallet units were tracked are not accounted in unitsCommitted
+            uint256 units = commitAmount / iro.unitPrice;
+            unitsCommitted[msg.sender] -= units < unitsCommitted[msg.sender] ? units : unitsCommitted[msg.sender];
+            uint256 baseAmount = commitAmount - tokenCommitsValue[_iroId][msg.sender];
+            tokenCommitsValue[_iroId][msg.sender] = 0;
+            if (baseAmount > 0) IERC20Upgradeable(iro.currency).safeTransfer(_to, baseAmount);
+            _refundTokens(_iroId, _to);
             emit CashBack(_iroId, msg.sender, _to, commitAmount);
         }
     }
@@ -259,8 +469,8 @@ contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
         require(_getStatus(iro) == Status.SUCCESS, "IRO not successful");
         require(!_fundsWithdrawn.get(_iroId), "Already withdrawn");
 
-        uint256 listingOwnerAmount_ = _distributeFunds(iro);
         _fundsWithdrawn.set(_iroId);
+        uint256 listingOwnerAmount_ = _distributeFunds(_iroId, iro);
 
         emit FundsWithdrawn(_iroId, msg.sender, listingOwnerAmount_, iro.treasuryFee, iro.operationFee);
     }
@@ -308,6 +518,27 @@ contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
         return _amountToPurchase * iro.unitPrice;
     }
 
+    /// @notice Get the amount of a whitelisted token (or ETH) to pay for a purchase
+    /// @param _iroId ID of the IRO
+    /// @param _amountToPurchase Amount of IRO tokens to purchase
+    /// @param _token Payment token (ETH for native ETH)
+    function quote(uint256 _iroId, uint256 _amountToPurchase, address _token) public view returns (uint256) {
+        IRO memory iro = getIRO(_iroId);
+        uint256 value = _amountToPurchase * iro.unitPrice;
+        if (_token == iro.currency) return value;
+        require(address(priceOracle) != address(0), "Price oracle not set");
+        uint256 tokenPrice = priceOracle.getPrice(_token, iro.currency);
+        uint256 tokenUnit = 10 ** (_token == ETH ? 18 : IERC20Extended(_token).decimals());
+        // round up, in favor of the IRO
+        return (value * tokenUnit + tokenPrice - 1) / tokenPrice;
+    }
+
+    /// @notice Get the whitelisted tokens collected by an IRO
+    /// @param _iroId ID of the IRO
+    function fundingTokens(uint256 _iroId) external view returns (address[] memory) {
+        return _fundingTokens[_iroId];
+    }
+
     /// @notice Get the current total supply
     /// @param _iroId ID of the IRO
     function currentTotalSupply(uint256 _iroId) external view returns (uint256) {
@@ -329,6 +560,40 @@ contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
         return (iro.targetFunding - iro.totalFunding) / iro.unitPrice;
     }
 
+    /// @notice Whether funds from an IRO have been withdrawn
+    /// @param _iroId ID of the IRO
+    function fundsWithdrawn(uint256 _iroId) external view returns (bool) {
+        return _fundsWithdrawn.get(_iroId);
+    }
+
+    /// @notice Whether a real estate ID has been assigned to an IRO
+    /// @param _iroId ID of the IRO
+    function realEstateIdSet(uint256 _iroId) external view returns (bool) {
+        return _realEstateIdSet.get(_iroId);
+    }
+
+    /// @notice Get the whitelist of an IRO
+    /// @param _iroId ID of the IRO
+    function whitelist(uint256 _iroId) external view returns (Whitelist memory) {
+        return _whitelists[_iroId];
+    }
+
+    /// @notice Whether an IRO is in its whitelist phase
+    /// @param _iroId ID of the IRO
+    function isWhitelistPhase(uint256 _iroId) public view returns (bool) {
+        Whitelist memory whitelist_ = _whitelists[_iroId];
+        return whitelist_.root != bytes32(0) && now64() < whitelist_.end;
+    }
+
+    /// @notice Whether an account is whitelisted on an IRO
+    /// @param _iroId ID of the IRO
+    /// @param _account Account address
+    /// @param _proof Merkle proof of the account in the IRO whitelist
+    function isWhitelisted(uint256 _iroId, address _account, bytes32[] memory _proof) public view returns (bool) {
+        bytes32 leaf = keccak256(abi.encodePacked(_account));
+        return MerkleProofUpgradeable.verify(_proof, _whitelists[_iroId].root, leaf);
+    }
+
     /// @notice Get IRO status
     /// @param _iroId ID of the IRO
     function getStatus(uint256 _iroId) external view returns (Status) {
@@ -389,30 +654,199 @@ contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
         return Status.SUCCESS;
     }
 
+    /// @dev Commit to an IRO
+    /// @param _iroId ID of the IRO
+    /// @param _amountToPurchase Amount of IRO tokens to purchase
+    /// @param _proof Merkle proof of msg.sender in the IRO whitelist (only checked during the whitelist phase)
+    /// @param _token Payment token, the IRO currency or a whitelisted token
+    /// @param _maxAmountIn Maximum amount of token to pay
+    function _commit(
+        uint256 _iroId,
+        uint256 _amountToPurchase,
+        bytes32[] memory _proof,
+        address _token,
+        uint256 _maxAmountIn
+    ) private {
+        require(_amountToPurchase > 0, "_amountToPurchase should be greater than zero");
+        IRO memory iro = getIRO(_iroId);
+        require(_getStatus(iro) == Status.FUNDING, "IRO is not active");
+        require(!isWhitelistPhase(_iroId) || isWhitelisted(_iroId, msg.sender, _proof), "Not whitelisted");
+        require(iro.totalFunding + _amountToPurchase * iro.unitPrice <= iro.targetFunding, "Target funding reached");
+        require(
+            _amountToPurchase >= iro.minUnits ||
+                iro.totalFunding + _amountToPurchase * iro.unitPrice == iro.targetFunding,
+            "Below minimum units"
+        );
+        require(
+            iro.maxUnitsPerWallet == 0 ||
+                commits[_iroId][msg.sender] / iro.unitPrice + _amountToPurchase <= iro.maxUnitsPerWallet,
+            "Wallet cap reached"
+        );
+        uint256 unitsCommitted_ = unitsCommitted[msg.sender] + _amountToPurchase;
+        require(
+            globalMaxUnitsPerWallet == 0 || unitsCommitted_ <= globalMaxUnitsPerWallet,
+            "Global wallet cap reached"
+        );
+        unitsCommitted[msg.sender] = unitsCommitted_;
+
+        uint256 valueInBase = _amountToPurchase * iro.unitPrice;
+        commits[_iroId][msg.sender] += valueInBase;
+        _iros[_iroId].totalFunding += valueInBase;
+
+        uint256 amountIn = _processPayment(_iroId, _amountToPurchase, _token, _maxAmountIn);
+
+        emit Commit(_iroId, msg.sender, _token, amountIn, _amountToPurchase);
+    }
+
+    /// @dev Approve the purchase price of a commit through an EIP-712 signed permit
+    /// @dev IRO currency should implement IERC20SignaturePermit (see ERC20Permit)
+    /// @dev The permit can be front-run by anyone who saw the signature, consuming its nonce:
+    ///     the commit proceeds if the allowance was granted anyway
+    /// @param _iroId ID of the IRO
+    /// @param _amountToPurchase Amount of IRO tokens to purchase
+    /// @param _deadline Permit validity
+    /// @param _signature Permit signature of msg.sender, allowing this contract to spend the purchase price
+    function _permit(uint256 _iroId, uint256 _amountToPurchase, uint256 _deadline, bytes memory _signature) private {
+        IRO memory iro = getIRO(_iroId);
+        uint256 value = _amountToPurchase * iro.unitPrice;
+        try IERC20SignaturePermit(iro.currency).permit(msg.sender, address(this), value, _deadline, _signature) {
+            // allowance granted
+        } catch Error(string memory _reason) {
+            require(IERC20Upgradeable(iro.currency).allowance(msg.sender, address(this)) >= value, _reason);
+        }
+    }
+
     /// @dev Process commit payment
-    /// @param _unitPrice Unit price of the token
+    /// @param _iroId ID of the IRO
     /// @param _amountToPurchase Amount of tokens to purchase
-    /// @param _currency Payment currency address
+    /// @param _token Payment token, the IRO currency or a whitelisted token
+    /// @param _maxAmountIn Maximum amount of token to pay
+    /// @return amountIn Amount of token paid
     function _processPayment(
-        uint256 _unitPrice,
+        uint256 _iroId,
         uint256 _amountToPurchase,
-        address _currency
-    ) private returns (uint256 value) {
-        value = _amountToPurchase * _unitPrice;
-        IERC20Upgradeable(_currency).safeTransferFrom(msg.sender, address(this), value);
+        address _token,
+        uint256 _maxAmountIn
+    ) private returns (uint256 amountIn) {
+        IRO memory iro = _iros[_iroId];
+        require(_token == iro.currency || isWhitelistedToken[_token], "Token not whitelisted");
+        require(_token == ETH || msg.value == 0, "ETH not expected");
+        amountIn = quote(_iroId, _amountToPurchase, _token);
+        require(amountIn <= _maxAmountIn, "Slippage exceeded");
+
+        // account whitelisted token payments, to be refunded in the same token if the IRO fails
+        if (_token != iro.currency) {
+            uint256 value = _amountToPurchase * iro.unitPrice;
+            if (tokenFunding[_iroId][_token] == 0) _fundingTokens[_iroId].push(_token);
+            tokenCommits[_iroId][msg.sender][_token] += amountIn;
+            tokenCommitsValue[_iroId][msg.sender] += value;
+            tokenFunding[_iroId][_token] += amountIn;
+            tokenFundingValue[_iroId] += value;
+        }
+
+        if (_token == ETH) {
+            require(msg.value >= amountIn, "Insufficient ETH");
+            if (msg.value > amountIn) payable(msg.sender).sendValue(msg.value - amountIn);
+        } else {
+            IERC20Upgradeable(_token).safeTransferFrom(msg.sender, address(this), amountIn);
+        }
+    }
+
+    /// @dev Refund the whitelisted tokens paid by msg.sender to a failed IRO
+    /// @param _iroId ID of the IRO
+    /// @param _to Address to send the refunded tokens
+    function _refundTokens(uint256 _iroId, address _to) private {
+        address[] memory tokens = _fundingTokens[_iroId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            uint256 amount = tokenCommits[_iroId][msg.sender][tokens[i]];
+            if (amount == 0) continue;
+            tokenCommits[_iroId][msg.sender][tokens[i]] = 0;
+            _transferOut(tokens[i], _to, amount);
+            emit TokenCashBack(_iroId, msg.sender, _to, tokens[i], amount);
+        }
+    }
+
+    /// @dev Transfer a token (or ETH) out of the contract
+    /// @param _token Token address (ETH for native ETH)
+    /// @param _to Receiver address
+    /// @param _amount Amount to transfer
+    function _transferOut(address _token, address _to, uint256 _amount) private {
+        if (_token == ETH) payable(_to).sendValue(_amount);
+        else IERC20Upgradeable(_token).safeTransfer(_to, _amount);
     }
 
     /// @dev Distribute funds during IRO withdrawal
+    /// @dev Funds collected in whitelisted tokens are split in the same proportion as the IRO currency
+    /// @param _iroId ID of the IRO
     /// @param _iro IRO instance
-
-    function _distributeFunds(IRO memory _iro) private returns (uint256 listingOwnerAmount_) {
-        // transfer treasury and operation fee
+    /// @return listingOwnerAmount_ Value sent to the listing owner, in the IRO currency
+    function _distributeFunds(uint256 _iroId, IRO memory _iro) private returns (uint256 listingOwnerAmount_) {
         uint256 treasuryAmount = _iro.treasuryFee + _iro.operationFee;
-        IERC20Upgradeable(_iro.currency).safeTransfer(treasury, treasuryAmount);
-
-        // transfer listing owner funds
         listingOwnerAmount_ = _iro.targetFunding - treasuryAmount;
-        IERC20Upgradeable(_iro.currency).safeTransfer(treasury, listingOwnerAmount_);
+
+        // transfer treasury and operation fee, reserves share of the operation fee, and listing owner funds
+        _splitFunds(_iroId, _iro, _iro.currency, _iro.targetFunding - tokenFundingValue[_iroId]);
+        address[] memory tokens = _fundingTokens[_iroId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            _splitFunds(_iroId, _iro, tokens[i], tokenFunding[_iroId][tokens[i]]);
+        }
+    }
+
+    /// @dev Split an amount of token between the treasury (treasury and operation fees) and the listing owner
+    /// @dev The reserves share of the operation fee is deposited to the real estate reserves,
+    ///     except for ETH which the reserves do not hold. It is kept pending until the first claim
+    ///     if the real estate ID has not been minted yet
+    /// @param _iroId ID of the IRO
+    /// @param _iro IRO instance
+    /// @param _token Token address (ETH for native ETH)
+    /// @param _amount Amount to split
+    function _splitFunds(uint256 _iroId, IRO memory _iro, address _token, uint256 _amount) private {
+        uint256 treasuryAmount = (_amount * (_iro.treasuryFee + _iro.operationFee)) / _iro.targetFunding;
+        uint256 reservesAmount = _token == ETH
+            ? 0
+            : (_amount * _iro.operationFee * reservesShare) / (_iro.targetFunding * DENOMINATOR);
+        if (reservesAmount > 0) {
+            if (_realEstateIdSet.get(_iroId)) _depositReserves(realEstateId[_iroId], _token, reservesAmount);
+            else pendingReserves[_iroId][_token] = reservesAmount;
+        }
+        if (treasuryAmount > reservesAmount) _transferOut(_token, treasury, treasuryAmount - reservesAmount);
+        if (_amount > treasuryAmount) _transferOut(_token, _iro.listingOwner, _amount - treasuryAmount);
+    }
+
+    /// @dev Deposit the reserves share withdrawn before the first claim, once the real estate ID is minted
+    /// @param _iroId ID of the IRO
+    /// @param _iro IRO instance
+    /// @param _realEstateId ID of the real estate
+    function _depositPendingReserves(uint256 _iroId, IRO memory _iro, uint256 _realEstateId) private {
+        _depositPendingTokenReserves(_iroId, _iro.currency, _realEstateId);
+        address[] memory tokens = _fundingTokens[_iroId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            _depositPendingTokenReserves(_iroId, tokens[i], _realEstateId);
+        }
+    }
+
+    /// @dev Deposit the pending reserves of an IRO in a token
+    /// @param _iroId ID of the IRO
+    /// @param _token Token address
+    /// @param _realEstateId ID of the real estate
+    function _depositPendingTokenReserves(uint256 _iroId, address _token, uint256 _realEstateId) private {
+        uint256 amount = pendingReserves[_iroId][_token];
+        if (amount == 0) return;
+        pendingReserves[_iroId][_token] = 0;
+        _depositReserves(_realEstateId, _token, amount);
+    }
+
+    /// @dev Deposit to the real estate reserves, or send to the treasury if the reserves have been unset
+    /// @param _realEstateId ID of the real estate
+    /// @param _token Token address
+    /// @param _amount Amount to deposit
+    function _depositReserves(uint256 _realEstateId, address _token, uint256 _amount) private {
+        if (address(reserves) == address(0)) {
+            _transferOut(_token, treasury, _amount);
+            return;
+        }
+        IERC20Upgradeable(_token).safeApprove(address(reserves), _amount);
+        reserves.deposit(_realEstateId, _amount, _token);
     }
 
     /**
@@ -420,5 +854,5 @@ contract InitialRealEstateOffering is OwnableUpgradeable, UUPSUpgradeable {
      * variables without shifting down storage in the inheritance chain.
      * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
      */
-    uint256[41] private __gap;
+    uint256[28] private __gap;
 }
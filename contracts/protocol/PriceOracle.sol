@@ -0,0 +1,134 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { AggregatorV3Interface } from "@chainlink/contracts/src/v0.8/interfaces/AggregatorV3Interface.sol";
+import { IERC20Extended } from "../interfaces/IERC20Extended.sol";
+import { IPriceOracle } from "../interfaces/IPriceOracle.sol";
+
+/// @title Price Oracle
+/// @author Horizon DAO
+/// @notice Quotes token prices through Chainlink aggregators
+/// @dev Native ETH is represented by the zero address
+/// @dev A base/quote pair is priced, in order of preference, through:
+///     - its own aggregator
+///     - the quote/base aggregator (inverse pair)
+///     - an intermediate currency set as its route (derived pair), where each leg
+///         can be either a direct or an inverse pair
+contract PriceOracle is IPriceOracle, Ownable {
+    /// @dev Decimals of native ETH
+    uint8 public constant ETH_DECIMALS = 18;
+
+    /// @dev Precision used for intermediate price calculations
+    uint256 public constant PRECISION = 1e18;
+
+    /// @dev Default maximum age of aggregator answers
+    uint256 public constant DEFAULT_MAX_DELAY = 1 days;
+
+    /// @notice Maximum age of aggregator answers, older answers are considered stale
+    uint256 public maxDelay;
+
+    /// @dev mapping (base => quote => aggregator)
+    mapping(address => mapping(address => AggregatorV3Interface)) private _aggregators;
+
+    /// @notice mapping (base => quote => intermediate currency used to derive the pair price)
+    mapping(address => mapping(address => address)) public routes;
+
+    /// @notice mapping (base => quote => whether a route has been set for the pair)
+    mapping(address => mapping(address => bool)) public hasRoute;
+
+    /// @dev Emitted when a price aggregator is set
+    event SetAggregator(address indexed _by, address indexed _base, address indexed _quote, address _aggregator);
+
+    /// @dev Emitted when the route of a derived pair is set
+    event SetRoute(address indexed _by, address indexed _base, address indexed _quote, address _via);
+
+    /// @dev Emitted when the maximum age of aggregator answers is set
+    event SetMaxDelay(address indexed _by, uint256 _maxDelay);
+
+    /// @dev Initialize PriceOracle contract
+    /// @param _owner Address allowed to set price aggregators
+    constructor(address _owner) {
+        maxDelay = DEFAULT_MAX_DELAY;
+        _transferOwnership(_owner);
+    }
+
+    /// @inheritdoc IPriceOracle
+    function setAggregator(address _base, address _quote, address _aggregator) external onlyOwner {
+        _aggregators[_base][_quote] = AggregatorV3Interface(_aggregator);
+        emit SetAggregator(msg.sender, _base, _quote, _aggregator);
+    }
+
+    /// @dev Derive the price of a pair through an intermediate currency
+    /// @param _base Base currency address
+    /// @param _quote Quote currency address
+    /// @param _via Intermediate currency address
+    /// @param _enabled Whether to set or remove the route
+    function setRoute(address _base, address _quote, address _via, bool _enabled) external onlyOwner {
+        require(_via != _base && _via != _quote, "Invalid route");
+        routes[_base][_quote] = _enabled ? _via : address(0);
+        hasRoute[_base][_quote] = _enabled;
+        emit SetRoute(msg.sender, _base, _quote, _enabled ? _via : address(0));
+    }
+
+    /// @dev Set the maximum age of aggregator answers
+    /// @param _maxDelay Maximum age in seconds
+    function setMaxDelay(uint256 _maxDelay) external onlyOwner {
+        require(_maxDelay > 0, "!_maxDelay");
+        maxDelay = _maxDelay;
+        emit SetMaxDelay(msg.sender, _maxDelay);
+    }
+
+    /// @inheritdoc IPriceOracle
+    function priceAggregator(address _base, address _quote) external view returns (AggregatorV3Interface) {
+        return _aggregators[_base][_quote];
+    }
+
+    /// @inheritdoc IPriceOracle
+    /// @dev Price of a whole `_base` unit, with `_quote` decimals
+    function getPrice(address _base, address _quote) external view returns (uint256 basePrice) {
+        uint256 rate = _pairRate(_base, _quote);
+        if (rate == 0 && hasRoute[_base][_quote]) {
+            address via = routes[_base][_quote];
+            uint256 baseRate = _pairRate(_base, via);
+            uint256 quoteRate = _pairRate(via, _quote);
+            if (baseRate != 0 && quoteRate != 0) rate = (baseRate * quoteRate) / PRECISION;
+        }
+        require(rate != 0, "Aggregator not set");
+        basePrice = (rate * 10 ** decimals(_quote)) / PRECISION;
+    }
+
+    /// @notice Get the decimals of a currency
+    /// @param _currency Currency address (zero address for native ETH)
+    function decimals(address _currency) public view returns (uint8) {
+        if (_currency == address(0)) return ETH_DECIMALS;
+        return IERC20Extended(_currency).decimals();
+    }
+
+    /// @dev Get the rate of a pair through its aggregator or the inverse pair aggregator
+    /// @param _base Base currency address
+    /// @param _quote Quote currency address
+    /// @return Amount of `_quote` per `_base`, with PRECISION (zero if the pair has no aggregator)
+    function _pairRate(address _base, address _quote) internal view returns (uint256) {
+        if (_base == _quote) return PRECISION;
+        AggregatorV3Interface aggregator = _aggregators[_base][_quote];
+        if (address(aggregator) != address(0)) {
+            return (_latestAnswer(aggregator) * PRECISION) / 10 ** aggregator.decimals();
+        }
+        aggregator = _aggregators[_quote][_base];
+        if (address(aggregator) != address(0)) {
+            return (10 ** aggregator.decimals() * PRECISION) / _latestAnswer(aggregator);
+        }
+        return 0;
+    }
+
+    /// @dev Get the latest answer of an aggregator, checking it is valid and not stale
+    /// @param _aggregator Chainlink aggregator
+    function _latestAnswer(AggregatorV3Interface _aggregator) internal view returns (uint256) {
+        (uint80 roundId, int256 answer, , uint256 updatedAt, uint80 answeredInRound) = _aggregator.latestRoundData();
+        require(answer > 0, "Invalid price");
+        require(updatedAt != 0 && answeredInRound >= roundId, "Incomplete round");
+        require(block.timestamp - updatedAt <= maxDelay, "Stale price");
+        return uint256(answer);
+    }
+}
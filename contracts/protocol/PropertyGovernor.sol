@@ -0,0 +1,333 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { IERC1155 } from "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import { Address } from "@openzeppelin/contracts/utils/Address.sol";
+import { Arrays } from "@openzeppelin/contracts/utils/Arrays.sol";
+import { IPropertyGovernor } from "../interfaces/IPropertyGovernor.sol";
+import { IRealEstateERC1155 } from "../interfaces/IRealEstateERC1155.sol";
+
+/// @title Property Governor
+/// @author Horizon DAO
+/// @notice Lets the holders of a reNFT vote on the decisions about its property (sale, repairs, property manager)
+/// @dev Voting weight is the balance of the token ID at the end of the block before the proposal was created,
+///     recorded by the RealEstateERC1155 contract before the first transfer of each block (see updateSnapshots),
+///     so units received in the block of the proposal can neither make it nor vote on it
+/// @dev A succeeded proposal can execute a call allowed by the owner, whose first argument is the token ID
+///     (e.g. RealEstateRedemption.openRedemption), this contract should hold the role required by the call
+contract PropertyGovernor is IPropertyGovernor, Ownable {
+    using Address for address;
+    using Arrays for uint256[];
+
+    /// @dev States of a proposal
+    enum ProposalState {
+        Active,
+        Defeated,
+        Succeeded,
+        Executed
+    }
+
+    /// @dev Vote types
+    enum VoteType {
+        Against,
+        For,
+        Abstain
+    }
+
+    /// @dev Structure of a proposal
+    ///     - id: token ID of the property
+    ///     - proposer: address of the proposer
+    ///     - snapshotBlock: block at the end of which the balances voting on the proposal are taken
+    ///     - voteEnd: end of the vote
+    ///     - quorum: quorum of the proposal, set at its creation
+    ///     - target: contract called when the proposal is executed, zero address if none
+    ///     - data: calldata of the call
+    ///     - forVotes, againstVotes, abstainVotes: votes cast
+    ///     - executed: whether the proposal was executed
+    struct Proposal {
+        uint256 id;
+        address proposer;
+        uint256 snapshotBlock;
+        uint256 voteEnd;
+        uint16 quorum;
+        address target;
+        bytes data;
+        uint256 forVotes;
+        uint256 againstVotes;
+        uint256 abstainVotes;
+        bool executed;
+    }
+
+    /// @dev Values recorded before the first change of each block
+    struct Snapshots {
+        uint256[] blocks;
+        uint256[] values;
+    }
+
+    /// @dev Denominator of the quorum and proposal threshold
+    uint16 public constant DENOMINATOR = 10000;
+
+    /// @dev RealEstateERC1155 contract
+    IRealEstateERC1155 public immutable realEstateNft;
+
+    /// @notice Duration of the vote of a proposal
+    uint256 public votingPeriod;
+
+    /// @notice Share of the units that should vote for a new proposal to pass, over DENOMINATOR
+    uint16 public quorum;
+
+    /// @notice Share of the units required to make a proposal, over DENOMINATOR
+    uint16 public proposalThreshold;
+
+    /// @notice mapping (target => selector => allowed), calls proposals can execute
+    mapping(address => mapping(bytes4 => bool)) public allowedActions;
+
+    /// @notice mapping (proposalId => account => voted)
+    mapping(uint256 => mapping(address => bool)) public hasVoted;
+
+    /// @dev Proposals
+    Proposal[] private _proposals;
+
+    /// @dev mapping (tokenId => account => balance snapshots)
+    mapping(uint256 => mapping(address => Snapshots)) private _balanceSnapshots;
+
+    /// @dev mapping (tokenId => total supply snapshots)
+    mapping(uint256 => Snapshots) private _totalSupplySnapshots;
+
+    /// @dev Emitted when the voting period is set
+    event SetVotingPeriod(address indexed _by, uint256 _votingPeriod);
+
+    /// @dev Emitted when the quorum is set
+    event SetQuorum(address indexed _by, uint16 _quorum);
+
+    /// @dev Emitted when the proposal threshold is set
+    event SetProposalThreshold(address indexed _by, uint16 _proposalThreshold);
+
+    /// @dev Emitted when a call is allowed or disallowed to proposals
+    event SetAllowedAction(address indexed _by, address indexed _target, bytes4 indexed _selector, bool _allowed);
+
+    /// @dev Emitted when a proposal is created
+    event ProposalCreated(
+        uint256 indexed _proposalId,
+        uint256 indexed _id,
+        address indexed _proposer,
+        uint256 _snapshotBlock,
+        uint256 _voteEnd,
+        address _target,
+        bytes _data,
+        string _description
+    );
+
+    /// @dev Emitted when a vote is cast
+    event VoteCast(uint256 indexed _proposalId, address indexed _voter, VoteType _support, uint256 _weight);
+
+    /// @dev Emitted when a proposal is executed
+    event ProposalExecuted(uint256 indexed _proposalId, address indexed _by);
+
+    /// @dev Initialize PropertyGovernor contract
+    /// @param _owner Address allowed to set the voting rules and the allowed actions (DAO)
+    /// @param _realEstateNft RealEstateERC1155 contract address
+    /// @param _votingPeriod Duration of the vote of a proposal
+    /// @param _quorum Share of the units that should vote for a proposal to pass, over DENOMINATOR
+    /// @param _proposalThreshold Share of the units required to make a proposal, over DENOMINATOR
+    constructor(
+        address _owner,
+        address _realEstateNft,
+        uint256 _votingPeriod,
+        uint16 _quorum,
+        uint16 _proposalThreshold
+    ) {
+        require(_realEstateNft != address(0), "!_realEstateNft");
+        require(_votingPeriod > 0, "!_votingPeriod");
+        require(_quorum <= DENOMINATOR && _proposalThreshold <= DENOMINATOR, "Invalid share");
+        realEstateNft = IRealEstateERC1155(_realEstateNft);
+        votingPeriod = _votingPeriod;
+        quorum = _quorum;
+        proposalThreshold = _proposalThreshold;
+        _transferOwnership(_owner);
+    }
+
+    /// @dev Set the duration of the vote of new proposals
+    /// @param _votingPeriod Voting period
+    function setVotingPeriod(uint256 _votingPeriod) external onlyOwner {
+        require(_votingPeriod > 0, "!_votingPeriod");
+        votingPeriod = _votingPeriod;
+        emit SetVotingPeriod(msg.sender, _votingPeriod);
+    }
+
+    /// @dev Set the quorum of new proposals, running proposals keep the quorum they were created with
+    /// @param _quorum Share of the units, over DENOMINATOR
+    function setQuorum(uint16 _quorum) external onlyOwner {
+        require(_quorum <= DENOMINATOR, "Invalid share");
+        quorum = _quorum;
+        emit SetQuorum(msg.sender, _quorum);
+    }
+
+    /// @dev Set the share of the units required to make a proposal
+    /// @param _proposalThreshold Share of the units, over DENOMINATOR
+    function setProposalThreshold(uint16 _proposalThreshold) external onlyOwner {
+        require(_proposalThreshold <= DENOMINATOR, "Invalid share");
+        proposalThreshold = _proposalThreshold;
+        emit SetProposalThreshold(msg.sender, _proposalThreshold);
+    }
+
+    /// @dev Allow or disallow proposals to call a function
+    /// @param _target Contract address
+    /// @param _selector Function selector, the first argument of the function should be the token ID
+    /// @param _allowed Whether to allow the call or not
+    function setAllowedAction(address _target, bytes4 _selector, bool _allowed) external onlyOwner {
+        require(_target.isContract(), "!contract");
+        require(allowedActions[_target][_selector] != _allowed, "Same state");
+        allowedActions[_target][_selector] = _allowed;
+        emit SetAllowedAction(msg.sender, _target, _selector, _allowed);
+    }
+
+    /// @dev Record the balances and total supply before their first change of the block
+    /// @dev Called by the RealEstateERC1155 contract before each transfer, mint and burn
+    /// @param _ids Token IDs transferred
+    /// @param _from Origin account, zero address on mint
+    /// @param _to Destination account, zero address on burn
+    function updateSnapshots(uint256[] memory _ids, address _from, address _to) external {
+        require(msg.sender == address(realEstateNft), "!realEstateNft");
+        for (uint256 i = 0; i < _ids.length; i++) {
+            uint256 id = _ids[i];
+            if (_from == address(0) || _to == address(0)) {
+                _updateSnapshot(_totalSupplySnapshots[id], realEstateNft.totalSupply(id));
+            }
+            if (_from != address(0)) _updateSnapshot(_balanceSnapshots[id][_from], _balanceOf(id, _from));
+            if (_to != address(0)) _updateSnapshot(_balanceSnapshots[id][_to], _balanceOf(id, _to));
+        }
+    }
+
+    /// @notice Propose a decision about a property to its holders, voting with their balances of the previous block
+    /// @dev The proposal threshold is checked against the balance of the previous block as well
+    /// @param _id Token ID of the property
+    /// @param _target Contract to call if the proposal succeeds, zero address for a proposal without action
+    /// @param _data Calldata of the call, its first argument should be the token ID
+    /// @param _description Description of the proposal
+    /// @return proposalId ID of the proposal
+    function propose(
+        uint256 _id,
+        address _target,
+        bytes calldata _data,
+        string calldata _description
+    ) external returns (uint256 proposalId) {
+        uint256 snapshotBlock = block.number - 1;
+        uint256 totalSupply = totalSupplyAt(_id, snapshotBlock);
+        require(totalSupply > 0, "No units");
+        require(
+            balanceOfAt(_id, msg.sender, snapshotBlock) * DENOMINATOR >= totalSupply * proposalThreshold,
+            "Balance below proposal threshold"
+        );
+        if (_target != address(0)) {
+            require(_data.length >= 36 && allowedActions[_target][bytes4(_data[:4])], "Action not allowed");
+            require(abi.decode(_data[4:36], (uint256)) == _id, "Action on another property");
+        } else {
+            require(_data.length == 0, "!_target");
+        }
+
+        uint256 voteEnd = block.timestamp + votingPeriod;
+        proposalId = _proposals.length;
+        _proposals.push(Proposal(_id, msg.sender, snapshotBlock, voteEnd, quorum, _target, _data, 0, 0, 0, false));
+        emit ProposalCreated(proposalId, _id, msg.sender, snapshotBlock, voteEnd, _target, _data, _description);
+    }
+
+    /// @notice Vote on an active proposal with the balance held at the end of the block before its creation
+    /// @param _proposalId ID of the proposal
+    /// @param _support Vote type
+    function castVote(uint256 _proposalId, VoteType _support) external {
+        require(state(_proposalId) == ProposalState.Active, "Vote closed");
+        require(!hasVoted[_proposalId][msg.sender], "Already voted");
+        Proposal storage proposal = _proposals[_proposalId];
+        uint256 weight = balanceOfAt(proposal.id, msg.sender, proposal.snapshotBlock);
+        require(weight > 0, "No votes");
+        hasVoted[_proposalId][msg.sender] = true;
+        if (_support == VoteType.For) proposal.forVotes += weight;
+        else if (_support == VoteType.Against) proposal.againstVotes += weight;
+        else proposal.abstainVotes += weight;
+        emit VoteCast(_proposalId, msg.sender, _support, weight);
+    }
+
+    /// @notice Execute the action of a succeeded proposal
+    /// @param _proposalId ID of the proposal
+    function execute(uint256 _proposalId) external {
+        require(state(_proposalId) == ProposalState.Succeeded, "Proposal not successful");
+        Proposal storage proposal = _proposals[_proposalId];
+        require(proposal.target != address(0), "No action");
+        proposal.executed = true;
+        proposal.target.functionCall(proposal.data);
+        emit ProposalExecuted(_proposalId, msg.sender);
+    }
+
+    /// @notice Get the amount of proposals
+    function proposalLength() external view returns (uint256) {
+        return _proposals.length;
+    }
+
+    /// @notice Get a proposal
+    /// @param _proposalId ID of the proposal
+    function getProposal(uint256 _proposalId) external view returns (Proposal memory) {
+        require(_proposalId < _proposals.length, "Invalid proposal");
+        return _proposals[_proposalId];
+    }
+
+    /// @notice Get the state of a proposal
+    /// @dev A proposal succeeds if the votes reach its quorum and more units voted for than against it
+    /// @param _proposalId ID of the proposal
+    function state(uint256 _proposalId) public view returns (ProposalState) {
+        require(_proposalId < _proposals.length, "Invalid proposal");
+        Proposal storage proposal = _proposals[_proposalId];
+        if (proposal.executed) return ProposalState.Executed;
+        if (block.timestamp <= proposal.voteEnd) return ProposalState.Active;
+        if (proposal.forVotes <= proposal.againstVotes) return ProposalState.Defeated;
+        uint256 votes = proposal.forVotes + proposal.againstVotes + proposal.abstainVotes;
+        uint256 totalSupply = totalSupplyAt(proposal.id, proposal.snapshotBlock);
+        if (votes * DENOMINATOR < totalSupply * proposal.quorum) return ProposalState.Defeated;
+        return ProposalState.Succeeded;
+    }
+
+    /// @notice Get the balance of an account at the end of a past block
+    /// @param _id Token ID
+    /// @param _account Account address
+    /// @param _blockNumber Block number
+    function balanceOfAt(uint256 _id, address _account, uint256 _blockNumber) public view returns (uint256) {
+        (bool snapshotted, uint256 value) = _valueAt(_balanceSnapshots[_id][_account], _blockNumber);
+        return snapshotted ? value : _balanceOf(_id, _account);
+    }
+
+    /// @notice Get the total supply of a token ID at the end of a past block
+    /// @param _id Token ID
+    /// @param _blockNumber Block number
+    function totalSupplyAt(uint256 _id, uint256 _blockNumber) public view returns (uint256) {
+        (bool snapshotted, uint256 value) = _valueAt(_totalSupplySnapshots[_id], _blockNumber);
+        return snapshotted ? value : realEstateNft.totalSupply(_id);
+    }
+
+    /// @dev Get the value at the end of a past block, if it changed since then
+    /// @param _snapshots Snapshots of the value
+    /// @param _blockNumber Block number
+    function _valueAt(Snapshots storage _snapshots, uint256 _blockNumber) private view returns (bool, uint256) {
+        require(_blockNumber < block.number, "Invalid snapshot");
+        uint256 index = _snapshots.blocks.findUpperBound(_blockNumber + 1);
+        if (index == _snapshots.blocks.length) return (false, 0);
+        return (true, _snapshots.values[index]);
+    }
+
+    /// @dev Record the current value for the current block, if not recorded yet
+    /// @param _snapshots Snapshots of the value
+    /// @param _value Current value
+    function _updateSnapshot(Snapshots storage _snapshots, uint256 _value) private {
+        uint256 length = _snapshots.blocks.length;
+        if (length > 0 && _snapshots.blocks[length - 1] == block.number) return;
+        _snapshots.blocks.push(block.number);
+        _snapshots.values.push(_value);
+    }
+
+    /// @dev Get the balance of an account
+    /// @param _id Token ID
+    /// @param _account Account address
+    function _balanceOf(uint256 _id, address _account) private view returns (uint256) {
+        return IERC1155(address(realEstateNft)).balanceOf(_account, _id);
+    }
+}
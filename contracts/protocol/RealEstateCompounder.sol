@@ -0,0 +1,170 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { IERC20 } from "@openzeppelin/contracts/interfaces/IERC20.sol";
+import { IERC1155 } from "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import { ERC1155Holder } from "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { IRealEstateERC1155 } from "../interfaces/IRealEstateERC1155.sol";
+
+/// @title Real Estate Compounder
+/// @author Horizon DAO
+/// @notice Reinvests the yield of opted-in reNFT holders into additional units
+/// @dev Holds an inventory of units (e.g. bought from a secondary pool or a follow-on IRO tranche),
+///     sold at a price set by the owner to the accounts compounding their yield
+/// @dev Should be set as the compounder of the RealEstateERC1155 contract, to collect the yield
+///     (in yieldCurrency) of the opted-in accounts
+contract RealEstateCompounder is Ownable, ERC1155Holder {
+    using SafeERC20 for IERC20;
+
+    /// @dev Compounding progress of an account
+    struct CompoundingProgress {
+        bool enabled;
+        uint256 accruedYield;
+        uint256 unitPrice;
+        uint256 units;
+        uint256 missingForNextUnit;
+    }
+
+    /// @dev RealEstateERC1155 contract
+    IRealEstateERC1155 public immutable realEstateNft;
+
+    /// @dev Address receiving the payment of the units sold
+    address public treasury;
+
+    /// @notice mapping (tokenId => price of an unit, in yieldCurrency)
+    mapping(uint256 => uint256) public unitPrice;
+
+    /// @notice mapping (tokenId => account => whether its yield is compounded)
+    mapping(uint256 => mapping(address => bool)) public autoCompound;
+
+    /// @notice mapping (tokenId => account => yield collected and not yet spent on units)
+    mapping(uint256 => mapping(address => uint256)) public compoundBalance;
+
+    /// @dev Emitted when the treasury is set
+    event SetTreasury(address indexed _by, address indexed _treasury);
+
+    /// @dev Emitted when the unit price of a token ID is set
+    event SetUnitPrice(uint256 indexed _id, address indexed _by, uint256 _unitPrice);
+
+    /// @dev Emitted when an account enables or disables auto-compounding
+    event SetAutoCompound(uint256 indexed _id, address indexed _account, bool _enabled);
+
+    /// @dev Emitted when yield is compounded into units
+    event Compound(uint256 indexed _id, address indexed _account, uint256 _units, uint256 _cost);
+
+    /// @dev Emitted when the units bought by an account cannot be transferred to it, its yield is kept for later
+    event CompoundSkipped(uint256 indexed _id, address indexed _account, uint256 _units);
+
+    /// @dev Emitted when unspent yield is paid out to an account leaving auto-compounding
+    event Refund(uint256 indexed _id, address indexed _account, uint256 _amount);
+
+    /// @dev Initialize RealEstateCompounder contract
+    /// @param _owner Address allowed to set unit prices and withdraw units
+    /// @param _realEstateNft RealEstateERC1155 contract address
+    /// @param _treasury Address receiving the payment of the units sold
+    constructor(address _owner, address _realEstateNft, address _treasury) {
+        require(_realEstateNft != address(0), "!_realEstateNft");
+        require(_treasury != address(0), "!_treasury");
+        realEstateNft = IRealEstateERC1155(_realEstateNft);
+        treasury = _treasury;
+        _transferOwnership(_owner);
+    }
+
+    /// @dev Set the address receiving the payment of the units sold
+    /// @param _treasury Treasury address
+    function setTreasury(address _treasury) external onlyOwner {
+        require(_treasury != address(0), "!_treasury");
+        treasury = _treasury;
+        emit SetTreasury(msg.sender, _treasury);
+    }
+
+    /// @dev Set the price of the units of a token ID (zero to stop selling them)
+    /// @param _id Token ID
+    /// @param _unitPrice Price of an unit, in yieldCurrency
+    function setUnitPrice(uint256 _id, uint256 _unitPrice) external onlyOwner {
+        unitPrice[_id] = _unitPrice;
+        emit SetUnitPrice(_id, msg.sender, _unitPrice);
+    }
+
+    /// @dev Withdraw units from the inventory
+    /// @param _id Token ID
+    /// @param _amount Amount of units
+    /// @param _to Units receiver
+    function withdrawUnits(uint256 _id, uint256 _amount, address _to) external onlyOwner {
+        IERC1155(address(realEstateNft)).safeTransferFrom(address(this), _to, _id, _amount, bytes(""));
+    }
+
+    /// @dev Claim the yield of the units held in inventory to the treasury
+    /// @param _id Token ID
+    function claimInventoryYield(uint256 _id) external onlyOwner {
+        realEstateNft.claimYield(_id, treasury);
+    }
+
+    /// @notice Enable or disable auto-compounding of the yield of a token ID
+    /// @notice Disabling pays out the yield collected and not yet spent on units
+    /// @param _id Token ID
+    /// @param _enabled Whether to enable or disable auto-compounding
+    function setAutoCompound(uint256 _id, bool _enabled) external {
+        require(autoCompound[_id][msg.sender] != _enabled, "Same state");
+        autoCompound[_id][msg.sender] = _enabled;
+        emit SetAutoCompound(_id, msg.sender, _enabled);
+        uint256 balance = compoundBalance[_id][msg.sender];
+        if (_enabled || balance == 0) return;
+        compoundBalance[_id][msg.sender] = 0;
+        IERC20(realEstateNft.yieldCurrency()).safeTransfer(msg.sender, balance);
+        emit Refund(_id, msg.sender, balance);
+    }
+
+    /// @notice Collect the yield of opted-in accounts and buy them units from the inventory
+    /// @dev Accounts not opted in are skipped, yield not spent on units is kept for the next compounding
+    /// @dev Accounts rejecting the units (e.g. contracts not receiving ERC1155) are skipped as well,
+    ///     so that they cannot block the compounding of the other accounts
+    /// @param _id Token ID
+    /// @param _accounts Accounts to compound the yield of
+    function compound(uint256 _id, address[] calldata _accounts) external {
+        uint256 unitPrice_ = unitPrice[_id];
+        require(unitPrice_ > 0, "Unit price not set");
+        uint256 inventory = IERC1155(address(realEstateNft)).balanceOf(address(this), _id);
+        uint256 totalCost;
+        for (uint256 i = 0; i < _accounts.length; i++) {
+            address account = _accounts[i];
+            if (!autoCompound[_id][account]) continue;
+            uint256 balance = compoundBalance[_id][account] + realEstateNft.collectYield(_id, account);
+            uint256 units = balance / unitPrice_;
+            if (units > inventory) units = inventory;
+            uint256 cost = units * unitPrice_;
+            compoundBalance[_id][account] = balance - cost;
+            if (units == 0) continue;
+            try IERC1155(address(realEstateNft)).safeTransferFrom(address(this), account, _id, units, bytes("")) {
+                inventory -= units;
+                totalCost += cost;
+                emit Compound(_id, account, units, cost);
+            } catch {
+                compoundBalance[_id][account] += cost;
+                emit CompoundSkipped(_id, account, units);
+            }
+        }
+        if (totalCost > 0) IERC20(realEstateNft.yieldCurrency()).safeTransfer(treasury, totalCost);
+    }
+
+    /// @notice Get the auto-compounding progress of an account towards its next units
+    /// @param _id Token ID
+    /// @param _account Account address
+    function compoundingProgress(uint256 _id, address _account) external view returns (CompoundingProgress memory) {
+        bool enabled = autoCompound[_id][_account];
+        uint256 accruedYield = compoundBalance[_id][_account];
+        if (enabled) accruedYield += realEstateNft.pendingYield(_id, _account);
+        uint256 unitPrice_ = unitPrice[_id];
+        if (unitPrice_ == 0) return CompoundingProgress(enabled, accruedYield, 0, 0, 0);
+        return
+            CompoundingProgress(
+                enabled,
+                accruedYield,
+                unitPrice_,
+                accruedYield / unitPrice_,
+                unitPrice_ - (accruedYield % unitPrice_)
+            );
+    }
+}
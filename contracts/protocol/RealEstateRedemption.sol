@@ -0,0 +1,133 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { IERC20 } from "@openzeppelin/contracts/interfaces/IERC20.sol";
+import { IERC1155 } from "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import { ERC1155Holder } from "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { IInitialRealEstateOffering } from "../interfaces/IInitialRealEstateOffering.sol";
+import { IRealEstateERC1155 } from "../interfaces/IRealEstateERC1155.sol";
+import { IRealEstateReserves } from "../interfaces/IRealEstateReserves.sol";
+
+/// @title Real Estate Redemption
+/// @author Horizon DAO
+/// @notice Lets reNFT holders redeem their units for a pro-rata share of the sale proceeds of a property
+/// @dev Should be set as the burner of the RealEstateERC1155 contract and as the redemption module
+///     of the RealEstateReserves contract, where the sale proceeds are deposited to the proceeds buffer
+/// @dev Burning units pays out their pending yield, see RealEstateERC1155.burn
+contract RealEstateRedemption is Ownable, ERC1155Holder {
+    using SafeERC20 for IERC20;
+
+    /// @dev Structure of a redemption
+    ///     - currency: currency of the proceeds
+    ///     - funds: proceeds left to redeem
+    ///     - units: units left to redeem
+    ///     - open: whether holders can redeem their units
+    struct Redemption {
+        address currency;
+        uint256 funds;
+        uint256 units;
+        bool open;
+    }
+
+    /// @dev RealEstateERC1155 contract
+    IRealEstateERC1155 public immutable realEstateNft;
+
+    /// @dev RealEstateReserves contract, holding the sale proceeds
+    IRealEstateReserves public immutable reserves;
+
+    /// @dev InitialRealEstateOffering contract, holding the units not claimed yet
+    IInitialRealEstateOffering public immutable iro;
+
+    /// @notice mapping (tokenId => Redemption)
+    mapping(uint256 => Redemption) public redemptions;
+
+    /// @dev Emitted when a redemption is opened
+    event RedemptionOpened(
+        uint256 indexed _id,
+        address indexed _by,
+        address indexed _currency,
+        uint256 _funds,
+        uint256 _units
+    );
+
+    /// @dev Emitted when a redemption is closed
+    event RedemptionClosed(uint256 indexed _id, address indexed _by, uint256 _fundsLeft, uint256 _unitsLeft);
+
+    /// @dev Emitted when units are redeemed
+    event Redeem(uint256 indexed _id, address indexed _account, uint256 _units, uint256 _payout);
+
+    /// @dev Initialize RealEstateRedemption contract
+    /// @param _owner Address allowed to open and close redemptions (DAO)
+    /// @param _realEstateNft RealEstateERC1155 contract address
+    /// @param _reserves RealEstateReserves contract address
+    /// @param _iro InitialRealEstateOffering contract address
+    constructor(address _owner, address _realEstateNft, address _reserves, address _iro) {
+        require(_realEstateNft != address(0), "!_realEstateNft");
+        require(_reserves != address(0), "!_reserves");
+        require(_iro != address(0), "!_iro");
+        realEstateNft = IRealEstateERC1155(_realEstateNft);
+        reserves = IRealEstateReserves(_reserves);
+        iro = IInitialRealEstateOffering(_iro);
+        _transferOwnership(_owner);
+    }
+
+    /// @dev Open the redemption of a sold property, withdrawing its sale proceeds in a given currency
+    /// @dev Every unit in circulation can then be redeemed for the same share of the proceeds,
+    ///     the share of the units not claimed from the IRO yet is kept until they are claimed and redeemed
+    /// @param _id Token ID
+    /// @param _currency Currency of the proceeds
+    function openRedemption(uint256 _id, address _currency) external onlyOwner {
+        Redemption storage redemption = redemptions[_id];
+        require(!redemption.open, "Redemption open");
+        uint256 funds = reserves.bufferBalance(_id, _currency, IRealEstateReserves.Buffer.Proceeds);
+        require(funds > 0, "No proceeds");
+        uint256 units = realEstateNft.totalSupply(_id) + iro.unclaimedUnits(_id);
+        require(units > 0, "No units");
+        reserves.withdraw(_id, _currency, funds, address(this));
+        redemptions[_id] = Redemption(_currency, funds, units, true);
+        emit RedemptionOpened(_id, msg.sender, _currency, funds, units);
+    }
+
+    /// @dev Close the redemption of a property, returning the proceeds left to the proceeds buffer of its reserves
+    /// @param _id Token ID
+    function closeRedemption(uint256 _id) external onlyOwner {
+        Redemption storage redemption = redemptions[_id];
+        require(redemption.open, "Redemption closed");
+        uint256 funds = redemption.funds;
+        redemption.open = false;
+        redemption.funds = 0;
+        if (funds > 0) {
+            IERC20(redemption.currency).safeApprove(address(reserves), funds);
+            reserves.depositToBuffer(_id, IRealEstateReserves.Buffer.Proceeds, funds, redemption.currency);
+        }
+        emit RedemptionClosed(_id, msg.sender, funds, redemption.units);
+    }
+
+    /// @notice Redeem units for their share of the sale proceeds, their pending yield is paid out as well
+    /// @dev Units should be approved to this contract first
+    /// @param _id Token ID
+    /// @param _units Amount of units to redeem
+    function redeem(uint256 _id, uint256 _units) external {
+        Redemption storage redemption = redemptions[_id];
+        require(redemption.open, "Redemption closed");
+        require(_units > 0 && _units <= redemption.units, "Invalid units");
+        uint256 payout = previewRedeem(_id, _units);
+        redemption.funds -= payout;
+        redemption.units -= _units;
+        IERC1155(address(realEstateNft)).safeTransferFrom(msg.sender, address(this), _id, _units, bytes(""));
+        realEstateNft.burn(_id, msg.sender, _units);
+        IERC20(redemption.currency).safeTransfer(msg.sender, payout);
+        emit Redeem(_id, msg.sender, _units, payout);
+    }
+
+    /// @notice Get the proceeds paid out for redeeming units
+    /// @param _id Token ID
+    /// @param _units Amount of units to redeem
+    function previewRedeem(uint256 _id, uint256 _units) public view returns (uint256) {
+        Redemption memory redemption = redemptions[_id];
+        if (redemption.units == 0) return 0;
+        return (_units * redemption.funds) / redemption.units;
+    }
+}
@@ -0,0 +1,182 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { IERC20 } from "@openzeppelin/contracts/interfaces/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { IRealEstateReserves } from "../interfaces/IRealEstateReserves.sol";
+
+/// @title Real Estate Reserves
+/// @author Horizon DAO
+/// @notice Holds the maintenance and vacancy buffers and the sale proceeds of each real estate, in multiple currencies
+/// @dev The DAO releases the buffers to pay for expenses, the redemption module withdraws
+///     the proceeds of sold properties to pay out the reNFT holders
+contract RealEstateReserves is IRealEstateReserves, Ownable {
+    using SafeERC20 for IERC20;
+
+    /// @dev Denominator of the vacancy share
+    uint16 public constant DENOMINATOR = 10000;
+
+    /// @dev Address of the redemption module: Can withdraw the proceeds of sold properties
+    address public redemption;
+
+    /// @notice Share of the deposits allocated to the vacancy buffer, the rest going to the maintenance buffer
+    uint16 public vacancyShare;
+
+    /// @dev mapping (tokenId => currency => buffer => balance)
+    mapping(uint256 => mapping(address => mapping(Buffer => uint256))) private _buffers;
+
+    /// @dev mapping (tokenId => currencies ever deposited)
+    mapping(uint256 => address[]) private _currencies;
+
+    /// @dev Emitted when a new redemption module is set
+    event SetRedemption(address indexed _by, address indexed _redemption);
+
+    /// @dev Emitted when the vacancy share is set
+    event SetVacancyShare(address indexed _by, uint16 _vacancyShare);
+
+    /// @dev Emitted when funds are deposited to a buffer of a real estate
+    event Deposit(uint256 indexed _id, address indexed _by, address indexed _currency, Buffer _buffer, uint256 _amount);
+
+    /// @dev Emitted when funds of a buffer are released to pay for an expense of a real estate
+    event Release(
+        uint256 indexed _id,
+        address indexed _by,
+        address indexed _currency,
+        Buffer _buffer,
+        uint256 _amount,
+        address _to,
+        string _reason
+    );
+
+    /// @dev Emitted when the proceeds of a real estate are withdrawn
+    event Withdraw(uint256 indexed _id, address indexed _by, address indexed _currency, uint256 _amount, address _to);
+
+    /// @dev Initialize RealEstateReserves contract
+    /// @param _owner Address allowed to release funds and set the redemption module (DAO)
+    /// @param _vacancyShare Share of the deposits allocated to the vacancy buffer
+    constructor(address _owner, uint16 _vacancyShare) {
+        require(_vacancyShare <= DENOMINATOR, "Invalid share");
+        vacancyShare = _vacancyShare;
+        _transferOwnership(_owner);
+    }
+
+    /// @dev Set the redemption module
+    /// @param _redemption New redemption module address
+    function setRedemption(address _redemption) external onlyOwner {
+        require(redemption != _redemption, "Same redemption");
+        redemption = _redemption;
+        emit SetRedemption(msg.sender, _redemption);
+    }
+
+    /// @dev Set the share of the deposits allocated to the vacancy buffer
+    /// @param _vacancyShare New vacancy share
+    function setVacancyShare(uint16 _vacancyShare) external onlyOwner {
+        require(_vacancyShare <= DENOMINATOR, "Invalid share");
+        vacancyShare = _vacancyShare;
+        emit SetVacancyShare(msg.sender, _vacancyShare);
+    }
+
+    /// @notice Deposit funds to the reserves of a real estate, split between its maintenance and vacancy buffers
+    ///     by the vacancy share
+    /// @param _id Token ID
+    /// @param _amount Amount to deposit
+    /// @param _currency Currency of the funds
+    function deposit(uint256 _id, uint256 _amount, address _currency) external {
+        require(_amount > 0, "!_amount");
+        uint256 vacancyAmount = (_amount * vacancyShare) / DENOMINATOR;
+        if (_amount > vacancyAmount) _deposit(_id, Buffer.Maintenance, _amount - vacancyAmount, _currency);
+        if (vacancyAmount > 0) _deposit(_id, Buffer.Vacancy, vacancyAmount, _currency);
+        IERC20(_currency).safeTransferFrom(msg.sender, address(this), _amount);
+    }
+
+    /// @notice Deposit funds to a buffer of a real estate, the sale proceeds go to the proceeds buffer
+    /// @param _id Token ID
+    /// @param _buffer Buffer to deposit to
+    /// @param _amount Amount to deposit
+    /// @param _currency Currency of the funds
+    function depositToBuffer(uint256 _id, Buffer _buffer, uint256 _amount, address _currency) external {
+        require(_amount > 0, "!_amount");
+        _deposit(_id, _buffer, _amount, _currency);
+        IERC20(_currency).safeTransferFrom(msg.sender, address(this), _amount);
+    }
+
+    /// @dev Release funds of a buffer to pay for an expense of a real estate
+    /// @param _id Token ID
+    /// @param _buffer Buffer to release the funds from
+    /// @param _currency Currency of the funds
+    /// @param _amount Amount to release
+    /// @param _to Funds receiver
+    /// @param _reason Description of the expense
+    function release(
+        uint256 _id,
+        Buffer _buffer,
+        address _currency,
+        uint256 _amount,
+        address _to,
+        string calldata _reason
+    ) external onlyOwner {
+        require(bytes(_reason).length > 0, "!_reason");
+        require(_buffers[_id][_currency][_buffer] >= _amount, "Insufficient reserves");
+        _buffers[_id][_currency][_buffer] -= _amount;
+        IERC20(_currency).safeTransfer(_to, _amount);
+        emit Release(_id, msg.sender, _currency, _buffer, _amount, _to, _reason);
+    }
+
+    /// @dev Withdraw the sale proceeds of a real estate, its maintenance and vacancy buffers are left untouched
+    /// @dev Requires Redemption role
+    /// @param _id Token ID
+    /// @param _currency Currency of the funds
+    /// @param _amount Amount to withdraw
+    /// @param _to Funds receiver
+    function withdraw(uint256 _id, address _currency, uint256 _amount, address _to) external {
+        require(msg.sender == redemption, "!redemption");
+        require(_buffers[_id][_currency][Buffer.Proceeds] >= _amount, "Insufficient proceeds");
+        _buffers[_id][_currency][Buffer.Proceeds] -= _amount;
+        IERC20(_currency).safeTransfer(_to, _amount);
+        emit Withdraw(_id, msg.sender, _currency, _amount, _to);
+    }
+
+    /// @notice Get the reserves of a real estate in a currency, across its maintenance and vacancy buffers
+    /// @param _id Token ID
+    /// @param _currency Currency of the funds
+    function reserves(uint256 _id, address _currency) public view returns (uint256) {
+        return _buffers[_id][_currency][Buffer.Maintenance] + _buffers[_id][_currency][Buffer.Vacancy];
+    }
+
+    /// @notice Get the balance of a buffer of a real estate in a currency
+    /// @param _id Token ID
+    /// @param _currency Currency of the funds
+    /// @param _buffer Buffer
+    function bufferBalance(uint256 _id, address _currency, Buffer _buffer) external view returns (uint256) {
+        return _buffers[_id][_currency][_buffer];
+    }
+
+    /// @notice Get the currencies ever deposited to the reserves of a real estate
+    /// @param _id Token ID
+    function reserveCurrencies(uint256 _id) external view returns (address[] memory) {
+        return _currencies[_id];
+    }
+
+    /// @dev Credit a buffer of a real estate, registering the currency on its first deposit
+    /// @param _id Token ID
+    /// @param _buffer Buffer to credit
+    /// @param _amount Amount to credit
+    /// @param _currency Currency of the funds
+    function _deposit(uint256 _id, Buffer _buffer, uint256 _amount, address _currency) private {
+        if (!_hasCurrency(_id, _currency)) _currencies[_id].push(_currency);
+        _buffers[_id][_currency][_buffer] += _amount;
+        emit Deposit(_id, msg.sender, _currency, _buffer, _amount);
+    }
+
+    /// @dev Whether a currency has already been deposited to the reserves of a real estate
+    /// @param _id Token ID
+    /// @param _currency Currency of the funds
+    function _hasCurrency(uint256 _id, address _currency) private view returns (bool) {
+        address[] memory currencies = _currencies[_id];
+        for (uint256 i = 0; i < currencies.length; i++) {
+            if (currencies[i] == _currency) return true;
+        }
+        return false;
+    }
+}
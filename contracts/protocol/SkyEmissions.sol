@@ -0,0 +1,222 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { ISkyERC20 } from "../interfaces/ISkyERC20.sol";
+
+/// @title Sky Emissions
+/// @author Horizon DAO
+/// @notice Minter of the SKY tokens: releases the mintable supply according to a schedule of epochs with
+///     decaying rates and splits it between recipients (e.g. Vesting, treasury, IRO participant rewards)
+/// @dev The rate of an epoch is the rate of the previous one multiplied by decay / DENOMINATOR,
+///     emissions stop once SkyERC20.MAX_SUPPLY is reached
+/// @dev Anyone can distribute the emissions, they are also distributed before the schedule or the recipients change
+contract SkyEmissions is Ownable {
+    /// @dev Emissions schedule:
+    ///     - start: when the first epoch begins
+    ///     - epochDuration: duration of an epoch
+    ///     - initialRate: tokens emitted per second during the first epoch
+    ///     - decay: share of its rate an epoch keeps from the previous one, over DENOMINATOR
+    struct Schedule {
+        uint256 start;
+        uint256 epochDuration;
+        uint256 initialRate;
+        uint16 decay;
+    }
+
+    /// @dev Recipient of the emissions:
+    ///     - account: address receiving the tokens
+    ///     - share: share of the emissions, over DENOMINATOR
+    struct Recipient {
+        address account;
+        uint16 share;
+    }
+
+    /// @dev Denominator of the decay and recipient shares
+    uint16 public constant DENOMINATOR = 10000;
+
+    /// @dev Multiplier used during division operations to decrease rounding errors
+    uint256 public constant BASE_MULTIPLIER = 1e18;
+
+    /// @dev Minimum duration of an epoch, bounding the epochs iterated by scheduledEmissions
+    uint256 public constant MIN_EPOCH_DURATION = 1 days;
+
+    /// @dev SkyERC20 contract, this contract should be its minter
+    ISkyERC20 public immutable sky;
+
+    /// @notice Current emissions schedule
+    Schedule public schedule;
+
+    /// @notice Last time the emissions were distributed
+    uint256 public lastDistribution;
+
+    /// @notice Amount of tokens distributed since deployment
+    uint256 public totalDistributed;
+
+    /// @dev Recipients of the emissions
+    Recipient[] private _recipients;
+
+    /// @dev Emitted when the emissions schedule is set
+    event SetSchedule(address indexed _by, uint256 _start, uint256 _epochDuration, uint256 _initialRate, uint16 _decay);
+
+    /// @dev Emitted when the recipients of the emissions are set
+    event SetRecipients(address indexed _by, address[] _accounts, uint16[] _shares);
+
+    /// @dev Emitted when emissions are distributed
+    event Distributed(address indexed _by, uint256 _amount);
+
+    /// @dev Emitted when a recipient receives its share of the emissions
+    event EmissionPaid(address indexed _recipient, uint256 _amount);
+
+    /// @dev Initialize SkyEmissions contract
+    /// @param _owner Address allowed to set the schedule and the recipients (DAO)
+    /// @param _sky SkyERC20 contract address
+    /// @param _start When the first epoch begins
+    /// @param _epochDuration Duration of an epoch
+    /// @param _initialRate Tokens emitted per second during the first epoch
+    /// @param _decay Share of its rate an epoch keeps from the previous one, over DENOMINATOR
+    /// @param _accounts Recipients of the emissions
+    /// @param _shares Shares of the recipients, over DENOMINATOR
+    constructor(
+        address _owner,
+        address _sky,
+        uint256 _start,
+        uint256 _epochDuration,
+        uint256 _initialRate,
+        uint16 _decay,
+        address[] memory _accounts,
+        uint16[] memory _shares
+    ) {
+        require(_sky != address(0), "!_sky");
+        sky = ISkyERC20(_sky);
+        lastDistribution = block.timestamp;
+        _setSchedule(_start, _epochDuration, _initialRate, _decay);
+        _setRecipients(_accounts, _shares);
+        _transferOwnership(_owner);
+    }
+
+    /// @dev Distribute the pending emissions and start a new schedule
+    /// @param _start When the first epoch of the new schedule begins
+    /// @param _epochDuration Duration of an epoch
+    /// @param _initialRate Tokens emitted per second during the first epoch (zero to stop the emissions)
+    /// @param _decay Share of its rate an epoch keeps from the previous one, over DENOMINATOR
+    function setSchedule(
+        uint256 _start,
+        uint256 _epochDuration,
+        uint256 _initialRate,
+        uint16 _decay
+    ) external onlyOwner {
+        _distribute();
+        _setSchedule(_start, _epochDuration, _initialRate, _decay);
+    }
+
+    /// @dev Distribute the pending emissions to the current recipients and set new ones
+    /// @param _accounts Recipients of the emissions
+    /// @param _shares Shares of the recipients, over DENOMINATOR
+    function setRecipients(address[] memory _accounts, uint16[] memory _shares) external onlyOwner {
+        _distribute();
+        _setRecipients(_accounts, _shares);
+    }
+
+    /// @notice Mint the emissions since the last distribution to the recipients
+    /// @return Amount of tokens distributed
+    function distribute() external returns (uint256) {
+        return _distribute();
+    }
+
+    /// @notice Get the recipients of the emissions
+    function getRecipients() external view returns (Recipient[] memory) {
+        return _recipients;
+    }
+
+    /// @notice Amount of tokens that would be distributed now
+    /// @dev Capped by the SKY mintable supply
+    function pendingEmissions() public view returns (uint256) {
+        uint256 scheduled = scheduledEmissions(lastDistribution, block.timestamp);
+        uint256 mintable = sky.mintableSupply();
+        return scheduled < mintable ? scheduled : mintable;
+    }
+
+    /// @notice Get the rate of an epoch of the current schedule
+    /// @param _epoch Index of the epoch, starting from 0
+    /// @return Tokens emitted per second during the epoch
+    function epochRate(uint256 _epoch) public view returns (uint256) {
+        uint256 factor = BASE_MULTIPLIER;
+        uint256 base = (uint256(schedule.decay) * BASE_MULTIPLIER) / DENOMINATOR;
+        while (_epoch > 0 && factor > 0) {
+            if (_epoch & 1 == 1) factor = (factor * base) / BASE_MULTIPLIER;
+            base = (base * base) / BASE_MULTIPLIER;
+            _epoch >>= 1;
+        }
+        return (schedule.initialRate * factor) / BASE_MULTIPLIER;
+    }
+
+    /// @notice Amount of tokens the current schedule emits between two timestamps
+    /// @dev Not capped by the SKY mintable supply, but stops summing the epochs once it is reached
+    ///     so that distributions cannot run out of gas after a long period without any
+    /// @param _from Start of the period
+    /// @param _to End of the period
+    function scheduledEmissions(uint256 _from, uint256 _to) public view returns (uint256 amount) {
+        Schedule memory currentSchedule = schedule;
+        if (_from < currentSchedule.start) _from = currentSchedule.start;
+        if (_to <= _from) return 0;
+        uint256 mintable = sky.mintableSupply();
+        uint256 epoch = (_from - currentSchedule.start) / currentSchedule.epochDuration;
+        uint256 rate = epochRate(epoch);
+        while (_from < _to && rate > 0 && amount < mintable) {
+            uint256 epochEnd = currentSchedule.start + (epoch + 1) * currentSchedule.epochDuration;
+            uint256 end = epochEnd < _to ? epochEnd : _to;
+            amount += rate * (end - _from);
+            _from = end;
+            rate = epochRate(++epoch);
+        }
+    }
+
+    /// @dev Mint the pending emissions to the recipients, the last one receiving the rounding leftover
+    /// @return amount Amount of tokens distributed
+    function _distribute() private returns (uint256 amount) {
+        amount = pendingEmissions();
+        lastDistribution = block.timestamp;
+        if (amount == 0) return 0;
+        totalDistributed += amount;
+
+        uint256 remaining = amount;
+        uint256 length = _recipients.length;
+        for (uint256 i = 0; i < length; i++) {
+            Recipient memory recipient = _recipients[i];
+            uint256 recipientAmount = i == length - 1 ? remaining : (amount * recipient.share) / DENOMINATOR;
+            remaining -= recipientAmount;
+            if (recipientAmount > 0) sky.mint(recipient.account, recipientAmount);
+            emit EmissionPaid(recipient.account, recipientAmount);
+        }
+        emit Distributed(_msgSender(), amount);
+    }
+
+    /// @dev Set the emissions schedule
+    /// @param _start When the first epoch begins
+    /// @param _epochDuration Duration of an epoch, at least MIN_EPOCH_DURATION
+    /// @param _initialRate Tokens emitted per second during the first epoch
+    /// @param _decay Share of its rate an epoch keeps from the previous one, over DENOMINATOR (lower than it)
+    function _setSchedule(uint256 _start, uint256 _epochDuration, uint256 _initialRate, uint16 _decay) private {
+        require(_epochDuration >= MIN_EPOCH_DURATION, "Invalid epoch duration");
+        require(_decay < DENOMINATOR, "Invalid decay");
+        schedule = Schedule({ start: _start, epochDuration: _epochDuration, initialRate: _initialRate, decay: _decay });
+        emit SetSchedule(_msgSender(), _start, _epochDuration, _initialRate, _decay);
+    }
+
+    /// @dev Set the recipients of the emissions
+    /// @param _accounts Recipients of the emissions
+    /// @param _shares Shares of the recipients, over DENOMINATOR
+    function _setRecipients(address[] memory _accounts, uint16[] memory _shares) private {
+        require(_accounts.length > 0 && _accounts.length == _shares.length, "Invalid length");
+        delete _recipients;
+        uint256 totalShares;
+        for (uint256 i = 0; i < _accounts.length; i++) {
+            require(_accounts[i] != address(0), "Invalid recipient");
+            _recipients.push(Recipient({ account: _accounts[i], share: _shares[i] }));
+            totalShares += _shares[i];
+        }
+        require(totalShares == DENOMINATOR, "Invalid shares");
+        emit SetRecipients(_msgSender(), _accounts, _shares);
+    }
+}
@@ -33,12 +33,13 @@ contract Vesting is ERC721URIStorage, Ownable {
     uint256 public constant LOCK_VESTED_MAX_PERIOD = 4 * 365 days; // 4 years
 
     /// @dev Position structure containing required data:
-    ///     - owner: Who'll have control over vested tokens
+    ///     - owner: Who'll have control over vested tokens (kept in sync with ownerOf)
     ///     - amount: Amount of tokens to be vested in the position
     ///     - amountPaid: Amount of vested tokens claimed
     ///     - vestingStart: When tokens start to vest
     ///     - vestingEnd: When tokens vest completely
     ///     - lockVested: Whether to enforce token locking after vested
+    ///     - revocable: Whether the owner of the contract can revoke the unvested tokens
     struct Position {
         address owner;
         uint256 amount;
@@ -46,6 +47,7 @@ contract Vesting is ERC721URIStorage, Ownable {
         uint256 vestingStart;
         uint256 vestingEnd;
         bool lockVested;
+        bool revocable;
     }
 
     /// @dev Underlying vested token address
@@ -57,6 +59,9 @@ contract Vesting is ERC721URIStorage, Ownable {
     /// @dev Amount of tokens been vested
     uint256 public totalVesting;
 
+    /// @dev Whether positions (bonds) can be transferred
+    bool public transfersEnabled;
+
     /// @dev ID of the next vested position ID
     Counters.Counter private _currentPositionId;
 
@@ -81,12 +86,37 @@ contract Vesting is ERC721URIStorage, Ownable {
         uint256 _amount,
         uint256 _vestingStart,
         uint256 _vestingEnd,
-        bool _lockVested
+        bool _lockVested,
+        bool _revocable
     );
 
     /// @dev Emitted when an amount of vested tokens is claimed
     event AmountClaimed(address indexed _by, address indexed _recipient, uint256 _amount, uint256 _voteLockPeriod);
 
+    /// @dev Emitted when a position is revoked, paying out its vested tokens and releasing the unvested ones
+    event PositionRevoked(
+        address indexed _admin,
+        address indexed _owner,
+        uint256 indexed _positionId,
+        uint256 _amountPaid,
+        uint256 _amountRevoked
+    );
+
+    /// @dev Emitted when position transfers are enabled or disabled
+    event TransfersEnabledSet(address indexed _admin, bool _enabled);
+
+    /// @dev Emitted when a position is split into a new position
+    event PositionSplit(
+        address indexed _owner,
+        uint256 indexed _positionId,
+        uint256 indexed _newPositionId,
+        uint256 _amount,
+        uint256 _amountPaid
+    );
+
+    /// @dev Emitted when a position is merged into another one, burning it
+    event PositionsMerged(address indexed _owner, uint256 indexed _positionId, uint256 indexed _mergedPositionId);
+
     /// @dev Initialize Vesting contract
     /// @param _underlying Address of the underlying vesting asset
     constructor(address _underlying) ERC721("Horizon Bonds", "HZB") {
@@ -104,18 +134,28 @@ contract Vesting is ERC721URIStorage, Ownable {
         emit VoteEscrowSet(_msgSender(), _voteEscrow);
     }
 
+    /// @dev Enable or disable position transfers
+    /// @param _enabled Whether positions can be transferred
+    function setTransfersEnabled(bool _enabled) external onlyOwner {
+        require(transfersEnabled != _enabled, "Same state");
+        transfersEnabled = _enabled;
+        emit TransfersEnabledSet(_msgSender(), _enabled);
+    }
+
     /// @dev Create a new vesting position
     /// @param _to The address of the vesting position owner
     /// @param _amount Amount of underlying to be vested
     /// @param _cliffPeriod Period of time that tokens won't vest
     /// @param _vestingDuration Amount of time tokens will vest
     /// @param _lockVested Whether vested underlying locking will be enforced
+    /// @param _revocable Whether the position can be revoked (e.g. team and contributor grants)
     function createPosition(
         address _to,
         uint256 _amount,
         uint256 _cliffPeriod,
         uint256 _vestingDuration,
-        bool _lockVested
+        bool _lockVested,
+        bool _revocable
     ) external onlyOwner {
         require(_to != address(0), "Invalid owner");
         require(
@@ -132,48 +172,131 @@ contract Vesting is ERC721URIStorage, Ownable {
                 amountPaid: 0,
                 vestingStart: vestingStart,
                 vestingEnd: vestingEnd,
-                lockVested: _lockVested
+                lockVested: _lockVested,
+                revocable: _revocable
             })
         );
         uint256 currentPositionId = _currentPositionId.current();
-        _safeMint(_to, currentPositionId);
-        userPositionIndexes[_to].push(currentPositionId);
         _currentPositionId.increment();
+        _safeMint(_to, currentPositionId);
         totalVesting += _amount;
 
-        emit PositionCreated(_msgSender(), _to, currentPositionId, _amount, vestingStart, vestingEnd, _lockVested);
+        emit PositionCreated(
+            _msgSender(),
+            _to,
+            currentPositionId,
+            _amount,
+            vestingStart,
+            vestingEnd,
+            _lockVested,
+            _revocable
+        );
     }
 
     /// @notice Claim vested underlying
+    /// @dev Vested tokens are only locked for the position owner, as locking extends the lock of the recipient
     /// @param _positionId ID of the position to claim vested tokens
-    /// @param _recipient Recipient of the vested tokens
+    /// @param _recipient Recipient of the vested tokens (the position owner if they are locked)
     /// @param _lockVestedPeriod Amount of time to lock vested tokens (mandatory if lockVested is true)
     function claim(uint256 _positionId, address _recipient, uint256 _lockVestedPeriod) external {
         Position memory userPosition = positions[_positionId];
-        require(userPosition.owner == _msgSender(), "Invalid position");
-        require(userPosition.vestingStart >= block.timestamp, "Vesting hasn't started");
+        require(ownerOf(_positionId) == _msgSender(), "Invalid position");
+        require(block.timestamp >= userPosition.vestingStart, "Vesting hasn't started");
         require(_recipient != address(0), "Invalid recipient");
+        bool lock = userPosition.lockVested || _lockVestedPeriod > 0;
+        require(!lock || _recipient == _msgSender(), "Invalid lock recipient");
         (uint256 amountDue_, uint256 prevAmountPaid_) = _amountDuePaid(userPosition);
         if (amountDue_ == 0) return;
-        if (userPosition.lockVested || _lockVestedPeriod > 0) {
-            require(voteEscrow != address(0), "No vote escrow");
-            require(
-                _lockVestedPeriod >= MIN_VESTING_PERIOD && _lockVestedPeriod <= MAX_VESTING_PERIOD,
-                "Invalid lock time"
-            );
-            IERC20(underlying).safeApprove(voteEscrow, amountDue_);
-            IVoteEscrow(voteEscrow).lock(_recipient, amountDue_, _lockVestedPeriod);
-        } else {
-            IERC20(underlying).safeTransfer(_recipient, amountDue_);
-        }
+        _payOut(_recipient, amountDue_, lock, _lockVestedPeriod);
         positions[_positionId].amountPaid += amountDue_;
         totalVesting -= amountDue_;
 
-        if (prevAmountPaid_ + amountDue_ == 0) _vestedPositions.increment();
+        if (prevAmountPaid_ + amountDue_ == userPosition.amount) _vestedPositions.increment();
 
         emit AmountClaimed(_msgSender(), _recipient, amountDue_, _lockVestedPeriod);
     }
 
+    /// @dev Revoke a revocable position: its vested tokens are paid out to the position owner
+    ///     and its unvested tokens are returned to the usable supply
+    /// @param _positionId ID of the position to revoke
+    /// @param _lockVestedPeriod Amount of time to lock vested tokens (mandatory if lockVested is true)
+    function revoke(uint256 _positionId, uint256 _lockVestedPeriod) external onlyOwner {
+        Position storage position = positions[_positionId];
+        require(position.revocable, "Not revocable");
+        require(position.amountPaid < position.amount, "Position vested");
+        (uint256 amountDue_, uint256 prevAmountPaid_) = _amountDuePaid(position);
+        uint256 amountRevoked = position.amount - prevAmountPaid_ - amountDue_;
+        position.amountPaid += amountDue_;
+        position.amount = position.amountPaid;
+        totalVesting -= amountDue_ + amountRevoked;
+        _vestedPositions.increment();
+        address owner_ = ownerOf(_positionId);
+        if (amountDue_ > 0) _payOut(owner_, amountDue_, position.lockVested, _lockVestedPeriod);
+
+        emit PositionRevoked(_msgSender(), owner_, _positionId, amountDue_, amountRevoked);
+    }
+
+    /// @notice Split part of a position into a new position with the same schedule
+    /// @dev The amount already paid is split in the same proportion, so vested tokens can't be claimed twice
+    /// @param _positionId ID of the position to split
+    /// @param _amount Amount of underlying moved to the new position
+    /// @return newPositionId ID of the new position
+    function split(uint256 _positionId, uint256 _amount) external returns (uint256 newPositionId) {
+        require(ownerOf(_positionId) == _msgSender(), "Invalid position");
+        Position storage position = positions[_positionId];
+        require(position.amountPaid < position.amount, "Position vested");
+        require(_amount > 0 && _amount < position.amount, "Invalid amount");
+        uint256 newAmountPaid = (position.amountPaid * _amount) / position.amount;
+        position.amount -= _amount;
+        position.amountPaid -= newAmountPaid;
+        if (position.amountPaid == position.amount) _vestedPositions.increment();
+        positions.push(
+            Position({
+                owner: _msgSender(),
+                amount: _amount,
+                amountPaid: newAmountPaid,
+                vestingStart: position.vestingStart,
+                vestingEnd: position.vestingEnd,
+                lockVested: position.lockVested,
+                revocable: position.revocable
+            })
+        );
+        newPositionId = _currentPositionId.current();
+        _currentPositionId.increment();
+        _safeMint(_msgSender(), newPositionId);
+
+        emit PositionSplit(_msgSender(), _positionId, newPositionId, _amount, newAmountPaid);
+    }
+
+    /// @notice Merge a position into another one with the same schedule, burning it
+    /// @param _positionId ID of the position to merge into
+    /// @param _mergedPositionId ID of the position to merge and burn
+    function merge(uint256 _positionId, uint256 _mergedPositionId) external {
+        require(_positionId != _mergedPositionId, "Same position");
+        require(ownerOf(_positionId) == _msgSender(), "Invalid position");
+        require(ownerOf(_mergedPositionId) == _msgSender(), "Invalid position");
+        Position storage position = positions[_positionId];
+        Position storage mergedPosition = positions[_mergedPositionId];
+        require(
+            position.vestingStart == mergedPosition.vestingStart &&
+                position.vestingEnd == mergedPosition.vestingEnd &&
+                position.lockVested == mergedPosition.lockVested &&
+                position.revocable == mergedPosition.revocable,
+            "Different schedule"
+        );
+        // merging two active positions leaves one
+        if (position.amountPaid < position.amount && mergedPosition.amountPaid < mergedPosition.amount) {
+            _vestedPositions.increment();
+        }
+        position.amount += mergedPosition.amount;
+        position.amountPaid += mergedPosition.amountPaid;
+        mergedPosition.amount = 0;
+        mergedPosition.amountPaid = 0;
+        _burn(_mergedPositionId);
+
+        emit PositionsMerged(_msgSender(), _positionId, _mergedPositionId);
+    }
+
     /// @notice Size of the positions array (how many vested positions exist)
     function vestedPositions() external view returns (uint256) {
         return _currentPositionId.current();
@@ -239,18 +362,38 @@ contract Vesting is ERC721URIStorage, Ownable {
         return string(positionIndexes);
     }
 
+    /// @dev Pay out vested tokens, locking them in the vote escrow if required
+    /// @param _recipient Recipient of the vested tokens
+    /// @param _amount Amount of vested tokens
+    /// @param _lock Whether to lock the vested tokens
+    /// @param _lockVestedPeriod Amount of time to lock vested tokens
+    function _payOut(address _recipient, uint256 _amount, bool _lock, uint256 _lockVestedPeriod) private {
+        if (_lock) {
+            require(voteEscrow != address(0), "No vote escrow");
+            require(
+                _lockVestedPeriod >= MIN_VESTING_PERIOD && _lockVestedPeriod <= MAX_VESTING_PERIOD,
+                "Invalid lock time"
+            );
+            IERC20(underlying).safeApprove(voteEscrow, _amount);
+            IVoteEscrow(voteEscrow).lock(_recipient, _amount, _lockVestedPeriod);
+        } else {
+            IERC20(underlying).safeTransfer(_recipient, _amount);
+        }
+    }
+
     /// @dev Calculates the amount of vested tokens due for a given position and the amount already paid
     /// @param _position Position instance
     /// @return amountDue_ Claimable amount
     /// @return amountPaid_ Paid amount
     function _amountDuePaid(Position memory _position) internal view returns (uint256 amountDue_, uint256 amountPaid_) {
         amountPaid_ = _position.amountPaid;
-        amountDue_ =
-            ((((
-                block.timestamp < _position.vestingEnd ? block.timestamp : _position.vestingEnd - _position.vestingStart
-            ) * _position.amount) * BASE_MULTIPLIER) / (_position.vestingEnd - _position.vestingStart)) /
-            BASE_MULTIPLIER -
-            amountPaid_;
+        if (block.timestamp <= _position.vestingStart) return (0, amountPaid_);
+        uint256 vestedPeriod = (block.timestamp < _position.vestingEnd ? block.timestamp : _position.vestingEnd) -
+            _position.vestingStart;
+        uint256 vestedAmount = (((vestedPeriod * _position.amount) * BASE_MULTIPLIER) /
+            (_position.vestingEnd - _position.vestingStart)) / BASE_MULTIPLIER;
+        // positions split mid-vest may have paid up to 1 wei more than vested due to rounding
+        amountDue_ = vestedAmount > amountPaid_ ? vestedAmount - amountPaid_ : 0;
     }
 
     /// @inheritdoc ERC721
@@ -260,7 +403,37 @@ contract Vesting is ERC721URIStorage, Ownable {
         uint256 firstTokenId,
         uint256 batchSize
     ) internal virtual override {
-        require(from == address(0), "Err: token transfer is BLOCKED");
+        require(from == address(0) || to == address(0) || transfersEnabled, "Err: token transfer is BLOCKED");
         super._beforeTokenTransfer(from, to, firstTokenId, batchSize);
     }
+
+    /// @inheritdoc ERC721
+    /// @dev Keeps the position owner and the user position indexes in sync with ownerOf
+    function _afterTokenTransfer(
+        address from,
+        address to,
+        uint256 firstTokenId,
+        uint256 batchSize
+    ) internal virtual override {
+        if (from != address(0)) _removePositionIndex(from, firstTokenId);
+        if (to != address(0)) {
+            positions[firstTokenId].owner = to;
+            userPositionIndexes[to].push(firstTokenId);
+        }
+        super._afterTokenTransfer(from, to, firstTokenId, batchSize);
+    }
+
+    /// @dev Remove a position from the position indexes of a user
+    /// @param _account User address
+    /// @param _positionId ID of the position
+    function _removePositionIndex(address _account, uint256 _positionId) private {
+        uint256[] storage userPositionIndexes_ = userPositionIndexes[_account];
+        for (uint256 i = 0; i < userPositionIndexes_.length; i++) {
+            if (userPositionIndexes_[i] == _positionId) {
+                userPositionIndexes_[i] = userPositionIndexes_[userPositionIndexes_.length - 1];
+                userPositionIndexes_.pop();
+                return;
+            }
+        }
+    }
 }
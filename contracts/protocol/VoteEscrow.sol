@@ -0,0 +1,312 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { IERC20 } from "@openzeppelin/contracts/interfaces/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { SafeCast } from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import { IVoteEscrow } from "../interfaces/IVoteEscrow.sol";
+
+/// @title Vote Escrow (veSKY)
+/// @author Horizon DAO
+/// @notice Locks SKY for up to 4 years in exchange for voting power, decaying linearly until the lock ends
+/// @dev Voting power of a lock is amount * (end - now) / MAXTIME. Lock ends are rounded down to the week,
+///     so the total voting power only changes slope on week boundaries (see slopeChanges)
+/// @dev Uses timestamps as clock (EIP-6372), past voting power can be queried by governance modules
+contract VoteEscrow is IVoteEscrow, Ownable {
+    using SafeERC20 for IERC20;
+
+    /// @dev Lock of an account
+    ///     - amount: Amount of underlying locked
+    ///     - end: When the underlying can be withdrawn (rounded down to the week)
+    struct LockedBalance {
+        uint256 amount;
+        uint256 end;
+    }
+
+    /// @dev Voting power checkpoint: bias - slope * (t - ts) is the voting power at time t
+    struct Point {
+        int128 bias;
+        int128 slope;
+        uint256 ts;
+    }
+
+    /// @dev Lock ends are rounded down to a multiple of a week
+    uint256 public constant WEEK = 7 days;
+
+    /// @dev Maximum lock period
+    uint256 public constant MAXTIME = 4 * 365 days; // 4 years
+
+    /// @notice Name of the voting power token
+    string public constant name = "Vote-escrowed SKY";
+
+    /// @notice Symbol of the voting power token
+    string public constant symbol = "veSKY";
+
+    /// @notice Decimals of the voting power token
+    uint8 public constant decimals = 18;
+
+    /// @dev Underlying locked token address (SKY)
+    address public immutable underlying;
+
+    /// @dev Amount of underlying locked
+    uint256 public totalLocked;
+
+    /// @notice mapping (account => lock)
+    mapping(address => LockedBalance) public locked;
+
+    /// @notice mapping (account => whether it can lock underlying for other accounts, e.g. Vesting)
+    mapping(address => bool) public lockers;
+
+    /// @notice mapping (week => change of the total voting power slope)
+    mapping(uint256 => int128) public slopeChanges;
+
+    /// @dev Total voting power checkpoints
+    Point[] private _pointHistory;
+
+    /// @dev mapping (account => voting power checkpoints)
+    mapping(address => Point[]) private _userPointHistory;
+
+    /// @dev Emitted when an account is allowed or disallowed to lock underlying for other accounts
+    event SetLocker(address indexed _by, address indexed _locker, bool _enabled);
+
+    /// @dev Emitted when underlying is locked or a lock is extended
+    event Lock(address indexed _by, address indexed _account, uint256 _amount, uint256 _end);
+
+    /// @dev Emitted when the underlying of an expired lock is withdrawn
+    event Withdraw(address indexed _account, uint256 _amount);
+
+    /// @dev Initialize VoteEscrow contract
+    /// @param _owner Address allowed to set the lockers (DAO)
+    /// @param _underlying Address of the underlying locked token (SKY)
+    constructor(address _owner, address _underlying) {
+        require(_underlying != address(0), "!_underlying");
+        underlying = _underlying;
+        _transferOwnership(_owner);
+    }
+
+    /// @dev Allow or disallow an account to lock underlying for other accounts
+    /// @param _locker Locker address
+    /// @param _enabled Whether the account can lock for other accounts
+    function setLocker(address _locker, bool _enabled) external onlyOwner {
+        require(lockers[_locker] != _enabled, "Same state");
+        lockers[_locker] = _enabled;
+        emit SetLocker(_msgSender(), _locker, _enabled);
+    }
+
+    /// @notice Lock underlying for an account, adding it to its lock if any
+    /// @dev Only the account itself and the lockers can lock for an account, as the lock can be extended
+    /// @dev The underlying of an expired lock is locked again
+    /// @param _to Account to lock the underlying for
+    /// @param _amount Amount of underlying to lock
+    /// @param _period Period to lock the underlying for, the lock end is never shortened
+    function lock(address _to, uint256 _amount, uint256 _period) external {
+        require(_msgSender() == _to || lockers[_msgSender()], "!locker");
+        require(_amount > 0, "!_amount");
+        LockedBalance memory oldLocked = locked[_to];
+        uint256 end = _lockEnd(_period);
+        _updateLock(
+            _to,
+            oldLocked,
+            LockedBalance(oldLocked.amount + _amount, end > oldLocked.end ? end : oldLocked.end)
+        );
+        IERC20(underlying).safeTransferFrom(_msgSender(), address(this), _amount);
+    }
+
+    /// @notice Add underlying to the lock of the sender, keeping its end
+    /// @param _amount Amount of underlying to add
+    function increaseAmount(uint256 _amount) external {
+        require(_amount > 0, "!_amount");
+        LockedBalance memory oldLocked = locked[_msgSender()];
+        require(oldLocked.end > block.timestamp, "No active lock");
+        _updateLock(_msgSender(), oldLocked, LockedBalance(oldLocked.amount + _amount, oldLocked.end));
+        IERC20(underlying).safeTransferFrom(_msgSender(), address(this), _amount);
+    }
+
+    /// @notice Extend the lock of the sender
+    /// @param _period Period to lock the underlying for, from now
+    function extendLock(uint256 _period) external {
+        LockedBalance memory oldLocked = locked[_msgSender()];
+        require(oldLocked.end > block.timestamp, "No active lock");
+        uint256 end = _lockEnd(_period);
+        require(end > oldLocked.end, "Lock can only be extended");
+        _updateLock(_msgSender(), oldLocked, LockedBalance(oldLocked.amount, end));
+    }
+
+    /// @notice Withdraw the underlying of the expired lock of the sender
+    function withdraw() external {
+        LockedBalance memory oldLocked = locked[_msgSender()];
+        require(oldLocked.amount > 0, "No lock");
+        require(oldLocked.end <= block.timestamp, "Lock not expired");
+        delete locked[_msgSender()];
+        totalLocked -= oldLocked.amount;
+        _checkpoint(_msgSender(), oldLocked, LockedBalance(0, 0));
+        IERC20(underlying).safeTransfer(_msgSender(), oldLocked.amount);
+        emit Withdraw(_msgSender(), oldLocked.amount);
+    }
+
+    /// @notice Current voting power of an account
+    /// @param _account Account address
+    function balanceOf(address _account) external view returns (uint256) {
+        return _balanceAt(_account, block.timestamp);
+    }
+
+    /// @notice Current total voting power
+    function totalSupply() external view returns (uint256) {
+        return _supplyAt(block.timestamp);
+    }
+
+    /// @notice Clock used for the voting power checkpoints (EIP-6372)
+    function clock() public view returns (uint48) {
+        return SafeCast.toUint48(block.timestamp);
+    }
+
+    /// @notice Description of the clock (EIP-6372)
+    // solhint-disable-next-line func-name-mixedcase
+    function CLOCK_MODE() external pure returns (string memory) {
+        return "mode=timestamp";
+    }
+
+    /// @notice Current voting power of an account (EIP-5805)
+    /// @param _account Account address
+    function getVotes(address _account) external view returns (uint256) {
+        return _balanceAt(_account, block.timestamp);
+    }
+
+    /// @notice Voting power of an account at a past timestamp (EIP-5805)
+    /// @param _account Account address
+    /// @param _timepoint Timestamp
+    function getPastVotes(address _account, uint256 _timepoint) external view returns (uint256) {
+        require(_timepoint < clock(), "Future lookup");
+        return _balanceAt(_account, _timepoint);
+    }
+
+    /// @notice Total voting power at a past timestamp (EIP-5805)
+    /// @param _timepoint Timestamp
+    function getPastTotalSupply(uint256 _timepoint) external view returns (uint256) {
+        require(_timepoint < clock(), "Future lookup");
+        return _supplyAt(_timepoint);
+    }
+
+    /// @dev Lock end for a period starting now, rounded down to the week
+    /// @param _period Period to lock the underlying for
+    function _lockEnd(uint256 _period) private view returns (uint256 end) {
+        end = ((block.timestamp + _period) / WEEK) * WEEK;
+        require(end > block.timestamp && _period <= MAXTIME, "Invalid lock time");
+    }
+
+    /// @dev Store the new lock of an account and checkpoint its voting power
+    /// @param _account Account address
+    /// @param _oldLocked Previous lock
+    /// @param _newLocked New lock
+    function _updateLock(address _account, LockedBalance memory _oldLocked, LockedBalance memory _newLocked) private {
+        locked[_account] = _newLocked;
+        totalLocked += _newLocked.amount - _oldLocked.amount;
+        _checkpoint(_account, _oldLocked, _newLocked);
+        emit Lock(_msgSender(), _account, _newLocked.amount - _oldLocked.amount, _newLocked.end);
+    }
+
+    /// @dev Record the voting power of an account and the total voting power after a lock change
+    /// @param _account Account address
+    /// @param _oldLocked Previous lock
+    /// @param _newLocked New lock
+    function _checkpoint(address _account, LockedBalance memory _oldLocked, LockedBalance memory _newLocked) private {
+        Point memory oldPoint = _lockPoint(_oldLocked);
+        Point memory newPoint = _lockPoint(_newLocked);
+
+        // bring the total voting power up to date, then apply the change of the account voting power
+        Point memory lastPoint = _pointHistory.length > 0
+            ? _pointHistory[_pointHistory.length - 1]
+            : Point(0, 0, block.timestamp);
+        lastPoint = _advance(lastPoint, block.timestamp);
+        lastPoint.slope += newPoint.slope - oldPoint.slope;
+        lastPoint.bias += newPoint.bias - oldPoint.bias;
+        if (lastPoint.slope < 0) lastPoint.slope = 0;
+        if (lastPoint.bias < 0) lastPoint.bias = 0;
+        _pushPoint(_pointHistory, lastPoint);
+
+        // schedule the end of the decay of the account voting power
+        if (_oldLocked.end > block.timestamp) slopeChanges[_oldLocked.end] += oldPoint.slope;
+        if (_newLocked.end > block.timestamp) slopeChanges[_newLocked.end] -= newPoint.slope;
+
+        _pushPoint(_userPointHistory[_account], newPoint);
+    }
+
+    /// @dev Voting power checkpoint of a lock, now
+    /// @param _locked Lock
+    function _lockPoint(LockedBalance memory _locked) private view returns (Point memory point) {
+        point.ts = block.timestamp;
+        if (_locked.end <= block.timestamp) return point;
+        point.slope = SafeCast.toInt128(SafeCast.toInt256(_locked.amount / MAXTIME));
+        point.bias = point.slope * SafeCast.toInt128(SafeCast.toInt256(_locked.end - block.timestamp));
+    }
+
+    /// @dev Push a checkpoint, replacing the last one if it has the same timestamp
+    /// @param _history Checkpoints
+    /// @param _point New checkpoint
+    function _pushPoint(Point[] storage _history, Point memory _point) private {
+        uint256 length = _history.length;
+        if (length > 0 && _history[length - 1].ts == _point.ts) _history[length - 1] = _point;
+        else _history.push(_point);
+    }
+
+    /// @dev Decay a total voting power checkpoint until a timestamp, applying the slope changes of each week
+    /// @param _point Total voting power checkpoint
+    /// @param _timestamp Timestamp to decay the checkpoint until
+    function _advance(Point memory _point, uint256 _timestamp) private view returns (Point memory) {
+        uint256 weekTs = (_point.ts / WEEK) * WEEK;
+        // locks last MAXTIME at most, so is the slope zero after MAXTIME / WEEK + 1 weeks without checkpoints
+        for (uint256 i = 0; i < MAXTIME / WEEK + 1; i++) {
+            weekTs += WEEK;
+            int128 slopeChange = 0;
+            if (weekTs > _timestamp) weekTs = _timestamp;
+            else slopeChange = slopeChanges[weekTs];
+            _point.bias -= _point.slope * SafeCast.toInt128(SafeCast.toInt256(weekTs - _point.ts));
+            _point.slope += slopeChange;
+            if (_point.bias < 0) _point.bias = 0;
+            if (_point.slope < 0) _point.slope = 0;
+            _point.ts = weekTs;
+            if (weekTs == _timestamp) break;
+        }
+        _point.ts = _timestamp;
+        return _point;
+    }
+
+    /// @dev Voting power of an account at a timestamp
+    /// @param _account Account address
+    /// @param _timestamp Timestamp
+    function _balanceAt(address _account, uint256 _timestamp) private view returns (uint256) {
+        (bool found, Point memory point) = _pointAt(_userPointHistory[_account], _timestamp);
+        if (!found) return 0;
+        int128 bias = point.bias - point.slope * SafeCast.toInt128(SafeCast.toInt256(_timestamp - point.ts));
+        return bias > 0 ? uint256(uint128(bias)) : 0;
+    }
+
+    /// @dev Total voting power at a timestamp
+    /// @param _timestamp Timestamp
+    function _supplyAt(uint256 _timestamp) private view returns (uint256) {
+        (bool found, Point memory point) = _pointAt(_pointHistory, _timestamp);
+        if (!found) return 0;
+        return uint256(uint128(_advance(point, _timestamp).bias));
+    }
+
+    /// @dev Last checkpoint at or before a timestamp
+    /// @param _history Checkpoints
+    /// @param _timestamp Timestamp
+    /// @return found Whether there is a checkpoint at or before the timestamp
+    /// @return point Checkpoint
+    function _pointAt(
+        Point[] storage _history,
+        uint256 _timestamp
+    ) private view returns (bool found, Point memory point) {
+        uint256 low = 0;
+        uint256 high = _history.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (_history[mid].ts > _timestamp) high = mid;
+            else low = mid + 1;
+        }
+        if (low == 0) return (false, point);
+        return (true, _history[low - 1]);
+    }
+}
@@ -6,9 +6,10 @@ import { IERC20 } from "@openzeppelin/contracts/interfaces/IERC20.sol";
 import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import { Counters } from "@openzeppelin/contracts/utils/Counters.sol";
+import { IERC20SignaturePermit } from "../interfaces/IERC20SignaturePermit.sol";
 
 /// @dev EIP-2612 (Permit extension for ERC20)
-abstract contract ERC20Permit is ERC20, IERC165 {
+abstract contract ERC20Permit is ERC20, IERC165, IERC20SignaturePermit {
     using Counters for Counters.Counter;
 
     /// @dev Typehash for the domain separator
@@ -52,7 +53,7 @@ abstract contract ERC20Permit is ERC20, IERC165 {
     ) external {
         require(block.timestamp <= _deadline, "ERC20Permit: deadline reached");
 
-        uint256 nonce = _nonces[_owner].current();
+        uint256 nonce = _useNonce(_owner);
         bytes32 permitHash = ECDSA.toTypedDataHash(
             DOMAIN_SEPARATOR,
             keccak256(abi.encode(PERMIT_TYPEHASH, _owner, _spender, _value, nonce, _deadline))
@@ -60,7 +61,6 @@ abstract contract ERC20Permit is ERC20, IERC165 {
 
         require(ECDSA.recover(permitHash, _signature) == _owner, "ERC20Permit: invalid permit");
 
-        _nonces[_owner].increment();
         _approve(_owner, _spender, _value);
     }
 
@@ -72,6 +72,17 @@ abstract contract ERC20Permit is ERC20, IERC165 {
 
     /// @inheritdoc IERC165
     function supportsInterface(bytes4 interfaceId) external pure virtual returns (bool) {
-        return type(IERC165).interfaceId == interfaceId || type(IERC20).interfaceId == interfaceId;
+        return
+            type(IERC165).interfaceId == interfaceId ||
+            type(IERC20).interfaceId == interfaceId ||
+            type(IERC20SignaturePermit).interfaceId == interfaceId;
+    }
+
+    /// @dev Consume the current nonce of an user
+    /// @param _owner User address
+    /// @return current Nonce consumed
+    function _useNonce(address _owner) internal returns (uint256 current) {
+        current = _nonces[_owner].current();
+        _nonces[_owner].increment();
     }
 }
@@ -0,0 +1,161 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import { IVotes } from "@openzeppelin/contracts/governance/utils/IVotes.sol";
+import { IERC165 } from "@openzeppelin/contracts/interfaces/IERC165.sol";
+import { IERC20 } from "@openzeppelin/contracts/interfaces/IERC20.sol";
+import { IERC5805 } from "@openzeppelin/contracts/interfaces/IERC5805.sol";
+import { IERC6372 } from "@openzeppelin/contracts/interfaces/IERC6372.sol";
+import { Checkpoints } from "@openzeppelin/contracts/utils/Checkpoints.sol";
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import { SafeCast } from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import { IERC20SignaturePermit } from "../interfaces/IERC20SignaturePermit.sol";
+import { ERC20Permit } from "./ERC20Permit.sol";
+
+/// @dev Voting power and delegation for ERC20 tokens, checkpointed at each block (ERC-5805)
+/// @dev Holders should delegate their voting power (to themselves or another account) for it to be counted
+/// @dev Delegation signatures use the ERC20Permit EIP-712 domain and share the permit nonces
+abstract contract ERC20Votes is ERC20Permit, IERC5805 {
+    using Checkpoints for Checkpoints.Trace224;
+
+    /// @dev Typehash for the delegateBySig function
+    /// @dev keccak256("Delegation(address delegatee,uint256 nonce,uint256 expiry)")
+    bytes32 public constant DELEGATION_TYPEHASH = 0xe48329057bfd03d55e49b547132e39cffd9c1820ad7b9d4c5307691425d15adf;
+
+    /// @dev mapping (account => delegate)
+    mapping(address => address) private _delegates;
+
+    /// @dev mapping (delegate => voting power checkpoints)
+    mapping(address => Checkpoints.Trace224) private _delegateCheckpoints;
+
+    /// @dev Total supply checkpoints
+    Checkpoints.Trace224 private _totalSupplyCheckpoints;
+
+    /// @inheritdoc IERC6372
+    function clock() public view virtual returns (uint48) {
+        return SafeCast.toUint48(block.number);
+    }
+
+    /// @inheritdoc IERC6372
+    // solhint-disable-next-line func-name-mixedcase
+    function CLOCK_MODE() public view virtual returns (string memory) {
+        require(clock() == block.number, "ERC20Votes: broken clock mode");
+        return "mode=blocknumber&from=default";
+    }
+
+    /// @notice Get the current voting power of an account
+    /// @param _account Account address
+    function getVotes(address _account) public view returns (uint256) {
+        return _delegateCheckpoints[_account].latest();
+    }
+
+    /// @notice Get the voting power of an account at the end of a past block
+    /// @param _account Account address
+    /// @param _timepoint Block number
+    function getPastVotes(address _account, uint256 _timepoint) public view returns (uint256) {
+        require(_timepoint < clock(), "ERC20Votes: future lookup");
+        return _delegateCheckpoints[_account].upperLookupRecent(SafeCast.toUint32(_timepoint));
+    }
+
+    /// @notice Get the total supply at the end of a past block
+    /// @dev Includes the tokens whose voting power is not delegated
+    /// @param _timepoint Block number
+    function getPastTotalSupply(uint256 _timepoint) public view returns (uint256) {
+        require(_timepoint < clock(), "ERC20Votes: future lookup");
+        return _totalSupplyCheckpoints.upperLookupRecent(SafeCast.toUint32(_timepoint));
+    }
+
+    /// @notice Get the delegate of an account
+    /// @param _account Account address
+    function delegates(address _account) public view returns (address) {
+        return _delegates[_account];
+    }
+
+    /// @notice Get the amount of voting power checkpoints of an account
+    /// @param _account Account address
+    function numCheckpoints(address _account) external view returns (uint256) {
+        return _delegateCheckpoints[_account].length();
+    }
+
+    /// @notice Delegate the voting power of the caller
+    /// @param _delegatee Account receiving the voting power
+    function delegate(address _delegatee) external {
+        _delegate(_msgSender(), _delegatee);
+    }
+
+    /// @notice Delegate the voting power of the signer of an EIP-712 delegation
+    /// @notice Anyone with a delegation signed by the delegator can execute this function
+    /// @param _delegatee Account receiving the voting power
+    /// @param _nonce Current nonce of the delegator (see nonces)
+    /// @param _expiry EIP-712 signed message validity
+    /// @param _v Signature v
+    /// @param _r Signature r
+    /// @param _s Signature s
+    function delegateBySig(
+        address _delegatee,
+        uint256 _nonce,
+        uint256 _expiry,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external {
+        require(block.timestamp <= _expiry, "ERC20Votes: signature expired");
+        bytes32 delegationHash = ECDSA.toTypedDataHash(
+            DOMAIN_SEPARATOR,
+            keccak256(abi.encode(DELEGATION_TYPEHASH, _delegatee, _nonce, _expiry))
+        );
+        address delegator = ECDSA.recover(delegationHash, _v, _r, _s);
+        require(_nonce == _useNonce(delegator), "ERC20Votes: invalid nonce");
+        _delegate(delegator, _delegatee);
+    }
+
+    /// @inheritdoc ERC20Permit
+    function supportsInterface(bytes4 interfaceId) external pure virtual override returns (bool) {
+        return
+            type(IERC165).interfaceId == interfaceId ||
+            type(IERC20).interfaceId == interfaceId ||
+            type(IERC20SignaturePermit).interfaceId == interfaceId ||
+            type(IVotes).interfaceId == interfaceId;
+    }
+
+    /// @dev Extended _afterTokenTransfer to move the voting power of the delegates and checkpoint the total supply
+    /// @dev See {ERC20-_afterTokenTransfer}
+    function _afterTokenTransfer(address _from, address _to, uint256 _amount) internal virtual override {
+        super._afterTokenTransfer(_from, _to, _amount);
+        if (_from == address(0) || _to == address(0)) {
+            _totalSupplyCheckpoints.push(SafeCast.toUint32(clock()), SafeCast.toUint224(totalSupply()));
+        }
+        _moveVotingPower(delegates(_from), delegates(_to), _amount);
+    }
+
+    /// @dev Change the delegate of an account, moving its voting power
+    /// @param _delegator Account delegating its voting power
+    /// @param _delegatee Account receiving the voting power
+    function _delegate(address _delegator, address _delegatee) internal {
+        address currentDelegate = delegates(_delegator);
+        _delegates[_delegator] = _delegatee;
+        emit DelegateChanged(_delegator, currentDelegate, _delegatee);
+        _moveVotingPower(currentDelegate, _delegatee, balanceOf(_delegator));
+    }
+
+    /// @dev Move voting power from a delegate to another
+    /// @param _from Delegate losing the voting power, zero address if none
+    /// @param _to Delegate receiving the voting power, zero address if none
+    /// @param _amount Amount of voting power
+    function _moveVotingPower(address _from, address _to, uint256 _amount) private {
+        if (_from == _to || _amount == 0) return;
+        uint32 timepoint = SafeCast.toUint32(clock());
+        if (_from != address(0)) {
+            Checkpoints.Trace224 storage checkpoints = _delegateCheckpoints[_from];
+            uint256 previousVotes = checkpoints.latest();
+            checkpoints.push(timepoint, SafeCast.toUint224(previousVotes - _amount));
+            emit DelegateVotesChanged(_from, previousVotes, previousVotes - _amount);
+        }
+        if (_to != address(0)) {
+            Checkpoints.Trace224 storage checkpoints = _delegateCheckpoints[_to];
+            uint256 previousVotes = checkpoints.latest();
+            checkpoints.push(timepoint, SafeCast.toUint224(previousVotes + _amount));
+            emit DelegateVotesChanged(_to, previousVotes, previousVotes + _amount);
+        }
+    }
+}
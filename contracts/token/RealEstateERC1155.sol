@@ -10,6 +10,7 @@ import { CountersUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/C
 import { StringsUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/StringsUpgradeable.sol";
 import { AddressUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/AddressUpgradeable.sol";
 import { RoyalERC1155Upgradeable } from "./RoyalERC1155Upgradeable.sol";
+import { IPropertyGovernor } from "../interfaces/IPropertyGovernor.sol";
 
 /// @title Real Estate NFT
 /// @author Yuri Fernandes (HorizonDAO)
@@ -31,6 +32,16 @@ contract RealEstateERC1155 is RoyalERC1155Upgradeable {
         uint128 unlockEnd;
     }
 
+    /// @dev Yield pending for an account, returned by pendingYieldsOf
+    struct PendingYield {
+        uint256 id;
+        address currency;
+        uint256 amount;
+    }
+
+    /// @dev Maximum amount of currencies a token ID can pay yield in (including yieldCurrency)
+    uint256 public constant MAX_YIELD_CURRENCIES = 5;
+
     /// @dev Address of the minter: Can execute mint function
     address public minter;
 
@@ -43,21 +54,45 @@ contract RealEstateERC1155 is RoyalERC1155Upgradeable {
     /// @dev Current value shows the next available token ID
     CountersUpgradeable.Counter private _currentId;
 
-    /// @dev Currency used to pay yield
+    /// @dev Default currency used to pay yield
     address public yieldCurrency;
 
-    /// @dev mapping (tokenId => Deposit)
+    /// @dev mapping (tokenId => Deposit), of the yieldCurrency deposits
     mapping(uint256 => Deposit) private _deposits;
 
-    /// @dev mapping (tokenId => account => yieldPerTokenClaimed)
+    /// @dev mapping (tokenId => account => yieldPerTokenClaimed), in yieldCurrency
     mapping(uint256 => mapping(address => uint256)) public yieldPerTokenClaimed;
 
-    /// @dev mapping (tokenId => account => yieldBalance)
+    /// @dev mapping (tokenId => account => yieldBalance), in yieldCurrency
     mapping(uint256 => mapping(address => uint256)) public yieldBalance;
 
     /// @dev mapping (contractAddress => isWhitelisted)
     mapping(address => bool) private _contractWhitelisted;
 
+    /// @dev mapping (tokenId => currencies other than yieldCurrency deposited as yield)
+    mapping(uint256 => address[]) private _extraYieldCurrencies;
+
+    /// @dev mapping (tokenId => currency => Deposit), yieldCurrency deposits are kept in _deposits
+    mapping(uint256 => mapping(address => Deposit)) private _currencyDeposits;
+
+    /// @dev mapping (tokenId => currency => account => yieldPerTokenClaimed), yieldCurrency is kept in yieldPerTokenClaimed
+    mapping(uint256 => mapping(address => mapping(address => uint256))) private _currencyYieldPerTokenClaimed;
+
+    /// @dev mapping (tokenId => currency => account => yieldBalance), yieldCurrency is kept in yieldBalance
+    mapping(uint256 => mapping(address => mapping(address => uint256))) private _currencyYieldBalance;
+
+    /// @dev Address of the compounder: Can collect yield of auto-compounding accounts
+    address public compounder;
+
+    /// @dev Address receiving the yield forfeited by non-whitelisted contracts without beneficiary
+    address public treasury;
+
+    /// @dev mapping (contractAddress => beneficiary of the yield it forfeits while not whitelisted)
+    mapping(address => address) public yieldBeneficiary;
+
+    /// @dev Address of the property governor: Snapshots balances for per-property votes
+    address public propertyGovernor;
+
     /// @dev Emitted when a new minter is set
     event SetMinter(address indexed _by, address indexed _minter);
 
@@ -67,6 +102,18 @@ contract RealEstateERC1155 is RoyalERC1155Upgradeable {
     /// @dev Emitted when a new depositor is set
     event SetDepositor(address indexed _by, address indexed _depositor);
 
+    /// @dev Emitted when a new compounder is set
+    event SetCompounder(address indexed _by, address indexed _compounder);
+
+    /// @dev Emitted when a new treasury is set
+    event SetTreasury(address indexed _by, address indexed _treasury);
+
+    /// @dev Emitted when a new property governor is set
+    event SetPropertyGovernor(address indexed _by, address indexed _propertyGovernor);
+
+    /// @dev Emitted when a contract declares the beneficiary of its forfeited yield
+    event SetYieldBeneficiary(address indexed _contract, address indexed _beneficiary);
+
     /// @dev Emitted when new reNFTs are minted
     event RealEstateNFTMinted(uint256 indexed _id, address indexed _minter, address indexed _to, uint256 _amount);
 
@@ -82,13 +129,29 @@ contract RealEstateERC1155 is RoyalERC1155Upgradeable {
     event NewDeposit(
         uint256 indexed _id,
         address indexed _depositor,
+        address indexed _currency,
         uint256 _amount,
         uint128 _unlockStart,
         uint128 _unlockEnd
     );
 
     /// @dev Emitted when yield is claimed
-    event ClaimYield(uint256 indexed _id, address indexed _by, address indexed _to, uint256 _yieldClaimed);
+    event ClaimYield(
+        uint256 indexed _id,
+        address indexed _by,
+        address indexed _to,
+        address _currency,
+        uint256 _yieldClaimed
+    );
+
+    /// @dev Emitted when the yield accrued by a non-whitelisted contract is redirected
+    event RedirectYield(
+        uint256 indexed _id,
+        address indexed _account,
+        address indexed _to,
+        address _currency,
+        uint256 _amount
+    );
 
     /// @dev Emitted when a contract is whitelisted or blacklisted
     event ContractWhitelisted(address indexed _by, address indexed _contract, bool indexed _isWhitelisted);
@@ -103,15 +166,34 @@ contract RealEstateERC1155 is RoyalERC1155Upgradeable {
     }
 
     /// @dev Toggle yield whitelisting for a contract
+    /// @dev Yield accrued so far is settled under the previous state
     /// @param _contract Contract address
     /// @param _whitelisted Whether to whitelist or not
     function toggleWhitelistContract(address _contract, bool _whitelisted) external onlyAdmin {
         require(_contract.isContract(), "!contract");
         require(_contractWhitelisted[_contract] != _whitelisted, "Same state");
+        _updateAll(_contract);
         _contractWhitelisted[_contract] = _whitelisted;
         emit ContractWhitelisted(msg.sender, _contract, _whitelisted);
     }
 
+    /// @notice Declare the beneficiary of the yield forfeited by the calling contract while not whitelisted
+    /// @dev Yield accrued so far is settled to the previous beneficiary
+    /// @param _beneficiary Beneficiary address, zero address to forfeit to the treasury
+    function setYieldBeneficiary(address _beneficiary) external {
+        require(_msgSender().isContract(), "!contract");
+        _updateAll(_msgSender());
+        yieldBeneficiary[_msgSender()] = _beneficiary;
+        emit SetYieldBeneficiary(_msgSender(), _beneficiary);
+    }
+
+    /// @notice Redirect the yield accrued by a non-whitelisted contract to its beneficiary or the treasury
+    /// @param _id Token ID
+    /// @param _account Contract address
+    function redirectYield(uint256 _id, address _account) external {
+        _update(_id, _account);
+    }
+
     /// @notice Check if contract is whitelisted for yields
     /// @param _contract Contract address
     function isContractWhitelisted(address _contract) external view returns (bool) {
@@ -150,12 +232,39 @@ contract RealEstateERC1155 is RoyalERC1155Upgradeable {
         emit SetBurner(_msgSender(), _burner);
     }
 
+    /// @dev Set new depositor role
+    /// @param _depositor New depositor address
     function setDepositor(address _depositor) external onlyAdmin {
         require(depositor != _depositor, "Same depositor");
         depositor = _depositor;
         emit SetDepositor(_msgSender(), _depositor);
     }
 
+    /// @dev Set new compounder role
+    /// @param _compounder New compounder address
+    function setCompounder(address _compounder) external onlyAdmin {
+        require(compounder != _compounder, "Same compounder");
+        compounder = _compounder;
+        emit SetCompounder(_msgSender(), _compounder);
+    }
+
+    /// @dev Set the address receiving the yield forfeited by non-whitelisted contracts without beneficiary
+    /// @param _treasury New treasury address
+    function setTreasury(address _treasury) external onlyAdmin {
+        require(_treasury != address(0), "!_treasury");
+        require(treasury != _treasury, "Same treasury");
+        treasury = _treasury;
+        emit SetTreasury(_msgSender(), _treasury);
+    }
+
+    /// @dev Set the contract snapshotting balances for per-property votes
+    /// @param _propertyGovernor New property governor address, zero address to stop snapshotting
+    function setPropertyGovernor(address _propertyGovernor) external onlyAdmin {
+        require(propertyGovernor != _propertyGovernor, "Same property governor");
+        propertyGovernor = _propertyGovernor;
+        emit SetPropertyGovernor(_msgSender(), _propertyGovernor);
+    }
+
     /// @dev Mint new reNFT tokens
     /// @dev Requires Minter role
     /// @param _id Token ID
@@ -173,38 +282,76 @@ contract RealEstateERC1155 is RoyalERC1155Upgradeable {
         emit RealEstateNFTMinted(_id, _msgSender(), _to, _amount);
     }
 
-    /// @dev Deposit yield to a given token ID
+    /// @dev Deposit yield to a given token ID, in yieldCurrency
     /// @param _id Token ID
     /// @param _amount Amount to deposit
     /// @param _duration Time to distribute the cumulative yield
     /// @param _startOffset Period of time before yield starts to cumulate
     function deposit(uint256 _id, uint256 _amount, uint128 _duration, uint128 _startOffset) external {
-        require(_msgSender() == depositor, "!depositor");
-        require(_amount > 0, "!deposit");
-        IERC20Upgradeable(yieldCurrency).safeTransferFrom(_msgSender(), address(this), _amount);
-        Deposit memory deposit_ = _deposits[_id];
-        uint256 unlockedYield = _unlockableYield(deposit_);
-        uint128 unlockStart = now128() + _startOffset;
-        _deposits[_id].unlockedAmountPerToken += unlockedYield / totalSupply(_id);
-        _deposits[_id].lockedAmount = (deposit_.lockedAmount - unlockedYield) + _amount;
-        _deposits[_id].unlockStart = unlockStart;
-        _deposits[_id].unlockEnd = unlockStart + _duration;
-        emit NewDeposit(_id, _msgSender(), _amount, unlockStart, unlockStart + _duration);
+        _depositYield(_id, yieldCurrency, _amount, _duration, _startOffset);
     }
 
-    /// @notice Claim Yield for a given token ID
+    /// @dev Deposit yield to a given token ID, in any currency
+    /// @dev Each currency is streamed and accounted for separately
+    /// @param _id Token ID
+    /// @param _currency Currency of the yield
+    /// @param _amount Amount to deposit
+    /// @param _duration Time to distribute the cumulative yield
+    /// @param _startOffset Period of time before yield starts to cumulate
+    function depositWithCurrency(
+        uint256 _id,
+        address _currency,
+        uint256 _amount,
+        uint128 _duration,
+        uint128 _startOffset
+    ) external {
+        _depositYield(_id, _currency, _amount, _duration, _startOffset);
+    }
+
+    /// @notice Claim Yield for a given token ID, in every currency it pays yield in
     /// @param _id Token ID
     /// @param _to Yield receiver
     function claimYield(uint256 _id, address _to) external {
-        _update(_id, _msgSender());
-        uint256 userYieldBalance = yieldBalance[_id][_msgSender()];
-        yieldBalance[_id][_msgSender()] = 0;
-        IERC20Upgradeable(yieldCurrency).safeTransfer(_to, userYieldBalance);
-        emit ClaimYield(_id, _msgSender(), _to, userYieldBalance);
+        _claimYield(_id, _msgSender(), _to);
+    }
+
+    /// @dev Collect the yield of an account, in yieldCurrency, to compound it into units
+    /// @dev Requires Compounder role, which only collects the yield of accounts opted in to auto-compounding
+    /// @param _id Token ID
+    /// @param _account Account to collect the yield of
+    /// @return Amount of yield collected
+    function collectYield(uint256 _id, address _account) external returns (uint256) {
+        require(_msgSender() == compounder, "!compounder");
+        _update(_id, _account);
+        uint256 userYieldBalance = yieldBalance[_id][_account];
+        if (userYieldBalance == 0) return 0;
+        yieldBalance[_id][_account] = 0;
+        IERC20Upgradeable(yieldCurrency).safeTransfer(_msgSender(), userYieldBalance);
+        emit ClaimYield(_id, _account, _msgSender(), yieldCurrency, userYieldBalance);
+        return userYieldBalance;
+    }
+
+    /// @notice Claim Yield for several token IDs
+    /// @param _ids Token IDs
+    /// @param _to Yield receiver
+    function claimYieldBatch(uint256[] calldata _ids, address _to) external {
+        for (uint256 i = 0; i < _ids.length; i++) {
+            _claimYield(_ids[i], _msgSender(), _to);
+        }
+    }
+
+    /// @notice Claim Yield for every token ID
+    /// @param _to Yield receiver
+    function claimAllYield(address _to) external {
+        uint256 currentId = _currentId.current();
+        for (uint256 id = 0; id < currentId; id++) {
+            _claimYield(id, _msgSender(), _to);
+        }
     }
 
     /// @dev Burns own tokens (will be used for buyouts)
     /// @dev Requires Burner role
+    /// @dev Pays out the pending yield of the origin account, in every currency
     /// @param _id Token ID
     /// @param _originAccount Origin account of the tokens
     /// @param _amount Amount of tokens to burn
@@ -213,17 +360,87 @@ contract RealEstateERC1155 is RoyalERC1155Upgradeable {
         _burnerHelper(_id, _originAccount, _amount);
         _burn(_msgSender(), _id, _amount);
         emit RealEstateNFTBurned(_id, _originAccount, _msgSender(), _amount);
+        _claimYield(_id, _originAccount, _originAccount);
     }
 
-    /// @notice Get the amount of yield pending for a given token ID and account
+    /// @notice Get the amount of yield pending for a given token ID and account, in yieldCurrency
     /// @param _id Token ID
     /// @param _account Account to check for pending yield
     function pendingYield(uint256 _id, address _account) external view returns (uint256) {
-        uint256 yieldPerToken_ = yieldPerToken(_id);
-        return
-            yieldBalance[_id][_account] +
-            balanceOf(_account, _id) *
-            (yieldPerToken_ - yieldPerTokenClaimed[_id][_account]);
+        return currencyPendingYield(_id, yieldCurrency, _account);
+    }
+
+    /// @notice Get the amount of yield pending for a given token ID and account, in every currency
+    /// @param _id Token ID
+    /// @param _account Account to check for pending yield
+    /// @return currencies Currencies the token ID pays yield in
+    /// @return amounts Pending yield in each currency
+    function pendingYields(
+        uint256 _id,
+        address _account
+    ) external view returns (address[] memory currencies, uint256[] memory amounts) {
+        currencies = yieldCurrencies(_id);
+        amounts = new uint256[](currencies.length);
+        for (uint256 i = 0; i < currencies.length; i++) {
+            amounts[i] = currencyPendingYield(_id, currencies[i], _account);
+        }
+    }
+
+    /// @notice Get the yield pending for an account, for every token ID and currency
+    /// @dev Only lists token IDs held by the account or with pending yield
+    /// @param _account Account to check for pending yield
+    function pendingYieldsOf(address _account) external view returns (PendingYield[] memory pendingYields_) {
+        uint256 currentId = _currentId.current();
+        PendingYield[] memory allPendingYields = new PendingYield[](currentId * MAX_YIELD_CURRENCIES);
+        uint256 count;
+        for (uint256 id = 0; id < currentId; id++) {
+            bool holder = balanceOf(_account, id) > 0;
+            address[] memory currencies = yieldCurrencies(id);
+            for (uint256 i = 0; i < currencies.length; i++) {
+                uint256 amount = currencyPendingYield(id, currencies[i], _account);
+                if (!holder && amount == 0) continue;
+                allPendingYields[count++] = PendingYield(id, currencies[i], amount);
+            }
+        }
+        pendingYields_ = new PendingYield[](count);
+        for (uint256 i = 0; i < count; i++) {
+            pendingYields_[i] = allPendingYields[i];
+        }
+    }
+
+    /// @notice Get the yield deposit of a given token ID, in yieldCurrency
+    /// @dev The yield unlocked since `unlockStart` is only added to `unlockedAmountPerToken`
+    ///     on the next deposit or supply change
+    /// @param _id Token ID
+    function getDeposit(uint256 _id) external view returns (Deposit memory) {
+        return _deposits[_id];
+    }
+
+    /// @notice Get the yield deposit of a given token ID in a given currency
+    /// @param _id Token ID
+    /// @param _currency Yield currency
+    function getCurrencyDeposit(uint256 _id, address _currency) external view returns (Deposit memory) {
+        return _depositOf(_id, _currency);
+    }
+
+    /// @notice Get the yield per token claimed by an account in a given currency
+    /// @param _id Token ID
+    /// @param _currency Yield currency
+    /// @param _account Account address
+    function currencyYieldPerTokenClaimed(
+        uint256 _id,
+        address _currency,
+        address _account
+    ) external view returns (uint256) {
+        return _yieldPerTokenClaimedOf(_id, _currency)[_account];
+    }
+
+    /// @notice Get the yield balance of an account in a given currency
+    /// @param _id Token ID
+    /// @param _currency Yield currency
+    /// @param _account Account address
+    function currencyYieldBalance(uint256 _id, address _currency, address _account) external view returns (uint256) {
+        return _yieldBalanceOf(_id, _currency)[_account];
     }
 
     /// @notice Current time limited to 128 bits
@@ -239,38 +456,200 @@ contract RealEstateERC1155 is RoyalERC1155Upgradeable {
         return _contractWhitelisted[_address];
     }
 
-    /// @notice Get current yield per token
+    /// @notice Get current yield per token, in yieldCurrency
     /// @param _id Token ID
     function yieldPerToken(uint256 _id) public view returns (uint256) {
-        Deposit memory deposit_ = _deposits[_id];
+        return currencyYieldPerToken(_id, yieldCurrency);
+    }
+
+    /// @notice Get current yield per token in a given currency
+    /// @param _id Token ID
+    /// @param _currency Yield currency
+    function currencyYieldPerToken(uint256 _id, address _currency) public view returns (uint256) {
+        Deposit memory deposit_ = _depositOf(_id, _currency);
         uint256 totalSupply_ = totalSupply(_id);
-        if (totalSupply_ == 0) return 0;
+        if (totalSupply_ == 0) return deposit_.unlockedAmountPerToken;
         return deposit_.unlockedAmountPerToken + _unlockableYield(deposit_) / totalSupply_;
     }
 
-    /// @dev Updated yield for an account
+    /// @notice Get the amount of yield pending for a given token ID and account in a given currency
+    /// @dev Yield accrued by non-whitelisted contracts is not pending, it is redirected on the next update
+    /// @param _id Token ID
+    /// @param _currency Yield currency
+    /// @param _account Account to check for pending yield
+    function currencyPendingYield(uint256 _id, address _currency, address _account) public view returns (uint256) {
+        uint256 pendingYield_ = _yieldBalanceOf(_id, _currency)[_account];
+        if (!eligibleForYields(_account)) return pendingYield_;
+        uint256 yieldPerToken_ = currencyYieldPerToken(_id, _currency);
+        return
+            pendingYield_ +
+            balanceOf(_account, _id) *
+            (yieldPerToken_ - _yieldPerTokenClaimedOf(_id, _currency)[_account]);
+    }
+
+    /// @notice Get the currencies a token ID pays yield in, starting with yieldCurrency
+    /// @param _id Token ID
+    function yieldCurrencies(uint256 _id) public view returns (address[] memory currencies) {
+        address[] memory extraCurrencies = _extraYieldCurrencies[_id];
+        currencies = new address[](extraCurrencies.length + 1);
+        currencies[0] = yieldCurrency;
+        for (uint256 i = 0; i < extraCurrencies.length; i++) {
+            currencies[i + 1] = extraCurrencies[i];
+        }
+    }
+
+    /// @dev Deposit yield to a given token ID
+    /// @param _id Token ID
+    /// @param _currency Currency of the yield
+    /// @param _amount Amount to deposit
+    /// @param _duration Time to distribute the cumulative yield
+    /// @param _startOffset Period of time before yield starts to cumulate
+    function _depositYield(
+        uint256 _id,
+        address _currency,
+        uint256 _amount,
+        uint128 _duration,
+        uint128 _startOffset
+    ) internal {
+        require(_msgSender() == depositor, "!depositor");
+        require(_currency != address(0), "!_currency");
+        require(_amount > 0, "!deposit");
+        if (_currency != yieldCurrency && !_isExtraYieldCurrency(_id, _currency)) {
+            require(_extraYieldCurrencies[_id].length + 1 < MAX_YIELD_CURRENCIES, "Too many yield currencies");
+            _extraYieldCurrencies[_id].push(_currency);
+        }
+        IERC20Upgradeable(_currency).safeTransferFrom(_msgSender(), address(this), _amount);
+        Deposit storage deposit_ = _depositOf(_id, _currency);
+        uint256 unlockedYield = _unlockableYield(deposit_);
+        uint128 unlockStart = now128() + _startOffset;
+        deposit_.unlockedAmountPerToken += unlockedYield / totalSupply(_id);
+        deposit_.lockedAmount = (deposit_.lockedAmount - unlockedYield) + _amount;
+        deposit_.unlockStart = unlockStart;
+        deposit_.unlockEnd = unlockStart + _duration;
+        emit NewDeposit(_id, _msgSender(), _currency, _amount, unlockStart, unlockStart + _duration);
+    }
+
+    /// @dev Claim Yield of an account for a given token ID, in every currency it pays yield in
+    /// @param _id Token ID
+    /// @param _account Account to claim the yield of
+    /// @param _to Yield receiver
+    function _claimYield(uint256 _id, address _account, address _to) internal {
+        _update(_id, _account);
+        address[] memory currencies = yieldCurrencies(_id);
+        for (uint256 i = 0; i < currencies.length; i++) {
+            mapping(address => uint256) storage yieldBalance_ = _yieldBalanceOf(_id, currencies[i]);
+            uint256 userYieldBalance = yieldBalance_[_account];
+            if (userYieldBalance == 0) continue;
+            yieldBalance_[_account] = 0;
+            IERC20Upgradeable(currencies[i]).safeTransfer(_to, userYieldBalance);
+            emit ClaimYield(_id, _account, _to, currencies[i], userYieldBalance);
+        }
+    }
+
+    /// @dev Updated yield for an account, in every currency
     /// @param _id Token ID
     /// @param _account Account to update yield
     function _update(uint256 _id, address _account) internal {
-        if (!eligibleForYields(_account)) return;
-        uint256 yieldPerToken_ = yieldPerToken(_id);
-        yieldBalance[_id][_account] +=
-            balanceOf(_account, _id) *
-            (yieldPerToken_ - yieldPerTokenClaimed[_id][_account]);
-        yieldPerTokenClaimed[_id][_account] = yieldPerToken_;
+        if (_account == address(0)) return;
+        _accrueAll(_id, _account, balanceOf(_account, _id));
+    }
+
+    /// @dev Updated yield for an account, in every token ID and currency
+    /// @param _account Account to update yield
+    function _updateAll(address _account) internal {
+        uint256 currentId = _currentId.current();
+        for (uint256 id = 0; id < currentId; id++) {
+            _update(id, _account);
+        }
     }
 
-    /// @dev Update deposit information (when totalSupply changes)
+    /// @dev Accrue the yield of an account in a given currency
+    /// @dev Yield of non-whitelisted contracts is redirected to their beneficiary, or the treasury.
+    ///     It is kept on the contract while neither is set, rather than burnt
+    /// @param _id Token ID
+    /// @param _currency Yield currency
+    /// @param _account Account to update yield
+    /// @param _balance Balance the yield accrued on
+    function _accrue(uint256 _id, address _currency, address _account, uint256 _balance) internal {
+        uint256 yieldPerToken_ = currencyYieldPerToken(_id, _currency);
+        mapping(address => uint256) storage yieldPerTokenClaimed_ = _yieldPerTokenClaimedOf(_id, _currency);
+        uint256 accrued = _balance * (yieldPerToken_ - yieldPerTokenClaimed_[_account]);
+        yieldPerTokenClaimed_[_account] = yieldPerToken_;
+        if (accrued == 0) return;
+        address to = _account;
+        if (!eligibleForYields(_account)) {
+            address redirectTo = yieldBeneficiary[_account] != address(0) ? yieldBeneficiary[_account] : treasury;
+            if (redirectTo != address(0)) {
+                to = redirectTo;
+                emit RedirectYield(_id, _account, to, _currency, accrued);
+            }
+        }
+        _yieldBalanceOf(_id, _currency)[to] += accrued;
+    }
+
+    /// @dev Accrue the yield of an account, in every currency
+    /// @param _id Token ID
+    /// @param _account Account to update yield
+    /// @param _balance Balance the yield accrued on
+    function _accrueAll(uint256 _id, address _account, uint256 _balance) internal {
+        address[] memory currencies = yieldCurrencies(_id);
+        for (uint256 i = 0; i < currencies.length; i++) {
+            _accrue(_id, currencies[i], _account, _balance);
+        }
+    }
+
+    /// @dev Update deposit information (when totalSupply changes), in every currency
     /// @param _id Token ID
     function _updateDeposit(uint256 _id) internal {
-        Deposit memory deposit_ = _deposits[_id];
-        if (deposit_.lockedAmount == 0 || now128() <= deposit_.unlockStart) return;
         uint256 totalSupply_ = totalSupply(_id);
         if (totalSupply_ == 0) return;
-        uint256 unlockedYield = _unlockableYield(deposit_);
-        _deposits[_id].lockedAmount -= unlockedYield;
-        _deposits[_id].unlockedAmountPerToken += unlockedYield / totalSupply_;
-        if (now128() <= deposit_.unlockEnd) _deposits[_id].unlockStart = now128();
+        address[] memory currencies = yieldCurrencies(_id);
+        for (uint256 i = 0; i < currencies.length; i++) {
+            Deposit storage deposit_ = _depositOf(_id, currencies[i]);
+            if (deposit_.lockedAmount == 0 || now128() <= deposit_.unlockStart) continue;
+            uint256 unlockedYield = _unlockableYield(deposit_);
+            deposit_.lockedAmount -= unlockedYield;
+            deposit_.unlockedAmountPerToken += unlockedYield / totalSupply_;
+            if (now128() <= deposit_.unlockEnd) deposit_.unlockStart = now128();
+        }
+    }
+
+    /// @dev Get the deposit of a token ID in a given currency
+    /// @param _id Token ID
+    /// @param _currency Yield currency
+    function _depositOf(uint256 _id, address _currency) internal view returns (Deposit storage) {
+        return _currency == yieldCurrency ? _deposits[_id] : _currencyDeposits[_id][_currency];
+    }
+
+    /// @dev Get the yield per token claimed by accounts in a given currency
+    /// @param _id Token ID
+    /// @param _currency Yield currency
+    function _yieldPerTokenClaimedOf(
+        uint256 _id,
+        address _currency
+    ) internal view returns (mapping(address => uint256) storage) {
+        return _currency == yieldCurrency ? yieldPerTokenClaimed[_id] : _currencyYieldPerTokenClaimed[_id][_currency];
+    }
+
+    /// @dev Get the yield balances of accounts in a given currency
+    /// @param _id Token ID
+    /// @param _currency Yield currency
+    function _yieldBalanceOf(
+        uint256 _id,
+        address _currency
+    ) internal view returns (mapping(address => uint256) storage) {
+        return _currency == yieldCurrency ? yieldBalance[_id] : _currencyYieldBalance[_id][_currency];
+    }
+
+    /// @dev Whether a currency other than yieldCurrency was already deposited as yield for a token ID
+    /// @param _id Token ID
+    /// @param _currency Yield currency
+    function _isExtraYieldCurrency(uint256 _id, address _currency) internal view returns (bool) {
+        address[] storage extraCurrencies = _extraYieldCurrencies[_id];
+        for (uint256 i = 0; i < extraCurrencies.length; i++) {
+            if (extraCurrencies[i] == _currency) return true;
+        }
+        return false;
     }
 
     /// @dev Get the unlockable yield
@@ -288,14 +667,11 @@ contract RealEstateERC1155 is RoyalERC1155Upgradeable {
     /// @param _amount Amount of tokens to burn
     function _burnerHelper(uint256 _id, address _originAccount, uint256 _amount) internal {
         _updateDeposit(_id);
-        uint256 yieldPerToken_ = yieldPerToken(_id);
-        yieldBalance[_id][_originAccount] +=
-            (balanceOf(_originAccount, _id) + _amount) *
-            (yieldPerToken_ - yieldPerTokenClaimed[_id][_originAccount]);
-        yieldPerTokenClaimed[_id][_originAccount] = yieldPerToken_;
+        _accrueAll(_id, _originAccount, balanceOf(_originAccount, _id) + _amount);
     }
 
-    /// @dev Extended _beforeTokenTransfer to update accounts' yield balance
+    /// @dev Extended _beforeTokenTransfer to update accounts' yield balance and the property governor snapshots
+    /// @dev Snapshots are updated first, while balances and total supply are the ones before the transfer
     /// @dev See {ERC1155-_beforeTokenTransfer}
     function _beforeTokenTransfer(
         address _operator,
@@ -305,6 +681,7 @@ contract RealEstateERC1155 is RoyalERC1155Upgradeable {
         uint256[] memory _amounts,
         bytes memory _data
     ) internal virtual override {
+        if (propertyGovernor != address(0)) IPropertyGovernor(propertyGovernor).updateSnapshots(_ids, _from, _to);
         super._beforeTokenTransfer(_operator, _from, _to, _ids, _amounts, _data);
         for (uint256 i = 0; i < _ids.length; i++) {
             _update(_ids[i], _from);
@@ -317,5 +694,5 @@ contract RealEstateERC1155 is RoyalERC1155Upgradeable {
      * variables without shifting down storage in the inheritance chain.
      * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
      */
-    uint256[41] private __gap;
+    uint256[33] private __gap;
 }
@@ -45,7 +45,7 @@ abstract contract SingleApprovableERC1155Upgradeable is UUPSUpgradeable, ERC1155
 
     /// @dev Checks if msg.sender is the admin
     modifier onlyAdmin() {
-        require(_msgSender() == admin, "!admin");
+        _checkAdmin();
         _;
     }
 
@@ -146,6 +146,12 @@ abstract contract SingleApprovableERC1155Upgradeable is UUPSUpgradeable, ERC1155
         ERC1155SupplyUpgradeable._beforeTokenTransfer(_operator, _from, _to, _ids, _amounts, _data);
     }
 
+    /// @dev Reverts if msg.sender is not the admin
+    /// @dev Kept out of the onlyAdmin modifier so it is not inlined in every restricted function
+    function _checkAdmin() internal view {
+        require(_msgSender() == admin, "!admin");
+    }
+
     /// @dev Sets `baseURI` as the `_baseURI` for all tokens
     /// @param baseURI_ Base URI string ended by SLASH
     function _setBaseURI(string memory baseURI_) internal virtual {
@@ -2,11 +2,13 @@
 pragma solidity ^0.8.17;
 
 import { ERC20Permit } from "./ERC20Permit.sol";
+import { ERC20Votes } from "./ERC20Votes.sol";
 
 /// @title Sky Token
 /// @author Yuri Fernandes (HorizonDAO)
 /// @notice HorizonDAO Governance token
-contract SkyERC20 is ERC20Permit {
+/// @notice Holders delegate their voting power to take part in governance (see ERC20Votes)
+contract SkyERC20 is ERC20Votes {
     /// @dev Maximum supply of 100M tokens (with 18 decimal points)
     uint256 public constant MAX_SUPPLY = 100_000_000 * 1e18;
 
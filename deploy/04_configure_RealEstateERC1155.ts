@@ -7,7 +7,7 @@ import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
 
 // Import deployment args
-import { getDeployer, horizonMultisig } from "./utils/deployment_args";
+import { getDeployer, horizonMultisig, realEstateDepositor, realEstateTreasury } from "./utils/deployment_args";
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   // get temporary admin
@@ -24,6 +24,13 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const realEstateNft = new hre.ethers.Contract(realEstateProxyAddress, realEstateAbi);
   await realEstateNft.connect(realEstateAdmin).setMinter(iroAddress);
 
+  // set the address depositing the rental yield
+  await realEstateNft.connect(realEstateAdmin).setDepositor(realEstateDepositor(hre.network.name));
+
+  // set the address receiving the yield forfeited by non-whitelisted contracts, if set for the network
+  const treasury = realEstateTreasury(hre.network.name);
+  if (treasury) await realEstateNft.connect(realEstateAdmin).setTreasury(treasury);
+
   // transfer admin role to Horizon Multisig
   await realEstateNft.connect(realEstateAdmin).setAdmin(horizonMultisig[hre.network.name]);
 };
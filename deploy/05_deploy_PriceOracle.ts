@@ -0,0 +1,81 @@
+// 05_deploy_PriceOracle.ts: Deploy PriceOracle and register its price feeds
+
+// Import HRE type
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Import type for the deploy function
+import { DeployFunction } from "hardhat-deploy/types";
+
+// Import deployment args
+import {
+  getDeployer,
+  priceFeedRegistry,
+  priceOracleArgs,
+  priceOracleFeeds,
+  whitelistedTokens,
+} from "./utils/deployment_args";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  // get deployer address
+  const { deployer } = await hre.getNamedAccounts();
+
+  // deploy PriceOracle
+  const constructorArgs = Object.values(await priceOracleArgs());
+  const deployResult = await hre.deployments.deploy("PriceOracle", {
+    contract: "PriceOracle",
+    from: deployer,
+    args: constructorArgs,
+    log: true,
+  });
+
+  if (deployResult.newlyDeployed) {
+    // Wait 5 confirmations
+    await hre.ethers.provider.waitForTransaction(<string>deployResult.transactionHash, 5);
+
+    // Verify contract
+    await hre.run("verify", {
+      address: deployResult.address,
+      constructorArgsParams: constructorArgs,
+    });
+  }
+
+  // register price feeds
+  const priceOracleAddress = await priceFeedRegistry();
+  const priceOracle = await hre.ethers.getContractAt("PriceOracle", priceOracleAddress, await getDeployer());
+  for (const [pair, feed] of Object.entries(priceOracleFeeds(hre.network.name) ?? {})) {
+    if (!feed) continue;
+    const [base, quote, aggregator] = feed;
+    if ((await priceOracle.priceAggregator(base, quote)) === aggregator) continue;
+    const tx = await priceOracle.setAggregator(base, quote, aggregator);
+    await tx.wait();
+    console.log(`Registered ${pair} price feed (${aggregator})`);
+  }
+
+  // set price oracle and whitelisted tokens in the IRO, or print what the IRO owner should submit
+  const iroDeployment = await hre.deployments.getOrNull("InitialRealEstateOffering_Proxy");
+  if (iroDeployment === null) return;
+  const iro = await hre.ethers.getContractAt("InitialRealEstateOffering", iroDeployment.address, await getDeployer());
+  const calls: string[] = [];
+  if ((await iro.priceOracle()) !== priceOracleAddress) {
+    calls.push(iro.interface.encodeFunctionData("setPriceOracle", [priceOracleAddress]));
+  }
+  for (const token of Object.values(whitelistedTokens(hre.network.name) ?? {})) {
+    if (token && !(await iro.isWhitelistedToken(token))) {
+      calls.push(iro.interface.encodeFunctionData("whitelistToken", [token, true]));
+    }
+  }
+  if (calls.length === 0) return;
+
+  const iroOwner = await iro.owner();
+  if (iroOwner !== deployer) {
+    console.log(`IRO is owned by ${iroOwner}, submit the following transactions to ${iro.address}:`);
+    calls.forEach((data) => console.log(`Data: ${data}`));
+    return;
+  }
+  for (const data of calls) {
+    const tx = await (await getDeployer()).sendTransaction({ to: iro.address, data });
+    await tx.wait();
+  }
+};
+func.tags = ["deploy", "PriceOracle", "Oracle", "05"];
+export default func;
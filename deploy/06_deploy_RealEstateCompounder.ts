@@ -0,0 +1,67 @@
+// 06_deploy_RealEstateCompounder.ts: Deploy RealEstateCompounder and set it as the reNFT compounder
+
+// Import HRE type
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Import type for the deploy function
+import { DeployFunction } from "hardhat-deploy/types";
+
+// Import deployment args
+import { getDeployer, realEstateCompounderArgs } from "./utils/deployment_args";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  // get deployer address
+  const { deployer } = await hre.getNamedAccounts();
+
+  // deploy RealEstateCompounder
+  const constructorArgs = Object.values(await realEstateCompounderArgs(hre.network.name));
+  const deployResult = await hre.deployments.deploy("RealEstateCompounder", {
+    contract: "RealEstateCompounder",
+    from: deployer,
+    args: constructorArgs,
+    log: true,
+  });
+
+  if (deployResult.newlyDeployed) {
+    // Wait 5 confirmations
+    await hre.ethers.provider.waitForTransaction(<string>deployResult.transactionHash, 5);
+
+    // Verify contract
+    await hre.run("verify", {
+      address: deployResult.address,
+      constructorArgsParams: constructorArgs,
+    });
+  }
+
+  // set the compounder in the reNFT and whitelist it for the yield of its inventory,
+  // or print what the reNFT admin should submit
+  const realEstateProxyAddress = (await hre.deployments.get("RealEstateERC1155_Proxy")).address;
+  const realEstateNft = await hre.ethers.getContractAt(
+    "RealEstateERC1155",
+    realEstateProxyAddress,
+    await getDeployer(),
+  );
+  const calls: string[] = [];
+  if ((await realEstateNft.compounder()) !== deployResult.address) {
+    calls.push(realEstateNft.interface.encodeFunctionData("setCompounder", [deployResult.address]));
+  }
+  if (!(await realEstateNft.eligibleForYields(deployResult.address))) {
+    calls.push(realEstateNft.interface.encodeFunctionData("toggleWhitelistContract", [deployResult.address, true]));
+  }
+  if (calls.length === 0) return;
+
+  const realEstateAdmin = await realEstateNft.admin();
+  if (realEstateAdmin !== deployer) {
+    console.log(
+      `reNFT is administrated by ${realEstateAdmin}, submit the following transactions to ${realEstateNft.address}:`,
+    );
+    calls.forEach((data) => console.log(`Data: ${data}`));
+    return;
+  }
+  for (const data of calls) {
+    const tx = await (await getDeployer()).sendTransaction({ to: realEstateNft.address, data });
+    await tx.wait();
+  }
+};
+func.tags = ["deploy", "RealEstateCompounder", "Compounder", "06"];
+export default func;
@@ -0,0 +1,53 @@
+// 07_deploy_RealEstateReserves.ts: Deploy RealEstateReserves and route a share of the IRO operation fee to it
+
+// Import HRE type
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Import type for the deploy function
+import { DeployFunction } from "hardhat-deploy/types";
+
+// Import deployment args
+import { getDeployer, iroReservesShare, realEstateReservesArgs } from "./utils/deployment_args";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  // get deployer address
+  const { deployer } = await hre.getNamedAccounts();
+
+  // deploy RealEstateReserves
+  const constructorArgs = Object.values(realEstateReservesArgs(hre.network.name));
+  const deployResult = await hre.deployments.deploy("RealEstateReserves", {
+    contract: "RealEstateReserves",
+    from: deployer,
+    args: constructorArgs,
+    log: true,
+  });
+
+  if (deployResult.newlyDeployed) {
+    // Wait 5 confirmations
+    await hre.ethers.provider.waitForTransaction(<string>deployResult.transactionHash, 5);
+
+    // Verify contract
+    await hre.run("verify", {
+      address: deployResult.address,
+      constructorArgsParams: constructorArgs,
+    });
+  }
+
+  // route a share of the IRO operation fee to the reserves, or print what the IRO owner should submit
+  const iroProxyAddress = (await hre.deployments.get("InitialRealEstateOffering_Proxy")).address;
+  const iro = await hre.ethers.getContractAt("InitialRealEstateOffering", iroProxyAddress, await getDeployer());
+  if ((await iro.reserves()) !== deployResult.address || (await iro.reservesShare()) !== iroReservesShare) {
+    const data = iro.interface.encodeFunctionData("setReserves", [deployResult.address, iroReservesShare]);
+    const owner = await iro.owner();
+    if (owner !== deployer) {
+      console.log(`Submit the following transaction from ${owner}:`);
+      console.log(`To: ${iro.address}`);
+      console.log(`Data: ${data}`);
+    } else {
+      const tx = await (await getDeployer()).sendTransaction({ to: iro.address, data });
+      await tx.wait();
+    }
+  }
+};
+func.tags = ["deploy", "RealEstateReserves", "Reserves", "07"];
+export default func;
@@ -0,0 +1,68 @@
+// 08_deploy_RealEstateRedemption.ts: Deploy RealEstateRedemption and give it the reNFT burner role
+
+// Import HRE type
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Import type for the deploy function
+import { DeployFunction } from "hardhat-deploy/types";
+
+// Import deployment args
+import { getDeployer, realEstateRedemptionArgs } from "./utils/deployment_args";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  // get deployer address
+  const { deployer } = await hre.getNamedAccounts();
+
+  // deploy RealEstateRedemption
+  const constructorArgs = Object.values(await realEstateRedemptionArgs(hre.network.name));
+  const deployResult = await hre.deployments.deploy("RealEstateRedemption", {
+    contract: "RealEstateRedemption",
+    from: deployer,
+    args: constructorArgs,
+    log: true,
+  });
+
+  if (deployResult.newlyDeployed) {
+    // Wait 5 confirmations
+    await hre.ethers.provider.waitForTransaction(<string>deployResult.transactionHash, 5);
+
+    // Verify contract
+    await hre.run("verify", {
+      address: deployResult.address,
+      constructorArgsParams: constructorArgs,
+    });
+  }
+
+  // set the redemption module as the reNFT burner and in the reserves,
+  // or print what the reNFT admin and the reserves owner should submit
+  const realEstateProxyAddress = (await hre.deployments.get("RealEstateERC1155_Proxy")).address;
+  const realEstateNft = await hre.ethers.getContractAt(
+    "RealEstateERC1155",
+    realEstateProxyAddress,
+    await getDeployer(),
+  );
+  const reservesAddress = (await hre.deployments.get("RealEstateReserves")).address;
+  const reserves = await hre.ethers.getContractAt("RealEstateReserves", reservesAddress, await getDeployer());
+  const calls: [string, string, string][] = [];
+  if ((await realEstateNft.burner()) !== deployResult.address) {
+    const data = realEstateNft.interface.encodeFunctionData("setBurner", [deployResult.address]);
+    calls.push([await realEstateNft.admin(), realEstateNft.address, data]);
+  }
+  if ((await reserves.redemption()) !== deployResult.address) {
+    const data = reserves.interface.encodeFunctionData("setRedemption", [deployResult.address]);
+    calls.push([await reserves.owner(), reserves.address, data]);
+  }
+
+  for (const [sender, to, data] of calls) {
+    if (sender !== deployer) {
+      console.log(`Submit the following transaction from ${sender}:`);
+      console.log(`To: ${to}`);
+      console.log(`Data: ${data}`);
+      continue;
+    }
+    const tx = await (await getDeployer()).sendTransaction({ to, data });
+    await tx.wait();
+  }
+};
+func.tags = ["deploy", "RealEstateRedemption", "Redemption", "08"];
+export default func;
@@ -0,0 +1,45 @@
+// 09_deploy_Vesting.ts: Deploy Vesting and transfer its ownership to the Horizon multisig
+
+// Import HRE type
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Import type for the deploy function
+import { DeployFunction } from "hardhat-deploy/types";
+
+// Import deployment args
+import { getDeployer, vestingArgs, vestingOwner } from "./utils/deployment_args";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  // get deployer address
+  const { deployer } = await hre.getNamedAccounts();
+
+  // deploy Vesting
+  const constructorArgs = Object.values(await vestingArgs());
+  const deployResult = await hre.deployments.deploy("Vesting", {
+    contract: "Vesting",
+    from: deployer,
+    args: constructorArgs,
+    log: true,
+  });
+
+  if (deployResult.newlyDeployed) {
+    // Wait 5 confirmations
+    await hre.ethers.provider.waitForTransaction(<string>deployResult.transactionHash, 5);
+
+    // Verify contract
+    await hre.run("verify", {
+      address: deployResult.address,
+      constructorArgsParams: constructorArgs,
+    });
+  }
+
+  // transfer ownership to the Horizon multisig, which creates the vesting positions
+  const vesting = await hre.ethers.getContractAt("Vesting", deployResult.address, await getDeployer());
+  const owner = vestingOwner(hre.network.name);
+  if ((await vesting.owner()) === deployer && owner !== deployer) {
+    const tx = await vesting.transferOwnership(owner);
+    await tx.wait();
+  }
+};
+func.tags = ["deploy", "Vesting", "09"];
+export default func;
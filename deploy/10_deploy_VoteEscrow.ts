@@ -0,0 +1,63 @@
+// 10_deploy_VoteEscrow.ts: Deploy VoteEscrow (veSKY) and set it as the vote escrow of Vesting
+
+// Import HRE type
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Import type for the deploy function
+import { DeployFunction } from "hardhat-deploy/types";
+
+// Import deployment args
+import { getDeployer, voteEscrowArgs } from "./utils/deployment_args";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  // get deployer address
+  const { deployer } = await hre.getNamedAccounts();
+
+  // deploy VoteEscrow
+  const constructorArgs = Object.values(await voteEscrowArgs(hre.network.name));
+  const deployResult = await hre.deployments.deploy("VoteEscrow", {
+    contract: "VoteEscrow",
+    from: deployer,
+    args: constructorArgs,
+    log: true,
+  });
+
+  if (deployResult.newlyDeployed) {
+    // Wait 5 confirmations
+    await hre.ethers.provider.waitForTransaction(<string>deployResult.transactionHash, 5);
+
+    // Verify contract
+    await hre.run("verify", {
+      address: deployResult.address,
+      constructorArgsParams: constructorArgs,
+    });
+  }
+
+  // allow Vesting to lock vested SKY and set the vote escrow in Vesting,
+  // or print what the vote escrow and Vesting owners should submit
+  const voteEscrow = await hre.ethers.getContractAt("VoteEscrow", deployResult.address, await getDeployer());
+  const vestingAddress = (await hre.deployments.get("Vesting")).address;
+  const vesting = await hre.ethers.getContractAt("Vesting", vestingAddress, await getDeployer());
+  const calls: [string, string, string][] = [];
+  if (!(await voteEscrow.lockers(vesting.address))) {
+    const data = voteEscrow.interface.encodeFunctionData("setLocker", [vesting.address, true]);
+    calls.push([await voteEscrow.owner(), voteEscrow.address, data]);
+  }
+  if ((await vesting.voteEscrow()) !== deployResult.address) {
+    const data = vesting.interface.encodeFunctionData("setVoteEscrow", [deployResult.address]);
+    calls.push([await vesting.owner(), vesting.address, data]);
+  }
+
+  for (const [sender, to, data] of calls) {
+    if (sender !== deployer) {
+      console.log(`Submit the following transaction from ${sender}:`);
+      console.log(`To: ${to}`);
+      console.log(`Data: ${data}`);
+      continue;
+    }
+    const tx = await (await getDeployer()).sendTransaction({ to, data });
+    await tx.wait();
+  }
+};
+func.tags = ["deploy", "VoteEscrow", "veSKY", "10"];
+export default func;
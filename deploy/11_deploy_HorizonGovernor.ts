@@ -0,0 +1,92 @@
+// 11_deploy_HorizonGovernor.ts: Deploy the timelock and HorizonGovernor, and hand them the Horizon admin roles
+
+// Import HRE type
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Import type for the deploy function
+import { DeployFunction } from "hardhat-deploy/types";
+
+// Import deployment args
+import { getDeployer, horizonGovernorArgs, timelockArgs } from "./utils/deployment_args";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  // get deployer address
+  const { deployer } = await hre.getNamedAccounts();
+
+  // deploy TimelockController and HorizonGovernor
+  for (const [name, args] of [
+    ["TimelockController", timelockArgs],
+    ["HorizonGovernor", horizonGovernorArgs],
+  ] as const) {
+    const constructorArgs = Object.values(await args());
+    const deployResult = await hre.deployments.deploy(name, {
+      contract: name,
+      from: deployer,
+      args: constructorArgs,
+      log: true,
+    });
+
+    if (deployResult.newlyDeployed) {
+      // Wait 5 confirmations
+      await hre.ethers.provider.waitForTransaction(<string>deployResult.transactionHash, 5);
+
+      // Verify contract
+      await hre.run("verify", {
+        address: deployResult.address,
+        constructorArgsParams: constructorArgs,
+      });
+    }
+  }
+
+  // make the governor the only proposer of the timelock, then renounce the timelock admin role
+  const timelockAddress = (await hre.deployments.get("TimelockController")).address;
+  const governorAddress = (await hre.deployments.get("HorizonGovernor")).address;
+  const timelock = await hre.ethers.getContractAt("TimelockController", timelockAddress, await getDeployer());
+  const adminRole = await timelock.TIMELOCK_ADMIN_ROLE();
+  if (await timelock.hasRole(adminRole, deployer)) {
+    for (const role of [await timelock.PROPOSER_ROLE(), await timelock.CANCELLER_ROLE()]) {
+      if (!(await timelock.hasRole(role, governorAddress)))
+        await (await timelock.grantRole(role, governorAddress)).wait();
+    }
+    await (await timelock.renounceRole(adminRole, deployer)).wait();
+  }
+
+  // hand the IRO ownership and the reNFT and SKY admin roles to the timelock,
+  // or print what their current owner/admin should submit
+  const iroAddress = (await hre.deployments.get("InitialRealEstateOffering_Proxy")).address;
+  const iro = await hre.ethers.getContractAt("InitialRealEstateOffering", iroAddress, await getDeployer());
+  const realEstateProxyAddress = (await hre.deployments.get("RealEstateERC1155_Proxy")).address;
+  const realEstateNft = await hre.ethers.getContractAt(
+    "RealEstateERC1155",
+    realEstateProxyAddress,
+    await getDeployer(),
+  );
+  const skyAddress = (await hre.deployments.get("SkyERC20")).address;
+  const sky = await hre.ethers.getContractAt("SkyERC20", skyAddress, await getDeployer());
+  const calls: [string, string, string][] = [];
+  if ((await iro.owner()) !== timelockAddress) {
+    const data = iro.interface.encodeFunctionData("transferOwnership", [timelockAddress]);
+    calls.push([await iro.owner(), iro.address, data]);
+  }
+  if ((await realEstateNft.admin()) !== timelockAddress) {
+    const data = realEstateNft.interface.encodeFunctionData("setAdmin", [timelockAddress]);
+    calls.push([await realEstateNft.admin(), realEstateNft.address, data]);
+  }
+  if ((await sky.admin()) !== timelockAddress) {
+    const data = sky.interface.encodeFunctionData("setAdmin", [timelockAddress]);
+    calls.push([await sky.admin(), sky.address, data]);
+  }
+
+  for (const [sender, to, data] of calls) {
+    if (sender !== deployer) {
+      console.log(`Submit the following transaction from ${sender}:`);
+      console.log(`To: ${to}`);
+      console.log(`Data: ${data}`);
+      continue;
+    }
+    const tx = await (await getDeployer()).sendTransaction({ to, data });
+    await tx.wait();
+  }
+};
+func.tags = ["deploy", "HorizonGovernor", "Governance", "11"];
+export default func;
@@ -0,0 +1,58 @@
+// 12_deploy_PropertyGovernor.ts: Deploy PropertyGovernor and let it snapshot the reNFT balances
+
+// Import HRE type
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Import type for the deploy function
+import { DeployFunction } from "hardhat-deploy/types";
+
+// Import deployment args
+import { getDeployer, propertyGovernorArgs } from "./utils/deployment_args";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  // get deployer address
+  const { deployer } = await hre.getNamedAccounts();
+
+  // deploy PropertyGovernor
+  const constructorArgs = Object.values(await propertyGovernorArgs());
+  const deployResult = await hre.deployments.deploy("PropertyGovernor", {
+    contract: "PropertyGovernor",
+    from: deployer,
+    args: constructorArgs,
+    log: true,
+  });
+
+  if (deployResult.newlyDeployed) {
+    // Wait 5 confirmations
+    await hre.ethers.provider.waitForTransaction(<string>deployResult.transactionHash, 5);
+
+    // Verify contract
+    await hre.run("verify", {
+      address: deployResult.address,
+      constructorArgsParams: constructorArgs,
+    });
+  }
+
+  // set the property governor in the reNFT, or print what the reNFT admin should submit
+  // (actions are allowed and roles granted to the property governor by DAO proposals, see gov:propose)
+  const realEstateProxyAddress = (await hre.deployments.get("RealEstateERC1155_Proxy")).address;
+  const realEstateNft = await hre.ethers.getContractAt(
+    "RealEstateERC1155",
+    realEstateProxyAddress,
+    await getDeployer(),
+  );
+  if ((await realEstateNft.propertyGovernor()) !== deployResult.address) {
+    const admin = await realEstateNft.admin();
+    const data = realEstateNft.interface.encodeFunctionData("setPropertyGovernor", [deployResult.address]);
+    if (admin !== deployer) {
+      console.log(`Submit the following transaction from ${admin}:`);
+      console.log(`To: ${realEstateNft.address}`);
+      console.log(`Data: ${data}`);
+    } else {
+      const tx = await (await getDeployer()).sendTransaction({ to: realEstateNft.address, data });
+      await tx.wait();
+    }
+  }
+};
+func.tags = ["deploy", "PropertyGovernor", "Governance", "12"];
+export default func;
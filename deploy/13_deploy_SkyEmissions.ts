@@ -0,0 +1,54 @@
+// 13_deploy_SkyEmissions.ts: Deploy SkyEmissions and make it the SKY minter
+
+// Import HRE type
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Import type for the deploy function
+import { DeployFunction } from "hardhat-deploy/types";
+
+// Import deployment args
+import { getDeployer, skyEmissionsArgs } from "./utils/deployment_args";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  // get deployer address
+  const { deployer } = await hre.getNamedAccounts();
+
+  // deploy SkyEmissions
+  const constructorArgs = Object.values(await skyEmissionsArgs(hre.network.name));
+  const deployResult = await hre.deployments.deploy("SkyEmissions", {
+    contract: "SkyEmissions",
+    from: deployer,
+    args: constructorArgs,
+    log: true,
+  });
+
+  if (deployResult.newlyDeployed) {
+    // Wait 5 confirmations
+    await hre.ethers.provider.waitForTransaction(<string>deployResult.transactionHash, 5);
+
+    // Verify contract
+    await hre.run("verify", {
+      address: deployResult.address,
+      constructorArgsParams: constructorArgs,
+    });
+  }
+
+  // set SkyEmissions as the SKY minter, or print what the SKY admin should submit
+  // (the SKY admin is the timelock once HorizonGovernor is deployed, see gov:propose)
+  const skyAddress = (await hre.deployments.get("SkyERC20")).address;
+  const sky = await hre.ethers.getContractAt("SkyERC20", skyAddress, await getDeployer());
+  if ((await sky.minter()) !== deployResult.address) {
+    const admin = await sky.admin();
+    const data = sky.interface.encodeFunctionData("setMinter", [deployResult.address]);
+    if (admin !== deployer) {
+      console.log(`Submit the following transaction from ${admin}:`);
+      console.log(`To: ${sky.address}`);
+      console.log(`Data: ${data}`);
+    } else {
+      const tx = await (await getDeployer()).sendTransaction({ to: sky.address, data });
+      await tx.wait();
+    }
+  }
+};
+func.tags = ["deploy", "SkyEmissions", "Emissions", "SKY", "13"];
+export default func;
@@ -49,16 +49,17 @@ const treasury: { [network: string]: string } = {
   polygon_mumbai: "0x39a242169BA3B28623E6d235A4Bdd46287d4bae3", // Gnosis doesn't support Mumbai
 };
 
+// InitialRealEstateOffering
+const initialRealEstateOffering = async () => (await hre.deployments.get("InitialRealEstateOffering_Proxy")).address;
+
 // RealEstateReserves
-/*
-const realEstateReserves: { [network: string]: string } = {
-  mainnet: "",
-  goerli: "",
-};
-*/
+const realEstateReserves = async () => (await hre.deployments.get("RealEstateReserves")).address;
+
+// SkyERC20
+const skyErc20 = async () => (await hre.deployments.get("SkyERC20")).address;
 
 // Price Feed Registry
-//const priceFeedRegistry = async () => (await hre.deployments.get("PriceOracle")).address;
+export const priceFeedRegistry = async () => (await hre.deployments.get("PriceOracle")).address;
 
 // Swap Router
 /*
@@ -122,6 +123,121 @@ export async function realEstateErc1155Args(network: string) {
   };
 }
 
+// Address allowed to deposit the rental yield of the reNFTs
+export function realEstateDepositor(network: string) {
+  return horizonMultisig[network];
+}
+
+// Address receiving the yield forfeited by non-whitelisted contracts holding reNFTs
+export function realEstateTreasury(network: string) {
+  return treasury[network];
+}
+
+/*************** RealEstateCompounder ***************/
+export async function realEstateCompounderArgs(network: string) {
+  return {
+    owner: horizonMultisig[network], // Address allowed to set unit prices and withdraw units
+    realEstateNft: await realEstateNft(),
+    treasury: treasury[network], // Receives the payment of the units sold
+  };
+}
+
+/*************** RealEstateReserves ***************/
+export function realEstateReservesArgs(network: string) {
+  return {
+    owner: horizonMultisig[network], // Address allowed to release funds and set the redemption module
+    vacancyShare: 3000, // Share of the deposits allocated to the vacancy buffer (30%), the rest going to maintenance
+  };
+}
+
+// Share of the IRO operation fee deposited to the real estate reserves on withdrawal (50%), the rest going to the treasury
+export const iroReservesShare = 5000;
+
+/*************** RealEstateRedemption ***************/
+export async function realEstateRedemptionArgs(network: string) {
+  return {
+    owner: horizonMultisig[network], // Address allowed to open and close redemptions
+    realEstateNft: await realEstateNft(),
+    reserves: await realEstateReserves(),
+    iro: await initialRealEstateOffering(), // Holds the units not claimed yet, counted in the redemptions
+  };
+}
+
+/*************** Vesting ***************/
+export async function vestingArgs() {
+  return {
+    underlying: await skyErc20(), // Vested token
+  };
+}
+
+// Address allowed to create vesting positions and set the vote escrow, receives the ownership after deployment
+export function vestingOwner(network: string) {
+  return horizonMultisig[network];
+}
+
+/*************** VoteEscrow ***************/
+export async function voteEscrowArgs(network: string) {
+  return {
+    owner: horizonMultisig[network], // Address allowed to set the lockers
+    underlying: await skyErc20(), // Locked token
+  };
+}
+
+/*************** HorizonGovernor ***************/
+// TimelockController constructor args
+export async function timelockArgs() {
+  return {
+    minDelay: 2 * 86400, // Delay between queuing and executing a proposal (2 days)
+    proposers: [], // Set to the governor after deployment
+    executors: [ethers.constants.AddressZero], // Anyone can execute a queued proposal
+    admin: (await getDeployer()).address, // Grants the governor roles, then renounces
+  };
+}
+
+export async function horizonGovernorArgs() {
+  return {
+    token: (await hre.deployments.get("VoteEscrow")).address, // Voting token (veSKY)
+    timelock: (await hre.deployments.get("TimelockController")).address, // Executes the proposals
+    votingDelay: 86400, // Delay between a proposal and the start of its vote (1 day)
+    votingPeriod: 7 * 86400, // Duration of the vote (1 week)
+    proposalThreshold: ethers.utils.parseEther("10000"), // veSKY required to make a proposal
+    quorumFraction: 4, // Share of the total veSKY required for a proposal to pass (4%)
+  };
+}
+
+/*************** PropertyGovernor ***************/
+export async function propertyGovernorArgs() {
+  return {
+    owner: (await hre.deployments.get("TimelockController")).address, // Address allowed to set the voting rules and allowed actions (DAO timelock)
+    realEstateNft: (await hre.deployments.get("RealEstateERC1155_Proxy")).address, // Snapshots the balances of the holders
+    votingPeriod: 7 * 86400, // Duration of the vote of a property proposal (1 week)
+    quorum: 2000, // Share of the units that should vote for a property proposal to pass (20%)
+    proposalThreshold: 100, // Share of the units required to make a property proposal (1%)
+  };
+}
+
+/*************** SkyEmissions ***************/
+// Address receiving the IRO participant rewards share of the emissions
+const iroRewards: { [network: string]: string } = {
+  mainnet: "",
+  goerli: "0x63926E60619172FE58870BCeb057b3B437Fa62FC", // HorizonDAO multisig, until a rewards distributor is deployed
+  polygon_mumbai: "0x39a242169BA3B28623E6d235A4Bdd46287d4bae3",
+};
+
+export async function skyEmissionsArgs(network: string) {
+  const epochDuration = 7 * 86400; // 1 week
+  return {
+    owner: (await hre.deployments.get("TimelockController")).address, // Address allowed to set the schedule and the recipients (DAO timelock)
+    sky: await skyErc20(),
+    start: Date.UTC(2026, 10, 5) / 1000, // First epoch begins on 2026-11-05 00:00 UTC (fixed, so redeploys keep the same args)
+    epochDuration,
+    initialRate: ethers.utils.parseEther("500000").div(epochDuration), // 500k SKY emitted during the first epoch
+    decay: 9900, // Each epoch emits 1% less than the previous one (~50M SKY in total)
+    recipients: [(await hre.deployments.get("Vesting")).address, treasury[network], iroRewards[network]],
+    shares: [4000, 3000, 3000], // Vesting 40%, treasury 30%, IRO participant rewards 30%
+  };
+}
+
 /*************** PriceOracle ***************/
 export async function priceOracleArgs() {
   return {
@@ -0,0 +1,74 @@
+// addresses.ts: Resolve Horizon contract addresses from hardhat-deploy deployments
+
+// fs and path for reading the deployments folder
+import fs from "fs";
+import path from "path";
+
+// Import types
+import type { HorizonAddresses } from "./types";
+
+// Default deployments folder (hardhat-deploy output)
+export const DEFAULT_DEPLOYMENTS_DIR = path.resolve(__dirname, "../deployments");
+
+// hardhat-deploy deployment names of the Horizon contracts
+export const DEPLOYMENT_NAMES: { [contract in keyof HorizonAddresses]-?: string } = {
+  iro: "InitialRealEstateOffering_Proxy",
+  realEstate: "RealEstateERC1155_Proxy",
+  sky: "SkyERC20",
+  vesting: "Vesting",
+  priceOracle: "PriceOracle",
+  compounder: "RealEstateCompounder",
+  redemption: "RealEstateRedemption",
+  reserves: "RealEstateReserves",
+  voteEscrow: "VoteEscrow",
+  governor: "HorizonGovernor",
+  propertyGovernor: "PropertyGovernor",
+  emissions: "SkyEmissions",
+};
+
+/**
+ * @dev Find the deployments network folder for a given chain ID
+ *
+ * @param chainId Chain ID
+ * @param deploymentsDir Deployments folder
+ * @return Network name, undefined if there are no deployments for the chain
+ */
+export function networkFromChainId(chainId: number, deploymentsDir = DEFAULT_DEPLOYMENTS_DIR): string | undefined {
+  if (!fs.existsSync(deploymentsDir)) return undefined;
+  return fs.readdirSync(deploymentsDir).find((network) => {
+    const chainIdFile = path.resolve(deploymentsDir, network, ".chainId");
+    return fs.existsSync(chainIdFile) && Number(fs.readFileSync(chainIdFile, "utf8").trim()) === chainId;
+  });
+}
+
+/**
+ * @dev Read the Horizon contract addresses deployed on a network
+ *
+ * @param network Network name (deployments subfolder)
+ * @param deploymentsDir Deployments folder
+ * @return Addresses of the deployed contracts
+ */
+export function addressesFromDeployments(network: string, deploymentsDir = DEFAULT_DEPLOYMENTS_DIR): HorizonAddresses {
+  const addresses: HorizonAddresses = {};
+  for (const [contract, deploymentName] of Object.entries(DEPLOYMENT_NAMES)) {
+    const deploymentFile = path.resolve(deploymentsDir, network, `${deploymentName}.json`);
+    if (!fs.existsSync(deploymentFile)) continue;
+    addresses[contract as keyof HorizonAddresses] = JSON.parse(fs.readFileSync(deploymentFile, "utf8")).address;
+  }
+  return addresses;
+}
+
+/**
+ * @dev Merge resolved addresses with user provided ones, ignoring undefined overrides
+ *
+ * @param addresses Resolved addresses
+ * @param overrides Addresses taking precedence over the resolved ones
+ * @return Merged addresses
+ */
+export function mergeAddresses(addresses: HorizonAddresses, overrides: HorizonAddresses = {}): HorizonAddresses {
+  const merged = { ...addresses };
+  for (const [contract, address] of Object.entries(overrides)) {
+    if (address !== undefined) merged[contract as keyof HorizonAddresses] = address;
+  }
+  return merged;
+}
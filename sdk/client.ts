@@ -0,0 +1,156 @@
+// client.ts: Entry point of the Horizon SDK
+
+// Import Signer
+import { Signer } from "@ethersproject/abstract-signer";
+
+// Import SDK namespaces
+import { IROClient } from "./iro";
+import { RealEstateClient } from "./real_estate";
+import { SkyClient } from "./sky";
+import { VestingClient } from "./vesting";
+import { PriceOracleClient } from "./price_oracle";
+import { CompounderClient } from "./compounder";
+import { RedemptionClient } from "./redemption";
+import { ReservesClient } from "./reserves";
+import { GovernorClient } from "./governor";
+import { PropertyGovernorClient } from "./property_governor";
+import { EmissionsClient } from "./emissions";
+
+// Import address resolution
+import { DEFAULT_DEPLOYMENTS_DIR, addressesFromDeployments, mergeAddresses, networkFromChainId } from "./addresses";
+
+// Import SDK types
+import type { Address, HorizonAddresses, SignerOrProvider } from "./types";
+
+// Options to resolve the contract addresses from the deployments folder
+export interface DeploymentsOptions {
+  network?: string; // network name (deployments subfolder), detected from the chain ID if omitted
+  deploymentsDir?: string; // deployments folder, defaults to the repository one
+  overrides?: HorizonAddresses; // addresses taking precedence over the deployed ones
+}
+
+/**
+ * @dev Gives access to the Horizon contracts, each through its own namespace
+ */
+export class HorizonClient {
+  readonly addresses: HorizonAddresses;
+  readonly signerOrProvider: SignerOrProvider;
+
+  /**
+   * @dev Build a client from known addresses
+   * @param signerOrProvider Signer (to send transactions) or provider (read-only)
+   * @param addresses Addresses of the Horizon contracts
+   */
+  constructor(signerOrProvider: SignerOrProvider, addresses: HorizonAddresses) {
+    this.signerOrProvider = signerOrProvider;
+    this.addresses = addresses;
+  }
+
+  /**
+   * @dev Build a client resolving the addresses from the hardhat-deploy deployments folder
+   * @param signerOrProvider Signer or provider, connected to the network to use
+   * @param options Network, deployments folder and address overrides
+   */
+  static async fromDeployments(signerOrProvider: SignerOrProvider, options: DeploymentsOptions = {}) {
+    const deploymentsDir = options.deploymentsDir ?? DEFAULT_DEPLOYMENTS_DIR;
+    let network = options.network;
+    if (network === undefined) {
+      const provider = Signer.isSigner(signerOrProvider) ? signerOrProvider.provider : signerOrProvider;
+      if (provider === undefined) throw new Error("Signer is not connected to a provider");
+      const { chainId } = await provider.getNetwork();
+      network = networkFromChainId(chainId, deploymentsDir);
+      if (network === undefined) throw new Error(`No deployments found for chain ID ${chainId}`);
+    }
+    return new HorizonClient(
+      signerOrProvider,
+      mergeAddresses(addressesFromDeployments(network, deploymentsDir), options.overrides),
+    );
+  }
+
+  /**
+   * @dev InitialRealEstateOffering namespace
+   */
+  get iro() {
+    return new IROClient(this._address("iro"), this.signerOrProvider);
+  }
+
+  /**
+   * @dev RealEstateERC1155 namespace
+   */
+  get realEstate() {
+    return new RealEstateClient(this._address("realEstate"), this.signerOrProvider);
+  }
+
+  /**
+   * @dev SkyERC20 namespace
+   */
+  get sky() {
+    return new SkyClient(this._address("sky"), this.signerOrProvider);
+  }
+
+  /**
+   * @dev Vesting namespace
+   */
+  get vesting() {
+    return new VestingClient(this._address("vesting"), this.signerOrProvider);
+  }
+
+  /**
+   * @dev PriceOracle namespace
+   */
+  get priceOracle() {
+    return new PriceOracleClient(this._address("priceOracle"), this.signerOrProvider);
+  }
+
+  /**
+   * @dev RealEstateCompounder namespace
+   */
+  get compounder() {
+    return new CompounderClient(this._address("compounder"), this.signerOrProvider);
+  }
+
+  /**
+   * @dev RealEstateRedemption namespace
+   */
+  get redemption() {
+    return new RedemptionClient(this._address("redemption"), this.signerOrProvider);
+  }
+
+  /**
+   * @dev RealEstateReserves namespace
+   */
+  get reserves() {
+    return new ReservesClient(this._address("reserves"), this.signerOrProvider);
+  }
+
+  /**
+   * @dev HorizonGovernor namespace
+   */
+  get governor() {
+    return new GovernorClient(this._address("governor"), this.signerOrProvider);
+  }
+
+  /**
+   * @dev PropertyGovernor namespace
+   */
+  get propertyGovernor() {
+    return new PropertyGovernorClient(this._address("propertyGovernor"), this.signerOrProvider);
+  }
+
+  /**
+   * @dev SkyEmissions namespace
+   */
+  get emissions() {
+    return new EmissionsClient(this._address("emissions"), this.signerOrProvider);
+  }
+
+  /**
+   * @dev Get the address of a contract, failing if it is unknown
+   * @param contract Contract key
+   */
+  private _address(contract: keyof HorizonAddresses): Address {
+    const address = this.addresses[contract];
+    if (address === undefined) throw new Error(`Address of "${contract}" is unknown on this network`);
+    return address;
+  }
+}
@@ -0,0 +1,57 @@
+// compounder.ts: RealEstateCompounder namespace of the Horizon SDK
+
+// Import BigNumber
+import { BigNumberish } from "@ethersproject/bignumber";
+
+// Import contract types and factories
+import type { RealEstateCompounder } from "../typechain-types";
+import { RealEstateCompounder__factory } from "../typechain-types";
+
+// Import SDK types
+import type { Address, SignerOrProvider } from "./types";
+
+/**
+ * @dev Wraps the RealEstateCompounder contract
+ */
+export class CompounderClient {
+  readonly contract: RealEstateCompounder;
+
+  /**
+   * @dev Connect to the RealEstateCompounder contract
+   * @param address Address of the RealEstateCompounder contract
+   * @param signerOrProvider Signer (to send transactions) or provider (read-only)
+   */
+  constructor(address: Address, signerOrProvider: SignerOrProvider) {
+    this.contract = RealEstateCompounder__factory.connect(address, signerOrProvider);
+  }
+
+  /**
+   * @dev Enable or disable auto-compounding of the signer yield, does nothing if already in that state
+   * @param id Real estate ID
+   * @param enabled Whether to enable or disable auto-compounding
+   */
+  async setAutoCompound(id: BigNumberish, enabled: boolean) {
+    if ((await this.contract.autoCompound(id, await this.contract.signer.getAddress())) === enabled) return;
+    const tx = await this.contract.setAutoCompound(id, enabled);
+    return tx.wait();
+  }
+
+  /**
+   * @dev Get the auto-compounding progress of an account towards its next units
+   * @param id Real estate ID
+   * @param account Account address (defaults to the signer)
+   */
+  async compoundingProgress(id: BigNumberish, account?: Address) {
+    return this.contract.compoundingProgress(id, account ?? (await this.contract.signer.getAddress()));
+  }
+
+  /**
+   * @dev Compound the yield of opted-in accounts into units
+   * @param id Real estate ID
+   * @param accounts Accounts to compound the yield of
+   */
+  async compound(id: BigNumberish, accounts: Address[]) {
+    const tx = await this.contract.compound(id, accounts);
+    return tx.wait();
+  }
+}
@@ -0,0 +1,87 @@
+// emissions.ts: SkyEmissions namespace of the Horizon SDK
+
+// Import BigNumber
+import { BigNumber } from "@ethersproject/bignumber";
+
+// Import contract types and factories
+import type { SkyEmissions } from "../typechain-types";
+import { SkyEmissions__factory, SkyERC20__factory } from "../typechain-types";
+
+// Import SDK types
+import type { Address, SignerOrProvider } from "./types";
+
+// Projected SKY supply at the end of an epoch of the emissions schedule
+export interface SupplyProjection {
+  epoch: number;
+  end: number; // timestamp of the end of the epoch
+  rate: BigNumber; // SKY emitted per second during the epoch
+  totalSupply: BigNumber; // capped by MAX_SUPPLY
+  maxSupply: BigNumber;
+}
+
+/**
+ * @dev Wraps the SkyEmissions contract
+ */
+export class EmissionsClient {
+  readonly contract: SkyEmissions;
+
+  /**
+   * @dev Connect to the SkyEmissions contract
+   * @param address Address of the SkyEmissions contract
+   * @param signerOrProvider Signer (to send transactions) or provider (read-only)
+   */
+  constructor(address: Address, signerOrProvider: SignerOrProvider) {
+    this.contract = SkyEmissions__factory.connect(address, signerOrProvider);
+  }
+
+  /**
+   * @dev Get the amount of SKY that would be distributed now
+   */
+  async pendingEmissions(): Promise<BigNumber> {
+    return this.contract.pendingEmissions();
+  }
+
+  /**
+   * @dev Mint the pending emissions to the recipients
+   * @return Amount of SKY distributed
+   */
+  async distribute(): Promise<BigNumber> {
+    const tx = await this.contract.distribute();
+    const receipt = await tx.wait();
+    const event = receipt.events?.find((e) => e.event === "Distributed");
+    return event?.args?._amount ?? BigNumber.from(0);
+  }
+
+  /**
+   * @dev Project the SKY supply at the end of the next epochs of the current schedule
+   * @param epochs Maximum number of epochs to project, stops once MAX_SUPPLY is reached or the rate is zero
+   * @return Projected supply at the end of each epoch, starting from the current one
+   */
+  async projectSupply(epochs: number): Promise<SupplyProjection[]> {
+    const [schedule, lastDistribution, skyAddress, { timestamp }] = await Promise.all([
+      this.contract.schedule(),
+      this.contract.lastDistribution(),
+      this.contract.sky(),
+      this.contract.provider.getBlock("latest"),
+    ]);
+    const sky = SkyERC20__factory.connect(skyAddress, this.contract.provider);
+    const [currentSupply, maxSupply] = await Promise.all([sky.totalSupply(), sky.MAX_SUPPLY()]);
+
+    const start = schedule.start.toNumber();
+    const epochDuration = schedule.epochDuration.toNumber();
+    const firstEpoch = Math.floor((Math.max(timestamp, start) - start) / epochDuration);
+    const projections: SupplyProjection[] = [];
+    for (let epoch = firstEpoch; epoch < firstEpoch + epochs; epoch++) {
+      const end = start + (epoch + 1) * epochDuration;
+      const [rate, scheduled] = await Promise.all([
+        this.contract.epochRate(epoch),
+        this.contract.scheduledEmissions(lastDistribution, end),
+      ]);
+      const projected = currentSupply.add(scheduled);
+      const totalSupply = projected.gt(maxSupply) ? maxSupply : projected;
+      projections.push({ epoch, end, rate, totalSupply, maxSupply });
+      if (totalSupply.eq(maxSupply) || rate.isZero()) break;
+    }
+    return projections;
+  }
+}
@@ -0,0 +1,138 @@
+// governor.ts: HorizonGovernor namespace of the Horizon SDK
+
+// Import BigNumber
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+
+// Import id to hash the proposal descriptions
+import { id as hashDescription } from "@ethersproject/hash";
+
+// Import contract types and factories
+import type { HorizonGovernor } from "../typechain-types";
+import { HorizonGovernor__factory } from "../typechain-types";
+
+// Import SDK types
+import { ProposalState, VoteType } from "./types";
+import type { Address, SignerOrProvider } from "./types";
+
+// Call executed by the timelock when a proposal passes
+export interface ProposalAction {
+  target: Address;
+  value: BigNumber;
+  calldata: string;
+}
+
+// Proposal, as submitted to the governor
+export interface Proposal {
+  id: BigNumber;
+  proposer: Address;
+  actions: ProposalAction[];
+  description: string;
+  voteStart: BigNumber;
+  voteEnd: BigNumber;
+}
+
+/**
+ * @dev Wraps the HorizonGovernor contract
+ */
+export class GovernorClient {
+  readonly contract: HorizonGovernor;
+
+  /**
+   * @dev Connect to the HorizonGovernor contract
+   * @param address Address of the HorizonGovernor contract
+   * @param signerOrProvider Signer (to send transactions) or provider (read-only)
+   */
+  constructor(address: Address, signerOrProvider: SignerOrProvider) {
+    this.contract = HorizonGovernor__factory.connect(address, signerOrProvider);
+  }
+
+  /**
+   * @dev Submit a proposal
+   * @param actions Calls executed by the timelock when the proposal passes
+   * @param description Description of the proposal
+   * @return ID of the proposal
+   */
+  async propose(actions: ProposalAction[], description: string): Promise<BigNumber> {
+    const tx = await this.contract.propose(
+      actions.map((action) => action.target),
+      actions.map((action) => action.value),
+      actions.map((action) => action.calldata),
+      description,
+    );
+    const receipt = await tx.wait();
+    const event = receipt.events?.find((e) => e.event === "ProposalCreated");
+    return event?.args?.proposalId;
+  }
+
+  /**
+   * @dev Find a proposal from its ProposalCreated event
+   * @param proposalId ID of the proposal
+   * @param fromBlock Block to search the proposal from
+   */
+  async proposal(proposalId: BigNumberish, fromBlock = 0): Promise<Proposal> {
+    const events = await this.contract.queryFilter(this.contract.filters.ProposalCreated(), fromBlock);
+    const event = events.find((e) => e.args.proposalId.eq(proposalId));
+    if (event === undefined) throw new Error(`Proposal ${proposalId.toString()} not found`);
+    const { proposer, targets, calldatas, description, voteStart, voteEnd } = event.args;
+    // "values" is shadowed by Array.prototype.values on the event args, read it by position
+    const values: BigNumber[] = event.args[3];
+    return {
+      id: BigNumber.from(proposalId),
+      proposer,
+      actions: targets.map((target, i) => ({ target, value: values[i], calldata: calldatas[i] })),
+      description,
+      voteStart,
+      voteEnd,
+    };
+  }
+
+  /**
+   * @dev Get the state of a proposal
+   * @param proposalId ID of the proposal
+   */
+  async state(proposalId: BigNumberish): Promise<ProposalState> {
+    return this.contract.state(proposalId);
+  }
+
+  /**
+   * @dev Vote on a proposal with the voting power of the signer
+   * @param proposalId ID of the proposal
+   * @param support Vote type
+   * @param reason Reason of the vote (optional)
+   */
+  async castVote(proposalId: BigNumberish, support: VoteType, reason = "") {
+    const tx = await this.contract.castVoteWithReason(proposalId, support, reason);
+    return tx.wait();
+  }
+
+  /**
+   * @dev Queue a succeeded proposal in the timelock
+   * @param proposal Proposal to queue
+   */
+  async queue(proposal: Proposal) {
+    const tx = await this.contract.queue(...this._proposalArgs(proposal));
+    return tx.wait();
+  }
+
+  /**
+   * @dev Execute a queued proposal once its timelock delay has passed
+   * @param proposal Proposal to execute
+   */
+  async execute(proposal: Proposal) {
+    const tx = await this.contract.execute(...this._proposalArgs(proposal));
+    return tx.wait();
+  }
+
+  /**
+   * @dev Arguments identifying a proposal in queue and execute
+   * @param proposal Proposal
+   */
+  private _proposalArgs(proposal: Proposal): [Address[], BigNumber[], string[], string] {
+    return [
+      proposal.actions.map((action) => action.target),
+      proposal.actions.map((action) => action.value),
+      proposal.actions.map((action) => action.calldata),
+      hashDescription(proposal.description),
+    ];
+  }
+}
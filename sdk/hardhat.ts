@@ -0,0 +1,28 @@
+// hardhat.ts: Build a Horizon SDK client from the Hardhat runtime environment
+
+// Import HRE type
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Import SDK client
+import { HorizonClient } from "./client";
+import { DEPLOYMENT_NAMES, mergeAddresses } from "./addresses";
+
+// Import SDK types
+import type { HorizonAddresses } from "./types";
+
+/**
+ * @dev Build a client for the first signer, resolving the addresses through hardhat-deploy
+ *
+ * @param hre Hardhat runtime environment
+ * @param overrides Addresses taking precedence over the deployed ones
+ * @return Horizon SDK client
+ */
+export async function horizonClient(hre: HardhatRuntimeEnvironment, overrides: HorizonAddresses = {}) {
+  const [signer] = await hre.ethers.getSigners();
+  const addresses: HorizonAddresses = {};
+  for (const [contract, deploymentName] of Object.entries(DEPLOYMENT_NAMES)) {
+    const deployment = await hre.deployments.getOrNull(deploymentName);
+    if (deployment) addresses[contract as keyof HorizonAddresses] = deployment.address;
+  }
+  return new HorizonClient(signer, mergeAddresses(addresses, overrides));
+}
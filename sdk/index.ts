@@ -0,0 +1,18 @@
+// Horizon SDK: typed access to the Horizon contracts
+// Use "sdk/hardhat" to build a client from within Hardhat tasks and scripts
+
+export * from "./types";
+export * from "./addresses";
+export * from "./client";
+export * from "./iro";
+export * from "./real_estate";
+export * from "./sky";
+export * from "./vesting";
+export * from "./price_oracle";
+export * from "./compounder";
+export * from "./redemption";
+export * from "./reserves";
+export * from "./governor";
+export * from "./property_governor";
+export * from "./emissions";
+export * from "./utils";
@@ -0,0 +1,326 @@
+// iro.ts: InitialRealEstateOffering namespace of the Horizon SDK
+
+// Import BigNumber
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+
+// Import contract types and factories
+import type { InitialRealEstateOffering, IERC20Extended } from "../typechain-types";
+import { InitialRealEstateOffering__factory, IERC20Extended__factory } from "../typechain-types";
+
+// Import SDK helpers and types
+import { approveIfNeeded, signPermit, supportsPermit } from "./utils";
+import { Address, IROStatus, SignerOrProvider, WhitelistProofs } from "./types";
+
+// Default validity of commit permits (seconds)
+export const PERMIT_VALIDITY = 3600;
+
+// Default slippage accepted when committing with whitelisted tokens (basis points)
+export const DEFAULT_SLIPPAGE_BPS = 50;
+
+// Address representing native ETH in token commits
+export const ETH = "0x0000000000000000000000000000000000000000";
+
+// Split of the funds collected in a token when withdrawing from a successful IRO
+export interface IROFundsSplit {
+  token: Address; // ETH for native ETH
+  amount: BigNumber;
+  treasuryAmount: BigNumber; // treasury and operation fees, minus the reserves share
+  reservesAmount: BigNumber; // reserves share of the operation fee (never in ETH)
+  listingOwnerAmount: BigNumber;
+}
+
+// Funds distribution performed when withdrawing from a successful IRO, in the IRO currency then whitelisted tokens
+export interface IRODistribution {
+  treasury: Address;
+  treasuryFee: BigNumber;
+  operationFee: BigNumber;
+  reserves: Address;
+  reservesShare: number;
+  listingOwner: Address;
+  listingOwnerAmount: BigNumber; // value sent to the listing owner, in the IRO currency
+  splits: IROFundsSplit[];
+}
+
+// Funds refunded to an account by a failed IRO: commits in the IRO currency and in whitelisted tokens
+export interface IRORefund {
+  currency: Address;
+  currencyAmount: BigNumber;
+  tokens: { token: Address; amount: BigNumber }[]; // ETH for native ETH
+}
+
+/**
+ * @dev Wraps the InitialRealEstateOffering contract
+ */
+export class IROClient {
+  readonly contract: InitialRealEstateOffering;
+
+  /**
+   * @dev Connect to the IRO contract
+   * @param address Address of the IRO contract
+   * @param signerOrProvider Signer (to send transactions) or provider (read-only)
+   */
+  constructor(address: Address, signerOrProvider: SignerOrProvider) {
+    this.contract = InitialRealEstateOffering__factory.connect(address, signerOrProvider);
+  }
+
+  /**
+   * @dev Get the total amount of IROs
+   */
+  async length(): Promise<number> {
+    return (await this.contract.iroLength()).toNumber();
+  }
+
+  /**
+   * @dev Get an IRO
+   * @param id ID of the IRO
+   */
+  async get(id: BigNumberish) {
+    return this.contract.getIRO(id);
+  }
+
+  /**
+   * @dev Get the status of an IRO
+   * @param id ID of the IRO
+   */
+  async status(id: BigNumberish): Promise<IROStatus> {
+    return this.contract.getStatus(id);
+  }
+
+  /**
+   * @dev Get the currency an IRO is priced in
+   * @param id ID of the IRO
+   */
+  async currency(id: BigNumberish): Promise<IERC20Extended> {
+    const { currency } = await this.contract.getIRO(id);
+    return IERC20Extended__factory.connect(currency, this.contract.signer ?? this.contract.provider);
+  }
+
+  /**
+   * @dev Check a commit would be accepted by the IRO contract, throwing the reason otherwise
+   * @param id ID of the IRO
+   * @param account Committing account
+   * @param amount Amount of IRO tokens to purchase
+   * @param proof Merkle proof of the account in the IRO whitelist (required during the whitelist phase)
+   */
+  async checkCommit(id: BigNumberish, account: Address, amount: BigNumberish, proof?: string[]) {
+    const iro = await this.get(id);
+    const units = BigNumber.from(amount);
+    if (units.isZero()) throw new Error("Amount should be greater than zero");
+    const status = await this.status(id);
+    if (status !== IROStatus.FUNDING) {
+      throw new Error(`IRO #${id} is not accepting commits (status: ${IROStatus[status]})`);
+    }
+    const remaining = await this.contract.remainingTokens(id);
+    if ((await this.contract.isWhitelistPhase(id)) && !(await this.contract.isWhitelisted(id, account, proof ?? []))) {
+      throw new Error(`${account} is not whitelisted on IRO #${id}`);
+    }
+    if (units.gt(remaining)) throw new Error(`Only ${remaining} tokens remain on IRO #${id}`);
+    if (units.lt(iro.minUnits) && !units.eq(remaining)) {
+      throw new Error(`Commits to IRO #${id} should be of at least ${iro.minUnits} tokens`);
+    }
+    const walletUnits = (await this.contract.commits(id, account)).div(iro.unitPrice);
+    if (!iro.maxUnitsPerWallet.isZero() && walletUnits.add(units).gt(iro.maxUnitsPerWallet)) {
+      throw new Error(`Wallet cap of IRO #${id} reached (${walletUnits}/${iro.maxUnitsPerWallet} tokens committed)`);
+    }
+    const globalMaxUnits = await this.contract.globalMaxUnitsPerWallet();
+    const unitsCommitted = await this.contract.unitsCommitted(account);
+    if (!globalMaxUnits.isZero() && unitsCommitted.add(units).gt(globalMaxUnits)) {
+      throw new Error(`Global wallet cap reached (${unitsCommitted}/${globalMaxUnits} tokens committed)`);
+    }
+  }
+
+  /**
+   * @dev Get the proof of an account from the whitelist proofs of an IRO
+   * @param proofs Whitelist proofs (as generated by iro:generate-whitelist-tree)
+   * @param account Account address
+   * @return Merkle proof of the account, undefined if the account is not whitelisted
+   */
+  static whitelistProof(proofs: WhitelistProofs, account: Address): string[] | undefined {
+    const key = Object.keys(proofs).find((address) => address.toLowerCase() === account.toLowerCase());
+    return key === undefined ? undefined : proofs[key];
+  }
+
+  /**
+   * @dev Approve the IRO currency (if needed) and commit to an IRO
+   * @param id ID of the IRO
+   * @param amount Amount of IRO tokens to purchase
+   * @param proof Merkle proof of the signer in the IRO whitelist (required during the whitelist phase)
+   */
+  async commitWithApproval(id: BigNumberish, amount: BigNumberish, proof?: string[]) {
+    await this.checkCommit(id, await this.contract.signer.getAddress(), amount, proof);
+    await approveIfNeeded(await this.currency(id), this.contract.address, await this.contract.price(id, amount));
+    const tx = proof
+      ? await this.contract.commitWhitelisted(id, amount, proof)
+      : await this.contract.commit(id, amount);
+    return tx.wait();
+  }
+
+  /**
+   * @dev Sign a permit for the purchase price and commit to an IRO in a single transaction
+   * @param id ID of the IRO
+   * @param amount Amount of IRO tokens to purchase
+   * @param deadline Permit validity (defaults to PERMIT_VALIDITY seconds from the latest block)
+   * @param proof Merkle proof of the signer in the IRO whitelist (required during the whitelist phase)
+   */
+  async commitWithPermit(id: BigNumberish, amount: BigNumberish, deadline?: BigNumberish, proof?: string[]) {
+    await this.checkCommit(id, await this.contract.signer.getAddress(), amount, proof);
+    if (deadline === undefined) {
+      deadline = (await this.contract.provider.getBlock("latest")).timestamp + PERMIT_VALIDITY;
+    }
+    const currency = await this.currency(id);
+    const signature = await signPermit(
+      currency,
+      this.contract.address,
+      await this.contract.price(id, amount),
+      deadline,
+    );
+    const tx = proof
+      ? await this.contract.commitWithPermitWhitelisted(id, amount, deadline, signature, proof)
+      : await this.contract.commitWithPermit(id, amount, deadline, signature);
+    return tx.wait();
+  }
+
+  /**
+   * @dev Commit to an IRO, using a permit if the IRO currency supports it and an approval otherwise
+   * @param id ID of the IRO
+   * @param amount Amount of IRO tokens to purchase
+   * @param proof Merkle proof of the signer in the IRO whitelist (required during the whitelist phase)
+   */
+  async commit(id: BigNumberish, amount: BigNumberish, proof?: string[]) {
+    if (await supportsPermit(await this.currency(id))) return this.commitWithPermit(id, amount, undefined, proof);
+    return this.commitWithApproval(id, amount, proof);
+  }
+
+  /**
+   * @dev Get the amount of a whitelisted token (or ETH) to pay for a purchase
+   * @param id ID of the IRO
+   * @param amount Amount of IRO tokens to purchase
+   * @param token Payment token (ETH for native ETH)
+   */
+  async quote(id: BigNumberish, amount: BigNumberish, token: Address): Promise<BigNumber> {
+    return this.contract.quote(id, amount, token);
+  }
+
+  /**
+   * @dev Commit to an IRO paying with a whitelisted token (or ETH), approving the token if needed
+   * @param id ID of the IRO
+   * @param amount Amount of IRO tokens to purchase
+   * @param token Payment token (ETH for native ETH)
+   * @param slippageBps Maximum slippage over the current quote (basis points)
+   * @param proof Merkle proof of the signer in the IRO whitelist (required during the whitelist phase)
+   */
+  async commitWithToken(
+    id: BigNumberish,
+    amount: BigNumberish,
+    token: Address,
+    slippageBps = DEFAULT_SLIPPAGE_BPS,
+    proof?: string[],
+  ) {
+    await this.checkCommit(id, await this.contract.signer.getAddress(), amount, proof);
+    const { currency } = await this.get(id);
+    if (token !== currency && !(await this.contract.isWhitelistedToken(token))) {
+      throw new Error(`${token} is not whitelisted`);
+    }
+    const denominator = await this.contract.DENOMINATOR();
+    const maxAmountIn = (await this.quote(id, amount, token)).mul(denominator + slippageBps).div(denominator);
+    if (token !== ETH) {
+      await approveIfNeeded(
+        IERC20Extended__factory.connect(token, this.contract.signer),
+        this.contract.address,
+        maxAmountIn,
+      );
+    }
+    // excess ETH is sent back by the IRO contract
+    const tx = await this.contract.commitWithToken(id, amount, token, maxAmountIn, proof ?? [], {
+      value: token === ETH ? maxAmountIn : 0,
+    });
+    return tx.wait();
+  }
+
+  /**
+   * @dev Claim purchased tokens (successful IRO) or committed funds (failed IRO)
+   * @param id ID of the IRO
+   * @param to Address to send the claimed tokens/funds (defaults to the signer)
+   */
+  async claim(id: BigNumberish, to?: Address) {
+    const tx = await this.contract.claim(id, to ?? (await this.contract.signer.getAddress()));
+    return tx.wait();
+  }
+
+  /**
+   * @dev Get the funds a claim would refund to an account from a failed IRO
+   * @param id ID of the IRO
+   * @param account Committing account
+   */
+  async refund(id: BigNumberish, account: Address): Promise<IRORefund> {
+    const [{ currency }, commitAmount, tokenCommitsValue, fundingTokens] = await Promise.all([
+      this.get(id),
+      this.contract.commits(id, account),
+      this.contract.tokenCommitsValue(id, account),
+      this.contract.fundingTokens(id),
+    ]);
+    const tokens = await Promise.all(
+      fundingTokens.map(async (token) => ({ token, amount: await this.contract.tokenCommits(id, account, token) })),
+    );
+    return {
+      currency,
+      currencyAmount: commitAmount.sub(tokenCommitsValue),
+      tokens: tokens.filter(({ amount }) => !amount.isZero()),
+    };
+  }
+
+  /**
+   * @dev Withdraw and distribute funds from a successful IRO
+   * @param id ID of the IRO
+   */
+  async withdraw(id: BigNumberish) {
+    const tx = await this.contract.withdraw(id);
+    return tx.wait();
+  }
+
+  /**
+   * @dev Get the funds distribution a withdrawal would perform
+   * @param id ID of the IRO
+   */
+  async distribution(id: BigNumberish): Promise<IRODistribution> {
+    const [iro, treasury, reserves, reservesShare, denominator, tokenFundingValue, fundingTokens] = await Promise.all([
+      this.contract.getIRO(id),
+      this.contract.treasury(),
+      this.contract.reserves(),
+      this.contract.reservesShare(),
+      this.contract.DENOMINATOR(),
+      this.contract.tokenFundingValue(id),
+      this.contract.fundingTokens(id),
+    ]);
+
+    // same as InitialRealEstateOffering._splitFunds
+    const fees = iro.treasuryFee.add(iro.operationFee);
+    const split = (token: Address, amount: BigNumber): IROFundsSplit => {
+      const treasuryAmount = amount.mul(fees).div(iro.targetFunding);
+      const reservesAmount =
+        token === ETH
+          ? BigNumber.from(0)
+          : amount.mul(iro.operationFee).mul(reservesShare).div(iro.targetFunding.mul(denominator));
+      return {
+        token,
+        amount,
+        treasuryAmount: treasuryAmount.gt(reservesAmount) ? treasuryAmount.sub(reservesAmount) : BigNumber.from(0),
+        reservesAmount,
+        listingOwnerAmount: amount.sub(treasuryAmount),
+      };
+    };
+    const splits = [split(iro.currency, iro.targetFunding.sub(tokenFundingValue))];
+    for (const token of fundingTokens) splits.push(split(token, await this.contract.tokenFunding(id, token)));
+
+    return {
+      treasury,
+      treasuryFee: iro.treasuryFee,
+      operationFee: iro.operationFee,
+      reserves,
+      reservesShare,
+      listingOwner: iro.listingOwner,
+      listingOwnerAmount: iro.targetFunding.sub(fees),
+      splits,
+    };
+  }
+}
@@ -0,0 +1,67 @@
+// price_oracle.ts: PriceOracle namespace of the Horizon SDK
+
+// Import BigNumber
+import { BigNumber } from "@ethersproject/bignumber";
+
+// Import contract types and factories
+import type { PriceOracle } from "../typechain-types";
+import { PriceOracle__factory } from "../typechain-types";
+
+// Import SDK types
+import type { Address, SignerOrProvider } from "./types";
+
+// How the price of a pair is obtained (see PriceOracle.getPrice)
+export type PriceSource =
+  | { kind: "direct"; aggregator: Address }
+  | { kind: "inverse"; aggregator: Address }
+  | { kind: "derived"; via: Address }
+  | { kind: "none" };
+
+/**
+ * @dev Wraps the PriceOracle contract
+ */
+export class PriceOracleClient {
+  readonly contract: PriceOracle;
+
+  /**
+   * @dev Connect to the PriceOracle contract
+   * @param address Address of the PriceOracle contract
+   * @param signerOrProvider Signer (to send transactions) or provider (read-only)
+   */
+  constructor(address: Address, signerOrProvider: SignerOrProvider) {
+    this.contract = PriceOracle__factory.connect(address, signerOrProvider);
+  }
+
+  /**
+   * @dev Get the price of a whole base unit, with quote decimals
+   * @param base Base currency address (zero address for native ETH)
+   * @param quote Quote currency address (zero address for native ETH)
+   */
+  async price(base: Address, quote: Address): Promise<BigNumber> {
+    return this.contract.getPrice(base, quote);
+  }
+
+  /**
+   * @dev Get the decimals of a currency
+   * @param currency Currency address (zero address for native ETH)
+   */
+  async decimals(currency: Address): Promise<number> {
+    return this.contract.decimals(currency);
+  }
+
+  /**
+   * @dev Get how the price of a pair is obtained
+   * @param base Base currency address
+   * @param quote Quote currency address
+   */
+  async source(base: Address, quote: Address): Promise<PriceSource> {
+    const zero = "0x0000000000000000000000000000000000000000";
+    const aggregator = await this.contract.priceAggregator(base, quote);
+    if (aggregator !== zero) return { kind: "direct", aggregator };
+    const inverseAggregator = await this.contract.priceAggregator(quote, base);
+    if (inverseAggregator !== zero) return { kind: "inverse", aggregator: inverseAggregator };
+    if (await this.contract.hasRoute(base, quote))
+      return { kind: "derived", via: await this.contract.routes(base, quote) };
+    return { kind: "none" };
+  }
+}
@@ -0,0 +1,122 @@
+// property_governor.ts: PropertyGovernor namespace of the Horizon SDK
+
+// Import BigNumber
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+
+// Import constants
+import { AddressZero } from "@ethersproject/constants";
+
+// Import contract types and factories
+import type { PropertyGovernor } from "../typechain-types";
+import { PropertyGovernor__factory } from "../typechain-types";
+
+// Import SDK types
+import { PropertyProposalState, VoteType } from "./types";
+import type { Address, SignerOrProvider } from "./types";
+
+// Call executed by the property governor when a property proposal passes
+export interface PropertyAction {
+  target: Address;
+  calldata: string;
+}
+
+// Votes cast on a property proposal, against the quorum of its snapshot
+export interface PropertyTally {
+  state: PropertyProposalState;
+  forVotes: BigNumber;
+  againstVotes: BigNumber;
+  abstainVotes: BigNumber;
+  totalSupply: BigNumber; // units at the snapshot
+  quorumVotes: BigNumber; // votes required to reach the quorum
+  voteEnd: BigNumber;
+}
+
+/**
+ * @dev Wraps the PropertyGovernor contract
+ */
+export class PropertyGovernorClient {
+  readonly contract: PropertyGovernor;
+
+  /**
+   * @dev Connect to the PropertyGovernor contract
+   * @param address Address of the PropertyGovernor contract
+   * @param signerOrProvider Signer (to send transactions) or provider (read-only)
+   */
+  constructor(address: Address, signerOrProvider: SignerOrProvider) {
+    this.contract = PropertyGovernor__factory.connect(address, signerOrProvider);
+  }
+
+  /**
+   * @dev Submit a proposal to the holders of a real estate ID
+   * @param id Real estate ID
+   * @param description Description of the proposal
+   * @param action Call executed if the proposal passes (optional)
+   * @return ID of the proposal
+   */
+  async propose(id: BigNumberish, description: string, action?: PropertyAction): Promise<BigNumber> {
+    const tx = await this.contract.propose(id, action?.target ?? AddressZero, action?.calldata ?? "0x", description);
+    const receipt = await tx.wait();
+    const event = receipt.events?.find((e) => e.event === "ProposalCreated");
+    return event?.args?._proposalId;
+  }
+
+  /**
+   * @dev Get a proposal
+   * @param proposalId ID of the proposal
+   */
+  async proposal(proposalId: BigNumberish) {
+    return this.contract.getProposal(proposalId);
+  }
+
+  /**
+   * @dev Get the state of a proposal
+   * @param proposalId ID of the proposal
+   */
+  async state(proposalId: BigNumberish): Promise<PropertyProposalState> {
+    return this.contract.state(proposalId);
+  }
+
+  /**
+   * @dev Get the votes cast on a proposal and the votes required to reach the quorum
+   * @param proposalId ID of the proposal
+   */
+  async tally(proposalId: BigNumberish): Promise<PropertyTally> {
+    const proposal = await this.contract.getProposal(proposalId);
+    const [state, totalSupply, denominator] = await Promise.all([
+      this.contract.state(proposalId),
+      this.contract.totalSupplyAt(proposal.id, proposal.snapshotBlock),
+      this.contract.DENOMINATOR(),
+    ]);
+    return {
+      state,
+      forVotes: proposal.forVotes,
+      againstVotes: proposal.againstVotes,
+      abstainVotes: proposal.abstainVotes,
+      totalSupply,
+      quorumVotes: totalSupply
+        .mul(proposal.quorum)
+        .add(denominator - 1)
+        .div(denominator),
+      voteEnd: proposal.voteEnd,
+    };
+  }
+
+  /**
+   * @dev Vote on a proposal with the units the signer held at the end of the block before its creation
+   * @param proposalId ID of the proposal
+   * @param support Vote type
+   */
+  async castVote(proposalId: BigNumberish, support: VoteType) {
+    const tx = await this.contract.castVote(proposalId, support);
+    return tx.wait();
+  }
+
+  /**
+   * @dev Execute the action of a succeeded proposal
+   * @param proposalId ID of the proposal
+   */
+  async execute(proposalId: BigNumberish) {
+    const tx = await this.contract.execute(proposalId);
+    return tx.wait();
+  }
+}
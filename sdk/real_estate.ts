@@ -0,0 +1,259 @@
+// real_estate.ts: RealEstateERC1155 namespace of the Horizon SDK
+
+// Import BigNumber
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+
+// Import contract types and factories
+import type { RealEstateERC1155, IERC20Extended } from "../typechain-types";
+import { RealEstateERC1155__factory, IERC20Extended__factory } from "../typechain-types";
+
+// Import SDK helpers and types
+import { approveIfNeeded } from "./utils";
+import type { Address, SignerOrProvider } from "./types";
+
+// Effect of a new yield deposit on the current one (see RealEstateERC1155.deposit)
+export interface DepositPreview {
+  lockedAmount: BigNumber; // yield still locked by the current deposit
+  rolledOver: BigNumber; // unlocked yield added to unlockedAmountPerToken
+  rolledOverPerToken: BigNumber; // increase of unlockedAmountPerToken
+  carriedOver: BigNumber; // yield not unlocked yet, streamed again along with the new deposit
+}
+
+/**
+ * @dev Wraps the RealEstateERC1155 contract
+ */
+export class RealEstateClient {
+  readonly contract: RealEstateERC1155;
+
+  /**
+   * @dev Connect to the RealEstateERC1155 contract
+   * @param address Address of the RealEstateERC1155 contract
+   * @param signerOrProvider Signer (to send transactions) or provider (read-only)
+   */
+  constructor(address: Address, signerOrProvider: SignerOrProvider) {
+    this.contract = RealEstateERC1155__factory.connect(address, signerOrProvider);
+  }
+
+  /**
+   * @dev Get the default currency yield is paid in
+   */
+  async yieldCurrency(): Promise<IERC20Extended> {
+    return this._currency(await this.contract.yieldCurrency());
+  }
+
+  /**
+   * @dev Get the currencies a real estate ID pays yield in, starting with the default one
+   * @param id Real estate ID
+   */
+  async yieldCurrencies(id: BigNumberish): Promise<IERC20Extended[]> {
+    return (await this.contract.yieldCurrencies(id)).map((currency) => this._currency(currency));
+  }
+
+  /**
+   * @dev Preview the yield a new deposit would roll over from the current one
+   * @param id Real estate ID
+   * @param timestamp Time of the new deposit (defaults to the latest block timestamp)
+   * @param currency Yield currency (defaults to the default yield currency)
+   */
+  async previewDeposit(id: BigNumberish, timestamp?: number, currency?: Address): Promise<DepositPreview> {
+    const deposit = await this.contract.getCurrencyDeposit(id, currency ?? (await this.contract.yieldCurrency()));
+    const time = BigNumber.from(timestamp ?? (await this.contract.provider.getBlock("latest")).timestamp);
+    let rolledOver = BigNumber.from(0);
+    if (time.gte(deposit.unlockEnd)) {
+      rolledOver = deposit.lockedAmount;
+    } else if (time.gt(deposit.unlockStart)) {
+      rolledOver = deposit.lockedAmount
+        .mul(time.sub(deposit.unlockStart))
+        .div(deposit.unlockEnd.sub(deposit.unlockStart));
+    }
+    const totalSupply = await this.contract.totalSupply(id);
+    return {
+      lockedAmount: deposit.lockedAmount,
+      rolledOver,
+      rolledOverPerToken: totalSupply.isZero() ? BigNumber.from(0) : rolledOver.div(totalSupply),
+      carriedOver: deposit.lockedAmount.sub(rolledOver),
+    };
+  }
+
+  /**
+   * @dev Deposit yield for a real estate ID, approving the yield currency transfer if needed
+   * @dev Requires the signer to be the depositor
+   * @param id Real estate ID
+   * @param amount Amount of yield currency (smallest unit)
+   * @param duration Time to stream the deposit over (seconds)
+   * @param startOffset Time before the deposit starts to unlock (seconds)
+   * @param currency Yield currency (defaults to the default yield currency)
+   */
+  async deposit(
+    id: BigNumberish,
+    amount: BigNumberish,
+    duration: BigNumberish,
+    startOffset: BigNumberish = 0,
+    currency?: Address,
+  ) {
+    const yieldCurrency = currency === undefined ? await this.yieldCurrency() : this._currency(currency);
+    await approveIfNeeded(yieldCurrency, this.contract.address, amount);
+    const tx =
+      currency === undefined
+        ? await this.contract.deposit(id, amount, duration, startOffset)
+        : await this.contract.depositWithCurrency(id, currency, amount, duration, startOffset);
+    return tx.wait();
+  }
+
+  /**
+   * @dev Get the yield pending for an account, in the default yield currency
+   * @param id Real estate ID
+   * @param account Account address
+   */
+  async pendingYield(id: BigNumberish, account: Address): Promise<BigNumber> {
+    return this.contract.pendingYield(id, account);
+  }
+
+  /**
+   * @dev Get the yield pending for an account, in every currency
+   * @param id Real estate ID
+   * @param account Account address
+   * @return Pending yield by currency address
+   */
+  async pendingYields(id: BigNumberish, account: Address): Promise<{ [currency: Address]: BigNumber }> {
+    const [currencies, amounts] = await this.contract.pendingYields(id, account);
+    return Object.fromEntries(currencies.map((currency, i) => [currency, amounts[i]]));
+  }
+
+  /**
+   * @dev Get the yield pending for an account, for every real estate ID it holds or has pending yield on
+   * @param account Account address
+   */
+  async pendingYieldsOf(account: Address) {
+    return this.contract.pendingYieldsOf(account);
+  }
+
+  /**
+   * @dev Discover the real estate IDs an account received, from TransferSingle and TransferBatch events
+   * @dev Includes IDs transferred away since, which may still have yield to claim
+   * @param account Account address
+   * @param fromBlock Block to start reading events from
+   * @return Real estate IDs, in ascending order
+   */
+  async receivedIds(account: Address, fromBlock = 0): Promise<BigNumber[]> {
+    const filters = this.contract.filters;
+    const [singleTransfers, batchTransfers] = await Promise.all([
+      this.contract.queryFilter(filters.TransferSingle(null, null, account), fromBlock),
+      this.contract.queryFilter(filters.TransferBatch(null, null, account), fromBlock),
+    ]);
+    const ids = new Set<string>([
+      ...singleTransfers.map((event) => event.args.id.toString()),
+      ...batchTransfers.flatMap((event) => event.args.ids.map((id) => id.toString())),
+    ]);
+    return [...ids].map((id) => BigNumber.from(id)).sort((a, b) => (a.lt(b) ? -1 : 1));
+  }
+
+  /**
+   * @dev Get the current holders of a real estate ID, discovered from TransferSingle and TransferBatch events
+   * @param id Real estate ID
+   * @param fromBlock Block to start reading events from
+   * @return Accounts holding the real estate ID
+   */
+  async holders(id: BigNumberish, fromBlock = 0): Promise<Address[]> {
+    const filters = this.contract.filters;
+    const [singleTransfers, batchTransfers] = await Promise.all([
+      this.contract.queryFilter(filters.TransferSingle(), fromBlock),
+      this.contract.queryFilter(filters.TransferBatch(), fromBlock),
+    ]);
+    const receivers = new Set<Address>([
+      ...singleTransfers.filter((event) => event.args.id.eq(id)).map((event) => event.args.to),
+      ...batchTransfers
+        .filter((event) => event.args.ids.some((tokenId) => tokenId.eq(id)))
+        .map((event) => event.args.to),
+    ]);
+    const holders = [];
+    for (const account of receivers) {
+      if (!(await this.contract.balanceOf(account, id)).isZero()) holders.push(account);
+    }
+    return holders;
+  }
+
+  /**
+   * @dev Get the yield accrued by a non-whitelisted contract and not redirected yet, in every currency
+   * @param id Real estate ID
+   * @param account Contract address
+   */
+  async forfeitedYields(id: BigNumberish, account: Address): Promise<{ [currency: Address]: BigNumber }> {
+    const balance = await this.contract.balanceOf(account, id);
+    const forfeitedYields: { [currency: Address]: BigNumber } = {};
+    for (const currency of await this.contract.yieldCurrencies(id)) {
+      const yieldPerToken = await this.contract.currencyYieldPerToken(id, currency);
+      const yieldPerTokenClaimed = await this.contract.currencyYieldPerTokenClaimed(id, currency, account);
+      forfeitedYields[currency] = (await this.contract.eligibleForYields(account))
+        ? BigNumber.from(0)
+        : balance.mul(yieldPerToken.sub(yieldPerTokenClaimed));
+    }
+    return forfeitedYields;
+  }
+
+  /**
+   * @dev Get the yield of a contract redirected so far, from RedirectYield events, in every currency
+   * @param id Real estate ID
+   * @param account Contract address
+   * @param fromBlock Block to start reading events from
+   */
+  async redirectedYields(
+    id: BigNumberish,
+    account: Address,
+    fromBlock = 0,
+  ): Promise<{ [currency: Address]: BigNumber }> {
+    const redirectedYields: { [currency: Address]: BigNumber } = {};
+    for (const event of await this.contract.queryFilter(this.contract.filters.RedirectYield(id, account), fromBlock)) {
+      const { _currency: currency, _amount: amount } = event.args;
+      redirectedYields[currency] = (redirectedYields[currency] ?? BigNumber.from(0)).add(amount);
+    }
+    return redirectedYields;
+  }
+
+  /**
+   * @dev Redirect the yield accrued by a non-whitelisted contract to its beneficiary or the treasury
+   * @param id Real estate ID
+   * @param account Contract address
+   */
+  async redirectYield(id: BigNumberish, account: Address) {
+    const tx = await this.contract.redirectYield(id, account);
+    return tx.wait();
+  }
+
+  /**
+   * @dev Claim yield for a real estate ID
+   * @param id Real estate ID
+   * @param to Yield receiver (defaults to the signer)
+   */
+  async claimYield(id: BigNumberish, to?: Address) {
+    const tx = await this.contract.claimYield(id, to ?? (await this.contract.signer.getAddress()));
+    return tx.wait();
+  }
+
+  /**
+   * @dev Claim yield for several real estate IDs in one transaction
+   * @param ids Real estate IDs
+   * @param to Yield receiver (defaults to the signer)
+   */
+  async claimYieldBatch(ids: BigNumberish[], to?: Address) {
+    const tx = await this.contract.claimYieldBatch(ids, to ?? (await this.contract.signer.getAddress()));
+    return tx.wait();
+  }
+
+  /**
+   * @dev Claim yield for every real estate ID
+   * @param to Yield receiver (defaults to the signer)
+   */
+  async claimAllYield(to?: Address) {
+    const tx = await this.contract.claimAllYield(to ?? (await this.contract.signer.getAddress()));
+    return tx.wait();
+  }
+
+  /**
+   * @dev Connect to a yield currency
+   * @param address Currency address
+   */
+  private _currency(address: Address): IERC20Extended {
+    return IERC20Extended__factory.connect(address, this.contract.signer ?? this.contract.provider);
+  }
+}
@@ -0,0 +1,60 @@
+// redemption.ts: RealEstateRedemption namespace of the Horizon SDK
+
+// Import BigNumber
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+
+// Import contract types and factories
+import type { RealEstateRedemption } from "../typechain-types";
+import { RealEstateERC1155__factory, RealEstateRedemption__factory } from "../typechain-types";
+
+// Import SDK types
+import type { Address, SignerOrProvider } from "./types";
+
+/**
+ * @dev Wraps the RealEstateRedemption contract
+ */
+export class RedemptionClient {
+  readonly contract: RealEstateRedemption;
+
+  /**
+   * @dev Connect to the RealEstateRedemption contract
+   * @param address Address of the RealEstateRedemption contract
+   * @param signerOrProvider Signer (to send transactions) or provider (read-only)
+   */
+  constructor(address: Address, signerOrProvider: SignerOrProvider) {
+    this.contract = RealEstateRedemption__factory.connect(address, signerOrProvider);
+  }
+
+  /**
+   * @dev Get the redemption of a real estate ID
+   * @param id Real estate ID
+   */
+  async redemption(id: BigNumberish) {
+    return this.contract.redemptions(id);
+  }
+
+  /**
+   * @dev Get the proceeds paid out for redeeming units
+   * @param id Real estate ID
+   * @param units Amount of units to redeem
+   */
+  async previewRedeem(id: BigNumberish, units: BigNumberish): Promise<BigNumber> {
+    return this.contract.previewRedeem(id, units);
+  }
+
+  /**
+   * @dev Redeem units of the signer, approving them to the redemption module if needed
+   * @param id Real estate ID
+   * @param units Amount of units to redeem
+   */
+  async redeem(id: BigNumberish, units: BigNumberish) {
+    const realEstateNft = RealEstateERC1155__factory.connect(await this.contract.realEstateNft(), this.contract.signer);
+    const owner = await this.contract.signer.getAddress();
+    if (!(await realEstateNft.isApprovedForAll(owner, this.contract.address))) {
+      const approveTx = await realEstateNft.approve(id, this.contract.address, units);
+      await approveTx.wait();
+    }
+    const tx = await this.contract.redeem(id, units);
+    return tx.wait();
+  }
+}
@@ -0,0 +1,136 @@
+// reserves.ts: RealEstateReserves namespace of the Horizon SDK
+
+// Import BigNumber
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+
+// Import contract types and factories
+import type { RealEstateReserves } from "../typechain-types";
+import { RealEstateReserves__factory } from "../typechain-types";
+
+// Import SDK types
+import type { Address, SignerOrProvider } from "./types";
+
+// Buffers of the reserves, in the same order as RealEstateReserves.Buffer
+export enum ReservesBuffer {
+  MAINTENANCE,
+  VACANCY,
+  PROCEEDS,
+}
+
+// Balances of the buffers of a real estate in a currency
+export interface ReservesBalance {
+  maintenance: BigNumber;
+  vacancy: BigNumber;
+  proceeds: BigNumber;
+}
+
+// Movement of the reserves of a real estate, read from the RealEstateReserves events
+export interface ReservesMovement {
+  kind: "deposit" | "release" | "withdraw";
+  blockNumber: number;
+  transactionHash: string;
+  by: Address;
+  currency: Address;
+  buffer?: ReservesBuffer; // undefined for redemption withdrawals, which take the proceeds buffer
+  amount: BigNumber;
+  to?: Address;
+  reason?: string;
+}
+
+/**
+ * @dev Wraps the RealEstateReserves contract
+ */
+export class ReservesClient {
+  readonly contract: RealEstateReserves;
+
+  /**
+   * @dev Connect to the RealEstateReserves contract
+   * @param address Address of the RealEstateReserves contract
+   * @param signerOrProvider Signer (to send transactions) or provider (read-only)
+   */
+  constructor(address: Address, signerOrProvider: SignerOrProvider) {
+    this.contract = RealEstateReserves__factory.connect(address, signerOrProvider);
+  }
+
+  /**
+   * @dev Get the balances of the buffers of a real estate, in every currency ever deposited
+   * @param id Real estate ID
+   */
+  async balances(id: BigNumberish): Promise<{ [currency: Address]: ReservesBalance }> {
+    const balances: { [currency: Address]: ReservesBalance } = {};
+    for (const currency of await this.contract.reserveCurrencies(id)) {
+      const [maintenance, vacancy, proceeds] = await Promise.all([
+        this.contract.bufferBalance(id, currency, ReservesBuffer.MAINTENANCE),
+        this.contract.bufferBalance(id, currency, ReservesBuffer.VACANCY),
+        this.contract.bufferBalance(id, currency, ReservesBuffer.PROCEEDS),
+      ]);
+      balances[currency] = { maintenance, vacancy, proceeds };
+    }
+    return balances;
+  }
+
+  /**
+   * @dev Get the deposits, releases and withdrawals of the reserves of a real estate
+   * @param id Real estate ID
+   * @param fromBlock Block to start reading events from
+   * @return Movements, in chronological order
+   */
+  async history(id: BigNumberish, fromBlock = 0): Promise<ReservesMovement[]> {
+    const filters = this.contract.filters;
+    const [deposits, releases, withdrawals] = await Promise.all([
+      this.contract.queryFilter(filters.Deposit(id), fromBlock),
+      this.contract.queryFilter(filters.Release(id), fromBlock),
+      this.contract.queryFilter(filters.Withdraw(id), fromBlock),
+    ]);
+    const movements = [
+      ...deposits.map((event) => ({
+        event,
+        movement: <ReservesMovement>{ kind: "deposit", buffer: event.args._buffer, to: undefined },
+      })),
+      ...releases.map((event) => ({
+        event,
+        movement: <ReservesMovement>{
+          kind: "release",
+          buffer: event.args._buffer,
+          to: event.args._to,
+          reason: event.args._reason,
+        },
+      })),
+      ...withdrawals.map((event) => ({
+        event,
+        movement: <ReservesMovement>{ kind: "withdraw", to: event.args._to },
+      })),
+    ];
+    return movements
+      .sort((a, b) => a.event.blockNumber - b.event.blockNumber || a.event.logIndex - b.event.logIndex)
+      .map(({ event, movement }) => ({
+        ...movement,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        by: event.args._by,
+        currency: event.args._currency,
+        amount: event.args._amount,
+      }));
+  }
+
+  /**
+   * @dev Release funds of a buffer to pay for an expense of a real estate
+   * @param id Real estate ID
+   * @param buffer Buffer to release the funds from
+   * @param currency Currency of the funds
+   * @param amount Amount to release
+   * @param to Funds receiver
+   * @param reason Description of the expense
+   */
+  async release(
+    id: BigNumberish,
+    buffer: ReservesBuffer,
+    currency: Address,
+    amount: BigNumberish,
+    to: Address,
+    reason: string,
+  ) {
+    const tx = await this.contract.release(id, buffer, currency, amount, to, reason);
+    return tx.wait();
+  }
+}
@@ -0,0 +1,127 @@
+// sky.ts: SkyERC20 namespace of the Horizon SDK
+
+// Import BigNumber
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+
+// Import signer types and signature utils
+import type { Signer, TypedDataSigner } from "@ethersproject/abstract-signer";
+import { splitSignature } from "@ethersproject/bytes";
+
+// Import contract types and factories
+import type { SkyERC20 } from "../typechain-types";
+import { SkyERC20__factory } from "../typechain-types";
+
+// Import SDK types
+import type { Address, SignerOrProvider } from "./types";
+
+// Delegation signed by a SKY holder, submitted with delegateBySig
+export interface SignedDelegation {
+  delegatee: Address;
+  nonce: string;
+  expiry: number;
+  signature: string;
+}
+
+/**
+ * @dev Wraps the SkyERC20 contract
+ */
+export class SkyClient {
+  readonly contract: SkyERC20;
+
+  /**
+   * @dev Connect to the SkyERC20 contract
+   * @param address Address of the SkyERC20 contract
+   * @param signerOrProvider Signer (to send transactions) or provider (read-only)
+   */
+  constructor(address: Address, signerOrProvider: SignerOrProvider) {
+    this.contract = SkyERC20__factory.connect(address, signerOrProvider);
+  }
+
+  /**
+   * @dev Get the SKY balance of an account
+   * @param account Account address
+   */
+  async balanceOf(account: Address): Promise<BigNumber> {
+    return this.contract.balanceOf(account);
+  }
+
+  /**
+   * @dev Get how many SKY tokens can still be minted
+   */
+  async mintableSupply(): Promise<BigNumber> {
+    return this.contract.mintableSupply();
+  }
+
+  /**
+   * @dev Transfer SKY from the signer
+   * @param to Receiver address
+   * @param amount Amount to transfer
+   */
+  async transfer(to: Address, amount: BigNumberish) {
+    const tx = await this.contract.transfer(to, amount);
+    return tx.wait();
+  }
+
+  /**
+   * @dev Get the current voting power of an account (SKY delegated to it)
+   * @param account Account address
+   */
+  async getVotes(account: Address): Promise<BigNumber> {
+    return this.contract.getVotes(account);
+  }
+
+  /**
+   * @dev Get the delegate of an account, zero address if it did not delegate
+   * @param account Account address
+   */
+  async delegates(account: Address): Promise<Address> {
+    return this.contract.delegates(account);
+  }
+
+  /**
+   * @dev Delegate the signer voting power
+   * @param delegatee Account receiving the voting power
+   */
+  async delegate(delegatee: Address) {
+    const tx = await this.contract.delegate(delegatee);
+    return tx.wait();
+  }
+
+  /**
+   * @dev Delegate the voting power of the signer of a delegation (see signDelegation)
+   * @param delegation Signed delegation
+   */
+  async delegateBySig(delegation: SignedDelegation) {
+    const { v, r, s } = splitSignature(delegation.signature);
+    const tx = await this.contract.delegateBySig(delegation.delegatee, delegation.nonce, delegation.expiry, v, r, s);
+    return tx.wait();
+  }
+
+  /**
+   * @dev Sign a delegation with the signer, to be submitted by any account with delegateBySig
+   * @param signer Delegator signing the delegation
+   * @param delegatee Account receiving the voting power
+   * @param expiry Timestamp after which the delegation can no longer be submitted
+   */
+  async signDelegation(
+    signer: TypedDataSigner & Signer,
+    delegatee: Address,
+    expiry: number,
+  ): Promise<SignedDelegation> {
+    const [name, { chainId }, nonce] = await Promise.all([
+      this.contract.name(),
+      this.contract.provider.getNetwork(),
+      this.contract.nonces(signer.getAddress()),
+    ]);
+    const domain = { name, version: "1", chainId, verifyingContract: this.contract.address };
+    const types = {
+      Delegation: [
+        { name: "delegatee", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "expiry", type: "uint256" },
+      ],
+    };
+    const signature = await signer._signTypedData(domain, types, { delegatee, nonce, expiry });
+    return { delegatee, nonce: nonce.toString(), expiry, signature };
+  }
+}
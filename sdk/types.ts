@@ -0,0 +1,67 @@
+// types.ts: Types shared by the Horizon SDK
+
+// Signer and Provider types
+import type { Signer } from "@ethersproject/abstract-signer";
+import type { Provider } from "@ethersproject/providers";
+
+// Address type
+export type Address = string;
+
+// Anything typechain factories can connect to
+export type SignerOrProvider = Signer | Provider;
+
+// IRO status, in the same order as InitialRealEstateOffering.Status
+export enum IROStatus {
+  PENDING,
+  FUNDING,
+  SUCCESS,
+  FAIL,
+}
+
+// Proposal state, in the same order as IGovernor.ProposalState
+export enum ProposalState {
+  PENDING,
+  ACTIVE,
+  CANCELED,
+  DEFEATED,
+  SUCCEEDED,
+  QUEUED,
+  EXPIRED,
+  EXECUTED,
+}
+
+// Vote type, in the same order as GovernorCountingSimple.VoteType
+export enum VoteType {
+  AGAINST,
+  FOR,
+  ABSTAIN,
+}
+
+// Property proposal state, in the same order as PropertyGovernor.ProposalState
+export enum PropertyProposalState {
+  ACTIVE,
+  DEFEATED,
+  SUCCEEDED,
+  EXECUTED,
+}
+
+// Addresses of the Horizon contracts (contracts not deployed on a network are omitted)
+export interface HorizonAddresses {
+  iro?: Address;
+  realEstate?: Address;
+  sky?: Address;
+  vesting?: Address;
+  priceOracle?: Address;
+  compounder?: Address;
+  redemption?: Address;
+  reserves?: Address;
+  voteEscrow?: Address;
+  governor?: Address;
+  propertyGovernor?: Address;
+  emissions?: Address;
+}
+
+// Merkle proofs of whitelisted accounts (same format as the pioneer proofs)
+export interface WhitelistProofs {
+  [account: Address]: string[];
+}
@@ -0,0 +1,98 @@
+// utils.ts: Helpers shared by the Horizon SDK namespaces
+
+// Import BigNumber
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+
+// Import hexZeroPad to format the interface ID as bytes4
+import { hexZeroPad } from "@ethersproject/bytes";
+
+// Import Signer types
+import type { Signer, TypedDataSigner } from "@ethersproject/abstract-signer";
+
+// Import contract types and factories
+import type { IERC20Extended } from "../typechain-types";
+import { IERC165__factory, IERC20SignaturePermit__factory } from "../typechain-types";
+
+// Import types
+import type { Address } from "./types";
+
+// EIP-712 type of the ERC20Permit permit message
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * @dev ERC165 interface ID of IERC20SignaturePermit (XOR of its function selectors)
+ */
+export function signaturePermitInterfaceId(): string {
+  const iface = IERC20SignaturePermit__factory.createInterface();
+  const interfaceId = Object.keys(iface.functions)
+    .map((fragment) => BigNumber.from(iface.getSighash(fragment)))
+    .reduce((id, selector) => id.xor(selector), BigNumber.from(0));
+  return hexZeroPad(interfaceId.toHexString(), 4);
+}
+
+/**
+ * @dev Approve `spender` to move `amount` of `token` from the connected signer,
+ *      only if the current allowance is not enough
+ *
+ * @param token ERC20 token (connected to the owner)
+ * @param spender Spender address
+ * @param amount Amount the spender should be able to move
+ */
+export async function approveIfNeeded(token: IERC20Extended, spender: Address, amount: BigNumberish) {
+  const owner = await token.signer.getAddress();
+  if ((await token.allowance(owner, spender)).gte(amount)) return;
+  const tx = await token.approve(spender, BigNumber.from(amount));
+  await tx.wait();
+}
+
+/**
+ * @dev Check whether a token accepts ERC20Permit signed permits, tokens not implementing
+ *      ERC165 are considered not to support them
+ *
+ * @param token ERC20 token
+ * @return Whether the token supports IERC20SignaturePermit
+ */
+export async function supportsPermit(token: IERC20Extended): Promise<boolean> {
+  try {
+    const erc165 = IERC165__factory.connect(token.address, token.provider);
+    return await erc165.supportsInterface(signaturePermitInterfaceId());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @dev Sign an ERC20Permit permit with the signer connected to the token
+ *
+ * @param token ERC20 token supporting IERC20SignaturePermit (connected to the owner)
+ * @param spender Spender address
+ * @param value Amount the spender will be able to move
+ * @param deadline Permit validity (timestamp)
+ * @return EIP-712 signature
+ */
+export async function signPermit(
+  token: IERC20Extended,
+  spender: Address,
+  value: BigNumberish,
+  deadline: BigNumberish,
+): Promise<string> {
+  const signer = <Signer & TypedDataSigner>token.signer;
+  const owner = await signer.getAddress();
+  const permitToken = IERC20SignaturePermit__factory.connect(token.address, token.provider);
+  const domain = {
+    name: await token.name(),
+    version: "1",
+    chainId: (await token.provider.getNetwork()).chainId,
+    verifyingContract: token.address,
+  };
+  const values = { owner, spender, value, nonce: await permitToken.nonces(owner), deadline };
+  return signer._signTypedData(domain, PERMIT_TYPES, values);
+}
@@ -0,0 +1,161 @@
+// vesting.ts: Vesting namespace of the Horizon SDK
+
+// Import BigNumber
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+
+// Import contract types and factories
+import type { Vesting } from "../typechain-types";
+import { Vesting__factory } from "../typechain-types";
+
+// Import SDK types
+import type { Address, SignerOrProvider } from "./types";
+
+// Vesting position with its claimable and claimed amounts
+export interface PositionStatus {
+  id: BigNumber;
+  owner: Address;
+  amount: BigNumber;
+  amountDue: BigNumber;
+  amountPaid: BigNumber;
+  vestingStart: BigNumber;
+  vestingEnd: BigNumber;
+  lockVested: boolean;
+  revocable: boolean;
+}
+
+/**
+ * @dev Wraps the Vesting contract
+ */
+export class VestingClient {
+  readonly contract: Vesting;
+
+  /**
+   * @dev Connect to the Vesting contract
+   * @param address Address of the Vesting contract
+   * @param signerOrProvider Signer (to send transactions) or provider (read-only)
+   */
+  constructor(address: Address, signerOrProvider: SignerOrProvider) {
+    this.contract = Vesting__factory.connect(address, signerOrProvider);
+  }
+
+  /**
+   * @dev Get the IDs of the positions owned by an account
+   * @param account Account address
+   */
+  async positionsOf(account: Address): Promise<BigNumber[]> {
+    const positionIds: BigNumber[] = [];
+    const balance = (await this.contract.balanceOf(account)).toNumber();
+    for (let i = 0; i < balance; i++) {
+      positionIds.push(await this.contract.userPositionIndexes(account, i));
+    }
+    return positionIds;
+  }
+
+  /**
+   * @dev Get a position with its claimable and claimed amounts
+   * @param positionId ID of the position
+   */
+  async positionStatus(positionId: BigNumberish): Promise<PositionStatus> {
+    const [position, amountDue, amountPaid] = await Promise.all([
+      this.contract.positions(positionId),
+      this.contract.amountDue(positionId),
+      this.contract.amountPaid(positionId),
+    ]);
+    const { owner, amount, vestingStart, vestingEnd, lockVested, revocable } = position;
+    return {
+      id: BigNumber.from(positionId),
+      owner,
+      amount,
+      amountDue,
+      amountPaid,
+      vestingStart,
+      vestingEnd,
+      lockVested,
+      revocable,
+    };
+  }
+
+  /**
+   * @dev Get every position with its claimable and claimed amounts
+   */
+  async positionStatuses(): Promise<PositionStatus[]> {
+    const count = (await this.contract.vestedPositions()).toNumber();
+    return Promise.all([...Array(count).keys()].map((positionId) => this.positionStatus(positionId)));
+  }
+
+  /**
+   * @dev Create a vesting position, the contract should hold enough unallocated underlying
+   * @param to Owner of the position
+   * @param amount Amount of underlying to vest
+   * @param cliffPeriod Period of time before tokens start to vest, in seconds
+   * @param vestingDuration Period of time tokens vest over, in seconds
+   * @param lockVested Whether claimed tokens should be locked in the vote escrow
+   * @param revocable Whether the position can be revoked by the vesting owner
+   */
+  async createPosition(
+    to: Address,
+    amount: BigNumberish,
+    cliffPeriod: BigNumberish,
+    vestingDuration: BigNumberish,
+    lockVested: boolean,
+    revocable = false,
+  ) {
+    const tx = await this.contract.createPosition(to, amount, cliffPeriod, vestingDuration, lockVested, revocable);
+    return tx.wait();
+  }
+
+  /**
+   * @dev Revoke a revocable position, paying out its vested tokens and returning the rest to the usable supply
+   * @param positionId ID of the position
+   * @param lockVestedPeriod Amount of time to lock vested tokens (mandatory if lockVested is true)
+   */
+  async revoke(positionId: BigNumberish, lockVestedPeriod: BigNumberish = 0) {
+    const tx = await this.contract.revoke(positionId, lockVestedPeriod);
+    return tx.wait();
+  }
+
+  /**
+   * @dev Split part of a position into a new position with the same schedule
+   * @param positionId ID of the position
+   * @param amount Amount of underlying moved to the new position
+   * @return ID of the new position
+   */
+  async split(positionId: BigNumberish, amount: BigNumberish): Promise<BigNumber> {
+    const receipt = await (await this.contract.split(positionId, amount)).wait();
+    const event = receipt.events?.find((e) => e.event === "PositionSplit");
+    return event?.args?._newPositionId;
+  }
+
+  /**
+   * @dev Merge a position into another one with the same schedule, burning the merged position
+   * @param positionId ID of the position to merge into
+   * @param mergedPositionId ID of the position merged and burnt
+   */
+  async merge(positionId: BigNumberish, mergedPositionId: BigNumberish) {
+    const tx = await this.contract.merge(positionId, mergedPositionId);
+    return tx.wait();
+  }
+
+  /**
+   * @dev Get the amount of vested tokens claimable for a position
+   * @param positionId ID of the position
+   */
+  async amountDue(positionId: BigNumberish): Promise<BigNumber> {
+    return this.contract.amountDue(positionId);
+  }
+
+  /**
+   * @dev Claim vested tokens of a position
+   * @param positionId ID of the position
+   * @param recipient Recipient of the vested tokens (defaults to the signer, which should receive locked tokens)
+   * @param lockVestedPeriod Amount of time to lock vested tokens (mandatory if lockVested is true)
+   */
+  async claim(positionId: BigNumberish, recipient?: Address, lockVestedPeriod: BigNumberish = 0) {
+    const tx = await this.contract.claim(
+      positionId,
+      recipient ?? (await this.contract.signer.getAddress()),
+      lockVestedPeriod,
+    );
+    return tx.wait();
+  }
+}
@@ -0,0 +1,94 @@
+// claim_from_iro.ts: Claim tokens from (or get refunded by) an IRO
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// Import HRE type
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// ethers utils for formatting currency amounts
+import { ethers } from "ethers";
+
+// Import SDK types
+import { IROStatus } from "../sdk/types";
+
+/**
+ * @dev Claim reNFT tokens from a successful IRO or the committed funds from a failed one,
+ *      after checking the claim is possible and reporting which path will be taken
+ *
+ * @param hre Hardhat runtime environment
+ * @param taskArgs Task arguments (id, to, contract)
+ * @param refundOnly Whether to refuse claiming if the IRO was successful
+ */
+async function claim(
+  hre: HardhatRuntimeEnvironment,
+  taskArgs: { id: string; to?: string; contract?: string },
+  refundOnly: boolean,
+) {
+  const { horizonClient } = await import("../sdk/hardhat");
+  const { ETH } = await import("../sdk/iro");
+
+  // get signer
+  const [signer] = await hre.ethers.getSigners();
+  const to = taskArgs.to ?? (await signer.getAddress());
+
+  // instantiate SDK client
+  const { iro: iroClient } = await horizonClient(hre, { iro: taskArgs.contract });
+  const iroContract = iroClient.contract;
+
+  // check status
+  const status = await iroClient.status(taskArgs.id);
+  if (status !== IROStatus.SUCCESS && status !== IROStatus.FAIL) {
+    throw new Error(`IRO #${taskArgs.id} has not finished yet (status: ${IROStatus[status]})`);
+  }
+  if (refundOnly && status !== IROStatus.FAIL) {
+    throw new Error(`IRO #${taskArgs.id} was successful, use iro:claim to claim the purchased tokens`);
+  }
+
+  // check commit
+  const commitAmount = await iroContract.commits(taskArgs.id, signer.getAddress());
+  if (commitAmount.isZero()) throw new Error(`Nothing to claim from IRO #${taskArgs.id}`);
+
+  // report what will happen
+  const iro = await iroClient.get(taskArgs.id);
+  if (status === IROStatus.SUCCESS) {
+    console.log(`IRO #${taskArgs.id} was successful: minting ${commitAmount.div(iro.unitPrice)} reNFT tokens to ${to}`);
+  } else {
+    // refunds are paid in the IRO currency and in the whitelisted tokens (or ETH) committed
+    const refund = await iroClient.refund(taskArgs.id, await signer.getAddress());
+    const amounts: string[] = [];
+    for (const { token, amount } of [{ token: refund.currency, amount: refund.currencyAmount }, ...refund.tokens]) {
+      if (amount.isZero()) continue;
+      if (token === ETH) {
+        amounts.push(`${ethers.utils.formatEther(amount)} ETH`);
+        continue;
+      }
+      const tokenContract = await hre.ethers.getContractAt("IERC20Extended", token, signer);
+      amounts.push(
+        `${ethers.utils.formatUnits(amount, await tokenContract.decimals())} ${await tokenContract.symbol()}`,
+      );
+    }
+    console.log(`IRO #${taskArgs.id} failed: refunding ${amounts.join(", ")} to ${to}`);
+  }
+
+  // claim
+  await iroClient.claim(taskArgs.id, to);
+
+  console.log(`Claimed from IRO #${taskArgs.id}`);
+}
+
+task("iro:claim", "Claim purchased tokens from a successful IRO, or committed funds from a failed one")
+  .addParam("id", "ID of the IRO.")
+  .addOptionalParam("to", "Address to send the claimed tokens/funds (defaults to the signer).")
+  .addOptionalParam("contract", "Address of the IRO contract.")
+  .setAction(async (taskArgs, hre) => {
+    await claim(hre, taskArgs, false);
+  });
+
+task("iro:refund", "Get committed funds back from a failed IRO")
+  .addParam("id", "ID of the IRO.")
+  .addOptionalParam("to", "Address to send the committed funds (defaults to the signer).")
+  .addOptionalParam("contract", "Address of the IRO contract.")
+  .setAction(async (taskArgs, hre) => {
+    await claim(hre, taskArgs, true);
+  });
@@ -3,46 +3,69 @@
 // Import task tooling
 import { task } from "hardhat/config";
 
-enum Status {
-  PENDING,
-  ONGOING,
-  SUCCESS,
-  FAIL,
-}
+// fs for reading whitelist proofs
+import fs from "fs";
+
+// Import BigNumber
+import { BigNumber } from "@ethersproject/bignumber";
+
+// Import whitelist files location
+import { WHITELIST_OUTPUT_DIR, whitelistPath } from "./iro_whitelist";
 
 task("iro:commit", "Commit to an IRO")
   .addParam("id", "ID of the IRO.")
   .addParam("amount", "Amount of tokens to purchase")
   .addOptionalParam("contract", "Address of the IRO contract.")
+  .addOptionalParam(
+    "token",
+    'Whitelisted token to pay with, converted through the price oracle ("ETH" for native ETH).',
+  )
+  .addOptionalParam("slippage", "Maximum slippage over the quoted token amount, in basis points.", "50")
+  .addOptionalParam(
+    "proofs",
+    "Path to the whitelist proofs of the IRO (defaults to the iro:generate-whitelist-tree output).",
+  )
   .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+    const { IROClient, ETH } = await import("../sdk/iro");
+
     // get signer
     const [signer] = await hre.ethers.getSigners();
 
-    // instantiate IRO contract
-    const iroContract = await hre.ethers.getContractAt(
-      "InitialRealEstateOffering",
-      taskArgs.contract ?? (await hre.deployments.get("InitialRealEstateOffering_Proxy")).address,
-      signer,
-    );
-
-    // check status
-    const status = await iroContract.getStatus(taskArgs.id);
-    if (status != Status.ONGOING) throw new Error("IRO not active");
+    // instantiate SDK client
+    const client = await horizonClient(hre, { iro: taskArgs.contract });
 
-    // get currency
-    const { currency: currencyAddress } = await iroContract.getIRO(taskArgs.id);
-    const currencyContract = await hre.ethers.getContractAt("IERC20Extended", currencyAddress, signer);
+    // print commit limits, the SDK checks them before committing
+    const iro = await client.iro.get(taskArgs.id);
+    const globalMaxUnits = await client.iro.contract.globalMaxUnitsPerWallet();
+    const noCap = (cap: BigNumber) => (cap.isZero() ? "none" : `${cap} tokens`);
+    console.log(`Minimum commit: ${iro.minUnits} tokens`);
+    console.log(`Maximum per wallet: ${noCap(iro.maxUnitsPerWallet)} (global: ${noCap(globalMaxUnits)})`);
 
-    // get total price
-    const totalPrice = await iroContract.price(taskArgs.id, taskArgs.amount);
+    // look up the signer proof during the whitelist phase
+    let proof: string[] | undefined;
+    if (await client.iro.contract.isWhitelistPhase(taskArgs.id)) {
+      const proofsFile = taskArgs.proofs ?? whitelistPath(WHITELIST_OUTPUT_DIR, taskArgs.id, "proofs.json");
+      if (!fs.existsSync(proofsFile)) {
+        throw new Error(`IRO #${taskArgs.id} is whitelisted, but ${proofsFile} is missing`);
+      }
+      proof = IROClient.whitelistProof(JSON.parse(fs.readFileSync(proofsFile, "utf8")), signer.address);
+      if (proof === undefined) throw new Error(`${signer.address} is not whitelisted on IRO #${taskArgs.id}`);
+      console.log(`Whitelist phase: using proof from ${proofsFile}`);
+    }
 
-    // approve currency transfer
-    let tx = await currencyContract.approve(iroContract.address, totalPrice);
-    await tx.wait();
+    // commit to IRO with a whitelisted token
+    if (taskArgs.token) {
+      const token = taskArgs.token.toUpperCase() === "ETH" ? ETH : taskArgs.token;
+      const amountIn = await client.iro.quote(taskArgs.id, taskArgs.amount, token);
+      console.log(`Quote: ${amountIn} (${taskArgs.token}, smallest unit), max slippage of ${taskArgs.slippage} bps`);
+      await client.iro.commitWithToken(taskArgs.id, taskArgs.amount, token, Number(taskArgs.slippage), proof);
+      console.log(`Commited for ${taskArgs.amount} tokens on IRO #${taskArgs.id}`);
+      return;
+    }
 
-    // commit to IRO
-    tx = await iroContract.commit(taskArgs.id, taskArgs.amount);
-    await tx.wait();
+    // commit to IRO, with a signed permit if the currency supports it or approving the currency transfer otherwise
+    await client.iro.commit(taskArgs.id, taskArgs.amount, proof);
 
     console.log(`Commited for ${taskArgs.amount} tokens on IRO #${taskArgs.id}`);
   });
@@ -0,0 +1,164 @@
+// create_iro.ts: Create an IRO from a listing spec
+
+// fs and path for reading the listing spec
+import fs from "fs";
+import path from "path";
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// Import BigNumber
+import { BigNumber } from "@ethersproject/bignumber";
+
+// ethers utils for parsing currency amounts
+import { ethers } from "ethers";
+
+// Import types
+import type { Address } from "../sdk/types";
+
+// Denominator used by the IRO contract to calculate fees/shares
+const DENOMINATOR = 10000;
+
+// Type for the listing spec JSON input
+// Prices and absolute fees are expressed in currency units (e.g. "1500.5"),
+// fees can be given either in absolute value or in basis points over the asset price
+interface IROListingSpec {
+  listingOwner: Address;
+  currency: string; // currency symbol, should match the IRO contract currency
+  assetPrice: string;
+  unitPrice: string;
+  treasuryFee?: string;
+  treasuryFeeBps?: number;
+  operationFee?: string;
+  operationFeeBps?: number;
+  start: string; // ISO 8601 date
+  duration: number; // seconds
+}
+
+/**
+ * @dev Get the absolute value of a fee, the same way targetCapInfo would
+ *      calculate its basis points back
+ *
+ * @param name Name of the fee (for error reporting)
+ * @param assetPrice Asset price with currency decimals
+ * @param decimals Currency decimals
+ * @param absolute Fee in currency units
+ * @param bps Fee in basis points over the asset price
+ * @return Fee with currency decimals
+ */
+function parseFee(name: string, assetPrice: BigNumber, decimals: number, absolute?: string, bps?: number): BigNumber {
+  if (absolute !== undefined && bps !== undefined) throw new Error(`Both ${name} and ${name}Bps were provided`);
+  if (bps !== undefined) {
+    if (!Number.isInteger(bps) || bps < 0 || bps > DENOMINATOR) throw new Error(`Invalid ${name}Bps: ${bps}`);
+    const fee = assetPrice.mul(bps).div(DENOMINATOR);
+    if (!fee.mul(DENOMINATOR).eq(assetPrice.mul(bps))) {
+      throw new Error(`${name}Bps of ${bps} does not result in an exact ${name}, provide the absolute value instead`);
+    }
+    return fee;
+  }
+  return ethers.utils.parseUnits(absolute ?? "0", decimals);
+}
+
+task("iro:create", "Create an IRO from a listing spec")
+  .addParam("spec", "Path to JSON containing the listing spec (should follow IROListingSpec type).")
+  .addOptionalParam("contract", "Address of the IRO contract.")
+  .addOptionalParam("minUnits", "Minimum amount of tokens per commit.", "0")
+  .addOptionalParam("maxUnitsPerWallet", "Maximum amount of tokens per wallet (0 for no cap).", "0")
+  .addFlag("dry", "Only validate and print the listing, without submitting it.")
+  .setAction(async (taskArgs, hre) => {
+    // get signer
+    const [signer] = await hre.ethers.getSigners();
+
+    // read listing spec
+    const spec: IROListingSpec = JSON.parse(fs.readFileSync(path.resolve(taskArgs.spec), "utf8"));
+    if (!hre.ethers.utils.isAddress(spec.listingOwner)) throw new Error("Invalid listingOwner");
+
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // instantiate IRO contract
+    const iroContract = (await horizonClient(hre, { iro: taskArgs.contract })).iro.contract;
+
+    // check currency
+    const currencyContract = await hre.ethers.getContractAt("IERC20Extended", await iroContract.currency(), signer);
+    const currencySymbol = await currencyContract.symbol();
+    if (currencySymbol !== spec.currency) {
+      throw new Error(`Listing currency (${spec.currency}) differs from IRO currency (${currencySymbol})`);
+    }
+    const decimals = await currencyContract.decimals();
+
+    // parse prices and fees
+    const assetPrice = ethers.utils.parseUnits(spec.assetPrice, decimals);
+    const unitPrice = ethers.utils.parseUnits(spec.unitPrice, decimals);
+    if (unitPrice.isZero()) throw new Error("unitPrice should be greater than zero");
+    const treasuryFee = parseFee("treasuryFee", assetPrice, decimals, spec.treasuryFee, spec.treasuryFeeBps);
+    const operationFee = parseFee("operationFee", assetPrice, decimals, spec.operationFee, spec.operationFeeBps);
+
+    // check target funding (same as InitialRealEstateOffering.createIRO)
+    const targetFunding = assetPrice.add(operationFee).add(treasuryFee);
+    if (!targetFunding.div(unitPrice).mul(unitPrice).eq(targetFunding)) {
+      throw new Error("Target funding should be divisible by unit price");
+    }
+
+    // check commit limits
+    const minUnits = BigNumber.from(taskArgs.minUnits);
+    const maxUnitsPerWallet = BigNumber.from(taskArgs.maxUnitsPerWallet);
+    if (!maxUnitsPerWallet.isZero() && minUnits.gt(maxUnitsPerWallet)) {
+      throw new Error("minUnits should not exceed maxUnitsPerWallet");
+    }
+    if (minUnits.gt(targetFunding.div(unitPrice))) throw new Error("minUnits exceeds the expected supply");
+
+    // calculate start offset and duration
+    const start = Math.floor(new Date(spec.start).getTime() / 1000);
+    if (isNaN(start)) throw new Error(`Invalid start date: ${spec.start}`);
+    if (!Number.isInteger(spec.duration) || spec.duration <= 0) throw new Error(`Invalid duration: ${spec.duration}`);
+    const { timestamp } = await hre.ethers.provider.getBlock("latest");
+    const startOffset = start - timestamp;
+    if (startOffset < 0) throw new Error(`Start date (${spec.start}) is in the past`);
+
+    // print listing
+    const format = (value: BigNumber) => `${ethers.utils.formatUnits(value, decimals)} ${currencySymbol}`;
+    console.log(`Listing owner: ${spec.listingOwner}`);
+    console.log(`Asset price: ${format(assetPrice)}`);
+    console.log(`Treasury fee: ${format(treasuryFee)} (${treasuryFee.mul(DENOMINATOR).div(assetPrice)} bps)`);
+    console.log(`Operation fee: ${format(operationFee)} (${operationFee.mul(DENOMINATOR).div(assetPrice)} bps)`);
+    console.log(`Target funding: ${format(targetFunding)}`);
+    console.log(`Unit price: ${format(unitPrice)}`);
+    console.log(`Expected supply: ${targetFunding.div(unitPrice)} tokens`);
+    console.log(`Minimum commit: ${minUnits} tokens`);
+    console.log(`Maximum per wallet: ${maxUnitsPerWallet.isZero() ? "none" : `${maxUnitsPerWallet} tokens`}`);
+    console.log(`Start: ${new Date(start * 1000).toISOString()} (offset of ${startOffset} seconds)`);
+    console.log(`End: ${new Date((start + spec.duration) * 1000).toISOString()}`);
+    if (taskArgs.dry) return;
+
+    // createIRO arguments
+    const args = [
+      spec.listingOwner,
+      treasuryFee,
+      operationFee,
+      spec.duration,
+      assetPrice,
+      unitPrice,
+      startOffset,
+      minUnits,
+      maxUnitsPerWallet,
+    ] as const;
+
+    // emit calldata if the IRO is owned by the Horizon multisig
+    const owner = await iroContract.owner();
+    if (owner !== (await signer.getAddress())) {
+      const { horizon_multisig: horizonMultisig } = await hre.getNamedAccounts();
+      if (owner !== horizonMultisig) throw new Error(`Signer is not the IRO owner (${owner})`);
+      console.log("IRO is owned by the Horizon multisig, submit the following transaction:");
+      console.log(`To: ${iroContract.address}`);
+      console.log(`Data: ${iroContract.interface.encodeFunctionData("createIRO", [...args])}`);
+      console.log("Note: startOffset is relative to the moment the transaction is executed");
+      return;
+    }
+
+    // create IRO
+    const iroId = await iroContract.iroLength();
+    const tx = await iroContract.createIRO(...args);
+    await tx.wait();
+
+    console.log(`Created IRO #${iroId}`);
+  });
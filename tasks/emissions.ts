@@ -0,0 +1,83 @@
+// emissions.ts: Project the SKY supply curve of the emissions schedule and distribute the emissions
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// ethers utils for formatting amounts
+import { BigNumber, ethers } from "ethers";
+
+/**
+ * @dev Format an amount of SKY with its share of MAX_SUPPLY
+ *
+ * @param amount Amount of SKY
+ * @param maxSupply SKY MAX_SUPPLY
+ * @return Formatted amount
+ */
+function formatSupply(amount: BigNumber, maxSupply: BigNumber) {
+  const share = amount.mul(10000).div(maxSupply).toNumber() / 100;
+  return `${Number(ethers.utils.formatEther(amount)).toLocaleString("en-US")} SKY (${share}% of MAX_SUPPLY)`;
+}
+
+task("emissions:projection", "Print the projected SKY supply at the end of each epoch of the emissions schedule")
+  .addOptionalParam("epochs", "Maximum number of epochs to project.", "104")
+  .addOptionalParam("step", "Print every <step> epochs.", "4")
+  .addOptionalParam("contract", "Address of the SkyEmissions contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // show the schedule
+    const emissions = (await horizonClient(hre, { emissions: taskArgs.contract })).emissions;
+    const [schedule, pending] = await Promise.all([emissions.contract.schedule(), emissions.pendingEmissions()]);
+    const epochDuration = schedule.epochDuration.toNumber();
+    console.log(
+      `Schedule: epochs of ${epochDuration / 86400} days from ${new Date(
+        schedule.start.toNumber() * 1000,
+      ).toISOString()}, ${ethers.utils.formatEther(schedule.initialRate.mul(epochDuration))} SKY in the first epoch, ${
+        schedule.decay / 100
+      }% of the previous epoch after`,
+    );
+    console.log(`Pending emissions: ${ethers.utils.formatEther(pending)} SKY`);
+
+    // project the supply
+    const projections = await emissions.projectSupply(Number(taskArgs.epochs));
+    const step = Number(taskArgs.step);
+    projections.forEach(({ epoch, end, rate, totalSupply, maxSupply }, i) => {
+      if (i % step !== 0 && i !== projections.length - 1) return;
+      console.log(
+        `Epoch ${epoch} (ends ${new Date(end * 1000).toISOString().slice(0, 10)}): ${ethers.utils.formatEther(
+          rate.mul(epochDuration),
+        )} SKY emitted, supply ${formatSupply(totalSupply, maxSupply)}`,
+      );
+    });
+
+    // show where the curve ends
+    const last = projections[projections.length - 1];
+    if (last.totalSupply.eq(last.maxSupply)) {
+      console.log(`MAX_SUPPLY is reached in epoch ${last.epoch}, emissions stop there`);
+    } else {
+      const tail = last.rate
+        .mul(epochDuration)
+        .mul(schedule.decay)
+        .div(10000 - schedule.decay);
+      const longRun = last.totalSupply.add(tail);
+      console.log(
+        `Supply converges to ${formatSupply(longRun.gt(last.maxSupply) ? last.maxSupply : longRun, last.maxSupply)}`,
+      );
+    }
+  });
+
+task("emissions:distribute", "Mint the pending SKY emissions to the recipients")
+  .addOptionalParam("contract", "Address of the SkyEmissions contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // check pending emissions
+    const emissions = (await horizonClient(hre, { emissions: taskArgs.contract })).emissions;
+    if ((await emissions.pendingEmissions()).isZero()) throw new Error("No pending emissions");
+
+    // distribute
+    const amount = await emissions.distribute();
+    const recipients = await emissions.contract.getRecipients();
+    console.log(`Distributed ${ethers.utils.formatEther(amount)} SKY`);
+    for (const { account, share } of recipients) console.log(`${account}: ${share / 100}%`);
+  });
@@ -0,0 +1,273 @@
+// gov.ts: Propose, vote on, queue and execute HorizonGovernor proposals
+
+// fs for reading the proposal actions
+import fs from "fs";
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// ethers utils for encoding the calls and formatting amounts
+import { BigNumber, ethers } from "ethers";
+
+// Import HRE type
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Import types
+import type { Address, HorizonAddresses } from "../sdk/types";
+import type { ProposalAction } from "../sdk/governor";
+
+// Call to propose, with human-readable arguments
+export interface ActionSpec {
+  target: string; // Horizon contract name (e.g. iro) or address
+  function: string; // Function name or signature (e.g. setTreasury)
+  args?: unknown[]; // Function arguments
+  value?: string; // ETH sent with the call (e.g. 0.1 ether)
+  artifact?: string; // Artifact of the target, required if the target is an address
+}
+
+// Artifacts of the Horizon contracts, to encode calls from their names
+const ARTIFACTS: { [contract in keyof HorizonAddresses]-?: string } = {
+  iro: "InitialRealEstateOffering",
+  realEstate: "RealEstateERC1155",
+  sky: "SkyERC20",
+  vesting: "Vesting",
+  priceOracle: "PriceOracle",
+  compounder: "RealEstateCompounder",
+  redemption: "RealEstateRedemption",
+  reserves: "RealEstateReserves",
+  voteEscrow: "VoteEscrow",
+  governor: "HorizonGovernor",
+  propertyGovernor: "PropertyGovernor",
+  emissions: "SkyEmissions",
+};
+
+// Vote types, by name
+export const VOTE_TYPES: { [support: string]: number } = { against: 0, for: 1, abstain: 2 };
+
+/**
+ * @dev Parse an amount or a period for a uint argument: "<x> ether" in wei, "<n>d" in seconds, as is otherwise
+ *
+ * @param value Value to parse
+ * @return Parsed value
+ */
+function parseUint(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const amount = value.match(/^([\d.]+)\s*ether$/);
+  if (amount !== null) return ethers.utils.parseEther(amount[1]);
+  const period = value.match(/^(\d+)d$/);
+  if (period !== null) return Number(period[1]) * 86400;
+  return value;
+}
+
+/**
+ * @dev Convert a human-readable argument to the type expected by the function
+ *
+ * @param param ABI parameter of the argument
+ * @param value Human-readable value
+ * @param addresses Horizon contract addresses, to resolve the contract names
+ * @return Value to encode
+ */
+function parseArg(param: ethers.utils.ParamType, value: unknown, addresses: HorizonAddresses): unknown {
+  if (param.baseType === "array" && Array.isArray(value)) {
+    return value.map((item) => parseArg(param.arrayChildren, item, addresses));
+  }
+  if (param.baseType === "address" && typeof value === "string" && !ethers.utils.isAddress(value)) {
+    const address = addresses[value as keyof HorizonAddresses];
+    if (address === undefined) throw new Error(`Unknown address ${value} for ${param.name}`);
+    return address;
+  }
+  if (param.baseType.startsWith("uint") || param.baseType.startsWith("int")) return parseUint(value);
+  return value;
+}
+
+/**
+ * @dev Encode a proposal action from its human-readable spec
+ *
+ * @param hre Hardhat runtime environment
+ * @param spec Action to encode
+ * @param addresses Horizon contract addresses
+ * @return Proposal action, with a description of the call
+ */
+export async function encodeAction(
+  hre: HardhatRuntimeEnvironment,
+  spec: ActionSpec,
+  addresses: HorizonAddresses,
+): Promise<[ProposalAction, string]> {
+  let target: Address | undefined = spec.target;
+  let artifact = spec.artifact;
+  if (!ethers.utils.isAddress(spec.target)) {
+    target = addresses[spec.target as keyof HorizonAddresses];
+    if (target === undefined) throw new Error(`Unknown target ${spec.target}`);
+    artifact ??= ARTIFACTS[spec.target as keyof HorizonAddresses];
+  }
+  if (artifact === undefined) throw new Error(`Set the artifact of ${spec.target}`);
+
+  const contractInterface = new ethers.utils.Interface((await hre.artifacts.readArtifact(artifact)).abi);
+  const fragment = contractInterface.getFunction(spec.function);
+  const args = spec.args ?? [];
+  if (args.length !== fragment.inputs.length) {
+    throw new Error(`${fragment.format()} expects ${fragment.inputs.length} arguments, got ${args.length}`);
+  }
+  const values = fragment.inputs.map((param, i) => parseArg(param, args[i], addresses));
+  const value = BigNumber.from(parseUint(spec.value ?? "0"));
+  const call = `${artifact}(${target}).${fragment.name}(${values.map((v) => String(v)).join(", ")})`;
+  return [
+    { target, value, calldata: contractInterface.encodeFunctionData(fragment, values) },
+    value.isZero() ? call : `${call} {value: ${ethers.utils.formatEther(value)} ETH}`,
+  ];
+}
+
+task("gov:propose", "Submit a proposal to the governor, encoding its calls from human-readable arguments")
+  .addParam("description", "Description of the proposal.")
+  .addOptionalParam("actions", "JSON file with the calls to propose ([{target, function, args, value, artifact}]).")
+  .addOptionalParam("target", "Horizon contract name (e.g. iro, realEstate, sky) or address of the call.")
+  .addOptionalParam("function", "Function to call (e.g. setTreasury).")
+  .addOptionalParam("args", 'JSON array of arguments (e.g. \'["treasury", "100 ether", "7d"]\').', "[]")
+  .addOptionalParam("value", "ETH sent with the call (e.g. 0.1 ether).", "0")
+  .addOptionalParam("artifact", "Artifact of the target, if it is an address.")
+  .addOptionalParam("contract", "Address of the HorizonGovernor contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // get signer
+    const [signer] = await hre.ethers.getSigners();
+
+    // read the calls to propose
+    let specs: ActionSpec[];
+    if (taskArgs.actions !== undefined) {
+      specs = JSON.parse(fs.readFileSync(taskArgs.actions, "utf8"));
+    } else {
+      if (taskArgs.target === undefined || taskArgs.function === undefined) {
+        throw new Error("Set either --actions or --target and --function");
+      }
+      specs = [
+        {
+          target: taskArgs.target,
+          function: taskArgs.function,
+          args: JSON.parse(taskArgs.args),
+          value: taskArgs.value,
+          artifact: taskArgs.artifact,
+        },
+      ];
+    }
+
+    // encode and show the calls
+    const client = await horizonClient(hre, { governor: taskArgs.contract });
+    const actions: ProposalAction[] = [];
+    for (const spec of specs) {
+      const [action, call] = await encodeAction(hre, spec, client.addresses);
+      actions.push(action);
+      console.log(call);
+    }
+
+    // check the signer voting power
+    const governor = client.governor;
+    const clock = await governor.contract.clock();
+    const [votes, threshold] = await Promise.all([
+      governor.contract.getVotes(signer.address, clock - 1),
+      governor.contract.proposalThreshold(),
+    ]);
+    if (votes.lt(threshold)) {
+      throw new Error(
+        `Signer votes (${ethers.utils.formatEther(votes)}) are below the proposal threshold (${ethers.utils.formatEther(
+          threshold,
+        )})`,
+      );
+    }
+
+    // submit proposal
+    const proposalId = await governor.propose(actions, taskArgs.description);
+    const [voteStart, voteEnd] = await Promise.all([
+      governor.contract.proposalSnapshot(proposalId),
+      governor.contract.proposalDeadline(proposalId),
+    ]);
+    console.log(`Proposal ID: ${proposalId.toString()}`);
+    console.log(
+      `Voting from ${new Date(voteStart.toNumber() * 1000).toISOString()} to ${new Date(
+        voteEnd.toNumber() * 1000,
+      ).toISOString()}`,
+    );
+  });
+
+task("gov:vote", "Vote on an active proposal with the signer veSKY")
+  .addParam("id", "ID of the proposal.")
+  .addParam("support", "Vote (for, against or abstain).")
+  .addOptionalParam("reason", "Reason of the vote.", "")
+  .addOptionalParam("contract", "Address of the HorizonGovernor contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+    const { ProposalState } = await import("../sdk/types");
+
+    // get signer
+    const [signer] = await hre.ethers.getSigners();
+
+    // check vote
+    const support = VOTE_TYPES[taskArgs.support.toLowerCase()];
+    if (support === undefined) throw new Error(`Invalid vote ${taskArgs.support}, use for, against or abstain`);
+    const governor = (await horizonClient(hre, { governor: taskArgs.contract })).governor;
+    if ((await governor.state(taskArgs.id)) !== ProposalState.ACTIVE) {
+      throw new Error(`Proposal ${taskArgs.id} is not active`);
+    }
+    if (await governor.contract.hasVoted(taskArgs.id, signer.address)) {
+      throw new Error(`Signer already voted on proposal ${taskArgs.id}`);
+    }
+    const votes = await governor.contract.getVotes(
+      signer.address,
+      await governor.contract.proposalSnapshot(taskArgs.id),
+    );
+    if (votes.isZero()) throw new Error("Signer has no voting power for this proposal");
+
+    // cast vote
+    await governor.castVote(taskArgs.id, support, taskArgs.reason);
+    const { againstVotes, forVotes, abstainVotes } = await governor.contract.proposalVotes(taskArgs.id);
+    console.log(`Voted ${taskArgs.support.toLowerCase()} with ${ethers.utils.formatEther(votes)} veSKY`);
+    console.log(
+      `For: ${ethers.utils.formatEther(forVotes)}, against: ${ethers.utils.formatEther(
+        againstVotes,
+      )}, abstain: ${ethers.utils.formatEther(abstainVotes)}`,
+    );
+  });
+
+task("gov:queue", "Queue a succeeded proposal in the timelock")
+  .addParam("id", "ID of the proposal.")
+  .addOptionalParam("contract", "Address of the HorizonGovernor contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+    const { ProposalState } = await import("../sdk/types");
+
+    // check proposal state
+    const governor = (await horizonClient(hre, { governor: taskArgs.contract })).governor;
+    const state = await governor.state(taskArgs.id);
+    if (state !== ProposalState.SUCCEEDED) {
+      throw new Error(`Proposal ${taskArgs.id} did not succeed (state: ${ProposalState[state]})`);
+    }
+
+    // queue proposal
+    await governor.queue(await governor.proposal(taskArgs.id));
+    const eta = await governor.contract.proposalEta(taskArgs.id);
+    console.log(`Queued proposal ${taskArgs.id}, executable from ${new Date(eta.toNumber() * 1000).toISOString()}`);
+  });
+
+task("gov:execute", "Execute a queued proposal once its timelock delay has passed")
+  .addParam("id", "ID of the proposal.")
+  .addOptionalParam("contract", "Address of the HorizonGovernor contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+    const { ProposalState } = await import("../sdk/types");
+
+    // check proposal state and timelock delay
+    const governor = (await horizonClient(hre, { governor: taskArgs.contract })).governor;
+    const state = await governor.state(taskArgs.id);
+    if (state !== ProposalState.QUEUED) {
+      throw new Error(`Proposal ${taskArgs.id} is not queued (state: ${ProposalState[state]})`);
+    }
+    const eta = await governor.contract.proposalEta(taskArgs.id);
+    const { timestamp } = await hre.ethers.provider.getBlock("latest");
+    if (eta.gt(timestamp)) {
+      throw new Error(`Proposal ${taskArgs.id} is executable from ${new Date(eta.toNumber() * 1000).toISOString()}`);
+    }
+
+    // execute proposal
+    await governor.execute(await governor.proposal(taskArgs.id));
+    console.log(`Executed proposal ${taskArgs.id}`);
+  });
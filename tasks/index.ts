@@ -1,7 +1,29 @@
 // Export all tasks here in the following format:
 // export * from "./task_name";
+//
+// Tasks load the SDK with `await import("../sdk/hardhat")` inside their actions rather than at the top:
+// the SDK depends on the typechain types, so importing it lazily keeps the tasks available before compiling
 
 export * from "./pioneer_generate_pioneer_tree";
 export * from "./commit_to_iro";
+export * from "./iro_whitelist";
+export * from "./create_iro";
+export * from "./iro_status";
+export * from "./claim_from_iro";
+export * from "./withdraw_from_iro";
+export * from "./oracle_price";
+export * from "./yield_deposit";
+export * from "./yield_report";
+export * from "./yield_claim";
+export * from "./yield_auto_compound";
+export * from "./yield_audit";
+export * from "./yield_whitelist";
+export * from "./redemption";
+export * from "./reserves";
+export * from "./sky";
+export * from "./emissions";
+export * from "./vesting";
+export * from "./gov";
+export * from "./property";
 export * from "./deploy-impl";
 export * from "./upgrade-impl";
@@ -0,0 +1,124 @@
+// iro_status.ts: Report the status of IROs
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// ethers constants
+import { ethers } from "ethers";
+
+// Import SDK types
+import type { IROClient } from "../sdk";
+import { IROStatus } from "../sdk/types";
+
+// Type for a row of the IRO report
+interface IROReport {
+  id: number;
+  status: string;
+  listingOwner: string;
+  currency: string;
+  start: string;
+  end: string;
+  unitPrice: string;
+  targetFunding: string;
+  totalFunding: string;
+  currentTotalSupply: string;
+  expectedTotalSupply: string;
+  remainingTokens: string;
+  minUnits: string;
+  maxUnitsPerWallet: string;
+  whitelistEnd: string;
+  treasuryFeeBps: number;
+  operationFeeBps: number;
+  realEstateId: string;
+  fundsWithdrawn: boolean;
+}
+
+/**
+ * @dev Build the report of a single IRO
+ *
+ * @param iroClient SDK IRO namespace
+ * @param id ID of the IRO
+ * @return IRO report
+ */
+async function iroReport(iroClient: IROClient, id: number): Promise<IROReport> {
+  const iroContract = iroClient.contract;
+
+  // fetch IRO data
+  const iro = await iroClient.get(id);
+  const { treasuryFeeBps, operationFeeBps } = await iroContract.targetCapInfo(id);
+  const whitelist = await iroContract.whitelist(id);
+
+  return {
+    id,
+    status: IROStatus[await iroClient.status(id)],
+    listingOwner: iro.listingOwner,
+    currency: iro.currency,
+    start: new Date(iro.start.toNumber() * 1000).toISOString(),
+    end: new Date(iro.end.toNumber() * 1000).toISOString(),
+    unitPrice: iro.unitPrice.toString(),
+    targetFunding: iro.targetFunding.toString(),
+    totalFunding: iro.totalFunding.toString(),
+    currentTotalSupply: (await iroContract.currentTotalSupply(id)).toString(),
+    expectedTotalSupply: (await iroContract.expectedTotalSupply(id)).toString(),
+    remainingTokens: (await iroContract.remainingTokens(id)).toString(),
+    minUnits: iro.minUnits.toString(),
+    maxUnitsPerWallet: iro.maxUnitsPerWallet.toString(),
+    whitelistEnd:
+      whitelist.root === ethers.constants.HashZero ? "" : new Date(whitelist.end.toNumber() * 1000).toISOString(),
+    treasuryFeeBps,
+    operationFeeBps,
+    realEstateId: (await iroContract.realEstateIdSet(id)) ? (await iroContract.realEstateId(id)).toString() : "",
+    fundsWithdrawn: await iroContract.fundsWithdrawn(id),
+  };
+}
+
+/**
+ * @dev Print IRO reports in the requested format
+ *
+ * @param reports IRO reports
+ * @param format Output format (json, csv or table)
+ */
+function printReports(reports: IROReport[], format: "json" | "csv" | "table") {
+  if (format === "json") {
+    console.log(JSON.stringify(reports, null, 2));
+  } else if (format === "csv") {
+    const columns = Object.keys(reports[0] ?? {}) as (keyof IROReport)[];
+    console.log(columns.join(","));
+    reports.forEach((report) => console.log(columns.map((column) => report[column]).join(",")));
+  } else {
+    console.table(reports);
+  }
+}
+
+task("iro:status", "Print the status of an IRO")
+  .addParam("id", "ID of the IRO.")
+  .addOptionalParam("contract", "Address of the IRO contract.")
+  .addFlag("json", "Output as JSON.")
+  .addFlag("csv", "Output as CSV.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // build report
+    const client = await horizonClient(hre, { iro: taskArgs.contract });
+    const report = await iroReport(client.iro, Number(taskArgs.id));
+
+    printReports([report], taskArgs.json ? "json" : taskArgs.csv ? "csv" : "table");
+  });
+
+task("iro:list", "Print the status of every IRO")
+  .addOptionalParam("contract", "Address of the IRO contract.")
+  .addFlag("json", "Output as JSON.")
+  .addFlag("csv", "Output as CSV.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // build reports
+    const client = await horizonClient(hre, { iro: taskArgs.contract });
+    const reports: IROReport[] = [];
+    const iroLength = await client.iro.length();
+    for (let id = 0; id < iroLength; id++) {
+      reports.push(await iroReport(client.iro, id));
+    }
+
+    printReports(reports, taskArgs.json ? "json" : taskArgs.csv ? "csv" : "table");
+  });
@@ -0,0 +1,143 @@
+// iro_whitelist.ts: Generate and set the whitelist of an IRO presale phase
+
+// fs and path for reading accounts and outputting results
+import fs from "fs";
+import path from "path";
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// ethers utils for validating addresses
+import { ethers } from "ethers";
+
+// Import types
+import type { Address, WhitelistProofs } from "../sdk/types";
+
+// Import PioneerTree (IRO whitelists use the same leaves, keccak256 of the account)
+import { PioneerTree } from "../test/token/utils/pioneer_tree";
+
+// Default directories of the whitelist accounts and proofs
+export const WHITELIST_INPUT_DIR = "data/input_data/iro";
+export const WHITELIST_OUTPUT_DIR = "data/output_data/iro";
+
+/**
+ * @dev Get the path of a whitelist file of an IRO
+ *
+ * @param dir Directory of the file
+ * @param id ID of the IRO
+ * @param name File name suffix
+ * @return Path of the file
+ */
+export function whitelistPath(dir: string, id: string | number, name: string) {
+  return path.resolve(dir, `iro_${id}_whitelist_${name}`);
+}
+
+/**
+ * @dev Read accounts (e.g. KYC-approved investors) from a JSON list or a CSV whose first column holds
+ *      the account addresses (header and empty lines are skipped)
+ *
+ * @param file Path to the JSON or CSV file
+ * @return Checksummed accounts, without duplicates
+ */
+export function readAccounts(file: string): Address[] {
+  const content = fs.readFileSync(file, "utf8");
+  const accounts: string[] =
+    path.extname(file).toLowerCase() === ".csv"
+      ? content
+          .split(/\r?\n/)
+          .map((line) => line.split(",")[0].trim())
+          .filter((account, i) => account !== "" && !(i === 0 && !ethers.utils.isAddress(account)))
+      : JSON.parse(content);
+
+  const checksummed = accounts.map((account) => {
+    if (!ethers.utils.isAddress(account)) throw new Error(`Invalid account: ${account}`);
+    return ethers.utils.getAddress(account);
+  });
+  return [...new Set(checksummed)];
+}
+
+task("iro:generate-whitelist-tree", "Generate the whitelist tree of an IRO and save proofs and root to a directory")
+  .addParam("id", "ID of the IRO.")
+  .addOptionalParam(
+    "accounts",
+    "Path to JSON (list of accounts) or CSV (accounts in the first column) containing the KYC-approved investors.",
+  )
+  .addOptionalParam("output", "Path to directory to output the proofs and root.")
+  .setAction(async (taskArgs) => {
+    // get account list
+    const accountsFile =
+      taskArgs.accounts ??
+      [".json", ".csv"]
+        .map((extension) => whitelistPath(WHITELIST_INPUT_DIR, taskArgs.id, `accounts${extension}`))
+        .find((file) => fs.existsSync(file));
+    if (accountsFile === undefined) throw new Error(`No whitelist accounts found for IRO #${taskArgs.id}`);
+    const accountList = readAccounts(accountsFile);
+    if (accountList.length === 0) throw new Error("Whitelist is empty");
+
+    // get output directory
+    const outputDir = taskArgs.output ?? WHITELIST_OUTPUT_DIR;
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    // build whitelist tree
+    const whitelistTree = new PioneerTree(accountList);
+
+    // build WhitelistProofs
+    const whitelistProofs: WhitelistProofs = {};
+    for (let i = 0; i < accountList.length; i++) {
+      whitelistProofs[accountList[i]] = whitelistTree.proofsFromIndex(i);
+    }
+
+    // save to files
+    fs.writeFileSync(whitelistPath(outputDir, taskArgs.id, "root.txt"), whitelistTree.root);
+    fs.writeFileSync(whitelistPath(outputDir, taskArgs.id, "proofs.json"), JSON.stringify(whitelistProofs));
+
+    console.log(`Whitelisted ${accountList.length} accounts on IRO #${taskArgs.id} (root: ${whitelistTree.root})`);
+  });
+
+task("iro:set-whitelist", "Set the whitelist of an IRO")
+  .addParam("id", "ID of the IRO.")
+  .addParam("end", "Whitelist end date (ISO 8601), only whitelisted accounts can commit until then.")
+  .addOptionalParam(
+    "root",
+    "Merkle root of the whitelist (defaults to the one generated by iro:generate-whitelist-tree).",
+  )
+  .addOptionalParam("contract", "Address of the IRO contract.")
+  .setAction(async (taskArgs, hre) => {
+    // get signer
+    const [signer] = await hre.ethers.getSigners();
+
+    // get root and end
+    const root = taskArgs.root ?? fs.readFileSync(whitelistPath(WHITELIST_OUTPUT_DIR, taskArgs.id, "root.txt"), "utf8");
+    if (!ethers.utils.isHexString(root, 32)) throw new Error(`Invalid root: ${root}`);
+    const end = Math.floor(new Date(taskArgs.end).getTime() / 1000);
+    if (isNaN(end)) throw new Error(`Invalid end date: ${taskArgs.end}`);
+
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // instantiate IRO contract
+    const iroContract = (await horizonClient(hre, { iro: taskArgs.contract })).iro.contract;
+
+    // check whitelist ends before the IRO
+    const iro = await iroContract.getIRO(taskArgs.id);
+    if (iro.end.lt(end)) throw new Error(`Whitelist should end before the IRO (${iro.end.toNumber()})`);
+
+    console.log(`Root: ${root}`);
+    console.log(`Whitelist phase: ${new Date(iro.start.toNumber() * 1000).toISOString()} to ${taskArgs.end}`);
+
+    // emit calldata if the IRO is owned by the Horizon multisig
+    const owner = await iroContract.owner();
+    if (owner !== (await signer.getAddress())) {
+      const { horizon_multisig: horizonMultisig } = await hre.getNamedAccounts();
+      if (owner !== horizonMultisig) throw new Error(`Signer is not the IRO owner (${owner})`);
+      console.log("IRO is owned by the Horizon multisig, submit the following transaction:");
+      console.log(`To: ${iroContract.address}`);
+      console.log(`Data: ${iroContract.interface.encodeFunctionData("setWhitelist", [taskArgs.id, root, end])}`);
+      return;
+    }
+
+    // set whitelist
+    const tx = await iroContract.setWhitelist(taskArgs.id, root, end);
+    await tx.wait();
+
+    console.log(`Set whitelist of IRO #${taskArgs.id}`);
+  });
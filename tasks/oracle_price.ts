@@ -0,0 +1,48 @@
+// oracle_price.ts: Print price oracle quotes
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// ethers utils for formatting prices
+import { ethers } from "ethers";
+
+task("oracle:price", "Print the price oracle quote of a base/quote pair")
+  .addParam("base", 'Base currency address ("ETH" for native ETH).')
+  .addParam("quote", 'Quote currency address ("ETH" for native ETH).')
+  .addOptionalParam("contract", "Address of the PriceOracle contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+    const { ETH } = await import("../sdk/iro");
+
+    // instantiate SDK client
+    const { priceOracle } = await horizonClient(hre, { priceOracle: taskArgs.contract });
+
+    // resolve currencies
+    const currency = async (token: string) => {
+      if (token.toUpperCase() === "ETH") return { address: ETH, symbol: "ETH" };
+      const erc20 = await hre.ethers.getContractAt("IERC20Extended", token);
+      return { address: token, symbol: await erc20.symbol() };
+    };
+    const base = await currency(taskArgs.base);
+    const quote = await currency(taskArgs.quote);
+
+    // print how the price is obtained
+    const source = await priceOracle.source(base.address, quote.address);
+    if (source.kind === "none") throw new Error(`No price feed for ${base.symbol}/${quote.symbol}`);
+    if (source.kind === "derived") {
+      console.log(`Source: derived through ${source.via === ETH ? "ETH" : source.via}`);
+    } else {
+      const aggregator = await hre.ethers.getContractAt("AggregatorV3Interface", source.aggregator);
+      const { updatedAt } = await aggregator.latestRoundData();
+      console.log(`Source: ${source.kind} aggregator ${source.aggregator} (${await aggregator.description()})`);
+      console.log(`Updated at: ${new Date(updatedAt.toNumber() * 1000).toISOString()}`);
+    }
+
+    // print quotes
+    const price = await priceOracle.price(base.address, quote.address);
+    const inversePrice = await priceOracle.price(quote.address, base.address);
+    const baseDecimals = await priceOracle.decimals(base.address);
+    const quoteDecimals = await priceOracle.decimals(quote.address);
+    console.log(`1 ${base.symbol} = ${ethers.utils.formatUnits(price, quoteDecimals)} ${quote.symbol}`);
+    console.log(`1 ${quote.symbol} = ${ethers.utils.formatUnits(inversePrice, baseDecimals)} ${base.symbol}`);
+  });
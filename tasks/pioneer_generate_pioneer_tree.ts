@@ -8,7 +8,7 @@ import path from "path";
 import { task } from "hardhat/config";
 
 // Import types
-import { Address } from "../test/types";
+import type { Address } from "../sdk/types";
 
 // Import PioneerTree
 import { PioneerTree } from "../test/token/utils/pioneer_tree";
@@ -0,0 +1,182 @@
+// property.ts: Create, vote on, tally and execute the proposals of the holders of a property
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// ethers utils for formatting amounts
+import { BigNumber, ethers } from "ethers";
+
+// Import proposal encoding
+import { VOTE_TYPES, encodeAction } from "./gov";
+
+/**
+ * @dev Format an amount of units with its share of a total
+ *
+ * @param units Amount of units
+ * @param total Total amount of units
+ * @return Formatted units
+ */
+function formatShare(units: BigNumber, total: BigNumber) {
+  const share = total.isZero() ? 0 : units.mul(10000).div(total).toNumber() / 100;
+  return `${units.toString()} units (${share}%)`;
+}
+
+task(
+  "property:propose",
+  "Propose a decision about a property to its holders, with an optional call executed if it passes",
+)
+  .addParam("id", "ID of the reNFT.")
+  .addParam("description", "Description of the proposal (e.g. sale, major repairs, property manager change).")
+  .addOptionalParam("target", "Horizon contract name (e.g. redemption, realEstate) or address of the call.")
+  .addOptionalParam("function", "Function to call, its first argument should be the reNFT ID (e.g. openRedemption).")
+  .addOptionalParam("args", "JSON array of arguments (e.g. '[0, \"0x...\"]').", "[]")
+  .addOptionalParam("artifact", "Artifact of the target, if it is an address.")
+  .addOptionalParam("contract", "Address of the PropertyGovernor contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+    const { RealEstateERC1155__factory } = await import("../typechain-types");
+
+    // get signer
+    const [signer] = await hre.ethers.getSigners();
+
+    // encode and show the call
+    const client = await horizonClient(hre, { propertyGovernor: taskArgs.contract });
+    const propertyGovernor = client.propertyGovernor;
+    let action;
+    if (taskArgs.target !== undefined) {
+      if (taskArgs.function === undefined) throw new Error("Set the function to call");
+      const spec = {
+        target: taskArgs.target,
+        function: taskArgs.function,
+        args: JSON.parse(taskArgs.args),
+        artifact: taskArgs.artifact,
+      };
+      const [{ target, calldata }, call] = await encodeAction(hre, spec, client.addresses);
+      if (!(await propertyGovernor.contract.allowedActions(target, calldata.slice(0, 10)))) {
+        throw new Error(`${call} is not allowed, the DAO should allow it first (setAllowedAction)`);
+      }
+      action = { target, calldata };
+      console.log(call);
+    }
+
+    // check the signer units
+    const realEstateNft = RealEstateERC1155__factory.connect(await propertyGovernor.contract.realEstateNft(), signer);
+    const [units, totalSupply, threshold, denominator] = await Promise.all([
+      realEstateNft.balanceOf(signer.address, taskArgs.id),
+      realEstateNft.totalSupply(taskArgs.id),
+      propertyGovernor.contract.proposalThreshold(),
+      propertyGovernor.contract.DENOMINATOR(),
+    ]);
+    if (units.mul(denominator).lt(totalSupply.mul(threshold))) {
+      throw new Error(`Signer holds ${formatShare(units, totalSupply)}, below the threshold (${threshold / 100}%)`);
+    }
+
+    // submit proposal
+    const proposalId = await propertyGovernor.propose(taskArgs.id, taskArgs.description, action);
+    const { voteEnd } = await propertyGovernor.proposal(proposalId);
+    console.log(`Proposal ID: ${proposalId.toString()}`);
+    console.log(`Voting until ${new Date(voteEnd.toNumber() * 1000).toISOString()}`);
+  });
+
+task("property:vote", "Vote on a property proposal with the units held in the block before its creation")
+  .addParam("proposal", "ID of the proposal.")
+  .addParam("support", "Vote (for, against or abstain).")
+  .addOptionalParam("contract", "Address of the PropertyGovernor contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+    const { PropertyProposalState } = await import("../sdk/types");
+
+    // get signer
+    const [signer] = await hre.ethers.getSigners();
+
+    // check vote
+    const support = VOTE_TYPES[taskArgs.support.toLowerCase()];
+    if (support === undefined) throw new Error(`Invalid vote ${taskArgs.support}, use for, against or abstain`);
+    const propertyGovernor = (await horizonClient(hre, { propertyGovernor: taskArgs.contract })).propertyGovernor;
+    if ((await propertyGovernor.state(taskArgs.proposal)) !== PropertyProposalState.ACTIVE) {
+      throw new Error(`Proposal ${taskArgs.proposal} is not active`);
+    }
+    if (await propertyGovernor.contract.hasVoted(taskArgs.proposal, signer.address)) {
+      throw new Error(`Signer already voted on proposal ${taskArgs.proposal}`);
+    }
+    const proposal = await propertyGovernor.proposal(taskArgs.proposal);
+    const units = await propertyGovernor.contract.balanceOfAt(proposal.id, signer.address, proposal.snapshotBlock);
+    if (units.isZero())
+      throw new Error(`Signer held no units of reNFT #${proposal.id} at block ${proposal.snapshotBlock}`);
+
+    // cast vote
+    await propertyGovernor.castVote(taskArgs.proposal, support);
+    console.log(`Voted ${taskArgs.support.toLowerCase()} with ${units.toString()} units of reNFT #${proposal.id}`);
+  });
+
+task("property:tally", "Print the votes of the proposals of a property, or of a single proposal")
+  .addOptionalParam("id", "ID of the reNFT.")
+  .addOptionalParam("proposal", "ID of the proposal.")
+  .addOptionalParam("contract", "Address of the PropertyGovernor contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+    const { PropertyProposalState } = await import("../sdk/types");
+
+    // find the proposals to tally
+    if (taskArgs.id === undefined && taskArgs.proposal === undefined) throw new Error("Set either --id or --proposal");
+    const propertyGovernor = (await horizonClient(hre, { propertyGovernor: taskArgs.contract })).propertyGovernor;
+    let proposalIds: number[];
+    if (taskArgs.proposal !== undefined) {
+      proposalIds = [Number(taskArgs.proposal)];
+    } else {
+      const events = await propertyGovernor.contract.queryFilter(
+        propertyGovernor.contract.filters.ProposalCreated(null, taskArgs.id),
+      );
+      proposalIds = events.map((event) => event.args._proposalId.toNumber());
+      if (proposalIds.length === 0) console.log(`No proposals for reNFT #${taskArgs.id}`);
+    }
+
+    // print the tally of each proposal
+    const descriptions = new Map<number, string>();
+    for (const event of await propertyGovernor.contract.queryFilter(
+      propertyGovernor.contract.filters.ProposalCreated(),
+    )) {
+      descriptions.set(event.args._proposalId.toNumber(), event.args._description);
+    }
+    for (const proposalId of proposalIds) {
+      const [proposal, tally] = await Promise.all([
+        propertyGovernor.proposal(proposalId),
+        propertyGovernor.tally(proposalId),
+      ]);
+      const votes = tally.forVotes.add(tally.againstVotes).add(tally.abstainVotes);
+      console.log(`Proposal ${proposalId} on reNFT #${proposal.id}: ${descriptions.get(proposalId) ?? ""}`);
+      console.log(`  State: ${PropertyProposalState[tally.state]}`);
+      console.log(`  Vote end: ${new Date(tally.voteEnd.toNumber() * 1000).toISOString()}`);
+      if (proposal.target !== ethers.constants.AddressZero) {
+        console.log(`  Action: ${proposal.target} ${proposal.data}`);
+      }
+      console.log(`  For: ${formatShare(tally.forVotes, tally.totalSupply)}`);
+      console.log(`  Against: ${formatShare(tally.againstVotes, tally.totalSupply)}`);
+      console.log(`  Abstain: ${formatShare(tally.abstainVotes, tally.totalSupply)}`);
+      console.log(
+        `  Quorum: ${formatShare(votes, tally.totalSupply)} voted, ${tally.quorumVotes.toString()} units required`,
+      );
+    }
+  });
+
+task("property:execute", "Execute the action of a succeeded property proposal")
+  .addParam("proposal", "ID of the proposal.")
+  .addOptionalParam("contract", "Address of the PropertyGovernor contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+    const { PropertyProposalState } = await import("../sdk/types");
+
+    // check proposal state
+    const propertyGovernor = (await horizonClient(hre, { propertyGovernor: taskArgs.contract })).propertyGovernor;
+    const state = await propertyGovernor.state(taskArgs.proposal);
+    if (state !== PropertyProposalState.SUCCEEDED) {
+      throw new Error(`Proposal ${taskArgs.proposal} did not succeed (state: ${PropertyProposalState[state]})`);
+    }
+    const proposal = await propertyGovernor.proposal(taskArgs.proposal);
+    if (proposal.target === ethers.constants.AddressZero)
+      throw new Error(`Proposal ${taskArgs.proposal} has no action`);
+
+    // execute proposal
+    await propertyGovernor.execute(taskArgs.proposal);
+    console.log(`Executed proposal ${taskArgs.proposal} on reNFT #${proposal.id}`);
+  });
@@ -0,0 +1,95 @@
+// redemption.ts: Open and close the redemption of a sold property
+
+// Import task tooling
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Import contract types
+import type { RealEstateRedemption } from "../typechain-types";
+
+// ethers utils for formatting amounts
+import { ethers } from "ethers";
+
+/**
+ * @dev Send a call to the redemption module, or print its calldata if it is owned by the Horizon multisig
+ *
+ * @param hre Hardhat runtime environment
+ * @param redemption RealEstateRedemption contract
+ * @param data Calldata of the call
+ * @return Whether the call was sent
+ */
+async function sendOrPrint(hre: HardhatRuntimeEnvironment, redemption: RealEstateRedemption, data: string) {
+  // get signer
+  const [signer] = await hre.ethers.getSigners();
+
+  // emit calldata if the redemption module is owned by the Horizon multisig
+  const owner = await redemption.owner();
+  if (owner !== (await signer.getAddress())) {
+    const { horizon_multisig: horizonMultisig } = await hre.getNamedAccounts();
+    if (owner !== horizonMultisig) throw new Error(`Signer is not the redemption owner (${owner})`);
+    console.log("Redemption module is owned by the Horizon multisig, submit the following transaction:");
+    console.log(`To: ${redemption.address}`);
+    console.log(`Data: ${data}`);
+    return false;
+  }
+
+  const tx = await signer.sendTransaction({ to: redemption.address, data });
+  await tx.wait();
+  return true;
+}
+
+task("redemption:open", "Open the redemption of a sold property, for its proceeds deposited in the reserves")
+  .addParam("id", "ID of the reNFT.")
+  .addOptionalParam("currency", "Currency of the proceeds, defaults to the reNFT contract yield currency.")
+  .addOptionalParam("contract", "Address of the RealEstateRedemption contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+    const { RealEstateClient, ReservesBuffer } = await import("../sdk");
+    const { InitialRealEstateOffering__factory, RealEstateReserves__factory } = await import("../typechain-types");
+
+    // instantiate RealEstateRedemption, RealEstateERC1155, RealEstateReserves and InitialRealEstateOffering contracts
+    const redemption = (await horizonClient(hre, { redemption: taskArgs.contract })).redemption.contract;
+    const realEstate = new RealEstateClient(await redemption.realEstateNft(), redemption.provider);
+    const reserves = RealEstateReserves__factory.connect(await redemption.reserves(), redemption.provider);
+    const iro = InitialRealEstateOffering__factory.connect(await redemption.iro(), redemption.provider);
+
+    // get proceeds and units in circulation, including the units not claimed from the IRO yet
+    const yieldCurrency = await realEstate.yieldCurrency();
+    const currency = yieldCurrency.attach(ethers.utils.getAddress(taskArgs.currency ?? yieldCurrency.address));
+    const [decimals, symbol] = await Promise.all([currency.decimals(), currency.symbol()]);
+    const proceeds = await reserves.bufferBalance(taskArgs.id, currency.address, ReservesBuffer.PROCEEDS);
+    const unclaimedUnits = await iro.unclaimedUnits(taskArgs.id);
+    const units = (await realEstate.contract.totalSupply(taskArgs.id)).add(unclaimedUnits);
+    if (proceeds.isZero()) throw new Error(`No ${symbol} proceeds in the reserves of reNFT #${taskArgs.id}`);
+    if (units.isZero()) throw new Error(`reNFT #${taskArgs.id} has no units in circulation`);
+    console.log(`Proceeds: ${ethers.utils.formatUnits(proceeds, decimals)} ${symbol}`);
+    console.log(`Units: ${units.toString()} (${unclaimedUnits.toString()} not claimed from the IRO yet)`);
+    console.log(`Payout per unit: ${ethers.utils.formatUnits(proceeds.div(units), decimals)} ${symbol}`);
+
+    // open redemption
+    const data = redemption.interface.encodeFunctionData("openRedemption", [taskArgs.id, currency.address]);
+    if (await sendOrPrint(hre, redemption, data)) {
+      console.log(`Opened redemption of reNFT #${taskArgs.id}`);
+    }
+  });
+
+task("redemption:close", "Close the redemption of a property, returning the proceeds left to the reserves")
+  .addParam("id", "ID of the reNFT.")
+  .addOptionalParam("contract", "Address of the RealEstateRedemption contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // show what is left to redeem
+    const redemptionClient = (await horizonClient(hre, { redemption: taskArgs.contract })).redemption;
+    const { open, units, funds, currency } = await redemptionClient.redemption(taskArgs.id);
+    if (!open) throw new Error(`Redemption of reNFT #${taskArgs.id} is not open`);
+    console.log(`Units left to redeem: ${units.toString()}`);
+    console.log(`Proceeds returned to the reserves: ${funds.toString()} (${currency})`);
+
+    // close redemption
+    const redemption = redemptionClient.contract;
+    const data = redemption.interface.encodeFunctionData("closeRedemption", [taskArgs.id]);
+    if (await sendOrPrint(hre, redemption, data)) {
+      console.log(`Closed redemption of reNFT #${taskArgs.id}`);
+    }
+  });
@@ -0,0 +1,160 @@
+// reserves.ts: Report the reserves of each property and release them to pay for expenses
+
+// fs and path for outputting results
+import fs from "fs";
+import path from "path";
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// ethers utils for formatting amounts
+import { ethers } from "ethers";
+
+// Buffers of the reserves, as named in the task arguments
+const BUFFERS = ["maintenance", "vacancy", "proceeds"];
+
+task(
+  "reserves:report",
+  "Show the maintenance and vacancy buffers and the sale proceeds of each property, and their history",
+)
+  .addOptionalParam("ids", "Comma separated reNFT IDs, defaults to every reNFT.")
+  .addOptionalParam("fromBlock", "Block to start reading events from (the reserves contract deployment).", "0")
+  .addFlag("history", "Show the deposits, releases and withdrawals of each property.")
+  .addOptionalParam("output", "Path of a CSV file to export the history to.")
+  .addOptionalParam("contract", "Address of the RealEstateReserves contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+    const { IERC20Extended__factory } = await import("../typechain-types");
+
+    // instantiate SDK clients
+    const client = await horizonClient(hre, { reserves: taskArgs.contract });
+    const reserves = client.reserves;
+    const fromBlock = Number(taskArgs.fromBlock);
+
+    // get IDs to report
+    const ids: number[] =
+      taskArgs.ids === undefined
+        ? [...Array((await client.realEstate.contract.nextRealEstateId()).toNumber()).keys()]
+        : taskArgs.ids.split(",").map((id: string) => Number(id.trim()));
+
+    // get currency symbols and decimals
+    const currencies = new Map<string, { symbol: string; decimals: number }>();
+    const format = async (currency: string, amount: ethers.BigNumber) => {
+      if (!currencies.has(currency)) {
+        const token = IERC20Extended__factory.connect(currency, hre.ethers.provider);
+        currencies.set(currency, { symbol: await token.symbol(), decimals: await token.decimals() });
+      }
+      const { symbol, decimals } = currencies.get(currency) ?? { symbol: "", decimals: 0 };
+      return `${ethers.utils.formatUnits(amount, decimals)} ${symbol}`;
+    };
+
+    // get the balances and history of each ID
+    const balances = [];
+    const history = [];
+    for (const id of ids) {
+      for (const [currency, { maintenance, vacancy, proceeds }] of Object.entries(await reserves.balances(id))) {
+        balances.push({
+          id,
+          maintenance: await format(currency, maintenance),
+          vacancy: await format(currency, vacancy),
+          total: await format(currency, maintenance.add(vacancy)),
+          proceeds: await format(currency, proceeds),
+        });
+      }
+      if (!taskArgs.history && taskArgs.output === undefined) continue;
+      for (const movement of await reserves.history(id, fromBlock)) {
+        history.push({
+          id,
+          block: movement.blockNumber,
+          kind: movement.kind,
+          buffer: movement.buffer === undefined ? "-" : BUFFERS[movement.buffer],
+          amount: await format(movement.currency, movement.amount),
+          by: movement.by,
+          to: movement.to ?? "-",
+          reason: movement.reason ?? "",
+          transactionHash: movement.transactionHash,
+        });
+      }
+    }
+    if (balances.length === 0) {
+      console.log(`No reserves for reNFTs ${ids.map((id) => `#${id}`).join(", ")}`);
+      return;
+    }
+    console.table(balances);
+    if (taskArgs.history) console.table(history);
+
+    // write history, quoting the free text reasons
+    if (taskArgs.output === undefined) return;
+    fs.mkdirSync(path.dirname(taskArgs.output), { recursive: true });
+    const columns = Object.keys(history[0] ?? {}) as (keyof (typeof history)[number])[];
+    const quote = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+    fs.writeFileSync(
+      taskArgs.output,
+      [columns.join(","), ...history.map((row) => columns.map((column) => quote(row[column])).join(","))].join("\n") +
+        "\n",
+    );
+    console.log(`Reserves history saved to ${taskArgs.output}`);
+  });
+
+task("reserves:release", "Release funds of a property buffer to pay for an expense")
+  .addParam("id", "ID of the reNFT.")
+  .addParam("amount", "Amount to release, in currency units (e.g. 1500.5).")
+  .addParam("to", "Receiver of the funds.")
+  .addParam("reason", "Description of the expense.")
+  .addOptionalParam("buffer", "Buffer to release the funds from: maintenance, vacancy or proceeds.", "maintenance")
+  .addOptionalParam("currency", "Currency of the funds, defaults to the reNFT contract yield currency.")
+  .addOptionalParam("contract", "Address of the RealEstateReserves contract.")
+  .setAction(async (taskArgs, hre) => {
+    const buffer = BUFFERS.indexOf(taskArgs.buffer);
+    if (buffer === -1) throw new Error(`Invalid buffer: ${taskArgs.buffer}`);
+
+    const { horizonClient } = await import("../sdk/hardhat");
+    const { IERC20Extended__factory } = await import("../typechain-types");
+
+    // get signer
+    const [signer] = await hre.ethers.getSigners();
+
+    // instantiate SDK clients
+    const client = await horizonClient(hre, { reserves: taskArgs.contract });
+    const reserves = client.reserves.contract;
+    const currency =
+      taskArgs.currency === undefined
+        ? await client.realEstate.yieldCurrency()
+        : IERC20Extended__factory.connect(ethers.utils.getAddress(taskArgs.currency), signer);
+
+    // check the buffer balance
+    const [decimals, symbol] = await Promise.all([currency.decimals(), currency.symbol()]);
+    const amount = ethers.utils.parseUnits(taskArgs.amount, decimals);
+    const balance = await reserves.bufferBalance(taskArgs.id, currency.address, buffer);
+    if (balance.lt(amount)) {
+      throw new Error(
+        `Insufficient ${taskArgs.buffer} reserves of reNFT #${taskArgs.id}: ${ethers.utils.formatUnits(
+          balance,
+          decimals,
+        )} ${symbol}`,
+      );
+    }
+
+    // emit calldata if the reserves are owned by the Horizon multisig
+    const owner = await reserves.owner();
+    if (owner !== (await signer.getAddress())) {
+      const { horizon_multisig: horizonMultisig } = await hre.getNamedAccounts();
+      if (owner !== horizonMultisig) throw new Error(`Signer is not the reserves owner (${owner})`);
+      console.log("Reserves are owned by the Horizon multisig, submit the following transaction:");
+      console.log(`To: ${reserves.address}`);
+      const data = reserves.interface.encodeFunctionData("release", [
+        taskArgs.id,
+        buffer,
+        currency.address,
+        amount,
+        taskArgs.to,
+        taskArgs.reason,
+      ]);
+      console.log(`Data: ${data}`);
+      return;
+    }
+
+    // release funds
+    await client.reserves.release(taskArgs.id, buffer, currency.address, amount, taskArgs.to, taskArgs.reason);
+    console.log(`Released ${taskArgs.amount} ${symbol} of reNFT #${taskArgs.id} ${taskArgs.buffer} reserves`);
+  });
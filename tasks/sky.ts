@@ -0,0 +1,73 @@
+// sky.ts: Delegate SKY voting power, directly or with a signed delegation
+
+// fs for reading and writing the signed delegations
+import fs from "fs";
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// ethers utils for formatting amounts
+import { ethers } from "ethers";
+
+task("sky:delegate", "Delegate the signer SKY voting power, or sign a delegation to be submitted by another account")
+  .addOptionalParam("to", "Account receiving the voting power (default: signer).")
+  .addFlag("sign", "Only sign the delegation, without sending a transaction.")
+  .addOptionalParam("expiry", "Validity of the signed delegation, in days.", "7")
+  .addOptionalParam("out", "File to write the signed delegation to (default: printed).")
+  .addOptionalParam("signed", "JSON file with a signed delegation to submit (see --sign).")
+  .addOptionalParam("contract", "Address of the SkyERC20 contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // get signer
+    const [signer] = await hre.ethers.getSigners();
+    const sky = (await horizonClient(hre, { sky: taskArgs.contract })).sky;
+
+    // submit a delegation signed by another holder
+    if (taskArgs.signed !== undefined) {
+      const delegation = JSON.parse(fs.readFileSync(taskArgs.signed, "utf8"));
+      const { timestamp } = await hre.ethers.provider.getBlock("latest");
+      if (delegation.expiry < timestamp) {
+        throw new Error(`Delegation expired on ${new Date(delegation.expiry * 1000).toISOString()}`);
+      }
+      const receipt = await sky.delegateBySig(delegation);
+      const event = receipt.events?.find((e) => e.event === "DelegateChanged");
+      const delegator = event?.args?.delegator;
+      console.log(`Delegated the voting power of ${delegator} to ${delegation.delegatee}`);
+      console.log(
+        `Votes of ${delegation.delegatee}: ${ethers.utils.formatEther(await sky.getVotes(delegation.delegatee))}`,
+      );
+      return;
+    }
+
+    // check delegatee
+    const delegatee = taskArgs.to ?? signer.address;
+    if (!ethers.utils.isAddress(delegatee)) throw new Error(`Invalid delegatee ${delegatee}`);
+    const [currentDelegate, balance] = await Promise.all([
+      sky.delegates(signer.address),
+      sky.balanceOf(signer.address),
+    ]);
+    if (currentDelegate === delegatee) throw new Error(`Signer already delegates to ${delegatee}`);
+    if (balance.isZero()) console.log("Warning: signer has no SKY, the delegation applies to future balances");
+
+    // sign the delegation for another account to submit
+    if (taskArgs.sign) {
+      const { timestamp } = await hre.ethers.provider.getBlock("latest");
+      const expiry = timestamp + Number(taskArgs.expiry) * 86400;
+      const delegation = await sky.signDelegation(signer, delegatee, expiry);
+      const json = JSON.stringify(delegation, null, 2);
+      if (taskArgs.out !== undefined) {
+        fs.writeFileSync(taskArgs.out, json);
+        console.log(`Signed delegation written to ${taskArgs.out}`);
+      } else {
+        console.log(json);
+      }
+      console.log(`Submit it before ${new Date(expiry * 1000).toISOString()} with sky:delegate --signed <file>`);
+      return;
+    }
+
+    // delegate
+    await sky.delegate(delegatee);
+    console.log(`Delegated ${ethers.utils.formatEther(balance)} SKY of voting power to ${delegatee}`);
+    console.log(`Votes of ${delegatee}: ${ethers.utils.formatEther(await sky.getVotes(delegatee))}`);
+  });
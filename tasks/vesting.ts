@@ -0,0 +1,318 @@
+// vesting.ts: Create vesting positions from a CSV, revoke them and report their status
+
+// fs for reading the beneficiaries
+import fs from "fs";
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// ethers utils for parsing and formatting amounts
+import { BigNumber, ethers } from "ethers";
+
+// Import types
+import type { Address } from "../sdk/types";
+
+// Vesting position to create, read from a CSV row
+interface PositionRow {
+  row: number;
+  beneficiary: Address;
+  amount: BigNumber;
+  cliff: number;
+  duration: number;
+  lockVested: boolean;
+  revocable: boolean;
+}
+
+// Columns of the beneficiaries CSV
+const COLUMNS = ["beneficiary", "amount", "cliff", "duration", "lockVested"];
+
+// Optional columns of the beneficiaries CSV
+const OPTIONAL_COLUMNS = ["revocable"];
+
+/**
+ * @dev Parse a period, in seconds or in days with a "d" suffix (e.g. 365d)
+ *
+ * @param value Period to parse
+ * @return Period in seconds, NaN if invalid
+ */
+function parsePeriod(value: string): number {
+  const match = value.match(/^(\d+)(d?)$/);
+  if (match === null) return NaN;
+  return Number(match[1]) * (match[2] === "d" ? 86400 : 1);
+}
+
+/**
+ * @dev Read the positions to create from a CSV with a header naming the COLUMNS (in any order)
+ *      and amounts in SKY (e.g. 1500.5)
+ *
+ * @param file Path to the CSV file
+ * @param minPeriod Minimum vesting duration, in seconds
+ * @param maxPeriod Maximum vesting duration, in seconds
+ * @return Positions, failing on the first invalid row
+ */
+function readPositions(file: string, minPeriod: number, maxPeriod: number): PositionRow[] {
+  const lines = fs.readFileSync(file, "utf8").split(/\r?\n/);
+  const header = lines[0].split(",").map((column) => column.trim());
+  const missing = COLUMNS.filter((column) => !header.includes(column));
+  if (missing.length > 0) throw new Error(`Missing columns in ${file}: ${missing.join(", ")}`);
+
+  const positions: PositionRow[] = [];
+  lines.slice(1).forEach((line, i) => {
+    if (line.trim() === "") return;
+    const values = line.split(",").map((value) => value.trim());
+    const get = (column: string) => values[header.indexOf(column)] ?? "";
+    const row = i + 2;
+
+    const beneficiary = get("beneficiary");
+    if (!ethers.utils.isAddress(beneficiary)) throw new Error(`Row ${row}: invalid beneficiary ${beneficiary}`);
+    let amount: BigNumber;
+    try {
+      amount = ethers.utils.parseEther(get("amount"));
+    } catch {
+      throw new Error(`Row ${row}: invalid amount ${get("amount")}`);
+    }
+    if (amount.isZero()) throw new Error(`Row ${row}: amount should not be zero`);
+    const cliff = parsePeriod(get("cliff"));
+    if (isNaN(cliff)) throw new Error(`Row ${row}: invalid cliff ${get("cliff")}`);
+    const duration = parsePeriod(get("duration"));
+    if (isNaN(duration) || duration < minPeriod || duration > maxPeriod) {
+      throw new Error(`Row ${row}: duration ${get("duration")} should be between ${minPeriod}s and ${maxPeriod}s`);
+    }
+    const lockVested = get("lockVested").toLowerCase();
+    if (!["true", "false"].includes(lockVested)) throw new Error(`Row ${row}: invalid lockVested ${lockVested}`);
+    const revocable = (get("revocable") || "false").toLowerCase();
+    if (!["true", "false"].includes(revocable)) throw new Error(`Row ${row}: invalid revocable ${revocable}`);
+
+    positions.push({
+      row,
+      beneficiary: ethers.utils.getAddress(beneficiary),
+      amount,
+      cliff,
+      duration,
+      lockVested: lockVested === "true",
+      revocable: revocable === "true",
+    });
+  });
+  return positions;
+}
+
+task("vesting:create-batch", "Create vesting positions for the beneficiaries of a CSV, funding the contract if needed")
+  .addParam(
+    "file",
+    `Path to the CSV of the positions (columns: ${COLUMNS.join(", ")}; optional: ${OPTIONAL_COLUMNS.join(
+      ", ",
+    )}; periods in seconds or days).`,
+  )
+  .addOptionalParam("start", "Index of the first position of the CSV to create, to resume an interrupted batch.", "0")
+  .addOptionalParam("chunk", "Number of positions created before waiting for their confirmation.", "20")
+  .addFlag("dryRun", "Only validate the CSV and print the positions.")
+  .addOptionalParam("contract", "Address of the Vesting contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+    const { IERC20Extended__factory } = await import("../typechain-types");
+
+    // get signer
+    const [signer] = await hre.ethers.getSigners();
+
+    // instantiate Vesting contract and its underlying
+    const vesting = (await horizonClient(hre, { vesting: taskArgs.contract })).vesting.contract;
+    const underlying = IERC20Extended__factory.connect(await vesting.underlying(), signer);
+
+    // read and validate positions
+    const [minPeriod, maxPeriod] = await Promise.all([vesting.MIN_VESTING_PERIOD(), vesting.MAX_VESTING_PERIOD()]);
+    const positions = readPositions(taskArgs.file, minPeriod.toNumber(), maxPeriod.toNumber()).slice(
+      Number(taskArgs.start),
+    );
+    if (positions.length === 0) throw new Error(`No positions to create from ${taskArgs.file}`);
+    const total = positions.reduce((sum, position) => sum.add(position.amount), BigNumber.from(0));
+    console.table(
+      positions.map((position) => ({
+        ...position,
+        amount: ethers.utils.formatEther(position.amount),
+        cliff: `${position.cliff / 86400} days`,
+        duration: `${position.duration / 86400} days`,
+      })),
+    );
+    console.log(`Total: ${ethers.utils.formatEther(total)} SKY in ${positions.length} positions`);
+
+    // check the underlying available
+    const usableSupply = await vesting.usableSupply();
+    const shortfall = total.gt(usableSupply) ? total.sub(usableSupply) : BigNumber.from(0);
+    console.log(`Usable supply: ${ethers.utils.formatEther(usableSupply)} SKY`);
+    if (taskArgs.dryRun) return;
+
+    // emit calldata if the vesting contract is owned by the Horizon multisig
+    const calls = positions.map((position) =>
+      vesting.interface.encodeFunctionData("createPosition", [
+        position.beneficiary,
+        position.amount,
+        position.cliff,
+        position.duration,
+        position.lockVested,
+        position.revocable,
+      ]),
+    );
+    const owner = await vesting.owner();
+    if (owner !== signer.address) {
+      const { horizon_multisig: horizonMultisig } = await hre.getNamedAccounts();
+      if (owner !== horizonMultisig) throw new Error(`Signer is not the vesting owner (${owner})`);
+      if (!shortfall.isZero())
+        console.warn(`Fund the vesting contract with ${ethers.utils.formatEther(shortfall)} SKY first`);
+      console.log("Vesting is owned by the Horizon multisig, submit the following transactions:");
+      calls.forEach((data, i) => console.log(`Row ${positions[i].row}\nTo: ${vesting.address}\nData: ${data}`));
+      return;
+    }
+
+    // fund the contract from the signer if needed
+    if (!shortfall.isZero()) {
+      const balance = await underlying.balanceOf(signer.address);
+      if (balance.lt(shortfall)) {
+        throw new Error(
+          `Vesting contract lacks ${ethers.utils.formatEther(
+            shortfall,
+          )} SKY and the signer only holds ${ethers.utils.formatEther(balance)} SKY`,
+        );
+      }
+      const tx = await underlying.transfer(vesting.address, shortfall);
+      await tx.wait();
+      console.log(`Funded the vesting contract with ${ethers.utils.formatEther(shortfall)} SKY`);
+    }
+
+    // create positions, waiting for each chunk to be confirmed
+    const chunk = Number(taskArgs.chunk);
+    let nonce = await signer.getTransactionCount("pending");
+    for (let i = 0; i < calls.length; i += chunk) {
+      const txs = [];
+      for (const data of calls.slice(i, i + chunk)) {
+        txs.push(await signer.sendTransaction({ to: vesting.address, data, nonce: nonce++ }));
+      }
+      await Promise.all(txs.map((tx) => tx.wait()));
+      const created = Math.min(i + chunk, calls.length);
+      console.log(`Created ${created}/${calls.length} positions (next --start: ${Number(taskArgs.start) + created})`);
+    }
+  });
+
+task("vesting:status", "Print the vested, claimable and claimed amounts of each position and owner")
+  .addOptionalParam("owner", "Only show the positions of an account.")
+  .addOptionalParam("contract", "Address of the Vesting contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // instantiate SDK client
+    const vesting = (await horizonClient(hre, { vesting: taskArgs.contract })).vesting;
+
+    // get positions
+    const positions =
+      taskArgs.owner === undefined
+        ? await vesting.positionStatuses()
+        : await Promise.all(
+            (
+              await vesting.positionsOf(ethers.utils.getAddress(taskArgs.owner))
+            ).map((id) => vesting.positionStatus(id)),
+          );
+    if (positions.length === 0) {
+      console.log("No vesting positions");
+      return;
+    }
+
+    // print positions
+    const format = (amount: BigNumber) => ethers.utils.formatEther(amount);
+    const date = (timestamp: BigNumber) => new Date(timestamp.toNumber() * 1000).toISOString();
+    console.table(
+      positions.map((position) => ({
+        id: position.id.toNumber(),
+        owner: position.owner,
+        amount: format(position.amount),
+        amountDue: format(position.amountDue),
+        amountPaid: format(position.amountPaid),
+        locked: format(position.amount.sub(position.amountDue).sub(position.amountPaid)),
+        vestingStart: date(position.vestingStart),
+        vestingEnd: date(position.vestingEnd),
+        lockVested: position.lockVested,
+        revocable: position.revocable,
+      })),
+    );
+
+    // print totals per owner
+    const owners = new Map<
+      Address,
+      { positions: number; amount: BigNumber; amountDue: BigNumber; amountPaid: BigNumber }
+    >();
+    for (const position of positions) {
+      const total = owners.get(position.owner) ?? {
+        positions: 0,
+        amount: BigNumber.from(0),
+        amountDue: BigNumber.from(0),
+        amountPaid: BigNumber.from(0),
+      };
+      owners.set(position.owner, {
+        positions: total.positions + 1,
+        amount: total.amount.add(position.amount),
+        amountDue: total.amountDue.add(position.amountDue),
+        amountPaid: total.amountPaid.add(position.amountPaid),
+      });
+    }
+    console.table(
+      [...owners.entries()].map(([owner, total]) => ({
+        owner,
+        positions: total.positions,
+        amount: format(total.amount),
+        amountDue: format(total.amountDue),
+        amountPaid: format(total.amountPaid),
+      })),
+    );
+
+    // print contract supply
+    const [totalSupply, usableSupply, active] = await Promise.all([
+      vesting.contract.totalSupply(),
+      vesting.contract.usableSupply(),
+      vesting.contract.activeVestedPositions(),
+    ]);
+    console.log(`Underlying held: ${format(totalSupply)} SKY (usable for new positions: ${format(usableSupply)} SKY)`);
+    console.log(`Active positions: ${active.toString()}`);
+  });
+
+task("vesting:revoke", "Revoke a revocable position, paying out its vested tokens and releasing the unvested ones")
+  .addParam("id", "ID of the position.")
+  .addOptionalParam("lockPeriod", "Period to lock the vested tokens for, in seconds or days (if lockVested).", "0")
+  .addOptionalParam("contract", "Address of the Vesting contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // get signer
+    const [signer] = await hre.ethers.getSigners();
+
+    // show what is paid out and released
+    const vesting = (await horizonClient(hre, { vesting: taskArgs.contract })).vesting;
+    const position = await vesting.positionStatus(taskArgs.id);
+    if (!position.revocable) throw new Error(`Position #${taskArgs.id} is not revocable`);
+    if (position.amountPaid.eq(position.amount)) throw new Error(`Position #${taskArgs.id} is fully vested`);
+    const lockPeriod = parsePeriod(taskArgs.lockPeriod);
+    if (isNaN(lockPeriod)) throw new Error(`Invalid lock period ${taskArgs.lockPeriod}`);
+    if (position.lockVested && lockPeriod === 0) {
+      throw new Error(`Position #${taskArgs.id} locks its vested tokens, set --lockPeriod`);
+    }
+    const revoked = position.amount.sub(position.amountPaid).sub(position.amountDue);
+    console.log(`Owner: ${position.owner}`);
+    console.log(
+      `Vested tokens paid out: ${ethers.utils.formatEther(position.amountDue)} SKY${
+        position.lockVested ? ` (locked for ${lockPeriod / 86400} days)` : ""
+      }`,
+    );
+    console.log(`Unvested tokens returned to the usable supply: ${ethers.utils.formatEther(revoked)} SKY`);
+
+    // emit calldata if the vesting contract is owned by the Horizon multisig
+    const owner = await vesting.contract.owner();
+    if (owner !== signer.address) {
+      const { horizon_multisig: horizonMultisig } = await hre.getNamedAccounts();
+      if (owner !== horizonMultisig) throw new Error(`Signer is not the vesting owner (${owner})`);
+      console.log("Vesting is owned by the Horizon multisig, submit the following transaction:");
+      console.log(`To: ${vesting.contract.address}`);
+      console.log(`Data: ${vesting.contract.interface.encodeFunctionData("revoke", [taskArgs.id, lockPeriod])}`);
+      return;
+    }
+
+    // revoke position
+    await vesting.revoke(taskArgs.id, lockPeriod);
+    console.log(`Revoked position #${taskArgs.id}`);
+  });
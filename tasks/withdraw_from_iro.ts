@@ -0,0 +1,64 @@
+// withdraw_from_iro.ts: Withdraw and distribute funds from a successful IRO
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// Import BigNumber
+import { BigNumber } from "@ethersproject/bignumber";
+
+// ethers utils for formatting currency amounts
+import { ethers } from "ethers";
+
+// Import SDK types
+import { IROStatus } from "../sdk/types";
+
+task("iro:withdraw", "Withdraw and distribute funds from a successful IRO")
+  .addParam("id", "ID of the IRO.")
+  .addOptionalParam("contract", "Address of the IRO contract.")
+  .addFlag("dry", "Only print the distribution preview, without withdrawing.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // instantiate SDK client
+    const { iro: iroClient } = await horizonClient(hre, { iro: taskArgs.contract });
+
+    // check status
+    const status = await iroClient.status(taskArgs.id);
+    if (status !== IROStatus.SUCCESS) {
+      throw new Error(`IRO #${taskArgs.id} is not successful (status: ${IROStatus[status]})`);
+    }
+    if (await iroClient.contract.fundsWithdrawn(taskArgs.id)) {
+      throw new Error(`Funds from IRO #${taskArgs.id} have already been withdrawn`);
+    }
+
+    // preview distribution (same as InitialRealEstateOffering._distributeFunds)
+    const { ETH } = await import("../sdk/iro");
+    const format = async (token: string, amount: BigNumber) => {
+      if (token === ETH) return `${ethers.utils.formatEther(amount)} ETH`;
+      const tokenContract = await hre.ethers.getContractAt("IERC20Extended", token);
+      return `${ethers.utils.formatUnits(amount, await tokenContract.decimals())} ${await tokenContract.symbol()}`;
+    };
+    const distribution = await iroClient.distribution(taskArgs.id);
+    const formatShare = async (share: "treasuryAmount" | "reservesAmount" | "listingOwnerAmount") => {
+      const splits = distribution.splits.filter((split) => !split[share].isZero());
+      const amounts = await Promise.all(splits.map((split) => format(split.token, split[share])));
+      return amounts.join(", ") || "nothing";
+    };
+    const { currency } = await iroClient.get(taskArgs.id);
+    console.log(`Treasury fee: ${await format(currency, distribution.treasuryFee)}`);
+    console.log(`Operation fee: ${await format(currency, distribution.operationFee)}`);
+    console.log(`Treasury (${distribution.treasury}): ${await formatShare("treasuryAmount")}`);
+    if (distribution.reservesShare > 0) {
+      // the reserves share is held by the IRO contract until the real estate ID is minted on the first claim
+      const held = (await iroClient.contract.realEstateIdSet(taskArgs.id)) ? "" : ", held until the first claim";
+      const share = `${distribution.reservesShare / 100}% of the operation fee${held}`;
+      console.log(`Reserves (${distribution.reserves}, ${share}): ${await formatShare("reservesAmount")}`);
+    }
+    console.log(`Listing owner (${distribution.listingOwner}): ${await formatShare("listingOwnerAmount")}`);
+    if (taskArgs.dry) return;
+
+    // withdraw
+    await iroClient.withdraw(taskArgs.id);
+
+    console.log(`Withdrawn funds from IRO #${taskArgs.id}`);
+  });
@@ -0,0 +1,79 @@
+// yield_audit.ts: List the contracts holding reNFTs and the yield they forfeit
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// ethers utils for formatting amounts
+import { ethers } from "ethers";
+
+task("yield:audit", "List the contracts holding each reNFT and the yield they forfeit while not whitelisted")
+  .addOptionalParam("ids", "Comma separated reNFT IDs, defaults to every reNFT.")
+  .addOptionalParam("fromBlock", "Block to start reading events from (the reNFT contract deployment).", "0")
+  .addFlag("redirect", "Redirect the forfeited yield to the beneficiaries or the treasury.")
+  .addOptionalParam("contract", "Address of the RealEstateERC1155 contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // instantiate SDK client
+    const realEstate = (await horizonClient(hre, { realEstate: taskArgs.contract })).realEstate;
+    const fromBlock = Number(taskArgs.fromBlock);
+
+    // get IDs to audit
+    const nextId = (await realEstate.contract.nextRealEstateId()).toNumber();
+    const ids: number[] =
+      taskArgs.ids === undefined
+        ? [...Array(nextId).keys()]
+        : taskArgs.ids.split(",").map((id: string) => Number(id.trim()));
+
+    // get currency symbols and decimals
+    const treasury = await realEstate.contract.treasury();
+    const currencies = new Map<string, { symbol: string; decimals: number }>();
+    const format = async (currency: string, amount: ethers.BigNumber) => {
+      if (!currencies.has(currency)) {
+        const token = (await realEstate.yieldCurrency()).attach(currency);
+        currencies.set(currency, { symbol: await token.symbol(), decimals: await token.decimals() });
+      }
+      const { symbol, decimals } = currencies.get(currency) ?? { symbol: "", decimals: 0 };
+      return `${ethers.utils.formatUnits(amount, decimals)} ${symbol}`;
+    };
+
+    // audit the contracts holding each ID
+    const rows = [];
+    const toRedirect: [number, string][] = [];
+    for (const id of ids) {
+      for (const holder of await realEstate.holders(id, fromBlock)) {
+        if ((await hre.ethers.provider.getCode(holder)) === "0x") continue;
+        const whitelisted = await realEstate.contract.eligibleForYields(holder);
+        const beneficiary = await realEstate.contract.yieldBeneficiary(holder);
+        const recipient = beneficiary !== ethers.constants.AddressZero ? beneficiary : treasury;
+        const forfeitedYields = await realEstate.forfeitedYields(id, holder);
+        const redirectedYields = await realEstate.redirectedYields(id, holder, fromBlock);
+        for (const currency of Object.keys(forfeitedYields)) {
+          rows.push({
+            id,
+            holder,
+            balance: (await realEstate.contract.balanceOf(holder, id)).toString(),
+            whitelisted,
+            recipient: whitelisted ? "-" : recipient === ethers.constants.AddressZero ? "none (kept)" : recipient,
+            forfeited: await format(currency, forfeitedYields[currency]),
+            redirected: await format(currency, redirectedYields[currency] ?? ethers.BigNumber.from(0)),
+          });
+        }
+        if (Object.values(forfeitedYields).some((amount) => !amount.isZero())) toRedirect.push([id, holder]);
+      }
+    }
+    if (rows.length === 0) {
+      console.log(`No contract holds reNFTs ${ids.map((id) => `#${id}`).join(", ")}`);
+      return;
+    }
+    console.table(rows);
+    if (treasury === ethers.constants.AddressZero)
+      console.warn("Treasury is not set, forfeited yield is kept on the contracts without beneficiary");
+
+    // redirect forfeited yields
+    if (!taskArgs.redirect) return;
+    for (const [id, holder] of toRedirect) {
+      await realEstate.redirectYield(id, holder);
+      console.log(`Redirected yield of ${holder} on reNFT #${id}`);
+    }
+  });
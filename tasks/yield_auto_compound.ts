@@ -0,0 +1,40 @@
+// yield_auto_compound.ts: Enable or disable auto-compounding of the yield of a reNFT into more units
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// ethers utils for formatting amounts
+import { ethers } from "ethers";
+
+task("yield:auto-compound", "Enable or disable auto-compounding of the signer yield into more units of a reNFT")
+  .addParam("id", "ID of the reNFT.")
+  .addFlag("disable", "Disable auto-compounding, paying out the yield not spent on units yet.")
+  .addOptionalParam("contract", "Address of the RealEstateCompounder contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+    const { RealEstateClient } = await import("../sdk");
+
+    // instantiate SDK clients
+    const compounder = (await horizonClient(hre, { compounder: taskArgs.contract })).compounder;
+    const realEstate = new RealEstateClient(await compounder.contract.realEstateNft(), compounder.contract.signer);
+
+    // enable or disable auto-compounding
+    const enabled = !taskArgs.disable;
+    if ((await compounder.setAutoCompound(taskArgs.id, enabled)) === undefined) {
+      console.log(`Auto-compounding of reNFT #${taskArgs.id} is already ${enabled ? "enabled" : "disabled"}`);
+    } else {
+      console.log(`${enabled ? "Enabled" : "Disabled"} auto-compounding of reNFT #${taskArgs.id}`);
+    }
+
+    // print compounding progress
+    const progress = await compounder.compoundingProgress(taskArgs.id);
+    const decimals = await (await realEstate.yieldCurrency()).decimals();
+    const format = (amount: ethers.BigNumber) => ethers.utils.formatUnits(amount, decimals);
+    console.table({
+      enabled: progress.enabled,
+      accruedYield: format(progress.accruedYield),
+      unitPrice: progress.unitPrice.isZero() ? "not set" : format(progress.unitPrice),
+      units: progress.units.toString(),
+      missingForNextUnit: format(progress.missingForNextUnit),
+    });
+  });
@@ -0,0 +1,43 @@
+// yield_claim.ts: Claim the yield of every reNFT held by the signer
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// ethers utils for formatting amounts
+import { ethers } from "ethers";
+
+task("yield:claim", "Claim the yield of every reNFT held by the signer, in one transaction")
+  .addOptionalParam("to", "Yield receiver, defaults to the signer.")
+  .addOptionalParam("fromBlock", "Block to start looking for received reNFTs from.", "0")
+  .addOptionalParam("contract", "Address of the RealEstateERC1155 contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // get signer
+    const [signer] = await hre.ethers.getSigners();
+
+    // instantiate SDK client
+    const realEstate = (await horizonClient(hre, { realEstate: taskArgs.contract })).realEstate;
+
+    // discover the reNFTs received by the signer and keep the ones with pending yield
+    const ids = await realEstate.receivedIds(signer.address, Number(taskArgs.fromBlock));
+    const yieldCurrency = await realEstate.yieldCurrency();
+    const claims = [];
+    for (const { id, currency, amount } of await realEstate.pendingYieldsOf(signer.address)) {
+      if (amount.isZero() || !ids.some((receivedId) => receivedId.eq(id))) continue;
+      const token = yieldCurrency.attach(currency);
+      const [decimals, symbol] = await Promise.all([token.decimals(), token.symbol()]);
+      claims.push({ id: id.toNumber(), amount: ethers.utils.formatUnits(amount, decimals), currency: symbol });
+    }
+    if (claims.length === 0) {
+      console.log(`No yield to claim on ${ids.length} reNFTs received by ${signer.address}`);
+      return;
+    }
+    console.table(claims);
+
+    // claim yields
+    const claimIds = [...new Set(claims.map(({ id }) => id))];
+    await realEstate.claimYieldBatch(claimIds, taskArgs.to);
+
+    console.log(`Claimed yield of reNFTs ${claimIds.map((id) => `#${id}`).join(", ")}`);
+  });
@@ -0,0 +1,100 @@
+// yield_deposit.ts: Deposit yield to be streamed to the holders of a reNFT
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// ethers utils for parsing and formatting amounts
+import { ethers } from "ethers";
+
+// Seconds per duration unit
+const DURATION_UNITS: { [unit: string]: number } = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+  w: 604800,
+};
+
+/**
+ * @dev Parse a duration such as "30d", "12h" or "3600" (seconds)
+ *
+ * @param duration Duration, suffixed by s, m, h, d or w
+ * @return Duration in seconds
+ */
+export function parseDuration(duration: string): number {
+  const match = /^(\d+)([smhdw]?)$/.exec(duration.trim());
+  if (match === null) throw new Error(`Invalid duration: ${duration}`);
+  return Number(match[1]) * DURATION_UNITS[match[2] || "s"];
+}
+
+task("yield:deposit", "Deposit yield to be streamed to the holders of a reNFT")
+  .addParam("id", "ID of the reNFT.")
+  .addParam("amount", 'Amount of yield currency, in whole units (e.g. "1500.25").')
+  .addParam("duration", 'Time to stream the yield over (e.g. "30d", "12h" or seconds).')
+  .addOptionalParam("start", "Date the yield starts to unlock (ISO 8601), defaults to now.")
+  .addOptionalParam("currency", "Currency of the yield, defaults to the reNFT contract yield currency.")
+  .addOptionalParam("contract", "Address of the RealEstateERC1155 contract.")
+  .setAction(async (taskArgs, hre) => {
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // get signer
+    const [signer] = await hre.ethers.getSigners();
+
+    // instantiate SDK client
+    const realEstate = (await horizonClient(hre, { realEstate: taskArgs.contract })).realEstate;
+
+    // parse amount and schedule
+    const yieldCurrency = await realEstate.yieldCurrency();
+    const currency =
+      taskArgs.currency === undefined
+        ? yieldCurrency
+        : yieldCurrency.attach(ethers.utils.getAddress(taskArgs.currency));
+    const [decimals, symbol] = await Promise.all([currency.decimals(), currency.symbol()]);
+    const amount = ethers.utils.parseUnits(taskArgs.amount, decimals);
+    const duration = parseDuration(taskArgs.duration);
+    const now = (await hre.ethers.provider.getBlock("latest")).timestamp;
+    const start = taskArgs.start === undefined ? now : Math.floor(new Date(taskArgs.start).getTime() / 1000);
+    if (isNaN(start)) throw new Error(`Invalid start date: ${taskArgs.start}`);
+    const startOffset = Math.max(start - now, 0);
+    if ((await realEstate.contract.totalSupply(taskArgs.id)).isZero()) {
+      throw new Error(`reNFT #${taskArgs.id} has no holders`);
+    }
+
+    // show the previously locked yield the deposit will roll over
+    const format = (value: ethers.BigNumberish) => `${ethers.utils.formatUnits(value, decimals)} ${symbol}`;
+    const preview = await realEstate.previewDeposit(taskArgs.id, undefined, currency.address);
+    console.log(`Locked yield: ${format(preview.lockedAmount)}`);
+    const perToken = format(preview.rolledOverPerToken);
+    console.log(`Rolled into unlockedAmountPerToken: ${format(preview.rolledOver)} (${perToken} per token)`);
+    console.log(`Carried over to the new deposit: ${format(preview.carriedOver)}`);
+    const unlockStart = new Date((now + startOffset) * 1000);
+    const unlockEnd = new Date((now + startOffset + duration) * 1000);
+    const streamed = format(amount.add(preview.carriedOver));
+    console.log(`Streaming ${streamed} from ${unlockStart.toISOString()} to ${unlockEnd.toISOString()}`);
+
+    // emit calldata if the Horizon multisig is the depositor
+    const depositor = await realEstate.contract.depositor();
+    if (depositor !== (await signer.getAddress())) {
+      const { horizon_multisig: horizonMultisig } = await hre.getNamedAccounts();
+      if (depositor !== horizonMultisig) throw new Error(`Signer is not the depositor (${depositor})`);
+      console.log("The Horizon multisig is the depositor, submit the following transactions:");
+      console.log(`To: ${currency.address}`);
+      console.log(`Data: ${currency.interface.encodeFunctionData("approve", [realEstate.contract.address, amount])}`);
+      console.log(`To: ${realEstate.contract.address}`);
+      console.log(
+        `Data: ${realEstate.contract.interface.encodeFunctionData("depositWithCurrency", [
+          taskArgs.id,
+          currency.address,
+          amount,
+          duration,
+          startOffset,
+        ])}`,
+      );
+      return;
+    }
+
+    // approve and deposit yield
+    await realEstate.deposit(taskArgs.id, amount, duration, startOffset, currency.address);
+
+    console.log(`Deposited ${format(amount)} of yield for reNFT #${taskArgs.id}`);
+  });
@@ -0,0 +1,351 @@
+// yield_report.ts: Reconstruct the yield of reNFT holders from events and export a statement per period
+
+// fs and path for outputting results
+import fs from "fs";
+import path from "path";
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// ethers for BigNumber, events and constants
+import { BigNumber, Event, ethers } from "ethers";
+
+// Import types
+import type { Address } from "../sdk/types";
+
+// Default directory of the yield statements
+export const YIELD_OUTPUT_DIR = "data/output_data/yield";
+
+// Supported statement periods
+type Period = "day" | "week" | "month";
+
+// Row of the yield statement of a holder for a period
+interface StatementRow {
+  periodStart: string;
+  periodEnd: string;
+  holder: Address;
+  balance: string;
+  openingPending: string;
+  accrued: string;
+  claimed: string;
+  closingPending: string;
+  yieldBalance: string;
+}
+
+// Yield state of a holder at a point in time
+interface HolderSnapshot {
+  balance: BigNumber;
+  pending: BigNumber;
+  yieldBalance: BigNumber;
+}
+
+/**
+ * @dev Get the start of the period following a timestamp (UTC, weeks start on Monday)
+ *
+ * @param timestamp Timestamp within the period
+ * @param period Period length
+ * @return Timestamp of the next period start
+ */
+function nextPeriodStart(timestamp: number, period: Period): number {
+  const date = new Date(periodStart(timestamp, period) * 1000);
+  if (period === "day") date.setUTCDate(date.getUTCDate() + 1);
+  else if (period === "week") date.setUTCDate(date.getUTCDate() + 7);
+  else date.setUTCMonth(date.getUTCMonth() + 1);
+  return date.getTime() / 1000;
+}
+
+/**
+ * @dev Get the start of the period containing a timestamp (UTC, weeks start on Monday)
+ *
+ * @param timestamp Timestamp within the period
+ * @param period Period length
+ * @return Timestamp of the period start
+ */
+function periodStart(timestamp: number, period: Period): number {
+  const date = new Date(timestamp * 1000);
+  date.setUTCHours(0, 0, 0, 0);
+  if (period === "week") date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  else if (period === "month") date.setUTCDate(1);
+  return date.getTime() / 1000;
+}
+
+/**
+ * @dev Replays the yield accounting of RealEstateERC1155 for a single token ID
+ * @dev Mirrors the contract arithmetic (including its rounding), so balances match the on-chain ones
+ */
+class YieldLedger {
+  unlockedAmountPerToken = BigNumber.from(0);
+  lockedAmount = BigNumber.from(0);
+  unlockStart = 0;
+  unlockEnd = 0;
+  totalSupply = BigNumber.from(0);
+  readonly balances = new Map<Address, BigNumber>();
+  readonly yieldPerTokenClaimed = new Map<Address, BigNumber>();
+  readonly yieldBalance = new Map<Address, BigNumber>();
+  readonly whitelisted = new Set<Address>();
+  readonly beneficiaries = new Map<Address, Address>();
+  treasury = ethers.constants.AddressZero;
+
+  /**
+   * @param contracts Addresses holding code, not eligible for yields unless whitelisted
+   */
+  constructor(readonly contracts: Set<Address>) {}
+
+  // Accounts holding, or having held, reNFTs
+  get accounts(): Address[] {
+    return [...new Set([...this.balances.keys(), ...this.yieldBalance.keys()])];
+  }
+
+  unlockableYield(time: number): BigNumber {
+    if (time <= this.unlockStart) return BigNumber.from(0);
+    if (time >= this.unlockEnd) return this.lockedAmount;
+    return this.lockedAmount.mul(time - this.unlockStart).div(this.unlockEnd - this.unlockStart);
+  }
+
+  // See RealEstateERC1155.eligibleForYields
+  eligible(account: Address): boolean {
+    return !this.contracts.has(account) || this.whitelisted.has(account);
+  }
+
+  yieldPerToken(time: number): BigNumber {
+    if (this.totalSupply.isZero()) return this.unlockedAmountPerToken;
+    return this.unlockedAmountPerToken.add(this.unlockableYield(time).div(this.totalSupply));
+  }
+
+  snapshot(account: Address, time: number): HolderSnapshot {
+    const balance = this.balances.get(account) ?? BigNumber.from(0);
+    const yieldBalance = this.yieldBalance.get(account) ?? BigNumber.from(0);
+    const claimedPerToken = this.yieldPerTokenClaimed.get(account) ?? BigNumber.from(0);
+    if (!this.eligible(account)) return { balance, yieldBalance, pending: yieldBalance };
+    return {
+      balance,
+      yieldBalance,
+      pending: yieldBalance.add(balance.mul(this.yieldPerToken(time).sub(claimedPerToken))),
+    };
+  }
+
+  // See RealEstateERC1155._update
+  update(account: Address, time: number) {
+    if (account === ethers.constants.AddressZero) return;
+    this.accrue(account, this.balances.get(account) ?? BigNumber.from(0), time);
+  }
+
+  // See RealEstateERC1155.toggleWhitelistContract
+  setWhitelisted(contract: Address, whitelisted: boolean, time: number) {
+    this.update(contract, time);
+    if (whitelisted) this.whitelisted.add(contract);
+    else this.whitelisted.delete(contract);
+  }
+
+  // See RealEstateERC1155.setYieldBeneficiary
+  setBeneficiary(contract: Address, beneficiary: Address, time: number) {
+    this.update(contract, time);
+    this.beneficiaries.set(contract, beneficiary);
+  }
+
+  // See RealEstateERC1155._updateDeposit
+  updateDeposit(time: number) {
+    if (this.lockedAmount.isZero() || time <= this.unlockStart || this.totalSupply.isZero()) return;
+    const unlockedYield = this.unlockableYield(time);
+    this.lockedAmount = this.lockedAmount.sub(unlockedYield);
+    this.unlockedAmountPerToken = this.unlockedAmountPerToken.add(unlockedYield.div(this.totalSupply));
+    if (time <= this.unlockEnd) this.unlockStart = time;
+  }
+
+  // See RealEstateERC1155.deposit
+  deposit(amount: BigNumber, unlockStart: number, unlockEnd: number, time: number) {
+    const unlockedYield = this.unlockableYield(time);
+    this.unlockedAmountPerToken = this.unlockedAmountPerToken.add(unlockedYield.div(this.totalSupply));
+    this.lockedAmount = this.lockedAmount.sub(unlockedYield).add(amount);
+    this.unlockStart = unlockStart;
+    this.unlockEnd = unlockEnd;
+  }
+
+  // See RealEstateERC1155.mint, burn and _beforeTokenTransfer
+  transfer(from: Address, to: Address, amount: BigNumber, time: number, burnOrigin?: Address) {
+    if (from === ethers.constants.AddressZero && !this.totalSupply.isZero()) this.updateDeposit(time);
+    if (burnOrigin !== undefined) {
+      this.updateDeposit(time);
+      this.accrue(burnOrigin, (this.balances.get(burnOrigin) ?? BigNumber.from(0)).add(amount), time);
+    }
+    this.update(from, time);
+    this.update(to, time);
+    if (from === ethers.constants.AddressZero) this.totalSupply = this.totalSupply.add(amount);
+    else this.balances.set(from, (this.balances.get(from) ?? BigNumber.from(0)).sub(amount));
+    if (to === ethers.constants.AddressZero) this.totalSupply = this.totalSupply.sub(amount);
+    else this.balances.set(to, (this.balances.get(to) ?? BigNumber.from(0)).add(amount));
+  }
+
+  // See RealEstateERC1155.claimYield
+  claim(account: Address, time: number) {
+    this.update(account, time);
+    this.yieldBalance.set(account, BigNumber.from(0));
+  }
+
+  // See RealEstateERC1155._accrue, yield of non-whitelisted contracts goes to their beneficiary or the treasury,
+  // or is kept on the contract while neither is set
+  private accrue(account: Address, balance: BigNumber, time: number) {
+    const yieldPerToken = this.yieldPerToken(time);
+    const claimedPerToken = this.yieldPerTokenClaimed.get(account) ?? BigNumber.from(0);
+    const accrued = balance.mul(yieldPerToken.sub(claimedPerToken));
+    this.yieldPerTokenClaimed.set(account, yieldPerToken);
+    if (accrued.isZero()) return;
+    let to = account;
+    if (!this.eligible(account)) {
+      const beneficiary = this.beneficiaries.get(account) ?? ethers.constants.AddressZero;
+      const redirectTo = beneficiary !== ethers.constants.AddressZero ? beneficiary : this.treasury;
+      if (redirectTo !== ethers.constants.AddressZero) to = redirectTo;
+    }
+    this.yieldBalance.set(to, (this.yieldBalance.get(to) ?? BigNumber.from(0)).add(accrued));
+  }
+}
+
+task("yield:report", "Reconstruct the yield of reNFT holders from events and export a statement per period")
+  .addParam("id", "ID of the reNFT.")
+  .addOptionalParam("period", "Statement period: day, week or month.", "month")
+  .addOptionalParam("fromBlock", "Block to start reading events from (the reNFT contract deployment).", "0")
+  .addOptionalParam("currency", "Yield currency to report, defaults to the reNFT contract yield currency.")
+  .addOptionalParam("output", "Path of the CSV statement.")
+  .addOptionalParam("contract", "Address of the RealEstateERC1155 contract.")
+  .setAction(async (taskArgs, hre) => {
+    const period = <Period>taskArgs.period;
+    if (!["day", "week", "month"].includes(period)) throw new Error(`Invalid period: ${taskArgs.period}`);
+    const id = BigNumber.from(taskArgs.id);
+
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // instantiate RealEstateERC1155 contract
+    const realEstate = (await horizonClient(hre, { realEstate: taskArgs.contract })).realEstate.contract;
+    const currency = ethers.utils.getAddress(taskArgs.currency ?? (await realEstate.yieldCurrency()));
+
+    // fetch the events affecting the yield of the reNFT, in chain order
+    const fromBlock = Number(taskArgs.fromBlock);
+    const filters = realEstate.filters;
+    const events: Event[] = (
+      await Promise.all([
+        realEstate.queryFilter(filters.NewDeposit(id, null, currency), fromBlock),
+        realEstate.queryFilter(filters.ClaimYield(id), fromBlock),
+        realEstate.queryFilter(filters.RealEstateNFTBurned(id), fromBlock),
+        realEstate.queryFilter(filters.ContractWhitelisted(), fromBlock),
+        realEstate.queryFilter(filters.SetYieldBeneficiary(), fromBlock),
+        realEstate.queryFilter(filters.SetTreasury(), fromBlock),
+        realEstate.queryFilter(filters.TransferSingle(), fromBlock),
+        realEstate.queryFilter(filters.TransferBatch(), fromBlock),
+      ])
+    )
+      .flat()
+      .sort((a: Event, b: Event) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    if (events.length === 0) throw new Error(`No events found for reNFT #${id}`);
+
+    // get block timestamps and the holders that are contracts
+    const timestamps = new Map<number, number>();
+    for (const blockNumber of new Set(events.map((event) => event.blockNumber))) {
+      timestamps.set(blockNumber, (await hre.ethers.provider.getBlock(blockNumber)).timestamp);
+    }
+    const contracts = new Set<Address>();
+    for (const event of events) {
+      for (const account of [event.args?._by, event.args?.to, event.args?._contract]) {
+        if (account === undefined || contracts.has(account)) continue;
+        if ((await hre.ethers.provider.getCode(account)) !== "0x") contracts.add(account);
+      }
+    }
+
+    // replay events, closing a statement period whenever an event falls after its end
+    const ledger = new YieldLedger(contracts);
+    const rows: StatementRow[] = [];
+    let start = periodStart(timestamps.get(events[0].blockNumber) ?? 0, period);
+    let opening = new Map<Address, HolderSnapshot>();
+    let claimed = new Map<Address, BigNumber>();
+    const closePeriod = (end: number) => {
+      const closing = new Map<Address, HolderSnapshot>();
+      for (const holder of ledger.accounts) {
+        const snapshot = ledger.snapshot(holder, end);
+        const openingPending = opening.get(holder)?.pending ?? BigNumber.from(0);
+        const claimedYield = claimed.get(holder) ?? BigNumber.from(0);
+        closing.set(holder, snapshot);
+        if (snapshot.balance.isZero() && snapshot.pending.isZero() && claimedYield.isZero()) continue;
+        rows.push({
+          periodStart: new Date(start * 1000).toISOString(),
+          periodEnd: new Date(end * 1000).toISOString(),
+          holder,
+          balance: snapshot.balance.toString(),
+          openingPending: openingPending.toString(),
+          accrued: snapshot.pending.sub(openingPending).add(claimedYield).toString(),
+          claimed: claimedYield.toString(),
+          closingPending: snapshot.pending.toString(),
+          yieldBalance: snapshot.yieldBalance.toString(),
+        });
+      }
+      opening = closing;
+      claimed = new Map();
+      start = end;
+    };
+
+    for (let i = 0; i < events.length; i++) {
+      const event = events[i];
+      const time = timestamps.get(event.blockNumber) ?? 0;
+      while (time >= nextPeriodStart(start, period)) closePeriod(nextPeriodStart(start, period));
+
+      const args = event.args ?? [];
+      if (event.event === "NewDeposit") {
+        ledger.deposit(args._amount, args._unlockStart.toNumber(), args._unlockEnd.toNumber(), time);
+      } else if (event.event === "ClaimYield" && args._currency === currency) {
+        claimed.set(args._by, (claimed.get(args._by) ?? BigNumber.from(0)).add(args._yieldClaimed));
+        ledger.claim(args._by, time);
+      } else if (event.event === "ContractWhitelisted") {
+        ledger.setWhitelisted(args._contract, args._isWhitelisted, time);
+      } else if (event.event === "SetYieldBeneficiary") {
+        ledger.setBeneficiary(args._contract, args._beneficiary, time);
+      } else if (event.event === "SetTreasury") {
+        ledger.treasury = args._treasury;
+      } else if (event.event === "TransferSingle" && id.eq(args.id)) {
+        // burns are followed by RealEstateNFTBurned, holding the origin account of the burned tokens
+        const burned = events
+          .slice(i + 1)
+          .find((next) => next.transactionHash === event.transactionHash && next.event === "RealEstateNFTBurned");
+        const burnOrigin = args.to === ethers.constants.AddressZero ? burned?.args?._originAccount : undefined;
+        ledger.transfer(args.from, args.to, args.value, time, burnOrigin);
+      } else if (event.event === "TransferBatch") {
+        // "values" is shadowed by Array.prototype.values, read it by position
+        const values: BigNumber[] = args[4];
+        args.ids.forEach((tokenId: BigNumber, j: number) => {
+          if (id.eq(tokenId)) ledger.transfer(args.from, args.to, values[j], time);
+        });
+      }
+    }
+
+    // close the ongoing period at the latest block
+    const now = (await hre.ethers.provider.getBlock("latest")).timestamp;
+    while (now >= nextPeriodStart(start, period)) closePeriod(nextPeriodStart(start, period));
+    closePeriod(now);
+
+    // write statement
+    const output =
+      taskArgs.output ?? path.resolve(YIELD_OUTPUT_DIR, `renft_${id}_yield_statement_${currency}_${period}.csv`);
+    fs.mkdirSync(path.dirname(output), { recursive: true });
+    const columns = Object.keys(rows[0] ?? {}) as (keyof StatementRow)[];
+    fs.writeFileSync(
+      output,
+      [columns.join(","), ...rows.map((row) => columns.map((column) => row[column]).join(","))].join("\n") + "\n",
+    );
+    console.log(`Yield statement of reNFT #${id} saved to ${output}`);
+
+    // check the reconstructed balances against the contract
+    const holders = [];
+    for (const holder of ledger.accounts) {
+      const snapshot = ledger.snapshot(holder, now);
+      const pendingYield = await realEstate.currencyPendingYield(id, currency, holder);
+      const yieldBalance = await realEstate.currencyYieldBalance(id, currency, holder);
+      holders.push({
+        holder,
+        balance: snapshot.balance.toString(),
+        pendingYield: snapshot.pending.toString(),
+        yieldBalance: snapshot.yieldBalance.toString(),
+        matches: pendingYield.eq(snapshot.pending) && yieldBalance.eq(snapshot.yieldBalance),
+      });
+    }
+    console.table(holders);
+    if (holders.some((holder) => !holder.matches)) {
+      console.warn("Reconstructed yield differs from the contract, is --from-block before the reNFT deployment?");
+    }
+  });
@@ -0,0 +1,67 @@
+// yield_whitelist.ts: Whitelist (or blacklist) contracts for reNFT yields in batch
+
+// Import task tooling
+import { task } from "hardhat/config";
+
+// ethers utils for validating addresses
+import { ethers } from "ethers";
+
+// Import account list reader
+import { readAccounts } from "./iro_whitelist";
+
+task("yield:whitelist", "Whitelist (or blacklist) contracts for reNFT yields")
+  .addOptionalParam("contracts", "Comma separated contract addresses.")
+  .addOptionalParam("file", "Path to JSON (list of addresses) or CSV (addresses in the first column) of contracts.")
+  .addFlag("remove", "Remove the contracts from the whitelist.")
+  .addOptionalParam("contract", "Address of the RealEstateERC1155 contract.")
+  .setAction(async (taskArgs, hre) => {
+    // get contract list
+    const contracts = new Set<string>(taskArgs.file === undefined ? [] : readAccounts(taskArgs.file));
+    for (const account of taskArgs.contracts?.split(",") ?? []) {
+      if (!ethers.utils.isAddress(account.trim())) throw new Error(`Invalid contract: ${account}`);
+      contracts.add(ethers.utils.getAddress(account.trim()));
+    }
+    if (contracts.size === 0) throw new Error("Either --contracts or --file should be given");
+
+    const { horizonClient } = await import("../sdk/hardhat");
+
+    // get signer
+    const [signer] = await hre.ethers.getSigners();
+
+    // instantiate RealEstateERC1155 contract
+    const realEstate = (await horizonClient(hre, { realEstate: taskArgs.contract })).realEstate.contract;
+
+    // keep contracts not in the requested state yet
+    const whitelisted = !taskArgs.remove;
+    const toggled = [];
+    for (const contract of contracts) {
+      if ((await hre.ethers.provider.getCode(contract)) === "0x") throw new Error(`${contract} is not a contract`);
+      if ((await realEstate.isContractWhitelisted(contract)) === whitelisted) {
+        console.log(`${contract} is already ${whitelisted ? "whitelisted" : "not whitelisted"}`);
+        continue;
+      }
+      toggled.push(contract);
+    }
+    if (toggled.length === 0) return;
+    const calls = toggled.map((contract) =>
+      realEstate.interface.encodeFunctionData("toggleWhitelistContract", [contract, whitelisted]),
+    );
+
+    // emit calldata if the Horizon multisig is the admin
+    const admin = await realEstate.admin();
+    if (admin !== (await signer.getAddress())) {
+      const { horizon_multisig: horizonMultisig } = await hre.getNamedAccounts();
+      if (admin !== horizonMultisig) throw new Error(`Signer is not the reNFT admin (${admin})`);
+      console.log("reNFT is administrated by the Horizon multisig, submit the following transactions:");
+      console.log(`To: ${realEstate.address}`);
+      calls.forEach((data) => console.log(`Data: ${data}`));
+      return;
+    }
+
+    // toggle whitelisting
+    for (const [i, data] of calls.entries()) {
+      const tx = await signer.sendTransaction({ to: realEstate.address, data });
+      await tx.wait();
+      console.log(`${whitelisted ? "Whitelisted" : "Removed from the whitelist"} ${toggled[i]}`);
+    }
+  });
@@ -0,0 +1,283 @@
+// HorizonGovernor.test.ts: Unit tests for HorizonGovernor contract
+
+// Solidity extension for chai
+import { solidity } from "ethereum-waffle";
+
+// Use Chai for testing
+import chai from "chai";
+import { expect } from "chai";
+// Setup chai plugins
+chai.use(solidity);
+
+// Import contract types
+import type {
+  ERC20PermitMock__factory,
+  HorizonGovernor,
+  HorizonGovernor__factory,
+  InitialRealEstateOffering,
+  InitialRealEstateOffering__factory,
+  RealEstateERC1155,
+  RealEstateERC1155__factory,
+  SkyERC20,
+  SkyERC20__factory,
+  TimelockController,
+  TimelockController__factory,
+  VoteEscrow,
+  VoteEscrow__factory,
+} from "../../typechain-types";
+
+// HardhatRuntimeEnvironment
+import { ethers, upgrades } from "hardhat";
+
+// Get BigNumber
+import { BigNumber } from "@ethersproject/bignumber";
+
+// Get SignerWithAddress
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+// Import EVM utils
+import { now, setBlockTimestamp } from "../utils/evm_utils";
+
+// Proposal states, in the same order as IGovernor.ProposalState
+enum ProposalState {
+  Pending,
+  Active,
+  Canceled,
+  Defeated,
+  Succeeded,
+  Queued,
+  Expired,
+  Executed,
+}
+
+// Vote types of GovernorCountingSimple
+enum VoteType {
+  Against,
+  For,
+  Abstain,
+}
+
+describe("HorizonGovernor Unit Tests", () => {
+  let deployer: SignerWithAddress;
+  let voter: SignerWithAddress;
+  let smallVoter: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let newTreasury: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let listingOwner: SignerWithAddress;
+  let sky: SkyERC20;
+  let voteEscrow: VoteEscrow;
+  let timelock: TimelockController;
+  let governor: HorizonGovernor;
+  let realEstateNft: RealEstateERC1155;
+  let iro: InitialRealEstateOffering;
+
+  const LOCKED = ethers.utils.parseEther("10000");
+  const SMALL_LOCKED = ethers.utils.parseEther("100");
+  const MAXTIME = 4 * 365 * 86400;
+  const VOTING_DELAY = 86400; // 1 day
+  const VOTING_PERIOD = 7 * 86400; // 1 week
+  const MIN_DELAY = 2 * 86400; // 2 days
+  const PROPOSAL_THRESHOLD = ethers.utils.parseEther("1000");
+  const QUORUM_FRACTION = 10;
+
+  // build a proposal from contract calls
+  function proposal(calls: [string, string][], description: string) {
+    return {
+      targets: calls.map(([target]) => target),
+      values: calls.map(() => 0),
+      calldatas: calls.map(([, data]) => data),
+      description,
+    };
+  }
+
+  // get the ID of a proposal
+  async function proposalId({ targets, values, calldatas, description }: ReturnType<typeof proposal>) {
+    return governor.hashProposal(targets, values, calldatas, ethers.utils.id(description));
+  }
+
+  before(async () => {
+    // get signers
+    [deployer, voter, smallVoter, treasury, newTreasury, minter, listingOwner] = await ethers.getSigners();
+
+    // deploy SkyERC20 and VoteEscrow, lock SKY for the voters
+    const skyFactory = <SkyERC20__factory>await ethers.getContractFactory("SkyERC20");
+    sky = await skyFactory.deploy(deployer.address, LOCKED.add(SMALL_LOCKED), deployer.address);
+    const voteEscrowFactory = <VoteEscrow__factory>await ethers.getContractFactory("VoteEscrow");
+    voteEscrow = await voteEscrowFactory.deploy(deployer.address, sky.address);
+    for (const [account, amount] of [
+      [voter, LOCKED],
+      [smallVoter, SMALL_LOCKED],
+    ] as [SignerWithAddress, BigNumber][]) {
+      await sky.transfer(account.address, amount);
+      await sky.connect(account).approve(voteEscrow.address, amount);
+      await voteEscrow.connect(account).lock(account.address, amount, MAXTIME);
+    }
+
+    // deploy the timelock (executed by anyone) and the governor, the only proposer
+    const timelockFactory = <TimelockController__factory>await ethers.getContractFactory("TimelockController");
+    timelock = await timelockFactory.deploy(MIN_DELAY, [], [ethers.constants.AddressZero], deployer.address);
+    const governorFactory = <HorizonGovernor__factory>await ethers.getContractFactory("HorizonGovernor");
+    governor = await governorFactory.deploy(
+      voteEscrow.address,
+      timelock.address,
+      VOTING_DELAY,
+      VOTING_PERIOD,
+      PROPOSAL_THRESHOLD,
+      QUORUM_FRACTION,
+    );
+    await timelock.grantRole(await timelock.PROPOSER_ROLE(), governor.address);
+    await timelock.grantRole(await timelock.CANCELLER_ROLE(), governor.address);
+    await timelock.renounceRole(await timelock.TIMELOCK_ADMIN_ROLE(), deployer.address);
+
+    // deploy RealEstateERC1155 and InitialRealEstateOffering
+    const currencyFactory = <ERC20PermitMock__factory>await ethers.getContractFactory("ERC20PermitMock");
+    const currency = await currencyFactory.deploy("Currency", "CUR");
+    const realEstateNftFactory = <RealEstateERC1155__factory>await ethers.getContractFactory("RealEstateERC1155");
+    realEstateNft = <RealEstateERC1155>(
+      await upgrades.deployProxy(realEstateNftFactory, [
+        "https://test.com/",
+        deployer.address,
+        deployer.address,
+        currency.address,
+      ])
+    );
+    const iroFactory = <InitialRealEstateOffering__factory>await ethers.getContractFactory("InitialRealEstateOffering");
+    iro = <InitialRealEstateOffering>(
+      await upgrades.deployProxy(iroFactory, [
+        deployer.address,
+        realEstateNft.address,
+        treasury.address,
+        currency.address,
+      ])
+    );
+
+    // hand the IRO ownership and the reNFT and SKY admin roles to the timelock
+    await iro.transferOwnership(timelock.address);
+    await realEstateNft.setAdmin(timelock.address);
+    await sky.connect(deployer).setAdmin(timelock.address);
+  });
+
+  it("clock: should follow the veSKY timestamps", async () => {
+    // check clock
+    expect(await governor.CLOCK_MODE()).to.be.equal("mode=timestamp");
+    expect(await governor.clock()).to.be.equal(await now());
+    expect(await governor.timelock()).to.be.equal(timelock.address);
+  });
+
+  it("propose: reverts with 'Governor: proposer votes below proposal threshold' without enough veSKY", async () => {
+    // should revert with "Governor: proposer votes below proposal threshold"
+    const { targets, values, calldatas, description } = proposal(
+      [[iro.address, iro.interface.encodeFunctionData("setTreasury", [newTreasury.address])]],
+      "Set IRO treasury",
+    );
+    await expect(governor.connect(smallVoter).propose(targets, values, calldatas, description)).to.be.revertedWith(
+      "Governor: proposer votes below proposal threshold",
+    );
+  });
+
+  it("execute: should run a proposal through its whole lifecycle", async () => {
+    // propose to create an IRO, set the IRO and reNFT treasury and the SKY minter
+    const assetPrice = ethers.utils.parseEther("100000");
+    const unitPrice = ethers.utils.parseEther("100");
+    const calls: [string, string][] = [
+      [
+        iro.address,
+        iro.interface.encodeFunctionData("createIRO", [
+          listingOwner.address,
+          0,
+          0,
+          86400,
+          assetPrice,
+          unitPrice,
+          86400,
+          0,
+          0,
+        ]),
+      ],
+      [iro.address, iro.interface.encodeFunctionData("setTreasury", [newTreasury.address])],
+      [realEstateNft.address, realEstateNft.interface.encodeFunctionData("setTreasury", [newTreasury.address])],
+      [sky.address, sky.interface.encodeFunctionData("setMinter", [minter.address])],
+    ];
+    const prop = proposal(calls, "Create IRO #0, move treasury and set SKY minter");
+    const id = await proposalId(prop);
+
+    // should emit "ProposalCreated"
+    await expect(governor.connect(voter).propose(prop.targets, prop.values, prop.calldatas, prop.description)).to.emit(
+      governor,
+      "ProposalCreated",
+    );
+    expect(await governor.state(id)).to.be.equal(ProposalState.Pending);
+    const snapshot = await governor.proposalSnapshot(id);
+    expect(snapshot).to.be.equal((await now()) + VOTING_DELAY);
+
+    // vote once the voting delay has passed
+    await setBlockTimestamp(snapshot.toNumber() + 1);
+    expect(await governor.state(id)).to.be.equal(ProposalState.Active);
+    const votes = await voteEscrow.getPastVotes(voter.address, snapshot);
+    await expect(governor.connect(voter).castVote(id, VoteType.For))
+      .to.emit(governor, "VoteCast")
+      .withArgs(voter.address, id, VoteType.For, votes, "");
+    await governor.connect(smallVoter).castVoteWithReason(id, VoteType.Against, "Too early");
+    expect(await governor.quorum(snapshot)).to.be.equal(
+      (await voteEscrow.getPastTotalSupply(snapshot)).mul(QUORUM_FRACTION).div(100),
+    );
+
+    // queue once the vote succeeded
+    await setBlockTimestamp((await governor.proposalDeadline(id)).toNumber() + 1);
+    expect(await governor.state(id)).to.be.equal(ProposalState.Succeeded);
+    const descriptionHash = ethers.utils.id(prop.description);
+    await expect(governor.queue(prop.targets, prop.values, prop.calldatas, descriptionHash)).to.emit(
+      governor,
+      "ProposalQueued",
+    );
+    expect(await governor.state(id)).to.be.equal(ProposalState.Queued);
+
+    // should revert with "TimelockController: operation is not ready"
+    await expect(governor.execute(prop.targets, prop.values, prop.calldatas, descriptionHash)).to.be.revertedWith(
+      "TimelockController: operation is not ready",
+    );
+
+    // execute once the timelock delay has passed
+    await setBlockTimestamp((await governor.proposalEta(id)).toNumber());
+    await expect(governor.execute(prop.targets, prop.values, prop.calldatas, descriptionHash))
+      .to.emit(governor, "ProposalExecuted")
+      .withArgs(id);
+    expect(await governor.state(id)).to.be.equal(ProposalState.Executed);
+    expect(await iro.iroLength()).to.be.equal(1);
+    expect((await iro.getIRO(0)).listingOwner).to.be.equal(listingOwner.address);
+    expect(await iro.treasury()).to.be.equal(newTreasury.address);
+    expect(await realEstateNft.treasury()).to.be.equal(newTreasury.address);
+    expect(await sky.minter()).to.be.equal(minter.address);
+  });
+
+  it("queue: reverts with 'Governor: proposal not successful' if the quorum is not reached", async () => {
+    // propose and vote with less than the quorum
+    const prop = proposal(
+      [[iro.address, iro.interface.encodeFunctionData("setTreasury", [treasury.address])]],
+      "Set IRO treasury back",
+    );
+    const id = await proposalId(prop);
+    await governor.connect(voter).propose(prop.targets, prop.values, prop.calldatas, prop.description);
+    await setBlockTimestamp((await governor.proposalSnapshot(id)).toNumber() + 1);
+    await governor.connect(smallVoter).castVote(id, VoteType.For);
+    await setBlockTimestamp((await governor.proposalDeadline(id)).toNumber() + 1);
+    expect(await governor.state(id)).to.be.equal(ProposalState.Defeated);
+
+    // should revert with "Governor: proposal not successful"
+    await expect(
+      governor.queue(prop.targets, prop.values, prop.calldatas, ethers.utils.id(prop.description)),
+    ).to.be.revertedWith("Governor: proposal not successful");
+  });
+
+  it("setTreasury: reverts if not called through the timelock", async () => {
+    // should revert with "Ownable: caller is not the owner"
+    await expect(iro.connect(deployer).setTreasury(treasury.address)).to.be.revertedWith(
+      "Ownable: caller is not the owner",
+    );
+
+    // should revert with "!admin"
+    await expect(sky.connect(deployer).setMinter(deployer.address)).to.be.revertedWith("!admin");
+    await expect(realEstateNft.connect(deployer).setTreasury(treasury.address)).to.be.revertedWith("!admin");
+  });
+});
@@ -0,0 +1,1146 @@
+// InitialRealEstateOffering.test.ts: Unit tests for InitialRealEstateOffering contract
+
+// Solidity extension for chai
+import { solidity } from "ethereum-waffle";
+
+// Use Chai for testing
+import chai from "chai";
+import { expect } from "chai";
+// Setup chai plugins
+chai.use(solidity);
+
+// Import contract types
+import type {
+  InitialRealEstateOffering,
+  InitialRealEstateOffering__factory,
+  RealEstateERC1155,
+  RealEstateReserves,
+  RealEstateReserves__factory,
+  USDTMock,
+} from "../../typechain-types";
+
+// HardhatRuntimeEnvironment
+import { ethers, network, upgrades } from "hardhat";
+
+// Get BigNumber
+import { BigNumber } from "@ethersproject/bignumber";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+// Import EVM utils
+import { now, setBlockTimestamp } from "../utils/evm_utils";
+
+// Import IRO fixtures
+import {
+  IROFixture,
+  DEFAULT_IRO_PARAMS,
+  deployIROFixture,
+  createIRO,
+  commit,
+  advanceToStatus,
+  fundIRO,
+  TokenCommitFixture,
+  deployTokenCommitFixture,
+  DAI_PRICE,
+  ETH_PRICE,
+} from "./utils/iro_fixtures";
+
+// Import IRO status
+import { IROStatus } from "../../sdk/types";
+
+// Import PioneerTree to build IRO whitelists
+import { PioneerTree } from "../token/utils/pioneer_tree";
+
+describe("InitialRealEstateOffering Unit Tests", () => {
+  let fixture: IROFixture;
+  let owner: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let listingOwner: SignerWithAddress;
+  let user: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let currency: USDTMock;
+  let realEstateNft: RealEstateERC1155;
+  let iro: InitialRealEstateOffering;
+
+  const { assetPrice: ASSET_PRICE, treasuryFee: TREASURY_FEE, operationFee: OPERATION_FEE } = DEFAULT_IRO_PARAMS;
+  const { unitPrice: UNIT_PRICE, duration: DURATION, startOffset: START_OFFSET } = DEFAULT_IRO_PARAMS;
+  const TARGET_FUNDING = ASSET_PRICE.add(TREASURY_FEE).add(OPERATION_FEE);
+  const EXPECTED_SUPPLY = TARGET_FUNDING.div(UNIT_PRICE);
+
+  before(async () => {
+    // deploy contracts
+    fixture = await deployIROFixture();
+    ({ owner, treasury, listingOwner, currency, realEstateNft, iro } = fixture);
+    [user, user2] = fixture.investors;
+  });
+
+  describe("Initialize", () => {
+    let iroFactory: InitialRealEstateOffering__factory;
+
+    before(async () => {
+      iroFactory = <InitialRealEstateOffering__factory>await ethers.getContractFactory("InitialRealEstateOffering");
+    });
+
+    it("initialize: reverts with '!_realEstateNft' if realEstateNft is the zero address", async () => {
+      // should revert with "!_realEstateNft"
+      await expect(
+        upgrades.deployProxy(iroFactory, [
+          owner.address,
+          ethers.constants.AddressZero,
+          treasury.address,
+          currency.address,
+        ]),
+      ).to.be.revertedWith("!_realEstateNft");
+    });
+
+    it("initialize: reverts with '!_treasury' if treasury is the zero address", async () => {
+      // should revert with "!_treasury"
+      await expect(
+        upgrades.deployProxy(iroFactory, [
+          owner.address,
+          realEstateNft.address,
+          ethers.constants.AddressZero,
+          currency.address,
+        ]),
+      ).to.be.revertedWith("!_treasury");
+    });
+
+    it("initialize: reverts with '!_currency' if currency is the zero address", async () => {
+      // should revert with "!_currency"
+      await expect(
+        upgrades.deployProxy(iroFactory, [
+          owner.address,
+          realEstateNft.address,
+          treasury.address,
+          ethers.constants.AddressZero,
+        ]),
+      ).to.be.revertedWith("!_currency");
+    });
+
+    it("initialize: should set owner, realEstateNft, treasury and currency", async () => {
+      // check state
+      expect(await iro.owner()).to.be.equal(owner.address);
+      expect(await iro.realEstateNft()).to.be.equal(realEstateNft.address);
+      expect(await iro.treasury()).to.be.equal(treasury.address);
+      expect(await iro.currency()).to.be.equal(currency.address);
+    });
+  });
+
+  describe("Admin", () => {
+    it("setCurrency: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+      // should revert with "Ownable: caller is not the owner"
+      await expect(iro.connect(user).setCurrency(currency.address)).to.be.revertedWith(
+        "Ownable: caller is not the owner",
+      );
+    });
+
+    it("setCurrency: reverts with '!_currency' if currency is the zero address", async () => {
+      // should revert with "!_currency"
+      await expect(iro.connect(owner).setCurrency(ethers.constants.AddressZero)).to.be.revertedWith("!_currency");
+    });
+
+    it("setCurrency: should emit 'SetBaseCurrency'", async () => {
+      // should emit "SetBaseCurrency"
+      await expect(iro.connect(owner).setCurrency(currency.address))
+        .to.emit(iro, "SetBaseCurrency")
+        .withArgs(owner.address, currency.address);
+    });
+
+    it("setTreasury: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+      // should revert with "Ownable: caller is not the owner"
+      await expect(iro.connect(user).setTreasury(treasury.address)).to.be.revertedWith(
+        "Ownable: caller is not the owner",
+      );
+    });
+
+    it("setTreasury: reverts with '!_treasury' if treasury is the zero address", async () => {
+      // should revert with "!_treasury"
+      await expect(iro.connect(owner).setTreasury(ethers.constants.AddressZero)).to.be.revertedWith("!_treasury");
+    });
+
+    it("setTreasury: should emit 'SetTreasury'", async () => {
+      // should emit "SetTreasury"
+      await expect(iro.connect(owner).setTreasury(treasury.address))
+        .to.emit(iro, "SetTreasury")
+        .withArgs(owner.address, treasury.address);
+    });
+
+    it("setReserves: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+      // should revert with "Ownable: caller is not the owner"
+      await expect(iro.connect(user).setReserves(treasury.address, 0)).to.be.revertedWith(
+        "Ownable: caller is not the owner",
+      );
+    });
+
+    it("setReserves: reverts with '!_reserves' if reserves are the zero address with a share", async () => {
+      // should revert with "!_reserves"
+      await expect(iro.connect(owner).setReserves(ethers.constants.AddressZero, 1)).to.be.revertedWith("!_reserves");
+    });
+
+    it("setReserves: reverts with 'Invalid share' if share exceeds the denominator", async () => {
+      // should revert with "Invalid share"
+      await expect(iro.connect(owner).setReserves(treasury.address, 10001)).to.be.revertedWith("Invalid share");
+    });
+
+    it("setReserves: should emit 'SetReserves'", async () => {
+      // should emit "SetReserves"
+      await expect(iro.connect(owner).setReserves(ethers.constants.AddressZero, 0))
+        .to.emit(iro, "SetReserves")
+        .withArgs(owner.address, ethers.constants.AddressZero, 0);
+    });
+  });
+
+  describe("Create IRO", () => {
+    it("createIRO: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+      // should revert with "Ownable: caller is not the owner"
+      await expect(
+        iro
+          .connect(user)
+          .createIRO(
+            listingOwner.address,
+            TREASURY_FEE,
+            OPERATION_FEE,
+            DURATION,
+            ASSET_PRICE,
+            UNIT_PRICE,
+            START_OFFSET,
+            0,
+            0,
+          ),
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("createIRO: reverts with 'Target funding should be divisible by unit price' if it is not", async () => {
+      // should revert with "Target funding should be divisible by unit price"
+      await expect(createIRO(fixture, { treasuryFee: TREASURY_FEE.add(1) })).to.be.revertedWith(
+        "Target funding should be divisible by unit price",
+      );
+    });
+
+    it("createIRO: should emit 'CreateIRO' and store the IRO", async () => {
+      const iroId = await iro.iroLength();
+      const start = (await now()) + 1 + START_OFFSET;
+
+      // should emit "CreateIRO"
+      await expect(
+        iro
+          .connect(owner)
+          .createIRO(
+            listingOwner.address,
+            TREASURY_FEE,
+            OPERATION_FEE,
+            DURATION,
+            ASSET_PRICE,
+            UNIT_PRICE,
+            START_OFFSET,
+            0,
+            0,
+          ),
+      )
+        .to.emit(iro, "CreateIRO")
+        .withArgs(iroId, listingOwner.address, currency.address, start, start + DURATION, UNIT_PRICE, TARGET_FUNDING);
+
+      // check IRO
+      expect(await iro.iroLength()).to.be.equal(iroId.add(1));
+      const iroInfo = await iro.getIRO(iroId);
+      expect(iroInfo.listingOwner).to.be.equal(listingOwner.address);
+      expect(iroInfo.start).to.be.equal(start);
+      expect(iroInfo.end).to.be.equal(start + DURATION);
+      expect(iroInfo.currency).to.be.equal(currency.address);
+      expect(iroInfo.treasuryFee).to.be.equal(TREASURY_FEE);
+      expect(iroInfo.operationFee).to.be.equal(OPERATION_FEE);
+      expect(iroInfo.targetFunding).to.be.equal(TARGET_FUNDING);
+      expect(iroInfo.unitPrice).to.be.equal(UNIT_PRICE);
+      expect(iroInfo.totalFunding).to.be.equal(0);
+      expect(iroInfo.minUnits).to.be.equal(0);
+      expect(iroInfo.maxUnitsPerWallet).to.be.equal(0);
+
+      // check target cap composition
+      const capInfo = await iro.targetCapInfo(iroId);
+      expect(capInfo.assetPrice).to.be.equal(ASSET_PRICE);
+      expect(capInfo.treasuryFee).to.be.equal(TREASURY_FEE);
+      expect(capInfo.operationFee).to.be.equal(OPERATION_FEE);
+      expect(capInfo.treasuryFeeBps).to.be.equal(100);
+      expect(capInfo.operationFeeBps).to.be.equal(150);
+
+      // check supply
+      expect(await iro.expectedTotalSupply(iroId)).to.be.equal(EXPECTED_SUPPLY);
+      expect(await iro.currentTotalSupply(iroId)).to.be.equal(0);
+      expect(await iro.remainingTokens(iroId)).to.be.equal(EXPECTED_SUPPLY);
+      expect(await iro.getStatus(iroId)).to.be.equal(IROStatus.PENDING);
+    });
+
+    it("getIRO: reverts with '_iroId out-of-bounds' if IRO does not exist", async () => {
+      // should revert with "_iroId out-of-bounds"
+      await expect(iro.getIRO(await iro.iroLength())).to.be.revertedWith("_iroId out-of-bounds");
+    });
+  });
+
+  describe("Commit", () => {
+    let iroId: BigNumber;
+
+    const AMOUNT_TO_PURCHASE = BigNumber.from(100);
+
+    before(async () => {
+      iroId = await createIRO(fixture);
+    });
+
+    it("commit: reverts with 'IRO is not active' if IRO has not started", async () => {
+      // should revert with "IRO is not active"
+      await expect(commit(fixture, iroId, user, AMOUNT_TO_PURCHASE)).to.be.revertedWith("IRO is not active");
+    });
+
+    it("commit: reverts with '_amountToPurchase should be greater than zero' if amount is zero", async () => {
+      // advance to funding
+      await advanceToStatus(fixture, iroId, IROStatus.FUNDING);
+
+      // should revert with "_amountToPurchase should be greater than zero"
+      await expect(iro.connect(user).commit(iroId, 0)).to.be.revertedWith(
+        "_amountToPurchase should be greater than zero",
+      );
+    });
+
+    it("commit: reverts with 'Target funding reached' if purchasing more than the remaining tokens", async () => {
+      // should revert with "Target funding reached"
+      await expect(commit(fixture, iroId, user, EXPECTED_SUPPLY.add(1))).to.be.revertedWith("Target funding reached");
+    });
+
+    it("commit: should emit 'Commit' and update the IRO funding", async () => {
+      const value = UNIT_PRICE.mul(AMOUNT_TO_PURCHASE);
+      expect(await iro.price(iroId, AMOUNT_TO_PURCHASE)).to.be.equal(value);
+
+      // should emit "Commit"
+      await expect(commit(fixture, iroId, user, AMOUNT_TO_PURCHASE))
+        .to.emit(iro, "Commit")
+        .withArgs(iroId, user.address, currency.address, value, AMOUNT_TO_PURCHASE);
+
+      // check commit and funding
+      expect(await iro.commits(iroId, user.address)).to.be.equal(value);
+      expect((await iro.getIRO(iroId)).totalFunding).to.be.equal(value);
+      expect(await iro.currentTotalSupply(iroId)).to.be.equal(AMOUNT_TO_PURCHASE);
+      expect(await iro.remainingTokens(iroId)).to.be.equal(EXPECTED_SUPPLY.sub(AMOUNT_TO_PURCHASE));
+      expect(await currency.balanceOf(iro.address)).to.be.equal(value);
+
+      // user owns the whole current supply
+      const { amount, share } = await iro.userAmountAndShare(iroId, user.address);
+      expect(amount).to.be.equal(AMOUNT_TO_PURCHASE);
+      expect(share).to.be.equal(await iro.DENOMINATOR());
+    });
+
+    it("commit: should accumulate commits of the same user", async () => {
+      // commit again
+      await commit(fixture, iroId, user, AMOUNT_TO_PURCHASE);
+
+      // check commit
+      expect(await iro.commits(iroId, user.address)).to.be.equal(UNIT_PRICE.mul(AMOUNT_TO_PURCHASE).mul(2));
+    });
+
+    it("commit: reverts with 'Target funding reached' if overfunding", async () => {
+      // commit all but one token
+      const remainingTokens = await iro.remainingTokens(iroId);
+      await commit(fixture, iroId, user2, remainingTokens.sub(1));
+
+      // should revert with "Target funding reached"
+      await expect(commit(fixture, iroId, user, 2)).to.be.revertedWith("Target funding reached");
+
+      // remaining token is still available
+      expect(await iro.remainingTokens(iroId)).to.be.equal(1);
+      expect(await iro.getStatus(iroId)).to.be.equal(IROStatus.FUNDING);
+    });
+
+    it("getStatus: should be SUCCESS before the end once fully funded", async () => {
+      // commit last token
+      await commit(fixture, iroId, user, 1);
+
+      // check status before the end
+      expect(await now()).to.be.lessThan((await iro.getIRO(iroId)).end.toNumber());
+      expect(await iro.getStatus(iroId)).to.be.equal(IROStatus.SUCCESS);
+      expect(await iro.remainingTokens(iroId)).to.be.equal(0);
+
+      // should revert with "IRO is not active"
+      await expect(commit(fixture, iroId, user, 1)).to.be.revertedWith("IRO is not active");
+    });
+  });
+
+  describe("Commit limits", () => {
+    let iroId: BigNumber;
+    let investor: SignerWithAddress;
+
+    const MIN_UNITS = 10;
+    const MAX_UNITS_PER_WALLET = 100;
+    const GLOBAL_MAX_UNITS_PER_WALLET = 150;
+
+    before(async () => {
+      // use an investor without previous commits
+      investor = fixture.investors[2];
+
+      // create an IRO with commit limits and advance to funding
+      iroId = await createIRO(fixture, { minUnits: MIN_UNITS, maxUnitsPerWallet: MAX_UNITS_PER_WALLET });
+      await advanceToStatus(fixture, iroId, IROStatus.FUNDING);
+    });
+
+    after(async () => {
+      // remove global cap
+      await iro.connect(owner).setGlobalMaxUnitsPerWallet(0);
+    });
+
+    it("createIRO: reverts with 'Minimum units should not exceed maximum units per wallet' if they do", async () => {
+      // should revert with "Minimum units should not exceed maximum units per wallet"
+      await expect(createIRO(fixture, { minUnits: 11, maxUnitsPerWallet: 10 })).to.be.revertedWith(
+        "Minimum units should not exceed maximum units per wallet",
+      );
+    });
+
+    it("getIRO: should return the commit limits", async () => {
+      // check limits
+      const iroInfo = await iro.getIRO(iroId);
+      expect(iroInfo.minUnits).to.be.equal(MIN_UNITS);
+      expect(iroInfo.maxUnitsPerWallet).to.be.equal(MAX_UNITS_PER_WALLET);
+    });
+
+    it("setGlobalMaxUnitsPerWallet: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+      // should revert with "Ownable: caller is not the owner"
+      await expect(iro.connect(investor).setGlobalMaxUnitsPerWallet(GLOBAL_MAX_UNITS_PER_WALLET)).to.be.revertedWith(
+        "Ownable: caller is not the owner",
+      );
+    });
+
+    it("setGlobalMaxUnitsPerWallet: should emit 'SetGlobalMaxUnitsPerWallet'", async () => {
+      // should emit "SetGlobalMaxUnitsPerWallet"
+      await expect(iro.connect(owner).setGlobalMaxUnitsPerWallet(GLOBAL_MAX_UNITS_PER_WALLET))
+        .to.emit(iro, "SetGlobalMaxUnitsPerWallet")
+        .withArgs(owner.address, GLOBAL_MAX_UNITS_PER_WALLET);
+    });
+
+    it("commit: reverts with 'Below minimum units' if purchasing less than the minimum", async () => {
+      // should revert with "Below minimum units"
+      await expect(commit(fixture, iroId, investor, MIN_UNITS - 1)).to.be.revertedWith("Below minimum units");
+    });
+
+    it("commit: reverts with 'Wallet cap reached' if exceeding the IRO wallet cap", async () => {
+      // commit up to the cap
+      await commit(fixture, iroId, investor, MAX_UNITS_PER_WALLET - MIN_UNITS);
+      await commit(fixture, iroId, investor, MIN_UNITS);
+
+      // should revert with "Wallet cap reached"
+      await expect(commit(fixture, iroId, investor, MIN_UNITS)).to.be.revertedWith("Wallet cap reached");
+    });
+
+    it("commit: reverts with 'Global wallet cap reached' if exceeding the cap across IROs", async () => {
+      // create another IRO without limits
+      const otherIroId = await createIRO(fixture, { startOffset: 0 });
+      const unitsCommitted = await iro.unitsCommitted(investor.address);
+
+      // commit up to the global cap
+      const remainingUnits = BigNumber.from(GLOBAL_MAX_UNITS_PER_WALLET).sub(unitsCommitted);
+      await commit(fixture, otherIroId, investor, remainingUnits);
+      expect(await iro.unitsCommitted(investor.address)).to.be.equal(GLOBAL_MAX_UNITS_PER_WALLET);
+
+      // should revert with "Global wallet cap reached"
+      await expect(commit(fixture, otherIroId, investor, 1)).to.be.revertedWith("Global wallet cap reached");
+    });
+
+    it("claim: should release global wallet units when refunding", async () => {
+      // other IRO fails
+      const otherIroId = (await iro.iroLength()).sub(1);
+      await advanceToStatus(fixture, otherIroId, IROStatus.FAIL);
+      const otherUnits = (await iro.commits(otherIroId, investor.address)).div(UNIT_PRICE);
+      const unitsCommitted = await iro.unitsCommitted(investor.address);
+
+      // refund
+      await iro.connect(investor).claim(otherIroId, investor.address);
+      expect(await iro.unitsCommitted(investor.address)).to.be.equal(unitsCommitted.sub(otherUnits));
+    });
+
+    it("commit: should allow purchasing the remaining tokens below the minimum", async () => {
+      // create an IRO with a high minimum
+      const otherIroId = await createIRO(fixture, { startOffset: 0, minUnits: 100 });
+      await iro.connect(owner).setGlobalMaxUnitsPerWallet(0);
+
+      // commit all but 1 token
+      await commit(fixture, otherIroId, user2, EXPECTED_SUPPLY.sub(1));
+
+      // should emit "Commit"
+      await expect(commit(fixture, otherIroId, user, 1)).to.emit(iro, "Commit");
+      expect(await iro.getStatus(otherIroId)).to.be.equal(IROStatus.SUCCESS);
+    });
+  });
+
+  describe("Whitelist", () => {
+    let iroId: BigNumber;
+    let whitelistTree: PioneerTree;
+    let whitelistEnd: number;
+
+    const WHITELIST_DURATION = 86400; // 1 day
+
+    before(async () => {
+      // create an IRO and build a whitelist with user and listing owner
+      iroId = await createIRO(fixture);
+      whitelistTree = new PioneerTree([user.address, listingOwner.address]);
+      whitelistEnd = (await iro.getIRO(iroId)).start.toNumber() + WHITELIST_DURATION;
+    });
+
+    it("setWhitelist: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+      // should revert with "Ownable: caller is not the owner"
+      await expect(iro.connect(user).setWhitelist(iroId, whitelistTree.root, whitelistEnd)).to.be.revertedWith(
+        "Ownable: caller is not the owner",
+      );
+    });
+
+    it("setWhitelist: reverts with 'Whitelist should end before the IRO' if it ends after the IRO", async () => {
+      const { end } = await iro.getIRO(iroId);
+
+      // should revert with "Whitelist should end before the IRO"
+      await expect(iro.connect(owner).setWhitelist(iroId, whitelistTree.root, end.add(1))).to.be.revertedWith(
+        "Whitelist should end before the IRO",
+      );
+    });
+
+    it("setWhitelist: should emit 'SetWhitelist'", async () => {
+      // should emit "SetWhitelist"
+      await expect(iro.connect(owner).setWhitelist(iroId, whitelistTree.root, whitelistEnd))
+        .to.emit(iro, "SetWhitelist")
+        .withArgs(iroId, owner.address, whitelistTree.root, whitelistEnd);
+
+      // check whitelist
+      const whitelist = await iro.whitelist(iroId);
+      expect(whitelist.root).to.be.equal(whitelistTree.root);
+      expect(whitelist.end).to.be.equal(whitelistEnd);
+      expect(await iro.isWhitelistPhase(iroId)).to.be.equal(true);
+      expect(await iro.isWhitelisted(iroId, user.address, whitelistTree.proofsFromIndex(0))).to.be.equal(true);
+      expect(await iro.isWhitelisted(iroId, user2.address, whitelistTree.proofsFromIndex(0))).to.be.equal(false);
+    });
+
+    it("commit: reverts with 'Not whitelisted' if committing without proof during the whitelist phase", async () => {
+      // advance to funding
+      await advanceToStatus(fixture, iroId, IROStatus.FUNDING);
+
+      // should revert with "Not whitelisted"
+      await expect(commit(fixture, iroId, user, 1)).to.be.revertedWith("Not whitelisted");
+    });
+
+    it("commitWhitelisted: reverts with 'Not whitelisted' if using the proof of another account", async () => {
+      // mint and approve
+      await currency.connect(owner).freeMint(user2.address, UNIT_PRICE);
+      await currency.connect(user2).approve(iro.address, UNIT_PRICE);
+
+      // should revert with "Not whitelisted"
+      await expect(iro.connect(user2).commitWhitelisted(iroId, 1, whitelistTree.proofsFromIndex(0))).to.be.revertedWith(
+        "Not whitelisted",
+      );
+    });
+
+    it("commitWhitelisted: should emit 'Commit' if whitelisted", async () => {
+      // mint and approve
+      await currency.connect(owner).freeMint(user.address, UNIT_PRICE);
+      await currency.connect(user).approve(iro.address, UNIT_PRICE);
+
+      // should emit "Commit"
+      await expect(iro.connect(user).commitWhitelisted(iroId, 1, whitelistTree.proofsFromIndex(0)))
+        .to.emit(iro, "Commit")
+        .withArgs(iroId, user.address, currency.address, UNIT_PRICE, 1);
+    });
+
+    it("commit: should be open to everyone after the whitelist phase", async () => {
+      // advance to whitelist end
+      await setBlockTimestamp(whitelistEnd);
+      expect(await iro.isWhitelistPhase(iroId)).to.be.equal(false);
+
+      // should emit "Commit"
+      await expect(commit(fixture, iroId, user2, 1)).to.emit(iro, "Commit");
+    });
+  });
+
+  describe("Token commits", () => {
+    let tokenFixture: TokenCommitFixture;
+    let iroId: BigNumber;
+
+    const AMOUNT_TO_PURCHASE = BigNumber.from(10);
+    const ETH = ethers.constants.AddressZero;
+    const FEES = TREASURY_FEE.add(OPERATION_FEE);
+
+    before(async () => {
+      // deploy price oracle and whitelist DAI and ETH
+      tokenFixture = await deployTokenCommitFixture(fixture);
+
+      // create an IRO starting right away
+      iroId = await createIRO(fixture, { startOffset: 0 });
+    });
+
+    /**
+     * @dev Mint DAI to an investor and approve the IRO
+     * @param investor Investor account
+     * @param amount Amount of DAI
+     */
+    async function mintDai(investor: SignerWithAddress, amount: BigNumber) {
+      await tokenFixture.dai.freeMint(investor.address, amount);
+      await tokenFixture.dai.connect(investor).approve(iro.address, amount);
+    }
+
+    it("setPriceOracle: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+      // should revert with "Ownable: caller is not the owner"
+      await expect(iro.connect(user).setPriceOracle(tokenFixture.priceOracle.address)).to.be.revertedWith(
+        "Ownable: caller is not the owner",
+      );
+    });
+
+    it("setPriceOracle: reverts with '!_priceOracle' if price oracle is the zero address", async () => {
+      // should revert with "!_priceOracle"
+      await expect(iro.connect(owner).setPriceOracle(ethers.constants.AddressZero)).to.be.revertedWith("!_priceOracle");
+    });
+
+    it("setPriceOracle: should emit 'SetPriceOracle'", async () => {
+      // should emit "SetPriceOracle"
+      await expect(iro.connect(owner).setPriceOracle(tokenFixture.priceOracle.address))
+        .to.emit(iro, "SetPriceOracle")
+        .withArgs(owner.address, tokenFixture.priceOracle.address);
+    });
+
+    it("whitelistToken: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+      // should revert with "Ownable: caller is not the owner"
+      await expect(iro.connect(user).whitelistToken(tokenFixture.dai.address, true)).to.be.revertedWith(
+        "Ownable: caller is not the owner",
+      );
+    });
+
+    it("whitelistToken: should emit 'WhitelistToken'", async () => {
+      // should emit "WhitelistToken"
+      await expect(iro.connect(owner).whitelistToken(tokenFixture.dai.address, true))
+        .to.emit(iro, "WhitelistToken")
+        .withArgs(owner.address, tokenFixture.dai.address, true);
+      expect(await iro.isWhitelistedToken(tokenFixture.dai.address)).to.be.equal(true);
+    });
+
+    it("quote: should convert the purchase price through the price oracle", async () => {
+      // 10 tokens cost 500 USDT, 500 DAI or 0.25 ETH
+      expect(await iro.quote(iroId, AMOUNT_TO_PURCHASE, currency.address)).to.be.equal(
+        UNIT_PRICE.mul(AMOUNT_TO_PURCHASE),
+      );
+      expect(await iro.quote(iroId, AMOUNT_TO_PURCHASE, tokenFixture.dai.address)).to.be.equal(
+        ethers.utils.parseEther("500"),
+      );
+      expect(await iro.quote(iroId, AMOUNT_TO_PURCHASE, ETH)).to.be.equal(ethers.utils.parseEther("0.25"));
+    });
+
+    it("commitWithToken: reverts with 'Token not whitelisted' if paying with a non-whitelisted token", async () => {
+      // should revert with "Token not whitelisted"
+      await expect(
+        iro.connect(user).commitWithToken(iroId, AMOUNT_TO_PURCHASE, realEstateNft.address, 0, []),
+      ).to.be.revertedWith("Token not whitelisted");
+    });
+
+    it("commitWithToken: reverts with 'Slippage exceeded' if quote is above the maximum amount in", async () => {
+      const amountIn = await iro.quote(iroId, AMOUNT_TO_PURCHASE, tokenFixture.dai.address);
+      await mintDai(user, amountIn);
+
+      // should revert with "Slippage exceeded"
+      await expect(
+        iro.connect(user).commitWithToken(iroId, AMOUNT_TO_PURCHASE, tokenFixture.dai.address, amountIn.sub(1), []),
+      ).to.be.revertedWith("Slippage exceeded");
+    });
+
+    it("commitWithToken: reverts with 'ETH not expected' if sending ETH while paying with a token", async () => {
+      const amountIn = await iro.quote(iroId, AMOUNT_TO_PURCHASE, tokenFixture.dai.address);
+
+      // should revert with "ETH not expected"
+      await expect(
+        iro
+          .connect(user)
+          .commitWithToken(iroId, AMOUNT_TO_PURCHASE, tokenFixture.dai.address, amountIn, [], { value: 1 }),
+      ).to.be.revertedWith("ETH not expected");
+    });
+
+    it("commitWithToken: reverts with 'Insufficient ETH' if sending less ETH than quoted", async () => {
+      const amountIn = await iro.quote(iroId, AMOUNT_TO_PURCHASE, ETH);
+
+      // should revert with "Insufficient ETH"
+      await expect(
+        iro.connect(user).commitWithToken(iroId, AMOUNT_TO_PURCHASE, ETH, amountIn, [], { value: amountIn.sub(1) }),
+      ).to.be.revertedWith("Insufficient ETH");
+    });
+
+    it("commitWithToken: should emit 'Commit' and account the token payment", async () => {
+      const value = UNIT_PRICE.mul(AMOUNT_TO_PURCHASE);
+      const amountIn = await iro.quote(iroId, AMOUNT_TO_PURCHASE, tokenFixture.dai.address);
+
+      // should emit "Commit"
+      await expect(iro.connect(user).commitWithToken(iroId, AMOUNT_TO_PURCHASE, tokenFixture.dai.address, amountIn, []))
+        .to.emit(iro, "Commit")
+        .withArgs(iroId, user.address, tokenFixture.dai.address, amountIn, AMOUNT_TO_PURCHASE);
+
+      // check commit in the IRO currency and token accounting
+      expect(await iro.commits(iroId, user.address)).to.be.equal(value);
+      expect(await iro.tokenCommits(iroId, user.address, tokenFixture.dai.address)).to.be.equal(amountIn);
+      expect(await iro.tokenCommitsValue(iroId, user.address)).to.be.equal(value);
+      expect(await iro.tokenFunding(iroId, tokenFixture.dai.address)).to.be.equal(amountIn);
+      expect(await iro.fundingTokens(iroId)).to.be.deep.equal([tokenFixture.dai.address]);
+      expect((await iro.getIRO(iroId)).totalFunding).to.be.equal(value);
+    });
+
+    it("commitWithToken: should send back excess ETH", async () => {
+      const amountIn = await iro.quote(iroId, AMOUNT_TO_PURCHASE, ETH);
+
+      // should emit "Commit"
+      await expect(
+        iro.connect(user).commitWithToken(iroId, AMOUNT_TO_PURCHASE, ETH, amountIn, [], { value: amountIn.mul(2) }),
+      )
+        .to.emit(iro, "Commit")
+        .withArgs(iroId, user.address, ETH, amountIn, AMOUNT_TO_PURCHASE);
+
+      // check only the quoted amount was kept
+      expect(await ethers.provider.getBalance(iro.address)).to.be.equal(amountIn);
+      expect(await iro.tokenCommits(iroId, user.address, ETH)).to.be.equal(amountIn);
+      expect(await iro.fundingTokens(iroId)).to.be.deep.equal([tokenFixture.dai.address, ETH]);
+    });
+
+    it("claim: should refund whitelisted tokens and emit 'TokenCashBack' if IRO failed", async () => {
+      // commit in the IRO currency too and reach the end
+      await commit(fixture, iroId, user, AMOUNT_TO_PURCHASE);
+      await advanceToStatus(fixture, iroId, IROStatus.FAIL);
+      const daiAmount = await iro.tokenCommits(iroId, user.address, tokenFixture.dai.address);
+      const ethAmount = await iro.tokenCommits(iroId, user.address, ETH);
+      const currencyBalance = await currency.balanceOf(user2.address);
+
+      // should emit "CashBack" and "TokenCashBack"
+      await expect(iro.connect(user).claim(iroId, user2.address))
+        .to.emit(iro, "CashBack")
+        .withArgs(iroId, user.address, user2.address, UNIT_PRICE.mul(AMOUNT_TO_PURCHASE).mul(3))
+        .and.to.emit(iro, "TokenCashBack")
+        .withArgs(iroId, user.address, user2.address, tokenFixture.dai.address, daiAmount)
+        .and.to.emit(iro, "TokenCashBack")
+        .withArgs(iroId, user.address, user2.address, ETH, ethAmount);
+
+      // check refunds
+      expect(await currency.balanceOf(user2.address)).to.be.equal(
+        currencyBalance.add(UNIT_PRICE.mul(AMOUNT_TO_PURCHASE)),
+      );
+      expect(await tokenFixture.dai.balanceOf(user2.address)).to.be.equal(daiAmount);
+      expect(await ethers.provider.getBalance(iro.address)).to.be.equal(0);
+      expect(await iro.tokenCommits(iroId, user.address, tokenFixture.dai.address)).to.be.equal(0);
+      expect(await iro.tokenCommitsValue(iroId, user.address)).to.be.equal(0);
+    });
+
+    it("withdraw: should split whitelisted tokens between treasury and listing owner", async () => {
+      // refresh aggregator answers, stale after the previous IRO end
+      await tokenFixture.daiAggregator.setAnswer(DAI_PRICE);
+      await tokenFixture.ethAggregator.setAnswer(ETH_PRICE);
+
+      // create an IRO funded in DAI, ETH and the IRO currency
+      const successIroId = await createIRO(fixture, { startOffset: 0 });
+      const daiAmount = await iro.quote(successIroId, AMOUNT_TO_PURCHASE, tokenFixture.dai.address);
+      const ethAmount = await iro.quote(successIroId, AMOUNT_TO_PURCHASE, ETH);
+      await mintDai(user, daiAmount);
+      await iro
+        .connect(user)
+        .commitWithToken(successIroId, AMOUNT_TO_PURCHASE, tokenFixture.dai.address, daiAmount, []);
+      await iro
+        .connect(user)
+        .commitWithToken(successIroId, AMOUNT_TO_PURCHASE, ETH, ethAmount, [], { value: ethAmount });
+      await fundIRO(fixture, successIroId, [user2]);
+      await advanceToStatus(fixture, successIroId, IROStatus.SUCCESS);
+
+      // get balances
+      const treasuryDai = await tokenFixture.dai.balanceOf(treasury.address);
+      const listingOwnerDai = await tokenFixture.dai.balanceOf(listingOwner.address);
+      const treasuryEth = await ethers.provider.getBalance(treasury.address);
+      const listingOwnerEth = await ethers.provider.getBalance(listingOwner.address);
+      const treasuryCurrency = await currency.balanceOf(treasury.address);
+      const currencyAmount = TARGET_FUNDING.sub(UNIT_PRICE.mul(AMOUNT_TO_PURCHASE).mul(2));
+
+      // should emit "FundsWithdrawn" with values in the IRO currency
+      await expect(iro.connect(owner).withdraw(successIroId))
+        .to.emit(iro, "FundsWithdrawn")
+        .withArgs(successIroId, owner.address, ASSET_PRICE, TREASURY_FEE, OPERATION_FEE);
+
+      // check each currency is split in the same proportion
+      const treasuryDaiAmount = daiAmount.mul(FEES).div(TARGET_FUNDING);
+      const treasuryEthAmount = ethAmount.mul(FEES).div(TARGET_FUNDING);
+      expect(await tokenFixture.dai.balanceOf(treasury.address)).to.be.equal(treasuryDai.add(treasuryDaiAmount));
+      expect(await tokenFixture.dai.balanceOf(listingOwner.address)).to.be.equal(
+        listingOwnerDai.add(daiAmount.sub(treasuryDaiAmount)),
+      );
+      expect(await ethers.provider.getBalance(treasury.address)).to.be.equal(treasuryEth.add(treasuryEthAmount));
+      expect(await ethers.provider.getBalance(listingOwner.address)).to.be.equal(
+        listingOwnerEth.add(ethAmount.sub(treasuryEthAmount)),
+      );
+      expect(await currency.balanceOf(treasury.address)).to.be.equal(
+        treasuryCurrency.add(currencyAmount.mul(FEES).div(TARGET_FUNDING)),
+      );
+    });
+  });
+
+  describe("Success", () => {
+    let iroId: BigNumber;
+
+    before(async () => {
+      // create and fully fund an IRO
+      iroId = await createIRO(fixture);
+      await advanceToStatus(fixture, iroId, IROStatus.FUNDING);
+      await commit(fixture, iroId, user, 10);
+    });
+
+    it("claim: reverts with 'IRO not finished' if IRO is still funding", async () => {
+      // should revert with "IRO not finished"
+      await expect(iro.connect(user).claim(iroId, user.address)).to.be.revertedWith("IRO not finished");
+    });
+
+    it("withdraw: reverts with 'IRO not successful' if IRO is still funding", async () => {
+      // should revert with "IRO not successful"
+      await expect(iro.connect(owner).withdraw(iroId)).to.be.revertedWith("IRO not successful");
+    });
+
+    it("claim: should emit 'RealEstateCreated' and 'TokensClaimed' on the first claim", async () => {
+      // fund the remaining tokens and reach the end
+      await fundIRO(fixture, iroId, [user, user2]);
+      await advanceToStatus(fixture, iroId, IROStatus.SUCCESS);
+      const realEstateId = await realEstateNft.nextRealEstateId();
+      const amount = (await iro.commits(iroId, user.address)).div(UNIT_PRICE);
+
+      // should emit "RealEstateCreated" and "TokensClaimed"
+      await expect(iro.connect(user).claim(iroId, user.address))
+        .to.emit(iro, "RealEstateCreated")
+        .withArgs(iroId, realEstateId)
+        .and.to.emit(iro, "TokensClaimed")
+        .withArgs(iroId, user.address, user.address, amount);
+
+      // check minted tokens
+      expect(await iro.realEstateIdSet(iroId)).to.be.equal(true);
+      expect(await iro.realEstateId(iroId)).to.be.equal(realEstateId);
+      expect(await realEstateNft.balanceOf(user.address, realEstateId)).to.be.equal(amount);
+      expect(await iro.commits(iroId, user.address)).to.be.equal(0);
+      expect(await iro.unclaimedUnits(realEstateId)).to.be.equal(EXPECTED_SUPPLY.sub(amount));
+    });
+
+    it("claim: reverts with 'Nothing to mint' if already claimed", async () => {
+      // should revert with "Nothing to mint"
+      await expect(iro.connect(user).claim(iroId, user.address)).to.be.revertedWith("Nothing to mint");
+    });
+
+    it("claim: reverts with 'Nothing to mint' if user has not committed", async () => {
+      // should revert with "Nothing to mint"
+      await expect(iro.connect(listingOwner).claim(iroId, listingOwner.address)).to.be.revertedWith("Nothing to mint");
+    });
+
+    it("claim: should mint to the same real estate ID and another receiver", async () => {
+      const realEstateId = await iro.realEstateId(iroId);
+      const amount = (await iro.commits(iroId, user2.address)).div(UNIT_PRICE);
+
+      // should emit "TokensClaimed" only
+      await expect(iro.connect(user2).claim(iroId, listingOwner.address))
+        .to.emit(iro, "TokensClaimed")
+        .withArgs(iroId, user2.address, listingOwner.address, amount)
+        .and.not.to.emit(iro, "RealEstateCreated");
+
+      // check supply
+      expect(await realEstateNft.balanceOf(listingOwner.address, realEstateId)).to.be.equal(amount);
+      expect(await realEstateNft.totalSupply(realEstateId)).to.be.equal(EXPECTED_SUPPLY);
+      expect(await iro.unclaimedUnits(realEstateId)).to.be.equal(0);
+    });
+
+    it("withdraw: should emit 'FundsWithdrawn' and split funds between treasury and listing owner", async () => {
+      const iroBalance = await currency.balanceOf(iro.address);
+      const treasuryBalance = await currency.balanceOf(treasury.address);
+      const listingOwnerBalance = await currency.balanceOf(listingOwner.address);
+
+      // should emit "FundsWithdrawn"
+      await expect(iro.connect(user).withdraw(iroId))
+        .to.emit(iro, "FundsWithdrawn")
+        .withArgs(iroId, user.address, ASSET_PRICE, TREASURY_FEE, OPERATION_FEE);
+
+      // check balances
+      expect(await iro.fundsWithdrawn(iroId)).to.be.equal(true);
+      expect(await currency.balanceOf(treasury.address)).to.be.equal(
+        treasuryBalance.add(TREASURY_FEE).add(OPERATION_FEE),
+      );
+      expect(await currency.balanceOf(listingOwner.address)).to.be.equal(listingOwnerBalance.add(ASSET_PRICE));
+      expect(await currency.balanceOf(iro.address)).to.be.equal(iroBalance.sub(TARGET_FUNDING));
+    });
+
+    it("withdraw: reverts with 'Already withdrawn' if funds have been withdrawn", async () => {
+      // should revert with "Already withdrawn"
+      await expect(iro.connect(owner).withdraw(iroId)).to.be.revertedWith("Already withdrawn");
+    });
+  });
+
+  describe("Fail", () => {
+    let iroId: BigNumber;
+
+    const AMOUNT_TO_PURCHASE = BigNumber.from(100);
+
+    before(async () => {
+      // create a partially funded IRO and reach the end
+      iroId = await createIRO(fixture);
+      await advanceToStatus(fixture, iroId, IROStatus.FUNDING);
+      await commit(fixture, iroId, user, AMOUNT_TO_PURCHASE);
+      await advanceToStatus(fixture, iroId, IROStatus.FAIL);
+    });
+
+    it("commit: reverts with 'IRO is not active' if IRO failed", async () => {
+      // should revert with "IRO is not active"
+      await expect(commit(fixture, iroId, user, 1)).to.be.revertedWith("IRO is not active");
+    });
+
+    it("withdraw: reverts with 'IRO not successful' if IRO failed", async () => {
+      // should revert with "IRO not successful"
+      await expect(iro.connect(owner).withdraw(iroId)).to.be.revertedWith("IRO not successful");
+    });
+
+    it("claim: should emit 'CashBack' and refund the commit", async () => {
+      const value = UNIT_PRICE.mul(AMOUNT_TO_PURCHASE);
+      const balance = await currency.balanceOf(user2.address);
+
+      // should emit "CashBack"
+      await expect(iro.connect(user).claim(iroId, user2.address))
+        .to.emit(iro, "CashBack")
+        .withArgs(iroId, user.address, user2.address, value);
+
+      // check refund
+      expect(await currency.balanceOf(user2.address)).to.be.equal(balance.add(value));
+      expect(await iro.commits(iroId, user.address)).to.be.equal(0);
+      expect(await iro.realEstateIdSet(iroId)).to.be.equal(false);
+    });
+
+    it("claim: reverts with 'Nothing to mint' if already refunded", async () => {
+      // should revert with "Nothing to mint"
+      await expect(iro.connect(user).claim(iroId, user.address)).to.be.revertedWith("Nothing to mint");
+    });
+  });
+
+  describe("Commit with permit", () => {
+    let iroId: BigNumber;
+    let deadline: BigNumber;
+    let signature: string;
+
+    const AMOUNT_TO_PURCHASE = BigNumber.from(10);
+    const PERMIT_VALIDITY = BigNumber.from("259200"); // 3 days
+
+    before(async () => {
+      // create an IRO starting right away
+      iroId = await createIRO(fixture, { startOffset: 0 });
+
+      // mint currency to user
+      await currency.connect(owner).freeMint(user.address, UNIT_PRICE.mul(AMOUNT_TO_PURCHASE));
+    });
+
+    beforeEach(async () => {
+      // sign permit for the purchase price
+      deadline = BigNumber.from(await now()).add(PERMIT_VALIDITY);
+      signature = await signPermit(user, UNIT_PRICE.mul(AMOUNT_TO_PURCHASE), deadline);
+    });
+
+    /**
+     * @dev Sign an IRO currency permit allowing the IRO contract to spend funds
+     * @param signer Permit signer
+     * @param value Amount allowed
+     * @param deadline Permit validity
+     */
+    async function signPermit(signer: SignerWithAddress, value: BigNumber, deadline: BigNumber) {
+      // define domain
+      const domain = {
+        name: await currency.name(),
+        version: "1",
+        chainId: network.config.chainId,
+        verifyingContract: currency.address,
+      };
+
+      // define permit type
+      const types = {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      };
+
+      // define permit value
+      const values = {
+        owner: signer.address,
+        spender: iro.address,
+        value,
+        nonce: await currency.nonces(signer.address),
+        deadline,
+      };
+
+      // get signature
+      return signer._signTypedData(domain, types, values);
+    }
+
+    it("commitWithPermit: reverts with 'ERC20Permit: deadline reached' if deadline has passed", async () => {
+      // advance time
+      await setBlockTimestamp(deadline.toNumber());
+
+      // should revert with "ERC20Permit: deadline reached"
+      await expect(
+        iro.connect(user).commitWithPermit(iroId, AMOUNT_TO_PURCHASE, deadline, signature),
+      ).to.be.revertedWith("ERC20Permit: deadline reached");
+    });
+
+    it("commitWithPermit: reverts with 'ERC20Permit: invalid permit' if permit is signed by another account", async () => {
+      // sign permit with a different account
+      signature = await signPermit(listingOwner, UNIT_PRICE.mul(AMOUNT_TO_PURCHASE), deadline);
+
+      // should revert with "ERC20Permit: invalid permit"
+      await expect(
+        iro.connect(user).commitWithPermit(iroId, AMOUNT_TO_PURCHASE, deadline, signature),
+      ).to.be.revertedWith("ERC20Permit: invalid permit");
+    });
+
+    it("commitWithPermit: reverts with 'ERC20Permit: invalid permit' if amount differs from the signed one", async () => {
+      // should revert with "ERC20Permit: invalid permit"
+      await expect(
+        iro.connect(user).commitWithPermit(iroId, AMOUNT_TO_PURCHASE.sub(1), deadline, signature),
+      ).to.be.revertedWith("ERC20Permit: invalid permit");
+    });
+
+    it("commitWithPermit: should emit 'Commit' without a prior approval and leave no allowance", async () => {
+      const balance = await currency.balanceOf(iro.address);
+
+      // should emit "Commit"
+      await expect(iro.connect(user).commitWithPermit(iroId, AMOUNT_TO_PURCHASE, deadline, signature))
+        .to.emit(iro, "Commit")
+        .withArgs(iroId, user.address, currency.address, UNIT_PRICE.mul(AMOUNT_TO_PURCHASE), AMOUNT_TO_PURCHASE);
+
+      // check commit, balances and allowance
+      expect(await iro.commits(iroId, user.address)).to.be.equal(UNIT_PRICE.mul(AMOUNT_TO_PURCHASE));
+      expect(await currency.balanceOf(iro.address)).to.be.equal(balance.add(UNIT_PRICE.mul(AMOUNT_TO_PURCHASE)));
+      expect(await currency.allowance(user.address, iro.address)).to.be.equal(0);
+    });
+
+    it("commitWithPermit: should commit if the permit was front-run with the same signature", async () => {
+      // mint currency to user
+      await currency.connect(owner).freeMint(user.address, UNIT_PRICE.mul(AMOUNT_TO_PURCHASE));
+      const commitBefore = await iro.commits(iroId, user.address);
+
+      // submit the permit from another account, consuming its nonce
+      await currency
+        .connect(listingOwner)
+        .permit(user.address, iro.address, UNIT_PRICE.mul(AMOUNT_TO_PURCHASE), deadline, signature);
+
+      // should emit "Commit"
+      await expect(iro.connect(user).commitWithPermit(iroId, AMOUNT_TO_PURCHASE, deadline, signature))
+        .to.emit(iro, "Commit")
+        .withArgs(iroId, user.address, currency.address, UNIT_PRICE.mul(AMOUNT_TO_PURCHASE), AMOUNT_TO_PURCHASE);
+      expect(await iro.commits(iroId, user.address)).to.be.equal(commitBefore.add(UNIT_PRICE.mul(AMOUNT_TO_PURCHASE)));
+      expect(await currency.allowance(user.address, iro.address)).to.be.equal(0);
+    });
+  });
+
+  describe("Reserves", () => {
+    let iroId: BigNumber;
+    let reserves: RealEstateReserves;
+
+    const RESERVES_SHARE = 4000;
+    const VACANCY_SHARE = 2500;
+
+    before(async () => {
+      // deploy RealEstateReserves and route a share of the operation fee to it
+      const reservesFactory = <RealEstateReserves__factory>await ethers.getContractFactory("RealEstateReserves");
+      reserves = await reservesFactory.deploy(owner.address, VACANCY_SHARE);
+      await iro.connect(owner).setReserves(reserves.address, RESERVES_SHARE);
+
+      // create and fully fund an IRO
+      iroId = await createIRO(fixture, { startOffset: 0 });
+      await fundIRO(fixture, iroId, [user, user2]);
+      await advanceToStatus(fixture, iroId, IROStatus.SUCCESS);
+    });
+
+    after(async () => {
+      // send the operation fee back to the treasury only
+      await iro.connect(owner).setReserves(ethers.constants.AddressZero, 0);
+    });
+
+    it("withdraw: should keep the reserves share of the operation fee pending until the real estate ID is minted", async () => {
+      const treasuryBalance = await currency.balanceOf(treasury.address);
+      const listingOwnerBalance = await currency.balanceOf(listingOwner.address);
+      const reservesAmount = OPERATION_FEE.mul(RESERVES_SHARE).div(10000);
+
+      // should not create the real estate ID before claims
+      await expect(iro.connect(owner).withdraw(iroId))
+        .to.emit(iro, "FundsWithdrawn")
+        .and.not.to.emit(iro, "RealEstateCreated");
+      expect(await iro.realEstateIdSet(iroId)).to.be.equal(false);
+
+      // check balances and pending reserves
+      expect(await currency.balanceOf(treasury.address)).to.be.equal(
+        treasuryBalance.add(TREASURY_FEE).add(OPERATION_FEE).sub(reservesAmount),
+      );
+      expect(await currency.balanceOf(listingOwner.address)).to.be.equal(listingOwnerBalance.add(ASSET_PRICE));
+      expect(await iro.pendingReserves(iroId, currency.address)).to.be.equal(reservesAmount);
+      expect(await currency.balanceOf(reserves.address)).to.be.equal(0);
+    });
+
+    it("claim: should deposit the pending reserves to the real estate ID minted on the first claim", async () => {
+      const reservesAmount = OPERATION_FEE.mul(RESERVES_SHARE).div(10000);
+      const realEstateId = await realEstateNft.nextRealEstateId();
+
+      // should emit "RealEstateCreated" and "Deposit" from the reserves
+      await expect(iro.connect(user).claim(iroId, user.address))
+        .to.emit(iro, "RealEstateCreated")
+        .withArgs(iroId, realEstateId)
+        .and.to.emit(reserves, "Deposit")
+        .withArgs(realEstateId, iro.address, currency.address, 1, reservesAmount.mul(VACANCY_SHARE).div(10000));
+
+      // check balances and buffers
+      expect(await realEstateNft.balanceOf(user.address, realEstateId)).to.be.gt(0);
+      expect(await iro.pendingReserves(iroId, currency.address)).to.be.equal(0);
+      expect(await currency.balanceOf(reserves.address)).to.be.equal(reservesAmount);
+      expect(await reserves.reserves(realEstateId, currency.address)).to.be.equal(reservesAmount);
+      expect(await reserves.bufferBalance(realEstateId, currency.address, 1)).to.be.equal(
+        reservesAmount.mul(VACANCY_SHARE).div(10000),
+      );
+      expect(await currency.allowance(iro.address, reserves.address)).to.be.equal(0);
+
+      // should not deposit again on the next claims
+      await expect(iro.connect(user2).claim(iroId, user2.address))
+        .to.emit(iro, "TokensClaimed")
+        .and.not.to.emit(reserves, "Deposit");
+    });
+
+    it("withdraw: should deposit the reserves of IROs withdrawn before any claim to distinct real estate IDs", async () => {
+      const reservesAmount = OPERATION_FEE.mul(RESERVES_SHARE).div(10000);
+      const reservesBalance = await currency.balanceOf(reserves.address);
+
+      // fund and withdraw two IROs before claiming any of them
+      const iroA = await createIRO(fixture, { startOffset: 0 });
+      const iroB = await createIRO(fixture, { startOffset: 0 });
+      await fundIRO(fixture, iroA, [user]);
+      await fundIRO(fixture, iroB, [user2]);
+      await advanceToStatus(fixture, iroB, IROStatus.SUCCESS);
+      await iro.connect(owner).withdraw(iroA);
+      await iro.connect(owner).withdraw(iroB);
+
+      // claim the second IRO first, then the first one
+      await iro.connect(user2).claim(iroB, user2.address);
+      await iro.connect(user).claim(iroA, user.address);
+
+      // each IRO should have its own real estate ID, supply and reserves
+      const idA = await iro.realEstateId(iroA);
+      const idB = await iro.realEstateId(iroB);
+      expect(idA).to.not.be.equal(idB);
+      expect(await realEstateNft.totalSupply(idA)).to.be.equal(EXPECTED_SUPPLY);
+      expect(await realEstateNft.totalSupply(idB)).to.be.equal(EXPECTED_SUPPLY);
+      expect(await reserves.reserves(idA, currency.address)).to.be.equal(reservesAmount);
+      expect(await reserves.reserves(idB, currency.address)).to.be.equal(reservesAmount);
+      expect(await currency.balanceOf(reserves.address)).to.be.equal(reservesBalance.add(reservesAmount.mul(2)));
+    });
+
+    it("withdraw: should deposit the reserves directly once the real estate ID is minted", async () => {
+      const reservesAmount = OPERATION_FEE.mul(RESERVES_SHARE).div(10000);
+
+      // claim before withdrawing
+      const iroC = await createIRO(fixture, { startOffset: 0 });
+      await fundIRO(fixture, iroC, [user]);
+      await advanceToStatus(fixture, iroC, IROStatus.SUCCESS);
+      await iro.connect(user).claim(iroC, user.address);
+      const realEstateId = await iro.realEstateId(iroC);
+
+      // should emit "Deposit" from the reserves
+      await expect(iro.connect(owner).withdraw(iroC))
+        .to.emit(reserves, "Deposit")
+        .withArgs(realEstateId, iro.address, currency.address, 1, reservesAmount.mul(VACANCY_SHARE).div(10000));
+      expect(await iro.pendingReserves(iroC, currency.address)).to.be.equal(0);
+      expect(await reserves.reserves(realEstateId, currency.address)).to.be.equal(reservesAmount);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+// PriceOracle.test.ts: Unit tests for PriceOracle contract
+
+// Solidity extension for chai
+import { solidity } from "ethereum-waffle";
+
+// Use Chai for testing
+import chai from "chai";
+import { expect } from "chai";
+// Setup chai plugins
+chai.use(solidity);
+
+// Import contract types
+import type {
+  AggregatorV3Mock,
+  AggregatorV3Mock__factory,
+  ERC20PermitMock,
+  ERC20PermitMock__factory,
+  PriceOracle,
+  PriceOracle__factory,
+  USDTMock,
+  USDTMock__factory,
+} from "../../typechain-types";
+
+// HardhatRuntimeEnvironment
+import { ethers } from "hardhat";
+
+// Get SignerWithAddress
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+// Import EVM utils
+import { now, setBlockTimestamp } from "../utils/evm_utils";
+
+describe("PriceOracle Unit Tests", () => {
+  let owner: SignerWithAddress;
+  let user: SignerWithAddress;
+  let usdt: USDTMock;
+  let dai: ERC20PermitMock;
+  let ethAggregator: AggregatorV3Mock;
+  let daiAggregator: AggregatorV3Mock;
+  let priceOracle: PriceOracle;
+
+  const ETH = ethers.constants.AddressZero;
+  const ETH_PRICE = ethers.utils.parseUnits("2000", 8);
+  const DAI_PRICE = ethers.utils.parseUnits("1", 18);
+  const MAX_DELAY = 86400; // 1 day
+
+  before(async () => {
+    // get signers
+    [owner, user] = await ethers.getSigners();
+
+    // deploy USDT
+    const usdtFactory = <USDTMock__factory>await ethers.getContractFactory("USDTMock");
+    usdt = await usdtFactory.deploy(owner.address);
+
+    // deploy DAI
+    const daiFactory = <ERC20PermitMock__factory>await ethers.getContractFactory("ERC20PermitMock");
+    dai = await daiFactory.deploy("DAI Mock", "DAI");
+
+    // deploy ETH / USDT aggregator
+    const aggregatorFactory = <AggregatorV3Mock__factory>await ethers.getContractFactory("AggregatorV3Mock");
+    ethAggregator = await aggregatorFactory.deploy(8, "ETH / USDT", ETH_PRICE);
+
+    // deploy DAI / USDT aggregator (with 18 decimals)
+    daiAggregator = await aggregatorFactory.deploy(18, "DAI / USDT", DAI_PRICE);
+
+    // deploy PriceOracle
+    const priceOracleFactory = <PriceOracle__factory>await ethers.getContractFactory("PriceOracle");
+    priceOracle = await priceOracleFactory.deploy(owner.address);
+  });
+
+  it("setAggregator: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+    // should revert with "Ownable: caller is not the owner"
+    await expect(priceOracle.connect(user).setAggregator(ETH, usdt.address, ethAggregator.address)).to.be.revertedWith(
+      "Ownable: caller is not the owner",
+    );
+  });
+
+  it("getPrice: reverts with 'Aggregator not set' if there is no aggregator for the pair", async () => {
+    // should revert with "Aggregator not set"
+    await expect(priceOracle.getPrice(ETH, usdt.address)).to.be.revertedWith("Aggregator not set");
+  });
+
+  it("setAggregator: should emit 'SetAggregator'", async () => {
+    // should emit "SetAggregator"
+    await expect(priceOracle.connect(owner).setAggregator(ETH, usdt.address, ethAggregator.address))
+      .to.emit(priceOracle, "SetAggregator")
+      .withArgs(owner.address, ETH, usdt.address, ethAggregator.address);
+
+    // check aggregator
+    expect(await priceOracle.priceAggregator(ETH, usdt.address)).to.be.equal(ethAggregator.address);
+  });
+
+  it("getPrice: should return the price with the quote currency decimals", async () => {
+    // check price of 1 ETH in USDT (6 decimals)
+    expect(await priceOracle.getPrice(ETH, usdt.address)).to.be.equal(ethers.utils.parseUnits("2000", 6));
+  });
+
+  it("getPrice: reverts with 'Invalid price' if aggregator answer is not positive", async () => {
+    // set a negative answer
+    await ethAggregator.setAnswer(-1);
+
+    // should revert with "Invalid price"
+    await expect(priceOracle.getPrice(ETH, usdt.address)).to.be.revertedWith("Invalid price");
+
+    // restore answer
+    await ethAggregator.setAnswer(ETH_PRICE);
+  });
+
+  it("getPrice: should normalize aggregator decimals to the quote currency decimals", async () => {
+    // set DAI / USDT aggregator
+    await priceOracle.connect(owner).setAggregator(dai.address, usdt.address, daiAggregator.address);
+
+    // check price of 1 DAI in USDT (6 decimals)
+    expect(await priceOracle.getPrice(dai.address, usdt.address)).to.be.equal(ethers.utils.parseUnits("1", 6));
+  });
+
+  it("getPrice: should use the inverse pair aggregator if the pair has none", async () => {
+    // check price of 1 USDT in ETH (18 decimals)
+    expect(await priceOracle.getPrice(usdt.address, ETH)).to.be.equal(ethers.utils.parseEther("0.0005"));
+  });
+
+  it("getPrice: should return one unit if base and quote are the same", async () => {
+    // check price of 1 USDT in USDT
+    expect(await priceOracle.getPrice(usdt.address, usdt.address)).to.be.equal(ethers.utils.parseUnits("1", 6));
+  });
+
+  it("setRoute: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+    // should revert with "Ownable: caller is not the owner"
+    await expect(priceOracle.connect(user).setRoute(ETH, dai.address, usdt.address, true)).to.be.revertedWith(
+      "Ownable: caller is not the owner",
+    );
+  });
+
+  it("setRoute: reverts with 'Invalid route' if intermediate currency is part of the pair", async () => {
+    // should revert with "Invalid route"
+    await expect(priceOracle.connect(owner).setRoute(ETH, dai.address, dai.address, true)).to.be.revertedWith(
+      "Invalid route",
+    );
+  });
+
+  it("setRoute: should emit 'SetRoute' and derive the pair price", async () => {
+    // should revert with "Aggregator not set"
+    await expect(priceOracle.getPrice(ETH, dai.address)).to.be.revertedWith("Aggregator not set");
+
+    // should emit "SetRoute"
+    await expect(priceOracle.connect(owner).setRoute(ETH, dai.address, usdt.address, true))
+      .to.emit(priceOracle, "SetRoute")
+      .withArgs(owner.address, ETH, dai.address, usdt.address);
+
+    // check price of 1 ETH in DAI (ETH / USDT and inverse of DAI / USDT)
+    expect(await priceOracle.getPrice(ETH, dai.address)).to.be.equal(ethers.utils.parseEther("2000"));
+  });
+
+  it("setMaxDelay: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+    // should revert with "Ownable: caller is not the owner"
+    await expect(priceOracle.connect(user).setMaxDelay(MAX_DELAY)).to.be.revertedWith(
+      "Ownable: caller is not the owner",
+    );
+  });
+
+  it("setMaxDelay: should emit 'SetMaxDelay'", async () => {
+    // should emit "SetMaxDelay"
+    await expect(priceOracle.connect(owner).setMaxDelay(MAX_DELAY))
+      .to.emit(priceOracle, "SetMaxDelay")
+      .withArgs(owner.address, MAX_DELAY);
+  });
+
+  it("getPrice: reverts with 'Stale price' if aggregator answer is older than the maximum delay", async () => {
+    // advance time
+    await setBlockTimestamp((await ethAggregator.updatedAt()).toNumber() + MAX_DELAY + 1);
+
+    // should revert with "Stale price" (direct, inverse and derived pairs)
+    await expect(priceOracle.getPrice(ETH, usdt.address)).to.be.revertedWith("Stale price");
+    await expect(priceOracle.getPrice(usdt.address, ETH)).to.be.revertedWith("Stale price");
+    await expect(priceOracle.getPrice(ETH, dai.address)).to.be.revertedWith("Stale price");
+
+    // update answer
+    await ethAggregator.setAnswer(ETH_PRICE);
+    await daiAggregator.setUpdatedAt(await now());
+    expect(await priceOracle.getPrice(ETH, dai.address)).to.be.equal(ethers.utils.parseEther("2000"));
+  });
+});
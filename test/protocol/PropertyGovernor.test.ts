@@ -0,0 +1,347 @@
+// PropertyGovernor.test.ts: Unit tests for PropertyGovernor contract
+
+// Solidity extension for chai
+import { solidity } from "ethereum-waffle";
+
+// Use Chai for testing
+import chai from "chai";
+import { expect } from "chai";
+// Setup chai plugins
+chai.use(solidity);
+
+// Import contract types
+import type {
+  ERC20PermitMock,
+  ERC20PermitMock__factory,
+  InitialRealEstateOfferingMock__factory,
+  PropertyGovernor,
+  PropertyGovernor__factory,
+  RealEstateERC1155,
+  RealEstateERC1155__factory,
+  RealEstateRedemption,
+  RealEstateRedemption__factory,
+  RealEstateReserves,
+  RealEstateReserves__factory,
+} from "../../typechain-types";
+
+// HardhatRuntimeEnvironment
+import { ethers, upgrades } from "hardhat";
+
+// Get BigNumber
+import { BigNumber } from "@ethersproject/bignumber";
+
+// Get SignerWithAddress
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+// Import EVM utils
+import { now, setBlockTimestamp } from "../utils/evm_utils";
+
+// Import reserves buffers
+import { ReservesBuffer } from "../../sdk/reserves";
+
+// Proposal states, in the same order as PropertyGovernor.ProposalState
+enum ProposalState {
+  Active,
+  Defeated,
+  Succeeded,
+  Executed,
+}
+
+// Vote types, in the same order as PropertyGovernor.VoteType
+enum VoteType {
+  Against,
+  For,
+  Abstain,
+}
+
+describe("PropertyGovernor Unit Tests", () => {
+  let owner: SignerWithAddress;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let holder: SignerWithAddress;
+  let otherHolder: SignerWithAddress;
+  let smallHolder: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let currency: ERC20PermitMock;
+  let realEstateNft: RealEstateERC1155;
+  let reserves: RealEstateReserves;
+  let redemption: RealEstateRedemption;
+  let governor: PropertyGovernor;
+
+  const ID = 0;
+  const OTHER_ID = 1;
+  const HOLDING = BigNumber.from("600");
+  const OTHER_HOLDING = BigNumber.from("300");
+  const SMALL_HOLDING = BigNumber.from("100");
+  const PROCEEDS = BigNumber.from("1000000");
+  const VOTING_PERIOD = 7 * 86400; // 1 week
+  const QUORUM = 2000; // 20%
+  const PROPOSAL_THRESHOLD = 100; // 1%
+
+  // wait for the end of the vote of a proposal
+  async function endVote(proposalId: BigNumber) {
+    await setBlockTimestamp((await governor.getProposal(proposalId)).voteEnd.toNumber() + 1);
+  }
+
+  // create a proposal and return its ID
+  async function propose(proposer: SignerWithAddress, target: string, data: string, description: string) {
+    const proposalId = await governor.proposalLength();
+    await governor.connect(proposer).propose(ID, target, data, description);
+    return proposalId;
+  }
+
+  before(async () => {
+    // get signers
+    [owner, admin, minter, holder, otherHolder, smallHolder, buyer] = await ethers.getSigners();
+
+    // deploy the currency of the yield and the sale proceeds
+    const currencyFactory = <ERC20PermitMock__factory>await ethers.getContractFactory("ERC20PermitMock");
+    currency = await currencyFactory.deploy("Currency", "CUR");
+
+    // deploy RealEstateERC1155, mint the units of two properties
+    const realEstateNftFactory = <RealEstateERC1155__factory>await ethers.getContractFactory("RealEstateERC1155");
+    realEstateNft = <RealEstateERC1155>(
+      await upgrades.deployProxy(realEstateNftFactory, [
+        "https://test.com/",
+        admin.address,
+        admin.address,
+        currency.address,
+      ])
+    );
+    await realEstateNft.connect(admin).setMinter(minter.address);
+    await realEstateNft.connect(minter).mint(ID, holder.address, HOLDING);
+    await realEstateNft.connect(minter).mint(ID, otherHolder.address, OTHER_HOLDING);
+    await realEstateNft.connect(minter).mint(ID, smallHolder.address, SMALL_HOLDING);
+    await realEstateNft.connect(minter).mint(OTHER_ID, holder.address, HOLDING);
+
+    // deploy PropertyGovernor and let it snapshot the reNFT balances
+    const governorFactory = <PropertyGovernor__factory>await ethers.getContractFactory("PropertyGovernor");
+    governor = await governorFactory.deploy(
+      owner.address,
+      realEstateNft.address,
+      VOTING_PERIOD,
+      QUORUM,
+      PROPOSAL_THRESHOLD,
+    );
+    await realEstateNft.connect(admin).setPropertyGovernor(governor.address);
+
+    // deploy RealEstateReserves, an IRO mock and RealEstateRedemption owned by the governor, deposit the sale proceeds
+    const reservesFactory = <RealEstateReserves__factory>await ethers.getContractFactory("RealEstateReserves");
+    reserves = await reservesFactory.deploy(owner.address, 0);
+    const iroFactory = <InitialRealEstateOfferingMock__factory>(
+      await ethers.getContractFactory("InitialRealEstateOfferingMock")
+    );
+    const iro = await iroFactory.deploy();
+    const redemptionFactory = <RealEstateRedemption__factory>await ethers.getContractFactory("RealEstateRedemption");
+    redemption = await redemptionFactory.deploy(governor.address, realEstateNft.address, reserves.address, iro.address);
+    await reserves.connect(owner).setRedemption(redemption.address);
+    await currency.freeMint(owner.address, PROCEEDS);
+    await currency.connect(owner).approve(reserves.address, PROCEEDS);
+    await reserves.connect(owner).depositToBuffer(ID, ReservesBuffer.PROCEEDS, PROCEEDS, currency.address);
+  });
+
+  it("updateSnapshots: should revert with '!realEstateNft' if caller is not the reNFT contract", async () => {
+    // should revert with "!realEstateNft"
+    await expect(governor.updateSnapshots([ID], holder.address, buyer.address)).to.be.revertedWith("!realEstateNft");
+  });
+
+  it("setAllowedAction: should revert with 'Ownable: caller is not the owner' if caller is not the owner", async () => {
+    // should revert with "Ownable: caller is not the owner"
+    const selector = redemption.interface.getSighash("openRedemption");
+    await expect(governor.connect(holder).setAllowedAction(redemption.address, selector, true)).to.be.revertedWith(
+      "Ownable: caller is not the owner",
+    );
+  });
+
+  it("setAllowedAction: should revert with '!contract' if the target is not a contract", async () => {
+    // should revert with "!contract"
+    const selector = redemption.interface.getSighash("openRedemption");
+    await expect(governor.setAllowedAction(buyer.address, selector, true)).to.be.revertedWith("!contract");
+  });
+
+  it("setAllowedAction: should emit 'SetAllowedAction' on success", async () => {
+    // should emit "SetAllowedAction"
+    const selector = redemption.interface.getSighash("openRedemption");
+    await expect(governor.setAllowedAction(redemption.address, selector, true))
+      .to.emit(governor, "SetAllowedAction")
+      .withArgs(owner.address, redemption.address, selector, true);
+    expect(await governor.allowedActions(redemption.address, selector)).to.be.equal(true);
+
+    // should revert with "Same state"
+    await expect(governor.setAllowedAction(redemption.address, selector, true)).to.be.revertedWith("Same state");
+  });
+
+  it("setQuorum: should revert with 'Invalid share' above the denominator", async () => {
+    // should revert with "Invalid share"
+    await expect(governor.setQuorum(10001)).to.be.revertedWith("Invalid share");
+  });
+
+  it("propose: should revert with 'No units' if the token ID was not minted", async () => {
+    // should revert with "No units"
+    await expect(governor.connect(holder).propose(2, ethers.constants.AddressZero, "0x", "Sell")).to.be.revertedWith(
+      "No units",
+    );
+  });
+
+  it("propose: should revert with 'Balance below proposal threshold' without enough units", async () => {
+    // should revert with "Balance below proposal threshold"
+    await expect(governor.connect(buyer).propose(ID, ethers.constants.AddressZero, "0x", "Sell")).to.be.revertedWith(
+      "Balance below proposal threshold",
+    );
+  });
+
+  it("propose: should revert with 'Balance below proposal threshold' with units received in the same block", async () => {
+    // receive units and propose in the same block
+    await ethers.provider.send("evm_setAutomine", [false]);
+    const transferTx = await realEstateNft
+      .connect(holder)
+      .safeTransferFrom(holder.address, buyer.address, ID, HOLDING, "0x");
+    const tx = await governor
+      .connect(buyer)
+      .propose(ID, ethers.constants.AddressZero, "0x", "Sell", { gasLimit: 1000000 });
+    await ethers.provider.send("evm_mine", []);
+    await ethers.provider.send("evm_setAutomine", [true]);
+
+    // should revert, the proposal threshold is checked against the balances of the previous block
+    await expect(tx.wait()).to.be.reverted;
+    const [transferReceipt, receipt] = await Promise.all([
+      transferTx.wait(),
+      ethers.provider.getTransactionReceipt(tx.hash),
+    ]);
+    expect(receipt.blockNumber).to.be.equal(transferReceipt.blockNumber);
+    expect(receipt.transactionIndex).to.be.gt(transferReceipt.transactionIndex);
+    expect(await realEstateNft.balanceOf(buyer.address, ID)).to.be.equal(HOLDING);
+    await realEstateNft.connect(buyer).safeTransferFrom(buyer.address, holder.address, ID, HOLDING, "0x");
+  });
+
+  it("propose: should revert with 'Action not allowed' if the call was not allowed by the owner", async () => {
+    // should revert with "Action not allowed"
+    const data = redemption.interface.encodeFunctionData("closeRedemption", [ID]);
+    await expect(governor.connect(holder).propose(ID, redemption.address, data, "Close")).to.be.revertedWith(
+      "Action not allowed",
+    );
+  });
+
+  it("propose: should revert with 'Action on another property' if the call is not about the proposal token ID", async () => {
+    // should revert with "Action on another property"
+    const data = redemption.interface.encodeFunctionData("openRedemption", [OTHER_ID, currency.address]);
+    await expect(governor.connect(holder).propose(ID, redemption.address, data, "Sell")).to.be.revertedWith(
+      "Action on another property",
+    );
+  });
+
+  it("propose: should emit 'ProposalCreated' with the previous block as snapshot", async () => {
+    // should emit "ProposalCreated"
+    const timestamp = (await now()) + 100;
+    await setBlockTimestamp(timestamp - 1);
+    await expect(governor.connect(smallHolder).propose(ID, ethers.constants.AddressZero, "0x", "Change manager"))
+      .to.emit(governor, "ProposalCreated")
+      .withArgs(
+        0,
+        ID,
+        smallHolder.address,
+        await ethers.provider.getBlockNumber(),
+        timestamp + VOTING_PERIOD,
+        ethers.constants.AddressZero,
+        "0x",
+        "Change manager",
+      );
+    expect((await governor.getProposal(0)).quorum).to.be.equal(QUORUM);
+    expect(await governor.state(0)).to.be.equal(ProposalState.Active);
+  });
+
+  it("castVote: should use the balances of the snapshot", async () => {
+    // transfer and mint units after the snapshot
+    const proposalId = await propose(holder, ethers.constants.AddressZero, "0x", "Major repairs");
+    const snapshotBlock = (await governor.getProposal(proposalId)).snapshotBlock;
+    await realEstateNft.connect(holder).safeTransferFrom(holder.address, buyer.address, ID, 200, "0x");
+    await realEstateNft.connect(minter).mint(ID, buyer.address, 500);
+    expect(await governor.balanceOfAt(ID, holder.address, snapshotBlock)).to.be.equal(HOLDING);
+    expect(await governor.balanceOfAt(ID, buyer.address, snapshotBlock)).to.be.equal(0);
+    expect(await governor.totalSupplyAt(ID, snapshotBlock)).to.be.equal(HOLDING.add(OTHER_HOLDING).add(SMALL_HOLDING));
+
+    // should revert with "No votes"
+    await expect(governor.connect(buyer).castVote(proposalId, VoteType.For)).to.be.revertedWith("No votes");
+
+    // should emit "VoteCast" with the snapshot balance
+    await expect(governor.connect(holder).castVote(proposalId, VoteType.For))
+      .to.emit(governor, "VoteCast")
+      .withArgs(proposalId, holder.address, VoteType.For, HOLDING);
+
+    // should revert with "Already voted"
+    await expect(governor.connect(holder).castVote(proposalId, VoteType.Against)).to.be.revertedWith("Already voted");
+
+    // should revert with "Vote closed"
+    await endVote(proposalId);
+    await expect(governor.connect(otherHolder).castVote(proposalId, VoteType.For)).to.be.revertedWith("Vote closed");
+    expect(await governor.state(proposalId)).to.be.equal(ProposalState.Succeeded);
+
+    // should revert with "No action"
+    await expect(governor.execute(proposalId)).to.be.revertedWith("No action");
+
+    // give the units back, a later snapshot should use the new balances
+    await realEstateNft.connect(buyer).safeTransferFrom(buyer.address, holder.address, ID, 200, "0x");
+    const nextProposalId = await propose(holder, ethers.constants.AddressZero, "0x", "Repaint");
+    const nextSnapshotBlock = (await governor.getProposal(nextProposalId)).snapshotBlock;
+    expect(await governor.balanceOfAt(ID, buyer.address, nextSnapshotBlock)).to.be.equal(500);
+    expect(await governor.balanceOfAt(ID, buyer.address, snapshotBlock)).to.be.equal(0);
+    expect(await governor.balanceOfAt(ID, holder.address, snapshotBlock)).to.be.equal(HOLDING);
+  });
+
+  it("state: should be 'Defeated' if the quorum is not reached", async () => {
+    // vote for with less than the quorum
+    const proposalId = await propose(holder, ethers.constants.AddressZero, "0x", "Change manager");
+    await governor.connect(smallHolder).castVote(proposalId, VoteType.For);
+    await endVote(proposalId);
+    expect(await governor.state(proposalId)).to.be.equal(ProposalState.Defeated);
+  });
+
+  it("state: should keep the quorum of the proposal creation", async () => {
+    // lower the quorum below the votes cast after the proposal creation
+    const proposalId = await propose(holder, ethers.constants.AddressZero, "0x", "Change manager");
+    await governor.connect(smallHolder).castVote(proposalId, VoteType.For);
+    await governor.setQuorum(QUORUM / 4);
+
+    // should be "Defeated" with the quorum of the proposal creation
+    await endVote(proposalId);
+    expect(await governor.state(proposalId)).to.be.equal(ProposalState.Defeated);
+    await governor.setQuorum(QUORUM);
+  });
+
+  it("state: should be 'Defeated' if more units voted against", async () => {
+    // vote against with more units
+    const proposalId = await propose(holder, ethers.constants.AddressZero, "0x", "Change manager");
+    await governor.connect(otherHolder).castVote(proposalId, VoteType.For);
+    await governor.connect(holder).castVote(proposalId, VoteType.Against);
+    await governor.connect(smallHolder).castVote(proposalId, VoteType.Abstain);
+    await endVote(proposalId);
+    expect(await governor.state(proposalId)).to.be.equal(ProposalState.Defeated);
+
+    // should revert with "Proposal not successful"
+    await expect(governor.execute(proposalId)).to.be.revertedWith("Proposal not successful");
+  });
+
+  it("execute: should open the redemption of the property once the sale is approved", async () => {
+    // propose to open the redemption, vote for it
+    const data = redemption.interface.encodeFunctionData("openRedemption", [ID, currency.address]);
+    const proposalId = await propose(otherHolder, redemption.address, data, "Sell the property");
+    await governor.connect(otherHolder).castVote(proposalId, VoteType.For);
+    await governor.connect(smallHolder).castVote(proposalId, VoteType.Against);
+
+    // should revert with "Proposal not successful" while the vote is active
+    await expect(governor.execute(proposalId)).to.be.revertedWith("Proposal not successful");
+
+    // should emit "ProposalExecuted" and open the redemption
+    await endVote(proposalId);
+    const units = await realEstateNft.totalSupply(ID);
+    await expect(governor.connect(buyer).execute(proposalId))
+      .to.emit(governor, "ProposalExecuted")
+      .withArgs(proposalId, buyer.address)
+      .and.to.emit(redemption, "RedemptionOpened")
+      .withArgs(ID, governor.address, currency.address, PROCEEDS, units);
+    expect(await governor.state(proposalId)).to.be.equal(ProposalState.Executed);
+
+    // should revert with "Proposal not successful"
+    await expect(governor.execute(proposalId)).to.be.revertedWith("Proposal not successful");
+  });
+});
@@ -0,0 +1,240 @@
+// RealEstateCompounder.test.ts: Unit tests for RealEstateCompounder contract
+
+// Solidity extension for chai
+import { solidity } from "ethereum-waffle";
+
+// Use Chai for testing
+import chai from "chai";
+import { expect } from "chai";
+// Setup chai plugins
+chai.use(solidity);
+
+// Import contract types
+import type {
+  ERC1155RejecterMock__factory,
+  ERC20PermitMock,
+  ERC20PermitMock__factory,
+  RealEstateCompounder,
+  RealEstateCompounder__factory,
+  RealEstateERC1155,
+  RealEstateERC1155__factory,
+} from "../../typechain-types";
+
+// HardhatRuntimeEnvironment
+import { ethers, upgrades } from "hardhat";
+
+// Get BigNumber
+import { BigNumber } from "@ethersproject/bignumber";
+
+// Get SignerWithAddress
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+// Import EVM utils
+import { now, setBlockTimestamp } from "../utils/evm_utils";
+
+describe("RealEstateCompounder Unit Tests", () => {
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let depositor: SignerWithAddress;
+  let owner: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let holder: SignerWithAddress;
+  let otherHolder: SignerWithAddress;
+  let yieldCurrency: ERC20PermitMock;
+  let realEstateNft: RealEstateERC1155;
+  let compounder: RealEstateCompounder;
+
+  const ID = 0;
+  const HOLDING = BigNumber.from("100");
+  const INVENTORY = BigNumber.from("50");
+  const DEPOSIT = BigNumber.from("1000000");
+  const DURATION = 1000;
+  const UNIT_PRICE = BigNumber.from("150000");
+
+  before(async () => {
+    // get signers
+    [, admin, minter, depositor, owner, treasury, holder, otherHolder] = await ethers.getSigners();
+
+    // deploy the yield currency
+    const yieldCurrencyFactory = <ERC20PermitMock__factory>await ethers.getContractFactory("ERC20PermitMock");
+    yieldCurrency = await yieldCurrencyFactory.deploy("Yield Currency", "YDC");
+
+    // deploy RealEstateERC1155 and set roles
+    const realEstateNftFactory = <RealEstateERC1155__factory>await ethers.getContractFactory("RealEstateERC1155");
+    realEstateNft = <RealEstateERC1155>(
+      await upgrades.deployProxy(realEstateNftFactory, [
+        "https://test.com/",
+        admin.address,
+        admin.address,
+        yieldCurrency.address,
+      ])
+    );
+    await realEstateNft.connect(admin).setMinter(minter.address);
+    await realEstateNft.connect(admin).setDepositor(depositor.address);
+
+    // deploy RealEstateCompounder and set it as the reNFT compounder, whitelisted for the yield of its inventory
+    const compounderFactory = <RealEstateCompounder__factory>await ethers.getContractFactory("RealEstateCompounder");
+    compounder = await compounderFactory.deploy(owner.address, realEstateNft.address, treasury.address);
+    await realEstateNft.connect(admin).setCompounder(compounder.address);
+    await realEstateNft.connect(admin).toggleWhitelistContract(compounder.address, true);
+
+    // mint reNFTs to the holders and the compounder inventory
+    await realEstateNft.connect(minter).mint(ID, holder.address, HOLDING);
+    await realEstateNft.connect(minter).mint(ID, otherHolder.address, HOLDING);
+    await realEstateNft.connect(minter).mint(ID, compounder.address, INVENTORY);
+
+    // deposit yield and go past the end of the unlock period
+    await yieldCurrency.freeMint(depositor.address, DEPOSIT);
+    await yieldCurrency.connect(depositor).approve(realEstateNft.address, DEPOSIT);
+    await realEstateNft.connect(depositor).deposit(ID, DEPOSIT, DURATION, 0);
+    await setBlockTimestamp((await now()) + DURATION);
+  });
+
+  it("setUnitPrice: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+    // should revert with "Ownable: caller is not the owner"
+    await expect(compounder.connect(holder).setUnitPrice(ID, UNIT_PRICE)).to.be.revertedWith(
+      "Ownable: caller is not the owner",
+    );
+  });
+
+  it("compound: reverts with 'Unit price not set' if the unit price is not set", async () => {
+    // should revert with "Unit price not set"
+    await expect(compounder.compound(ID, [holder.address])).to.be.revertedWith("Unit price not set");
+  });
+
+  it("setUnitPrice: should emit 'SetUnitPrice' on success", async () => {
+    // should emit "SetUnitPrice"
+    await expect(compounder.connect(owner).setUnitPrice(ID, UNIT_PRICE))
+      .to.emit(compounder, "SetUnitPrice")
+      .withArgs(ID, owner.address, UNIT_PRICE);
+  });
+
+  it("setAutoCompound: should emit 'SetAutoCompound' on success", async () => {
+    // should emit "SetAutoCompound"
+    await expect(compounder.connect(holder).setAutoCompound(ID, true))
+      .to.emit(compounder, "SetAutoCompound")
+      .withArgs(ID, holder.address, true);
+  });
+
+  it("setAutoCompound: reverts with 'Same state' message if auto-compounding is already in that state", async () => {
+    // should revert with "Same state"
+    await expect(compounder.connect(holder).setAutoCompound(ID, true)).to.be.revertedWith("Same state");
+  });
+
+  it("compoundingProgress: should include the pending yield of opted-in accounts", async () => {
+    // holder is opted in, its pending yield counts towards the next units
+    const pendingYield = await realEstateNft.pendingYield(ID, holder.address);
+    const progress = await compounder.compoundingProgress(ID, holder.address);
+    expect(progress.enabled).to.be.equal(true);
+    expect(progress.accruedYield).to.be.equal(pendingYield);
+    expect(progress.unitPrice).to.be.equal(UNIT_PRICE);
+    expect(progress.units).to.be.equal(pendingYield.div(UNIT_PRICE));
+    expect(progress.missingForNextUnit).to.be.equal(UNIT_PRICE.sub(pendingYield.mod(UNIT_PRICE)));
+
+    // other holder is not opted in
+    const otherProgress = await compounder.compoundingProgress(ID, otherHolder.address);
+    expect(otherProgress.enabled).to.be.equal(false);
+    expect(otherProgress.accruedYield).to.be.equal(0);
+  });
+
+  it("compound: should buy units with the yield of opted-in accounts", async () => {
+    // get pending yields
+    const pendingYield = await realEstateNft.pendingYield(ID, holder.address);
+    const otherPendingYield = await realEstateNft.pendingYield(ID, otherHolder.address);
+    const units = pendingYield.div(UNIT_PRICE);
+    const cost = units.mul(UNIT_PRICE);
+
+    // should emit "Compound" for the opted-in holder only
+    await expect(compounder.compound(ID, [holder.address, otherHolder.address]))
+      .to.emit(compounder, "Compound")
+      .withArgs(ID, holder.address, units, cost);
+
+    // holder received the units, the treasury their payment and the rest is kept for the next units
+    expect(await realEstateNft.balanceOf(holder.address, ID)).to.be.equal(HOLDING.add(units));
+    expect(await realEstateNft.balanceOf(compounder.address, ID)).to.be.equal(INVENTORY.sub(units));
+    expect(await yieldCurrency.balanceOf(treasury.address)).to.be.equal(cost);
+    expect(await compounder.compoundBalance(ID, holder.address)).to.be.equal(pendingYield.sub(cost));
+    expect(await realEstateNft.pendingYield(ID, holder.address)).to.be.equal(0);
+
+    // yield of the other holder is left untouched
+    expect(await realEstateNft.pendingYield(ID, otherHolder.address)).to.be.equal(otherPendingYield);
+  });
+
+  it("compound: should not buy more units than the inventory", async () => {
+    // lower the unit price so that the yield left could buy more units than the inventory
+    const unitPrice = BigNumber.from("1000");
+    await compounder.connect(owner).setUnitPrice(ID, unitPrice);
+    const inventory = await realEstateNft.balanceOf(compounder.address, ID);
+    const balance = await compounder.compoundBalance(ID, holder.address);
+    expect(balance.div(unitPrice)).to.be.gt(inventory);
+
+    // should only buy the inventory
+    await expect(compounder.compound(ID, [holder.address]))
+      .to.emit(compounder, "Compound")
+      .withArgs(ID, holder.address, inventory, inventory.mul(unitPrice));
+    expect(await realEstateNft.balanceOf(compounder.address, ID)).to.be.equal(0);
+    expect(await compounder.compoundBalance(ID, holder.address)).to.be.equal(balance.sub(inventory.mul(unitPrice)));
+  });
+
+  it("setAutoCompound: should pay out the yield not spent on units when disabling", async () => {
+    // get yield not spent on units
+    const balance = await compounder.compoundBalance(ID, holder.address);
+    const balanceBefore = await yieldCurrency.balanceOf(holder.address);
+
+    // should emit "Refund"
+    await expect(compounder.connect(holder).setAutoCompound(ID, false))
+      .to.emit(compounder, "Refund")
+      .withArgs(ID, holder.address, balance);
+
+    // check balances
+    expect(await yieldCurrency.balanceOf(holder.address)).to.be.equal(balanceBefore.add(balance));
+    expect(await compounder.compoundBalance(ID, holder.address)).to.be.equal(0);
+  });
+
+  it("claimInventoryYield: should claim the yield of the inventory to the treasury", async () => {
+    // get pending yield of the inventory
+    const pendingYield = await realEstateNft.pendingYield(ID, compounder.address);
+    const balanceBefore = await yieldCurrency.balanceOf(treasury.address);
+    expect(pendingYield).to.be.gt(0);
+
+    // claim it to the treasury
+    await compounder.connect(owner).claimInventoryYield(ID);
+    expect(await yieldCurrency.balanceOf(treasury.address)).to.be.equal(balanceBefore.add(pendingYield));
+  });
+
+  it("compound: should skip accounts rejecting the units and keep their yield", async () => {
+    // deploy a holder contract, whitelisted for its yield, and opt it in
+    const rejecterFactory = <ERC1155RejecterMock__factory>await ethers.getContractFactory("ERC1155RejecterMock");
+    const rejecter = await rejecterFactory.deploy();
+    await realEstateNft.connect(admin).toggleWhitelistContract(rejecter.address, true);
+    await realEstateNft.connect(minter).mint(ID, rejecter.address, HOLDING);
+    const data = compounder.interface.encodeFunctionData("setAutoCompound", [ID, true]);
+    await rejecter.execute(compounder.address, data);
+    await compounder.connect(otherHolder).setAutoCompound(ID, true);
+
+    // refill the inventory and deposit new yield
+    await realEstateNft.connect(minter).mint(ID, compounder.address, INVENTORY);
+    await yieldCurrency.freeMint(depositor.address, DEPOSIT);
+    await yieldCurrency.connect(depositor).approve(realEstateNft.address, DEPOSIT);
+    await realEstateNft.connect(depositor).deposit(ID, DEPOSIT, DURATION, 0);
+    await setBlockTimestamp((await now()) + DURATION);
+
+    // the holder contract stops accepting ERC1155 transfers
+    await rejecter.setReject(true);
+    const pendingYield = await realEstateNft.pendingYield(ID, rejecter.address);
+    const unitPrice = await compounder.unitPrice(ID);
+    const units = pendingYield.div(unitPrice).gt(INVENTORY) ? INVENTORY : pendingYield.div(unitPrice);
+    expect(units).to.be.gt(0);
+
+    // should emit "CompoundSkipped" for the holder contract and "Compound" for the other holder
+    await expect(compounder.compound(ID, [rejecter.address, otherHolder.address]))
+      .to.emit(compounder, "CompoundSkipped")
+      .withArgs(ID, rejecter.address, units)
+      .and.to.emit(compounder, "Compound");
+
+    // the yield of the holder contract is kept for the next compounding
+    expect(await realEstateNft.balanceOf(rejecter.address, ID)).to.be.equal(HOLDING);
+    expect(await compounder.compoundBalance(ID, rejecter.address)).to.be.equal(pendingYield);
+    expect(await realEstateNft.balanceOf(otherHolder.address, ID)).to.be.gt(HOLDING);
+  });
+});
@@ -0,0 +1,232 @@
+// RealEstateRedemption.test.ts: Unit tests for RealEstateRedemption contract
+
+// Solidity extension for chai
+import { solidity } from "ethereum-waffle";
+
+// Use Chai for testing
+import chai from "chai";
+import { expect } from "chai";
+// Setup chai plugins
+chai.use(solidity);
+
+// Import contract types
+import type {
+  ERC20PermitMock,
+  ERC20PermitMock__factory,
+  InitialRealEstateOfferingMock,
+  InitialRealEstateOfferingMock__factory,
+  RealEstateERC1155,
+  RealEstateERC1155__factory,
+  RealEstateRedemption,
+  RealEstateRedemption__factory,
+  RealEstateReserves,
+  RealEstateReserves__factory,
+} from "../../typechain-types";
+
+// HardhatRuntimeEnvironment
+import { ethers, upgrades } from "hardhat";
+
+// Get BigNumber
+import { BigNumber } from "@ethersproject/bignumber";
+
+// Get SignerWithAddress
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+// Import EVM utils
+import { now, setBlockTimestamp } from "../utils/evm_utils";
+
+// Import reserves buffers
+import { ReservesBuffer } from "../../sdk/reserves";
+
+describe("RealEstateRedemption Unit Tests", () => {
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let depositor: SignerWithAddress;
+  let owner: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let holder: SignerWithAddress;
+  let otherHolder: SignerWithAddress;
+  let claimer: SignerWithAddress;
+  let currency: ERC20PermitMock;
+  let realEstateNft: RealEstateERC1155;
+  let reserves: RealEstateReserves;
+  let iro: InitialRealEstateOfferingMock;
+  let redemption: RealEstateRedemption;
+
+  const ID = 0;
+  const HOLDING = BigNumber.from("60");
+  const OTHER_HOLDING = BigNumber.from("40");
+  const UNCLAIMED_UNITS = BigNumber.from("25");
+  const UNITS = HOLDING.add(OTHER_HOLDING).add(UNCLAIMED_UNITS);
+  const PROCEEDS = BigNumber.from("1000000");
+  const RESERVES = BigNumber.from("500000");
+  const YIELD = BigNumber.from("100000");
+  const DURATION = 1000;
+
+  before(async () => {
+    // get signers
+    [, admin, minter, depositor, owner, buyer, holder, otherHolder, claimer] = await ethers.getSigners();
+
+    // deploy the currency of the yield and the sale proceeds
+    const currencyFactory = <ERC20PermitMock__factory>await ethers.getContractFactory("ERC20PermitMock");
+    currency = await currencyFactory.deploy("Currency", "CUR");
+
+    // deploy RealEstateERC1155 and set roles
+    const realEstateNftFactory = <RealEstateERC1155__factory>await ethers.getContractFactory("RealEstateERC1155");
+    realEstateNft = <RealEstateERC1155>(
+      await upgrades.deployProxy(realEstateNftFactory, [
+        "https://test.com/",
+        admin.address,
+        admin.address,
+        currency.address,
+      ])
+    );
+    await realEstateNft.connect(admin).setMinter(minter.address);
+    await realEstateNft.connect(admin).setDepositor(depositor.address);
+
+    // deploy RealEstateReserves, an IRO mock and RealEstateRedemption, set the redemption module as reNFT burner
+    const reservesFactory = <RealEstateReserves__factory>await ethers.getContractFactory("RealEstateReserves");
+    reserves = await reservesFactory.deploy(owner.address, 2500);
+    const iroFactory = <InitialRealEstateOfferingMock__factory>(
+      await ethers.getContractFactory("InitialRealEstateOfferingMock")
+    );
+    iro = await iroFactory.deploy();
+    const redemptionFactory = <RealEstateRedemption__factory>await ethers.getContractFactory("RealEstateRedemption");
+    redemption = await redemptionFactory.deploy(owner.address, realEstateNft.address, reserves.address, iro.address);
+    await reserves.connect(owner).setRedemption(redemption.address);
+    await realEstateNft.connect(admin).setBurner(redemption.address);
+
+    // mint reNFTs to the holders, who approve the redemption module
+    await realEstateNft.connect(minter).mint(ID, holder.address, HOLDING);
+    await realEstateNft.connect(minter).mint(ID, otherHolder.address, OTHER_HOLDING);
+    await realEstateNft.connect(holder).setApprovalForAll(redemption.address, true);
+    await realEstateNft.connect(otherHolder).setApprovalForAll(redemption.address, true);
+    await realEstateNft.connect(claimer).setApprovalForAll(redemption.address, true);
+
+    // deposit yield and go past the end of the unlock period
+    await currency.freeMint(depositor.address, YIELD);
+    await currency.connect(depositor).approve(realEstateNft.address, YIELD);
+    await realEstateNft.connect(depositor).deposit(ID, YIELD, DURATION, 0);
+    await setBlockTimestamp((await now()) + DURATION);
+  });
+
+  it("openRedemption: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+    // should revert with "Ownable: caller is not the owner"
+    await expect(redemption.connect(holder).openRedemption(ID, currency.address)).to.be.revertedWith(
+      "Ownable: caller is not the owner",
+    );
+  });
+
+  it("openRedemption: reverts with 'No proceeds' message if only the maintenance and vacancy buffers are funded", async () => {
+    // deposit to the maintenance and vacancy buffers
+    await currency.freeMint(buyer.address, RESERVES);
+    await currency.connect(buyer).approve(reserves.address, RESERVES);
+    await reserves.connect(buyer).deposit(ID, RESERVES, currency.address);
+
+    // should revert with "No proceeds"
+    await expect(redemption.connect(owner).openRedemption(ID, currency.address)).to.be.revertedWith("No proceeds");
+  });
+
+  it("openRedemption: should withdraw the sale proceeds only, counting the units not claimed from the IRO", async () => {
+    // deposit the sale proceeds to the reserves, leave units unclaimed in the IRO
+    await currency.freeMint(buyer.address, PROCEEDS);
+    await currency.connect(buyer).approve(reserves.address, PROCEEDS);
+    await reserves.connect(buyer).depositToBuffer(ID, ReservesBuffer.PROCEEDS, PROCEEDS, currency.address);
+    await iro.setUnclaimedUnits(ID, UNCLAIMED_UNITS);
+
+    // should emit "RedemptionOpened"
+    await expect(redemption.connect(owner).openRedemption(ID, currency.address))
+      .to.emit(redemption, "RedemptionOpened")
+      .withArgs(ID, owner.address, currency.address, PROCEEDS, UNITS);
+    expect(await reserves.bufferBalance(ID, currency.address, ReservesBuffer.PROCEEDS)).to.be.equal(0);
+    expect(await reserves.reserves(ID, currency.address)).to.be.equal(RESERVES);
+    expect(await currency.balanceOf(redemption.address)).to.be.equal(PROCEEDS);
+  });
+
+  it("openRedemption: reverts with 'Redemption open' message if the redemption is already open", async () => {
+    // should revert with "Redemption open"
+    await expect(redemption.connect(owner).openRedemption(ID, currency.address)).to.be.revertedWith("Redemption open");
+  });
+
+  it("redeem: reverts with 'Invalid units' message if redeeming more units than in circulation", async () => {
+    // should revert with "Invalid units"
+    await expect(redemption.connect(holder).redeem(ID, UNITS.add(1))).to.be.revertedWith("Invalid units");
+  });
+
+  it("redeem: should pay out a pro-rata share of the proceeds and the pending yield", async () => {
+    // get pending yield and expected payout
+    const units = BigNumber.from("20");
+    const payout = PROCEEDS.mul(units).div(UNITS);
+    const pendingYield = await realEstateNft.pendingYield(ID, holder.address);
+    expect(pendingYield).to.be.gt(0);
+    expect(await redemption.previewRedeem(ID, units)).to.be.equal(payout);
+
+    // should emit "Redeem"
+    await expect(redemption.connect(holder).redeem(ID, units))
+      .to.emit(redemption, "Redeem")
+      .withArgs(ID, holder.address, units, payout);
+
+    // check balances
+    expect(await realEstateNft.balanceOf(holder.address, ID)).to.be.equal(HOLDING.sub(units));
+    expect(await realEstateNft.totalSupply(ID)).to.be.equal(HOLDING.add(OTHER_HOLDING).sub(units));
+    expect(await currency.balanceOf(holder.address)).to.be.equal(payout.add(pendingYield));
+    expect(await realEstateNft.pendingYield(ID, holder.address)).to.be.equal(0);
+  });
+
+  it("redeem: should pay out the same share per unit on partial redemptions", async () => {
+    // redeem part of the other holder units
+    const units = BigNumber.from("10");
+    const payout = PROCEEDS.mul(units).div(UNITS);
+    await expect(redemption.connect(otherHolder).redeem(ID, units))
+      .to.emit(redemption, "Redeem")
+      .withArgs(ID, otherHolder.address, units, payout);
+
+    // check redemption state
+    const { funds, units: unitsLeft } = await redemption.redemptions(ID);
+    expect(unitsLeft).to.be.equal(UNITS.sub(30));
+    expect(funds).to.be.equal(PROCEEDS.mul(unitsLeft).div(UNITS));
+  });
+
+  it("redeem: should pay out the share of the units claimed from the IRO after the opening", async () => {
+    // claim the units left in the IRO
+    await realEstateNft.connect(minter).mint(ID, claimer.address, UNCLAIMED_UNITS);
+    await iro.setUnclaimedUnits(ID, 0);
+
+    // should emit "Redeem"
+    const payout = PROCEEDS.mul(UNCLAIMED_UNITS).div(UNITS);
+    await expect(redemption.connect(claimer).redeem(ID, UNCLAIMED_UNITS))
+      .to.emit(redemption, "Redeem")
+      .withArgs(ID, claimer.address, UNCLAIMED_UNITS, payout);
+    expect((await redemption.redemptions(ID)).units).to.be.equal(HOLDING.add(OTHER_HOLDING).sub(30));
+  });
+
+  it("closeRedemption: should return the proceeds left to the proceeds buffer", async () => {
+    // should emit "RedemptionClosed"
+    const { funds, units } = await redemption.redemptions(ID);
+    await expect(redemption.connect(owner).closeRedemption(ID))
+      .to.emit(redemption, "RedemptionClosed")
+      .withArgs(ID, owner.address, funds, units);
+    expect(await reserves.bufferBalance(ID, currency.address, ReservesBuffer.PROCEEDS)).to.be.equal(funds);
+    expect(await reserves.reserves(ID, currency.address)).to.be.equal(RESERVES);
+    expect(await currency.balanceOf(redemption.address)).to.be.equal(0);
+  });
+
+  it("redeem: reverts with 'Redemption closed' message if the redemption is closed", async () => {
+    // should revert with "Redemption closed"
+    await expect(redemption.connect(holder).redeem(ID, 1)).to.be.revertedWith("Redemption closed");
+  });
+
+  it("openRedemption: should keep the share per unit when reopening", async () => {
+    // reopen with the proceeds returned to the reserves
+    await redemption.connect(owner).openRedemption(ID, currency.address);
+
+    // redeem every unit left
+    const payout = PROCEEDS.mul(HOLDING.sub(20)).div(UNITS);
+    await expect(redemption.connect(holder).redeem(ID, HOLDING.sub(20)))
+      .to.emit(redemption, "Redeem")
+      .withArgs(ID, holder.address, HOLDING.sub(20), payout);
+    await redemption.connect(otherHolder).redeem(ID, OTHER_HOLDING.sub(10));
+    expect(await realEstateNft.totalSupply(ID)).to.be.equal(0);
+    expect((await redemption.redemptions(ID)).funds).to.be.equal(0);
+  });
+});
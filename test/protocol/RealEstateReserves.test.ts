@@ -0,0 +1,210 @@
+// RealEstateReserves.test.ts: Unit tests for RealEstateReserves contract
+
+// Solidity extension for chai
+import { solidity } from "ethereum-waffle";
+
+// Use Chai for testing
+import chai from "chai";
+import { expect } from "chai";
+// Setup chai plugins
+chai.use(solidity);
+
+// Import contract types
+import type {
+  ERC20PermitMock,
+  ERC20PermitMock__factory,
+  RealEstateReserves,
+  RealEstateReserves__factory,
+} from "../../typechain-types";
+
+// HardhatRuntimeEnvironment
+import { ethers } from "hardhat";
+
+// Get BigNumber
+import { BigNumber } from "@ethersproject/bignumber";
+
+// Get SignerWithAddress
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+// Buffers of the reserves
+enum Buffer {
+  Maintenance,
+  Vacancy,
+  Proceeds,
+}
+
+describe("RealEstateReserves Unit Tests", () => {
+  let owner: SignerWithAddress;
+  let redemption: SignerWithAddress;
+  let user: SignerWithAddress;
+  let contractor: SignerWithAddress;
+  let currency: ERC20PermitMock;
+  let otherCurrency: ERC20PermitMock;
+  let reserves: RealEstateReserves;
+
+  const ID = 0;
+  const AMOUNT = BigNumber.from("1000000");
+  const VACANCY_SHARE = 3000;
+  const VACANCY_AMOUNT = AMOUNT.mul(VACANCY_SHARE).div(10000);
+  const EXPENSE = BigNumber.from("50000");
+
+  before(async () => {
+    // get signers
+    [owner, redemption, user, contractor] = await ethers.getSigners();
+
+    // deploy currencies
+    const currencyFactory = <ERC20PermitMock__factory>await ethers.getContractFactory("ERC20PermitMock");
+    currency = await currencyFactory.deploy("Currency", "CUR");
+    otherCurrency = await currencyFactory.deploy("Other Currency", "OCUR");
+
+    // deploy RealEstateReserves
+    const reservesFactory = <RealEstateReserves__factory>await ethers.getContractFactory("RealEstateReserves");
+    reserves = await reservesFactory.deploy(owner.address, VACANCY_SHARE);
+
+    // approve funds
+    await currency.freeMint(user.address, AMOUNT.mul(2));
+    await currency.connect(user).approve(reserves.address, AMOUNT.mul(2));
+    await otherCurrency.freeMint(user.address, AMOUNT);
+    await otherCurrency.connect(user).approve(reserves.address, AMOUNT);
+  });
+
+  it("constructor: reverts with 'Invalid share' message if vacancy share exceeds the denominator", async () => {
+    // should revert with "Invalid share"
+    const reservesFactory = <RealEstateReserves__factory>await ethers.getContractFactory("RealEstateReserves");
+    await expect(reservesFactory.deploy(owner.address, 10001)).to.be.revertedWith("Invalid share");
+  });
+
+  it("setRedemption: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+    // should revert with "Ownable: caller is not the owner"
+    await expect(reserves.connect(user).setRedemption(redemption.address)).to.be.revertedWith(
+      "Ownable: caller is not the owner",
+    );
+  });
+
+  it("setRedemption: should emit 'SetRedemption' on success", async () => {
+    // should emit "SetRedemption"
+    await expect(reserves.setRedemption(redemption.address))
+      .to.emit(reserves, "SetRedemption")
+      .withArgs(owner.address, redemption.address);
+  });
+
+  it("setRedemption: reverts with 'Same redemption' message when setting the same redemption", async () => {
+    // should revert with "Same redemption"
+    await expect(reserves.setRedemption(redemption.address)).to.be.revertedWith("Same redemption");
+  });
+
+  it("setVacancyShare: reverts with 'Invalid share' message if share exceeds the denominator", async () => {
+    // should revert with "Invalid share"
+    await expect(reserves.setVacancyShare(10001)).to.be.revertedWith("Invalid share");
+  });
+
+  it("setVacancyShare: should emit 'SetVacancyShare' on success", async () => {
+    // should emit "SetVacancyShare"
+    await expect(reserves.setVacancyShare(VACANCY_SHARE))
+      .to.emit(reserves, "SetVacancyShare")
+      .withArgs(owner.address, VACANCY_SHARE);
+  });
+
+  it("deposit: reverts with '!_amount' message if amount is zero", async () => {
+    // should revert with "!_amount"
+    await expect(reserves.connect(user).deposit(ID, 0, currency.address)).to.be.revertedWith("!_amount");
+  });
+
+  it("deposit: should split the funds between the buffers of the real estate", async () => {
+    // should emit "Deposit" for each buffer
+    await expect(reserves.connect(user).deposit(ID, AMOUNT, currency.address))
+      .to.emit(reserves, "Deposit")
+      .withArgs(ID, user.address, currency.address, Buffer.Maintenance, AMOUNT.sub(VACANCY_AMOUNT))
+      .and.to.emit(reserves, "Deposit")
+      .withArgs(ID, user.address, currency.address, Buffer.Vacancy, VACANCY_AMOUNT);
+    expect(await reserves.reserves(ID, currency.address)).to.be.equal(AMOUNT);
+    expect(await reserves.bufferBalance(ID, currency.address, Buffer.Maintenance)).to.be.equal(
+      AMOUNT.sub(VACANCY_AMOUNT),
+    );
+    expect(await reserves.bufferBalance(ID, currency.address, Buffer.Vacancy)).to.be.equal(VACANCY_AMOUNT);
+  });
+
+  it("depositToBuffer: should add the funds to a single buffer", async () => {
+    // should emit "Deposit"
+    await expect(reserves.connect(user).depositToBuffer(ID, Buffer.Vacancy, AMOUNT, otherCurrency.address))
+      .to.emit(reserves, "Deposit")
+      .withArgs(ID, user.address, otherCurrency.address, Buffer.Vacancy, AMOUNT);
+    expect(await reserves.bufferBalance(ID, otherCurrency.address, Buffer.Maintenance)).to.be.equal(0);
+    expect(await reserves.bufferBalance(ID, otherCurrency.address, Buffer.Vacancy)).to.be.equal(AMOUNT);
+  });
+
+  it("reserveCurrencies: should list each currency deposited once", async () => {
+    // deposit the first currency again
+    await reserves.connect(user).depositToBuffer(ID, Buffer.Maintenance, AMOUNT, currency.address);
+
+    // check currencies
+    expect(await reserves.reserveCurrencies(ID)).to.be.deep.equal([currency.address, otherCurrency.address]);
+    expect(await reserves.reserveCurrencies(ID + 1)).to.be.deep.equal([]);
+  });
+
+  it("release: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+    // should revert with "Ownable: caller is not the owner"
+    await expect(
+      reserves.connect(user).release(ID, Buffer.Maintenance, currency.address, EXPENSE, user.address, "Roof"),
+    ).to.be.revertedWith("Ownable: caller is not the owner");
+  });
+
+  it("release: reverts with '!_reason' message if reason is empty", async () => {
+    // should revert with "!_reason"
+    await expect(
+      reserves.release(ID, Buffer.Maintenance, currency.address, EXPENSE, contractor.address, ""),
+    ).to.be.revertedWith("!_reason");
+  });
+
+  it("release: reverts with 'Insufficient reserves' message if releasing more than the buffer", async () => {
+    // should revert with "Insufficient reserves"
+    await expect(
+      reserves.release(ID, Buffer.Vacancy, currency.address, VACANCY_AMOUNT.add(1), contractor.address, "Vacancy"),
+    ).to.be.revertedWith("Insufficient reserves");
+  });
+
+  it("release: should send the funds of the buffer for the expense", async () => {
+    // should emit "Release"
+    await expect(reserves.release(ID, Buffer.Maintenance, currency.address, EXPENSE, contractor.address, "Roof"))
+      .to.emit(reserves, "Release")
+      .withArgs(ID, owner.address, currency.address, Buffer.Maintenance, EXPENSE, contractor.address, "Roof");
+    expect(await currency.balanceOf(contractor.address)).to.be.equal(EXPENSE);
+    expect(await reserves.bufferBalance(ID, currency.address, Buffer.Maintenance)).to.be.equal(
+      AMOUNT.mul(2).sub(VACANCY_AMOUNT).sub(EXPENSE),
+    );
+    expect(await reserves.bufferBalance(ID, currency.address, Buffer.Vacancy)).to.be.equal(VACANCY_AMOUNT);
+  });
+
+  it("withdraw: reverts with '!redemption' message if caller is not the redemption module", async () => {
+    // should revert with "!redemption"
+    await expect(reserves.connect(user).withdraw(ID, currency.address, AMOUNT, user.address)).to.be.revertedWith(
+      "!redemption",
+    );
+  });
+
+  it("withdraw: reverts with 'Insufficient proceeds' message if withdrawing more than the proceeds", async () => {
+    // deposit the sale proceeds
+    await currency.freeMint(user.address, AMOUNT);
+    await currency.connect(user).approve(reserves.address, AMOUNT);
+    await reserves.connect(user).depositToBuffer(ID, Buffer.Proceeds, AMOUNT, currency.address);
+
+    // should revert with "Insufficient proceeds"
+    await expect(
+      reserves.connect(redemption).withdraw(ID, currency.address, AMOUNT.add(1), redemption.address),
+    ).to.be.revertedWith("Insufficient proceeds");
+  });
+
+  it("withdraw: should send the proceeds only, leaving the maintenance and vacancy buffers", async () => {
+    // get reserves
+    const reservesBefore = await reserves.reserves(ID, currency.address);
+    expect(reservesBefore).to.be.gt(0);
+
+    // should emit "Withdraw"
+    await expect(reserves.connect(redemption).withdraw(ID, currency.address, AMOUNT, redemption.address))
+      .to.emit(reserves, "Withdraw")
+      .withArgs(ID, redemption.address, currency.address, AMOUNT, redemption.address);
+    expect(await reserves.bufferBalance(ID, currency.address, Buffer.Proceeds)).to.be.equal(0);
+    expect(await reserves.reserves(ID, currency.address)).to.be.equal(reservesBefore);
+    expect(await currency.balanceOf(redemption.address)).to.be.equal(AMOUNT);
+  });
+});
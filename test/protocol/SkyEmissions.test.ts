@@ -0,0 +1,360 @@
+// SkyEmissions.test.ts: Unit tests for SkyEmissions contract
+
+// Solidity extension for chai
+import { solidity } from "ethereum-waffle";
+
+// Use Chai for testing
+import chai from "chai";
+import { expect } from "chai";
+// Setup chai plugins
+chai.use(solidity);
+
+// Import contract types
+import type {
+  SkyEmissions,
+  SkyEmissions__factory,
+  SkyERC20,
+  SkyERC20__factory,
+  Vesting,
+  Vesting__factory,
+} from "../../typechain-types";
+
+// HardhatRuntimeEnvironment
+import { ethers } from "hardhat";
+
+// Get BigNumber
+import { BigNumber } from "@ethersproject/bignumber";
+
+// Get SignerWithAddress
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+// Import EVM utils
+import { now, setBlockTimestamp } from "../utils/evm_utils";
+
+describe("SkyEmissions Unit Tests", () => {
+  let owner: SignerWithAddress;
+  let admin: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let iroRewards: SignerWithAddress;
+  let user: SignerWithAddress;
+  let sky: SkyERC20;
+  let vesting: Vesting;
+  let emissions: SkyEmissions;
+  let start: number;
+
+  const INITIAL_SUPPLY = ethers.utils.parseEther("25000000");
+  const MAX_SUPPLY = ethers.utils.parseEther("100000000");
+  const EPOCH_DURATION = 7 * 86400; // 1 week
+  const RATE = ethers.utils.parseEther("1"); // 1 SKY per second
+  const DECAY = 9000; // 10% less per epoch
+  const DENOMINATOR = 10000;
+  const SHARES = [4000, 3000, 3000];
+
+  // rate of an epoch
+  function rateOf(epoch: number, rate = RATE, decay = DECAY) {
+    return rate.mul(BigNumber.from(decay).pow(epoch)).div(BigNumber.from(DENOMINATOR).pow(epoch));
+  }
+
+  // amount emitted by a schedule between two timestamps
+  function expectedEmissions(from: number, to: number, scheduleStart = start, rate = RATE, decay = DECAY) {
+    let amount = BigNumber.from(0);
+    from = Math.max(from, scheduleStart);
+    while (from < to) {
+      const epoch = Math.floor((from - scheduleStart) / EPOCH_DURATION);
+      const end = Math.min(scheduleStart + (epoch + 1) * EPOCH_DURATION, to);
+      amount = amount.add(rateOf(epoch, rate, decay).mul(end - from));
+      from = end;
+    }
+    return amount;
+  }
+
+  // timestamp of the block of a transaction
+  async function txTimestamp(tx: Promise<{ wait: () => Promise<{ blockNumber: number }> }>) {
+    const { blockNumber } = await (await tx).wait();
+    return (await ethers.provider.getBlock(blockNumber)).timestamp;
+  }
+
+  // deploy SkyEmissions with the default schedule and recipients
+  async function deployEmissions(skyAddress = sky.address) {
+    const emissionsFactory = <SkyEmissions__factory>await ethers.getContractFactory("SkyEmissions");
+    return emissionsFactory.deploy(
+      owner.address,
+      skyAddress,
+      start,
+      EPOCH_DURATION,
+      RATE,
+      DECAY,
+      [vesting.address, treasury.address, iroRewards.address],
+      SHARES,
+    );
+  }
+
+  before(async () => {
+    // get signers
+    [owner, admin, treasury, iroRewards, user] = await ethers.getSigners();
+
+    // deploy SkyERC20 and Vesting
+    const skyFactory = <SkyERC20__factory>await ethers.getContractFactory("SkyERC20");
+    sky = await skyFactory.deploy(admin.address, INITIAL_SUPPLY, owner.address);
+    const vestingFactory = <Vesting__factory>await ethers.getContractFactory("Vesting");
+    vesting = await vestingFactory.deploy(sky.address);
+
+    // deploy SkyEmissions, starting in a day
+    start = (await now()) + 86400;
+    emissions = await deployEmissions();
+  });
+
+  it("constructor: should set the schedule and the recipients", async () => {
+    // check schedule
+    const schedule = await emissions.schedule();
+    expect(schedule.start).to.be.equal(start);
+    expect(schedule.epochDuration).to.be.equal(EPOCH_DURATION);
+    expect(schedule.initialRate).to.be.equal(RATE);
+    expect(schedule.decay).to.be.equal(DECAY);
+    expect(await emissions.owner()).to.be.equal(owner.address);
+
+    // check recipients
+    const recipients = await emissions.getRecipients();
+    expect(recipients.map(({ account }) => account)).to.be.deep.equal([
+      vesting.address,
+      treasury.address,
+      iroRewards.address,
+    ]);
+    expect(recipients.map(({ share }) => share)).to.be.deep.equal(SHARES);
+  });
+
+  it("constructor: reverts with invalid schedules and recipients", async () => {
+    const emissionsFactory = <SkyEmissions__factory>await ethers.getContractFactory("SkyEmissions");
+    const recipients = [treasury.address, iroRewards.address];
+
+    // should revert with "!_sky"
+    await expect(
+      emissionsFactory.deploy(
+        owner.address,
+        ethers.constants.AddressZero,
+        start,
+        EPOCH_DURATION,
+        RATE,
+        DECAY,
+        recipients,
+        [5000, 5000],
+      ),
+    ).to.be.revertedWith("!_sky");
+
+    // should revert with "Invalid epoch duration"
+    await expect(
+      emissionsFactory.deploy(owner.address, sky.address, start, 86400 - 1, RATE, DECAY, recipients, [5000, 5000]),
+    ).to.be.revertedWith("Invalid epoch duration");
+
+    // should revert with "Invalid decay"
+    await expect(
+      emissionsFactory.deploy(
+        owner.address,
+        sky.address,
+        start,
+        EPOCH_DURATION,
+        RATE,
+        DENOMINATOR + 1,
+        recipients,
+        [5000, 5000],
+      ),
+    ).to.be.revertedWith("Invalid decay");
+    await expect(
+      emissionsFactory.deploy(
+        owner.address,
+        sky.address,
+        start,
+        EPOCH_DURATION,
+        RATE,
+        DENOMINATOR,
+        recipients,
+        [5000, 5000],
+      ),
+    ).to.be.revertedWith("Invalid decay");
+
+    // should revert with "Invalid length"
+    await expect(
+      emissionsFactory.deploy(owner.address, sky.address, start, EPOCH_DURATION, RATE, DECAY, recipients, [10000]),
+    ).to.be.revertedWith("Invalid length");
+    await expect(
+      emissionsFactory.deploy(owner.address, sky.address, start, EPOCH_DURATION, RATE, DECAY, [], []),
+    ).to.be.revertedWith("Invalid length");
+
+    // should revert with "Invalid recipient"
+    await expect(
+      emissionsFactory.deploy(
+        owner.address,
+        sky.address,
+        start,
+        EPOCH_DURATION,
+        RATE,
+        DECAY,
+        [treasury.address, ethers.constants.AddressZero],
+        [5000, 5000],
+      ),
+    ).to.be.revertedWith("Invalid recipient");
+
+    // should revert with "Invalid shares"
+    await expect(
+      emissionsFactory.deploy(owner.address, sky.address, start, EPOCH_DURATION, RATE, DECAY, recipients, [5000, 4000]),
+    ).to.be.revertedWith("Invalid shares");
+  });
+
+  it("epochRate: should decay the rate at each epoch", async () => {
+    // check rates
+    expect(await emissions.epochRate(0)).to.be.equal(RATE);
+    expect(await emissions.epochRate(1)).to.be.equal(RATE.mul(DECAY).div(DENOMINATOR));
+    expect(await emissions.epochRate(2)).to.be.equal(rateOf(2));
+    expect(await emissions.epochRate(5)).to.be.equal(rateOf(5));
+  });
+
+  it("scheduledEmissions: should sum the rates of the epochs over the period", async () => {
+    // nothing before the start
+    expect(await emissions.scheduledEmissions(0, start)).to.be.equal(0);
+
+    // within an epoch and across epochs
+    expect(await emissions.scheduledEmissions(start, start + 100)).to.be.equal(RATE.mul(100));
+    const from = start + EPOCH_DURATION - 100;
+    const to = start + 2 * EPOCH_DURATION + 50;
+    expect(await emissions.scheduledEmissions(from, to)).to.be.equal(
+      RATE.mul(100).add(rateOf(1).mul(EPOCH_DURATION)).add(rateOf(2).mul(50)),
+    );
+    expect(await emissions.scheduledEmissions(from, to)).to.be.equal(expectedEmissions(from, to));
+  });
+
+  it("distribute: should not mint before the start of the schedule", async () => {
+    // should distribute nothing
+    expect(await emissions.pendingEmissions()).to.be.equal(0);
+    await expect(emissions.connect(user).distribute()).not.to.emit(emissions, "Distributed");
+    expect(await sky.totalSupply()).to.be.equal(INITIAL_SUPPLY);
+  });
+
+  it("distribute: reverts with '!minter' if the contract is not the SKY minter", async () => {
+    // advance time
+    await setBlockTimestamp(start + 3600);
+
+    // should revert with "!minter"
+    await expect(emissions.connect(user).distribute()).to.be.revertedWith("!minter");
+
+    // set the minter
+    await sky.connect(admin).setMinter(emissions.address);
+  });
+
+  it("distribute: should mint the emissions since the last distribution to the recipients", async () => {
+    // distribute across an epoch change
+    await setBlockTimestamp(start + EPOCH_DURATION + 3600);
+    const lastDistribution = (await emissions.lastDistribution()).toNumber();
+    const [vestingBefore, treasuryBefore, iroRewardsBefore] = await Promise.all(
+      [vesting.address, treasury.address, iroRewards.address].map((account) => sky.balanceOf(account)),
+    );
+    const tx = emissions.connect(user).distribute();
+    const timestamp = await txTimestamp(tx);
+    const amount = expectedEmissions(lastDistribution, timestamp);
+
+    // should emit "Distributed" and "EmissionPaid"
+    const vestingAmount = amount.mul(SHARES[0]).div(DENOMINATOR);
+    const treasuryAmount = amount.mul(SHARES[1]).div(DENOMINATOR);
+    const iroRewardsAmount = amount.sub(vestingAmount).sub(treasuryAmount);
+    await expect(tx)
+      .to.emit(emissions, "Distributed")
+      .withArgs(user.address, amount)
+      .and.to.emit(emissions, "EmissionPaid")
+      .withArgs(iroRewards.address, iroRewardsAmount);
+
+    // check balances
+    expect((await sky.balanceOf(vesting.address)).sub(vestingBefore)).to.be.equal(vestingAmount);
+    expect((await sky.balanceOf(treasury.address)).sub(treasuryBefore)).to.be.equal(treasuryAmount);
+    expect((await sky.balanceOf(iroRewards.address)).sub(iroRewardsBefore)).to.be.equal(iroRewardsAmount);
+    expect(await vesting.usableSupply()).to.be.equal(await sky.balanceOf(vesting.address));
+    expect(await emissions.totalDistributed()).to.be.equal(amount);
+    expect(await emissions.lastDistribution()).to.be.equal(timestamp);
+    expect(await sky.totalSupply()).to.be.equal(INITIAL_SUPPLY.add(amount));
+  });
+
+  it("setRecipients: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+    // should revert with "Ownable: caller is not the owner"
+    await expect(emissions.connect(user).setRecipients([user.address], [DENOMINATOR])).to.be.revertedWith(
+      "Ownable: caller is not the owner",
+    );
+    await expect(emissions.connect(user).setSchedule(start, EPOCH_DURATION, 0, DECAY)).to.be.revertedWith(
+      "Ownable: caller is not the owner",
+    );
+  });
+
+  it("setRecipients: should distribute the pending emissions to the previous recipients", async () => {
+    // advance time
+    await setBlockTimestamp((await emissions.lastDistribution()).toNumber() + 3600);
+    const lastDistribution = (await emissions.lastDistribution()).toNumber();
+    const treasuryBefore = await sky.balanceOf(treasury.address);
+
+    // should emit "SetRecipients"
+    const tx = emissions.connect(owner).setRecipients([treasury.address, user.address], [5000, 5000]);
+    const timestamp = await txTimestamp(tx);
+    await expect(tx)
+      .to.emit(emissions, "SetRecipients")
+      .withArgs(owner.address, [treasury.address, user.address], [5000, 5000]);
+
+    // pending emissions should have been paid with the previous shares
+    const amount = expectedEmissions(lastDistribution, timestamp);
+    expect((await sky.balanceOf(treasury.address)).sub(treasuryBefore)).to.be.equal(
+      amount.mul(SHARES[1]).div(DENOMINATOR),
+    );
+    expect(await sky.balanceOf(user.address)).to.be.equal(0);
+
+    // next emissions go to the new recipients
+    await setBlockTimestamp(timestamp + 3600);
+    const nextTimestamp = await txTimestamp(emissions.distribute());
+    expect(await sky.balanceOf(user.address)).to.be.equal(expectedEmissions(timestamp, nextTimestamp).div(2));
+  });
+
+  it("setSchedule: should distribute the pending emissions and follow the new schedule", async () => {
+    // advance time
+    await setBlockTimestamp((await emissions.lastDistribution()).toNumber() + 3600);
+    const lastDistribution = (await emissions.lastDistribution()).toNumber();
+    const totalDistributed = await emissions.totalDistributed();
+
+    // should emit "SetSchedule"
+    const newRate = RATE.mul(2);
+    const newDecay = 5000;
+    const newStart = (await now()) + 86400;
+    const tx = emissions.connect(owner).setSchedule(newStart, EPOCH_DURATION, newRate, newDecay);
+    const timestamp = await txTimestamp(tx);
+    await expect(tx)
+      .to.emit(emissions, "SetSchedule")
+      .withArgs(owner.address, newStart, EPOCH_DURATION, newRate, newDecay);
+    const distributed = expectedEmissions(lastDistribution, timestamp);
+    expect(await emissions.totalDistributed()).to.be.equal(totalDistributed.add(distributed));
+
+    // should emit according to the new schedule
+    expect(await emissions.epochRate(1)).to.be.equal(newRate.div(2));
+    await setBlockTimestamp(newStart + EPOCH_DURATION + 100);
+    const nextTimestamp = await txTimestamp(emissions.distribute());
+    expect(await emissions.totalDistributed()).to.be.equal(
+      totalDistributed.add(distributed).add(expectedEmissions(timestamp, nextTimestamp, newStart, newRate, newDecay)),
+    );
+  });
+
+  it("distribute: should stop the emissions at MAX_SUPPLY", async () => {
+    // deploy a token close to MAX_SUPPLY
+    const skyFactory = <SkyERC20__factory>await ethers.getContractFactory("SkyERC20");
+    const cappedSky = await skyFactory.deploy(admin.address, MAX_SUPPLY.sub(1000), owner.address);
+    const cappedEmissions = await deployEmissions(cappedSky.address);
+    await cappedSky.connect(admin).setMinter(cappedEmissions.address);
+
+    // should stop summing the epochs once the mintable supply is reached
+    expect(await cappedEmissions.scheduledEmissions(start, start + 100 * EPOCH_DURATION)).to.be.equal(
+      RATE.mul(EPOCH_DURATION),
+    );
+
+    // should only distribute the mintable supply
+    await setBlockTimestamp(Math.max(start, await now()) + 3600);
+    expect(await cappedEmissions.pendingEmissions()).to.be.equal(1000);
+    await expect(cappedEmissions.distribute()).to.emit(cappedEmissions, "Distributed").withArgs(owner.address, 1000);
+    expect(await cappedSky.totalSupply()).to.be.equal(MAX_SUPPLY);
+
+    // nothing left to distribute, even after years without distribution
+    await setBlockTimestamp((await now()) + 10 * 365 * 86400);
+    expect(await cappedEmissions.pendingEmissions()).to.be.equal(0);
+    await expect(cappedEmissions.distribute()).not.to.emit(cappedEmissions, "Distributed");
+  });
+});
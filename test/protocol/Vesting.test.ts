@@ -24,8 +24,12 @@ import type {
 import { ethers } from "hardhat";
 
 // Get BigNumber
+import { BigNumber } from "@ethersproject/bignumber";
 import { Signer } from "@ethersproject/abstract-signer";
 
+// Import EVM utils
+import { now, setBlockTimestamp } from "../utils/evm_utils";
+
 describe("Vesting Unit Tests", () => {
   let erc20Mock: ERC20PermitMock;
   let voteEscrowMock: VoteEscrowMock;
@@ -35,6 +39,9 @@ describe("Vesting Unit Tests", () => {
 
   const NAME = "test";
   const SYMBOL = "TEST";
+  const AMOUNT = BigNumber.from("1000000");
+  const CLIFF = 86400; // 1 day
+  const DURATION = 365 * 86400; // 1 year
 
   before(async () => {
     // get signers
@@ -67,9 +74,356 @@ describe("Vesting Unit Tests", () => {
     );
   });
 
+  it("createPosition: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+    // should revert with "Ownable: caller is not the owner"
+    await expect(
+      vesting.connect(user).createPosition(await user.getAddress(), AMOUNT, CLIFF, DURATION, false, false),
+    ).to.be.revertedWith("Ownable: caller is not the owner");
+  });
+
+  it("createPosition: reverts with 'Invalid vesting duration' if duration is below the minimum", async () => {
+    // should revert with "Invalid vesting duration"
+    await expect(
+      vesting.createPosition(await user.getAddress(), AMOUNT, CLIFF, DURATION - 1, false, false),
+    ).to.be.revertedWith("Invalid vesting duration");
+  });
+
+  it("createPosition: reverts with 'Insufficient underlying' if the contract is not funded", async () => {
+    // should revert with "Insufficient underlying"
+    await expect(
+      vesting.createPosition(await user.getAddress(), AMOUNT, CLIFF, DURATION, false, false),
+    ).to.be.revertedWith("Insufficient underlying");
+  });
+
+  it("createPosition: should emit 'PositionCreated' and mint the position", async () => {
+    // fund the contract
+    await erc20Mock.freeMint(vesting.address, AMOUNT);
+
+    // should emit "PositionCreated"
+    const timestamp = (await now()) + 10;
+    await setBlockTimestamp(timestamp);
+    const vestingStart = timestamp + 1 + CLIFF;
+    await expect(vesting.createPosition(await user.getAddress(), AMOUNT, CLIFF, DURATION, false, false))
+      .to.emit(vesting, "PositionCreated")
+      .withArgs(
+        await owner.getAddress(),
+        await user.getAddress(),
+        0,
+        AMOUNT,
+        vestingStart,
+        vestingStart + DURATION,
+        false,
+        false,
+      );
+    expect(await vesting.ownerOf(0)).to.be.equal(await user.getAddress());
+    expect(await vesting.usableSupply()).to.be.equal(0);
+  });
+
+  it("claim: reverts with 'Vesting hasn't started' during the cliff", async () => {
+    // nothing is due during the cliff
+    expect(await vesting.amountDue(0)).to.be.equal(0);
+
+    // should revert with "Vesting hasn't started"
+    await expect(vesting.connect(user).claim(0, await user.getAddress(), 0)).to.be.revertedWith(
+      "Vesting hasn't started",
+    );
+  });
+
+  it("amountDue: should vest linearly after the cliff", async () => {
+    // go half way through the vesting period
+    const { vestingStart } = await vesting.positions(0);
+    await setBlockTimestamp(vestingStart.toNumber() + DURATION / 2);
+
+    // half the amount should be due
+    expect(await vesting.amountDue(0)).to.be.equal(AMOUNT.div(2));
+  });
+
+  it("claim: should pay the amount due and count the position as vested once fully paid", async () => {
+    // claim half way through
+    const { vestingStart, vestingEnd } = await vesting.positions(0);
+    await setBlockTimestamp(vestingStart.toNumber() + DURATION / 2 + 1);
+    const amountDue = AMOUNT.mul(DURATION / 2 + 2).div(DURATION);
+    await expect(vesting.connect(user).claim(0, await user.getAddress(), 0))
+      .to.emit(vesting, "AmountClaimed")
+      .withArgs(await user.getAddress(), await user.getAddress(), amountDue, 0);
+    expect(await vesting.amountPaid(0)).to.be.equal(amountDue);
+    expect(await vesting.activeVestedPositions()).to.be.equal(1);
+
+    // claim the rest after the vesting end
+    await setBlockTimestamp(vestingEnd.toNumber());
+    await vesting.connect(user).claim(0, await user.getAddress(), 0);
+    expect(await erc20Mock.balanceOf(await user.getAddress())).to.be.equal(AMOUNT);
+    expect(await vesting.amountDue(0)).to.be.equal(0);
+    expect(await vesting.activeVestedPositions()).to.be.equal(0);
+  });
+
   it("TODO", () => {
     voteEscrowMock;
     vesting;
     user;
   });
+
+  describe("Transferable bonds", () => {
+    let holder: Signer;
+    let buyer: Signer;
+
+    before(async () => {
+      // get signers
+      [, , holder, buyer] = await ethers.getSigners();
+
+      // deploy and fund a new Vesting
+      const vestingFactory = <Vesting__factory>await ethers.getContractFactory("Vesting");
+      vesting = await vestingFactory.connect(owner).deploy(erc20Mock.address);
+      await erc20Mock.freeMint(vesting.address, AMOUNT.mul(3));
+
+      // create two positions vesting right away and one with a cliff
+      await vesting.createPosition(await holder.getAddress(), AMOUNT, 0, DURATION, false, false);
+      await vesting.createPosition(await holder.getAddress(), AMOUNT, 0, DURATION, false, false);
+      await vesting.createPosition(await holder.getAddress(), AMOUNT, CLIFF, DURATION, false, false);
+    });
+
+    it("transferFrom: reverts with 'Err: token transfer is BLOCKED' while transfers are disabled", async () => {
+      // should revert with "Err: token transfer is BLOCKED"
+      await expect(
+        vesting.connect(holder).transferFrom(await holder.getAddress(), await buyer.getAddress(), 0),
+      ).to.be.revertedWith("Err: token transfer is BLOCKED");
+    });
+
+    it("setTransfersEnabled: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+      // should revert with "Ownable: caller is not the owner"
+      await expect(vesting.connect(holder).setTransfersEnabled(true)).to.be.revertedWith(
+        "Ownable: caller is not the owner",
+      );
+    });
+
+    it("setTransfersEnabled: should emit 'TransfersEnabledSet' on success", async () => {
+      // should emit "TransfersEnabledSet"
+      await expect(vesting.setTransfersEnabled(true))
+        .to.emit(vesting, "TransfersEnabledSet")
+        .withArgs(await owner.getAddress(), true);
+
+      // should revert with "Same state"
+      await expect(vesting.setTransfersEnabled(true)).to.be.revertedWith("Same state");
+    });
+
+    it("transferFrom: should move the claims and the position indexes to the new owner", async () => {
+      // transfer the second position
+      await vesting.connect(holder).transferFrom(await holder.getAddress(), await buyer.getAddress(), 1);
+
+      // check owner and position indexes
+      expect((await vesting.positions(1)).owner).to.be.equal(await buyer.getAddress());
+      expect(await vesting.userPositionIndexes(await buyer.getAddress(), 0)).to.be.equal(1);
+      expect(await vesting.userPositionIndexes(await holder.getAddress(), 0)).to.be.equal(0);
+      expect(await vesting.userPositionIndexes(await holder.getAddress(), 1)).to.be.equal(2);
+
+      // claims follow ownerOf
+      await setBlockTimestamp((await now()) + DURATION / 4);
+      await expect(vesting.connect(holder).claim(1, await holder.getAddress(), 0)).to.be.revertedWith(
+        "Invalid position",
+      );
+      await expect(vesting.connect(buyer).claim(1, await buyer.getAddress(), 0)).to.emit(vesting, "AmountClaimed");
+    });
+
+    it("split: reverts with 'Invalid position' if not called by the position owner", async () => {
+      // should revert with "Invalid position"
+      await expect(vesting.connect(buyer).split(0, AMOUNT.div(2))).to.be.revertedWith("Invalid position");
+    });
+
+    it("split: reverts with 'Invalid amount' if splitting the whole position", async () => {
+      // should revert with "Invalid amount"
+      await expect(vesting.connect(holder).split(0, AMOUNT)).to.be.revertedWith("Invalid amount");
+    });
+
+    it("split: should split the amount paid in proportion, without double claim", async () => {
+      // claim part of the position, then split a quarter of it
+      const holderAddress = await holder.getAddress();
+      await vesting.connect(holder).claim(0, holderAddress, 0);
+      const amountPaid = await vesting.amountPaid(0);
+      const amountDue = await vesting.amountDue(0);
+      const splitAmount = AMOUNT.div(4);
+      const splitAmountPaid = amountPaid.mul(splitAmount).div(AMOUNT);
+
+      // should emit "PositionSplit"
+      await expect(vesting.connect(holder).split(0, splitAmount))
+        .to.emit(vesting, "PositionSplit")
+        .withArgs(holderAddress, 0, 3, splitAmount, splitAmountPaid);
+      expect(await vesting.ownerOf(3)).to.be.equal(holderAddress);
+      expect((await vesting.positions(0)).amount).to.be.equal(AMOUNT.sub(splitAmount));
+      expect(await vesting.amountPaid(3)).to.be.equal(splitAmountPaid);
+      expect((await vesting.amountDue(0)).add(await vesting.amountDue(3))).to.be.lte(amountDue);
+      expect(await vesting.activeVestedPositions()).to.be.equal(4);
+
+      // claim both positions after the vesting end, the holder should get the original amount exactly
+      const { vestingEnd } = await vesting.positions(0);
+      await setBlockTimestamp(vestingEnd.toNumber());
+      await vesting.connect(holder).claim(0, holderAddress, 0);
+      await vesting.connect(holder).claim(3, holderAddress, 0);
+      expect(await erc20Mock.balanceOf(holderAddress)).to.be.equal(AMOUNT);
+      expect(await vesting.amountDue(0)).to.be.equal(0);
+      expect(await vesting.amountDue(3)).to.be.equal(0);
+      expect(await vesting.activeVestedPositions()).to.be.equal(2);
+    });
+
+    it("merge: reverts with 'Different schedule' if positions vest differently", async () => {
+      // transfer the buyer position back and try to merge it with the one with a cliff
+      await vesting.connect(buyer).transferFrom(await buyer.getAddress(), await holder.getAddress(), 1);
+
+      // should revert with "Different schedule"
+      await expect(vesting.connect(holder).merge(2, 1)).to.be.revertedWith("Different schedule");
+    });
+
+    it("merge: should merge the amounts and burn the merged position", async () => {
+      // split the position with a cliff and merge it back
+      const holderAddress = await holder.getAddress();
+      await vesting.connect(holder).split(2, AMOUNT.div(3));
+
+      // should emit "PositionsMerged"
+      await expect(vesting.connect(holder).merge(2, 4))
+        .to.emit(vesting, "PositionsMerged")
+        .withArgs(holderAddress, 2, 4);
+      await expect(vesting.ownerOf(4)).to.be.revertedWith("ERC721: invalid token ID");
+      expect((await vesting.positions(2)).amount).to.be.equal(AMOUNT);
+      expect((await vesting.positions(4)).amount).to.be.equal(0);
+      expect(await vesting.balanceOf(holderAddress)).to.be.equal(4);
+      expect(await vesting.activeVestedPositions()).to.be.equal(2);
+
+      // the merged position vests the whole amount
+      const { vestingEnd } = await vesting.positions(2);
+      await setBlockTimestamp(vestingEnd.toNumber());
+      await vesting.connect(holder).claim(2, holderAddress, 0);
+      expect(await erc20Mock.balanceOf(holderAddress)).to.be.equal(AMOUNT.mul(2));
+    });
+  });
+
+  describe("Revocable positions", () => {
+    let grantee: Signer;
+
+    // create a revocable position starting after the cliff
+    async function createRevocablePosition(lockVested = false) {
+      await erc20Mock.freeMint(vesting.address, AMOUNT);
+      await vesting.createPosition(await grantee.getAddress(), AMOUNT, CLIFF, DURATION, lockVested, true);
+      const positionId = (await vesting.vestedPositions()).sub(1);
+      return { positionId, position: await vesting.positions(positionId) };
+    }
+
+    before(async () => {
+      // get signers
+      [, , , , grantee] = await ethers.getSigners();
+
+      // deploy a new Vesting with a vote escrow
+      const vestingFactory = <Vesting__factory>await ethers.getContractFactory("Vesting");
+      vesting = await vestingFactory.connect(owner).deploy(erc20Mock.address);
+      await vesting.setVoteEscrow(voteEscrowMock.address);
+    });
+
+    it("createPosition: should emit 'PositionCreated' with the revocable flag", async () => {
+      // fund the contract
+      await erc20Mock.freeMint(vesting.address, AMOUNT);
+
+      // should emit "PositionCreated"
+      const timestamp = (await now()) + 10;
+      await setBlockTimestamp(timestamp);
+      const vestingStart = timestamp + 1 + CLIFF;
+      await expect(vesting.createPosition(await grantee.getAddress(), AMOUNT, CLIFF, DURATION, false, true))
+        .to.emit(vesting, "PositionCreated")
+        .withArgs(
+          await owner.getAddress(),
+          await grantee.getAddress(),
+          0,
+          AMOUNT,
+          vestingStart,
+          vestingStart + DURATION,
+          false,
+          true,
+        );
+      expect((await vesting.positions(0)).revocable).to.be.equal(true);
+    });
+
+    it("revoke: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+      // should revert with "Ownable: caller is not the owner"
+      await expect(vesting.connect(grantee).revoke(0, 0)).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("revoke: reverts with 'Not revocable' if the position is not revocable", async () => {
+      // create a position that is not revocable
+      await erc20Mock.freeMint(vesting.address, AMOUNT);
+      await vesting.createPosition(await grantee.getAddress(), AMOUNT, CLIFF, DURATION, false, false);
+
+      // should revert with "Not revocable"
+      await expect(vesting.revoke(1, 0)).to.be.revertedWith("Not revocable");
+    });
+
+    it("revoke: should return the whole amount to the usable supply during the cliff", async () => {
+      // should emit "PositionRevoked"
+      const positionId = 0;
+      const active = await vesting.activeVestedPositions();
+      const usableSupply = await vesting.usableSupply();
+      await expect(vesting.revoke(positionId, 0))
+        .to.emit(vesting, "PositionRevoked")
+        .withArgs(await owner.getAddress(), await grantee.getAddress(), positionId, 0, AMOUNT);
+      expect(await vesting.usableSupply()).to.be.equal(usableSupply.add(AMOUNT));
+      expect(await vesting.activeVestedPositions()).to.be.equal(active.sub(1));
+      expect(await erc20Mock.balanceOf(await grantee.getAddress())).to.be.equal(0);
+
+      // nothing vests after the cliff
+      const { vestingEnd } = await vesting.positions(positionId);
+      await setBlockTimestamp(vestingEnd.toNumber());
+      expect(await vesting.amountDue(positionId)).to.be.equal(0);
+    });
+
+    it("revoke: should pay out the vested tokens and return the rest to the usable supply mid-vest", async () => {
+      // claim a quarter of the position
+      const granteeAddress = await grantee.getAddress();
+      const { positionId, position } = await createRevocablePosition();
+      await setBlockTimestamp(position.vestingStart.toNumber() + DURATION / 4 - 1);
+      await vesting.connect(grantee).claim(positionId, granteeAddress, 0);
+      const claimed = await erc20Mock.balanceOf(granteeAddress);
+      expect(claimed).to.be.equal(AMOUNT.div(4));
+
+      // revoke at half of the vesting period
+      await setBlockTimestamp(position.vestingStart.toNumber() + DURATION / 2 - 1);
+      const usableSupply = await vesting.usableSupply();
+      await expect(vesting.revoke(positionId, 0))
+        .to.emit(vesting, "PositionRevoked")
+        .withArgs(await owner.getAddress(), granteeAddress, positionId, AMOUNT.div(4), AMOUNT.div(2));
+      expect(await erc20Mock.balanceOf(granteeAddress)).to.be.equal(AMOUNT.div(2));
+      expect(await vesting.usableSupply()).to.be.equal(usableSupply.add(AMOUNT.div(2)));
+      expect((await vesting.positions(positionId)).amount).to.be.equal(AMOUNT.div(2));
+
+      // nothing is left to claim nor to revoke
+      await setBlockTimestamp(position.vestingEnd.toNumber());
+      expect(await vesting.amountDue(positionId)).to.be.equal(0);
+      await expect(vesting.revoke(positionId, 0)).to.be.revertedWith("Position vested");
+    });
+
+    it("revoke: should pay out the remaining tokens once fully vested", async () => {
+      // go past the end of the vesting period
+      const granteeAddress = await grantee.getAddress();
+      const balance = await erc20Mock.balanceOf(granteeAddress);
+      const { positionId, position } = await createRevocablePosition();
+      await setBlockTimestamp(position.vestingEnd.toNumber());
+
+      // should emit "PositionRevoked"
+      const usableSupply = await vesting.usableSupply();
+      await expect(vesting.revoke(positionId, 0))
+        .to.emit(vesting, "PositionRevoked")
+        .withArgs(await owner.getAddress(), granteeAddress, positionId, AMOUNT, 0);
+      expect(await erc20Mock.balanceOf(granteeAddress)).to.be.equal(balance.add(AMOUNT));
+      expect(await vesting.usableSupply()).to.be.equal(usableSupply);
+    });
+
+    it("revoke: should lock the vested tokens in the vote escrow if the position locks them", async () => {
+      // revoke at half of the vesting period
+      const { positionId, position } = await createRevocablePosition(true);
+      await setBlockTimestamp(position.vestingStart.toNumber() + DURATION / 2 - 1);
+
+      // should revert with "Invalid lock time"
+      await expect(vesting.revoke(positionId, 0)).to.be.revertedWith("Invalid lock time");
+
+      // should lock the vested tokens
+      const locked = await erc20Mock.balanceOf(voteEscrowMock.address);
+      await vesting.revoke(positionId, DURATION);
+      expect(await erc20Mock.balanceOf(voteEscrowMock.address)).to.be.equal(locked.add(AMOUNT.div(2)));
+    });
+  });
 });
@@ -0,0 +1,338 @@
+// VoteEscrow.test.ts: Unit tests for VoteEscrow contract
+
+// Solidity extension for chai
+import { solidity } from "ethereum-waffle";
+
+// Use Chai for testing
+import chai from "chai";
+import { expect } from "chai";
+// Setup chai plugins
+chai.use(solidity);
+
+// Import contract types
+import type {
+  SkyERC20,
+  SkyERC20__factory,
+  Vesting,
+  Vesting__factory,
+  VoteEscrow,
+  VoteEscrow__factory,
+} from "../../typechain-types";
+
+// HardhatRuntimeEnvironment
+import { ethers } from "hardhat";
+
+// Get BigNumber
+import { BigNumber } from "@ethersproject/bignumber";
+import type { ContractTransaction } from "ethers";
+
+// Get SignerWithAddress
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+// Import EVM utils
+import { now, setBlockTimestamp } from "../utils/evm_utils";
+
+describe("VoteEscrow Unit Tests", () => {
+  let owner: SignerWithAddress;
+  let user: SignerWithAddress;
+  let otherUser: SignerWithAddress;
+  let sky: SkyERC20;
+  let voteEscrow: VoteEscrow;
+
+  const AMOUNT = ethers.utils.parseEther("1000");
+  const WEEK = 7 * 86400;
+  const YEAR = 365 * 86400;
+  const MAXTIME = 4 * YEAR;
+
+  // get the timestamp of the block of a transaction
+  async function txTimestamp(tx: ContractTransaction) {
+    return (await ethers.provider.getBlock((await tx.wait()).blockNumber)).timestamp;
+  }
+
+  // get the end of a lock created at a timestamp
+  function lockEnd(timestamp: number, period: number) {
+    return Math.floor((timestamp + period) / WEEK) * WEEK;
+  }
+
+  // get the voting power of a lock at a timestamp
+  function votingPower(amount: BigNumber, end: number, timestamp: number) {
+    return timestamp < end ? amount.div(MAXTIME).mul(end - timestamp) : BigNumber.from(0);
+  }
+
+  before(async () => {
+    // get signers
+    [owner, user, otherUser] = await ethers.getSigners();
+
+    // deploy SkyERC20 and fund the users
+    const skyFactory = <SkyERC20__factory>await ethers.getContractFactory("SkyERC20");
+    sky = await skyFactory.deploy(owner.address, AMOUNT.mul(10), owner.address);
+    await sky.transfer(user.address, AMOUNT.mul(2));
+    await sky.transfer(otherUser.address, AMOUNT);
+
+    // deploy VoteEscrow
+    const voteEscrowFactory = <VoteEscrow__factory>await ethers.getContractFactory("VoteEscrow");
+    voteEscrow = await voteEscrowFactory.deploy(owner.address, sky.address);
+    await sky.connect(user).approve(voteEscrow.address, ethers.constants.MaxUint256);
+    await sky.connect(otherUser).approve(voteEscrow.address, ethers.constants.MaxUint256);
+  });
+
+  it("constructor: reverts with '!_underlying' message if underlying is the zero address", async () => {
+    // should revert with "!_underlying"
+    const voteEscrowFactory = <VoteEscrow__factory>await ethers.getContractFactory("VoteEscrow");
+    await expect(voteEscrowFactory.deploy(owner.address, ethers.constants.AddressZero)).to.be.revertedWith(
+      "!_underlying",
+    );
+  });
+
+  it("setLocker: reverts with 'Ownable: caller is not the owner' if not called by the owner", async () => {
+    // should revert with "Ownable: caller is not the owner"
+    await expect(voteEscrow.connect(user).setLocker(user.address, true)).to.be.revertedWith(
+      "Ownable: caller is not the owner",
+    );
+  });
+
+  it("setLocker: should emit 'SetLocker' on success", async () => {
+    // should emit "SetLocker"
+    await expect(voteEscrow.setLocker(owner.address, true))
+      .to.emit(voteEscrow, "SetLocker")
+      .withArgs(owner.address, owner.address, true);
+
+    // should revert with "Same state"
+    await expect(voteEscrow.setLocker(owner.address, true)).to.be.revertedWith("Same state");
+  });
+
+  it("lock: reverts with '!locker' message if locking for another account without the locker role", async () => {
+    // should revert with "!locker"
+    await expect(voteEscrow.connect(otherUser).lock(user.address, AMOUNT, YEAR)).to.be.revertedWith("!locker");
+  });
+
+  it("lock: reverts with 'Invalid lock time' message if the lock ends now or after MAXTIME", async () => {
+    // should revert with "Invalid lock time"
+    await expect(voteEscrow.connect(user).lock(user.address, AMOUNT, 0)).to.be.revertedWith("Invalid lock time");
+    await expect(voteEscrow.connect(user).lock(user.address, AMOUNT, MAXTIME + 1)).to.be.revertedWith(
+      "Invalid lock time",
+    );
+  });
+
+  it("lock: should lock the underlying with a linearly decaying voting power", async () => {
+    // should emit "Lock"
+    const timestamp = (await now()) + 10;
+    await setBlockTimestamp(timestamp);
+    const end = lockEnd(timestamp + 1, YEAR);
+    const tx = await voteEscrow.connect(user).lock(user.address, AMOUNT, YEAR);
+    await expect(tx).to.emit(voteEscrow, "Lock").withArgs(user.address, user.address, AMOUNT, end);
+    const start = await txTimestamp(tx);
+    expect(await voteEscrow.locked(user.address)).to.be.deep.equal([AMOUNT, BigNumber.from(end)]);
+    expect(await voteEscrow.totalLocked()).to.be.equal(AMOUNT);
+    expect(await sky.balanceOf(voteEscrow.address)).to.be.equal(AMOUNT);
+
+    // voting power decays until the end of the lock
+    const middle = start + Math.floor((end - start) / 2);
+    await setBlockTimestamp(end + 1);
+    expect(await voteEscrow.getPastVotes(user.address, start - 1)).to.be.equal(0);
+    expect(await voteEscrow.getPastVotes(user.address, start)).to.be.equal(votingPower(AMOUNT, end, start));
+    expect(await voteEscrow.getPastVotes(user.address, middle)).to.be.equal(votingPower(AMOUNT, end, middle));
+    expect(await voteEscrow.getPastVotes(user.address, end)).to.be.equal(0);
+    expect(await voteEscrow.getPastTotalSupply(middle)).to.be.equal(votingPower(AMOUNT, end, middle));
+    expect(await voteEscrow.getPastTotalSupply(end)).to.be.equal(0);
+  });
+
+  it("getPastVotes: reverts with 'Future lookup' message if the timestamp is not in the past", async () => {
+    // should revert with "Future lookup"
+    await expect(voteEscrow.getPastVotes(user.address, (await now()) + 1)).to.be.revertedWith("Future lookup");
+    await expect(voteEscrow.getPastTotalSupply((await now()) + 1)).to.be.revertedWith("Future lookup");
+  });
+
+  it("withdraw: should send back the underlying of the expired lock", async () => {
+    // should emit "Withdraw"
+    const balance = await sky.balanceOf(user.address);
+    await expect(voteEscrow.connect(user).withdraw()).to.emit(voteEscrow, "Withdraw").withArgs(user.address, AMOUNT);
+    expect(await sky.balanceOf(user.address)).to.be.equal(balance.add(AMOUNT));
+    expect(await voteEscrow.totalLocked()).to.be.equal(0);
+
+    // should revert with "No lock"
+    await expect(voteEscrow.connect(user).withdraw()).to.be.revertedWith("No lock");
+  });
+
+  it("increaseAmount: reverts with 'No active lock' message if the sender has no lock", async () => {
+    // should revert with "No active lock"
+    await expect(voteEscrow.connect(user).increaseAmount(AMOUNT)).to.be.revertedWith("No active lock");
+  });
+
+  it("totalSupply: should sum the voting power of every lock, ending at different weeks", async () => {
+    // lock for one and two years
+    const tx = await voteEscrow.connect(user).lock(user.address, AMOUNT, YEAR);
+    const otherTx = await voteEscrow.connect(otherUser).lock(otherUser.address, AMOUNT, 2 * YEAR);
+    const end = lockEnd(await txTimestamp(tx), YEAR);
+    const otherEnd = lockEnd(await txTimestamp(otherTx), 2 * YEAR);
+    const start = await txTimestamp(otherTx);
+
+    // check total voting power before and after the end of the first lock
+    await setBlockTimestamp(end + WEEK);
+    for (const timestamp of [start, end - 1, end, end + WEEK - 1]) {
+      const votes = await voteEscrow.getPastVotes(user.address, timestamp);
+      const otherVotes = await voteEscrow.getPastVotes(otherUser.address, timestamp);
+      expect(votes).to.be.equal(votingPower(AMOUNT, end, timestamp));
+      expect(otherVotes).to.be.equal(votingPower(AMOUNT, otherEnd, timestamp));
+      expect(await voteEscrow.getPastTotalSupply(timestamp)).to.be.equal(votes.add(otherVotes));
+    }
+    expect(await voteEscrow.totalSupply()).to.be.equal(await voteEscrow.balanceOf(otherUser.address));
+  });
+
+  it("withdraw: reverts with 'Lock not expired' message before the end of the lock", async () => {
+    // should revert with "Lock not expired"
+    await expect(voteEscrow.connect(otherUser).withdraw()).to.be.revertedWith("Lock not expired");
+  });
+
+  it("increaseAmount: should add to the lock and keep its end", async () => {
+    // should emit "Lock"
+    const { end } = await voteEscrow.locked(otherUser.address);
+    await sky.transfer(otherUser.address, AMOUNT);
+    const tx = await voteEscrow.connect(otherUser).increaseAmount(AMOUNT);
+    await expect(tx).to.emit(voteEscrow, "Lock").withArgs(otherUser.address, otherUser.address, AMOUNT, end);
+    expect((await voteEscrow.locked(otherUser.address)).amount).to.be.equal(AMOUNT.mul(2));
+
+    // check voting power
+    const timestamp = await txTimestamp(tx);
+    await setBlockTimestamp(timestamp + 1);
+    expect(await voteEscrow.getPastVotes(otherUser.address, timestamp)).to.be.equal(
+      votingPower(AMOUNT.mul(2), end.toNumber(), timestamp),
+    );
+  });
+
+  it("extendLock: reverts with 'Lock can only be extended' message if the new end is not later", async () => {
+    // should revert with "Lock can only be extended"
+    await expect(voteEscrow.connect(otherUser).extendLock(WEEK)).to.be.revertedWith("Lock can only be extended");
+  });
+
+  it("extendLock: should extend the lock and increase the voting power", async () => {
+    // should emit "Lock"
+    const tx = await voteEscrow.connect(otherUser).extendLock(MAXTIME);
+    const timestamp = await txTimestamp(tx);
+    const end = lockEnd(timestamp, MAXTIME);
+    await expect(tx).to.emit(voteEscrow, "Lock").withArgs(otherUser.address, otherUser.address, 0, end);
+
+    // check voting power
+    await setBlockTimestamp(timestamp + 1);
+    expect(await voteEscrow.getPastVotes(otherUser.address, timestamp)).to.be.equal(
+      votingPower(AMOUNT.mul(2), end, timestamp),
+    );
+    expect(await voteEscrow.getPastTotalSupply(timestamp)).to.be.equal(
+      votingPower(AMOUNT.mul(2), end, timestamp).add(await voteEscrow.getPastVotes(user.address, timestamp)),
+    );
+  });
+
+  describe("Vesting integration", () => {
+    let vesting: Vesting;
+
+    const POSITION_AMOUNT = ethers.utils.parseEther("100");
+
+    before(async () => {
+      // deploy and fund Vesting
+      const vestingFactory = <Vesting__factory>await ethers.getContractFactory("Vesting");
+      vesting = await vestingFactory.deploy(sky.address);
+      await sky.transfer(vesting.address, POSITION_AMOUNT.mul(3));
+
+      // withdraw the expired lock of the user
+      await voteEscrow.connect(user).withdraw();
+
+      // set the vote escrow and create positions locking their vested tokens
+      await vesting.setVoteEscrow(voteEscrow.address);
+      await vesting.createPosition(user.address, POSITION_AMOUNT, 0, YEAR, true, false);
+      await vesting.createPosition(user.address, POSITION_AMOUNT, 0, YEAR, true, true);
+      await vesting.createPosition(user.address, POSITION_AMOUNT, 0, YEAR, false, false);
+    });
+
+    it("claim: reverts with '!locker' message if Vesting is not a locker of the vote escrow", async () => {
+      // should revert with "!locker"
+      await setBlockTimestamp((await now()) + YEAR / 4);
+      await expect(vesting.connect(user).claim(0, user.address, YEAR)).to.be.revertedWith("!locker");
+    });
+
+    it("claim: should lock the vested tokens of lockVested positions", async () => {
+      // allow Vesting to lock
+      await voteEscrow.setLocker(vesting.address, true);
+
+      // claim to a new lock
+      const tx = await vesting.connect(user).claim(0, user.address, 2 * YEAR);
+      const timestamp = await txTimestamp(tx);
+      const claimed = await vesting.amountPaid(0);
+      const end = lockEnd(timestamp, 2 * YEAR);
+      await expect(tx)
+        .to.emit(voteEscrow, "Lock")
+        .withArgs(vesting.address, user.address, claimed, end)
+        .and.to.emit(vesting, "AmountClaimed")
+        .withArgs(user.address, user.address, claimed, 2 * YEAR);
+      expect(await voteEscrow.locked(user.address)).to.be.deep.equal([claimed, BigNumber.from(end)]);
+      await setBlockTimestamp(timestamp + 1);
+      expect(await voteEscrow.getPastVotes(user.address, timestamp)).to.be.equal(votingPower(claimed, end, timestamp));
+    });
+
+    it("claim: should add the vested tokens to the lock of the recipient, keeping the latest end", async () => {
+      // claim with a shorter lock period
+      const { amount, end } = await voteEscrow.locked(user.address);
+      await setBlockTimestamp((await now()) + YEAR / 4);
+      await vesting.connect(user).claim(0, user.address, YEAR);
+      expect(await voteEscrow.locked(user.address)).to.be.deep.equal([await vesting.amountPaid(0), end]);
+      expect(await vesting.amountPaid(0)).to.be.gt(amount);
+    });
+
+    it("claim: should transfer the vested tokens of other positions unless a lock period is set", async () => {
+      // claim without locking
+      const balance = await sky.balanceOf(user.address);
+      const locked = await voteEscrow.totalLocked();
+      await vesting.connect(user).claim(2, user.address, 0);
+      const claimed = await vesting.amountPaid(2);
+      expect(await sky.balanceOf(user.address)).to.be.equal(balance.add(claimed));
+      expect(await voteEscrow.totalLocked()).to.be.equal(locked);
+
+      // claim to the lock of the owner
+      await setBlockTimestamp((await now()) + YEAR / 4);
+      const { amount } = await voteEscrow.locked(user.address);
+      await vesting.connect(user).claim(2, user.address, YEAR);
+      expect((await voteEscrow.locked(user.address)).amount).to.be.equal(
+        amount.add(await vesting.amountPaid(2)).sub(claimed),
+      );
+    });
+
+    it("claim: reverts with 'Invalid lock recipient' message if locking for another account", async () => {
+      // a position split off to another account should not extend the lock of a third party
+      await sky.transfer(vesting.address, POSITION_AMOUNT.div(100));
+      const receipt = await (
+        await vesting.createPosition(otherUser.address, POSITION_AMOUNT.div(100), 0, YEAR, false, false)
+      ).wait();
+      const positionId = receipt.events?.find((e) => e.event === "PositionCreated")?.args?._positionId;
+      await setBlockTimestamp((await now()) + YEAR / 4);
+      const locked = await voteEscrow.locked(user.address);
+
+      // should revert with "Invalid lock recipient", with or without lockVested
+      await expect(vesting.connect(otherUser).claim(positionId, user.address, 4 * YEAR)).to.be.revertedWith(
+        "Invalid lock recipient",
+      );
+      await expect(vesting.connect(user).claim(0, otherUser.address, YEAR)).to.be.revertedWith(
+        "Invalid lock recipient",
+      );
+      expect(await voteEscrow.locked(user.address)).to.be.deep.equal(locked);
+
+      // should still transfer unlocked tokens to another account
+      await expect(vesting.connect(otherUser).claim(positionId, user.address, 0)).to.emit(vesting, "AmountClaimed");
+      expect(await voteEscrow.locked(user.address)).to.be.deep.equal(locked);
+    });
+
+    it("revoke: should lock the vested tokens of a revoked lockVested position", async () => {
+      // should emit "Lock" and "PositionRevoked"
+      const { amount } = await voteEscrow.locked(user.address);
+      const due = await vesting.amountDue(1);
+      const tx = await vesting.revoke(1, YEAR);
+      const paid = await vesting.amountPaid(1);
+      expect(paid).to.be.gte(due);
+      await expect(tx)
+        .to.emit(voteEscrow, "Lock")
+        .withArgs(vesting.address, user.address, paid, (await voteEscrow.locked(user.address)).end)
+        .and.to.emit(vesting, "PositionRevoked")
+        .withArgs(owner.address, user.address, 1, paid, POSITION_AMOUNT.sub(paid));
+      expect((await voteEscrow.locked(user.address)).amount).to.be.equal(amount.add(paid));
+      expect(await vesting.usableSupply()).to.be.equal(POSITION_AMOUNT.sub(paid));
+    });
+  });
+});
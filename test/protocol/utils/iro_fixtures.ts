@@ -0,0 +1,228 @@
+// iro_fixtures.ts: Fixtures to deploy and drive InitialRealEstateOffering through its lifecycle
+
+// Import contract types
+import type {
+  AggregatorV3Mock,
+  AggregatorV3Mock__factory,
+  ERC20PermitMock,
+  ERC20PermitMock__factory,
+  InitialRealEstateOffering,
+  InitialRealEstateOffering__factory,
+  RealEstateERC1155,
+  PriceOracle,
+  PriceOracle__factory,
+  RealEstateERC1155__factory,
+  USDTMock,
+  USDTMock__factory,
+} from "../../../typechain-types";
+
+// HardhatRuntimeEnvironment
+import { ethers, upgrades } from "hardhat";
+
+// Get BigNumber
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+import { ContractTransaction } from "@ethersproject/contracts";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+// Import EVM utils
+import { now, setBlockTimestamp } from "../../utils/evm_utils";
+
+// Import IRO status
+import { IROStatus } from "../../../sdk/types";
+
+// Contracts and accounts deployed by deployIROFixture
+export interface IROFixture {
+  owner: SignerWithAddress;
+  admin: SignerWithAddress;
+  treasury: SignerWithAddress;
+  listingOwner: SignerWithAddress;
+  investors: SignerWithAddress[];
+  currency: USDTMock;
+  realEstateNft: RealEstateERC1155;
+  iro: InitialRealEstateOffering;
+}
+
+// createIRO parameters
+export interface IROParams {
+  listingOwner: string;
+  treasuryFee: BigNumber;
+  operationFee: BigNumber;
+  duration: number;
+  assetPrice: BigNumber;
+  unitPrice: BigNumber;
+  startOffset: number;
+  minUnits: BigNumberish;
+  maxUnitsPerWallet: BigNumberish;
+}
+
+// Price oracle and whitelisted token deployed by deployTokenCommitFixture
+export interface TokenCommitFixture {
+  priceOracle: PriceOracle;
+  dai: ERC20PermitMock;
+  daiAggregator: AggregatorV3Mock;
+  ethAggregator: AggregatorV3Mock;
+}
+
+// Prices of the whitelisted tokens in USDT (aggregators have 8 decimals)
+export const DAI_PRICE = ethers.utils.parseUnits("1", 8);
+export const ETH_PRICE = ethers.utils.parseUnits("2000", 8);
+
+// Default createIRO parameters (USDT has 6 decimals)
+export const DEFAULT_IRO_PARAMS: Omit<IROParams, "listingOwner"> = {
+  treasuryFee: ethers.utils.parseUnits("1000", 6),
+  operationFee: ethers.utils.parseUnits("1500", 6),
+  duration: 2592000, // 30 days
+  assetPrice: ethers.utils.parseUnits("100000", 6),
+  unitPrice: ethers.utils.parseUnits("50", 6),
+  startOffset: 86400, // 1 day
+  minUnits: 0,
+  maxUnitsPerWallet: 0, // no cap
+};
+
+/**
+ * @dev Deploy USDTMock, RealEstateERC1155 and InitialRealEstateOffering (the last two behind proxies)
+ *      and set the IRO as the reNFT minter
+ */
+export async function deployIROFixture(): Promise<IROFixture> {
+  // get signers
+  const [owner, admin, treasury, listingOwner, ...investors] = await ethers.getSigners();
+
+  // deploy the IRO currency
+  const currencyFactory = <USDTMock__factory>await ethers.getContractFactory("USDTMock");
+  const currency = await currencyFactory.connect(owner).deploy(owner.address);
+
+  // deploy RealEstateERC1155 contract
+  const realEstateNftFactory = <RealEstateERC1155__factory>await ethers.getContractFactory("RealEstateERC1155");
+  const realEstateNft = <RealEstateERC1155>(
+    await upgrades.deployProxy(realEstateNftFactory, [
+      "https://test.com/",
+      admin.address,
+      owner.address,
+      currency.address,
+    ])
+  );
+
+  // deploy InitialRealEstateOffering contract
+  const iroFactory = <InitialRealEstateOffering__factory>await ethers.getContractFactory("InitialRealEstateOffering");
+  const iro = <InitialRealEstateOffering>(
+    await upgrades.deployProxy(iroFactory, [owner.address, realEstateNft.address, treasury.address, currency.address])
+  );
+
+  // set IRO as the reNFT minter
+  await realEstateNft.connect(admin).setMinter(iro.address);
+
+  return { owner, admin, treasury, listingOwner, investors, currency, realEstateNft, iro };
+}
+
+/**
+ * @dev Deploy a PriceOracle with DAI/USDT and ETH/USDT mock aggregators,
+ *      set it in the IRO and whitelist DAI and ETH
+ *
+ * @param fixture IRO fixture
+ */
+export async function deployTokenCommitFixture(fixture: IROFixture): Promise<TokenCommitFixture> {
+  const { owner, currency, iro } = fixture;
+
+  // deploy DAI
+  const daiFactory = <ERC20PermitMock__factory>await ethers.getContractFactory("ERC20PermitMock");
+  const dai = await daiFactory.connect(owner).deploy("DAI Mock", "DAI");
+
+  // deploy aggregators
+  const aggregatorFactory = <AggregatorV3Mock__factory>await ethers.getContractFactory("AggregatorV3Mock");
+  const daiAggregator = await aggregatorFactory.connect(owner).deploy(8, "DAI / USDT", DAI_PRICE);
+  const ethAggregator = await aggregatorFactory.connect(owner).deploy(8, "ETH / USDT", ETH_PRICE);
+
+  // deploy PriceOracle and set aggregators
+  const priceOracleFactory = <PriceOracle__factory>await ethers.getContractFactory("PriceOracle");
+  const priceOracle = await priceOracleFactory.connect(owner).deploy(owner.address);
+  await priceOracle.connect(owner).setAggregator(dai.address, currency.address, daiAggregator.address);
+  await priceOracle.connect(owner).setAggregator(ethers.constants.AddressZero, currency.address, ethAggregator.address);
+
+  // set price oracle and whitelist tokens
+  await iro.connect(owner).setPriceOracle(priceOracle.address);
+  await iro.connect(owner).whitelistToken(dai.address, true);
+  await iro.connect(owner).whitelistToken(ethers.constants.AddressZero, true);
+
+  return { priceOracle, dai, daiAggregator, ethAggregator };
+}
+
+/**
+ * @dev Create an IRO with the default parameters, overridden by `params`
+ *
+ * @param fixture IRO fixture
+ * @param params createIRO parameters to override
+ * @return ID of the created IRO
+ */
+export async function createIRO(fixture: IROFixture, params: Partial<IROParams> = {}): Promise<BigNumber> {
+  const p: IROParams = { listingOwner: fixture.listingOwner.address, ...DEFAULT_IRO_PARAMS, ...params };
+  const iroId = await fixture.iro.iroLength();
+  await fixture.iro
+    .connect(fixture.owner)
+    .createIRO(
+      p.listingOwner,
+      p.treasuryFee,
+      p.operationFee,
+      p.duration,
+      p.assetPrice,
+      p.unitPrice,
+      p.startOffset,
+      p.minUnits,
+      p.maxUnitsPerWallet,
+    );
+  return iroId;
+}
+
+/**
+ * @dev Mint the purchase price to an investor and commit to an IRO
+ *
+ * @param fixture IRO fixture
+ * @param iroId ID of the IRO
+ * @param investor Investor account
+ * @param amount Amount of IRO tokens to purchase
+ * @return Commit transaction
+ */
+export async function commit(
+  fixture: IROFixture,
+  iroId: BigNumberish,
+  investor: SignerWithAddress,
+  amount: BigNumberish,
+): Promise<ContractTransaction> {
+  const value = await fixture.iro.price(iroId, amount);
+  await fixture.currency.connect(fixture.owner).freeMint(investor.address, value);
+  await fixture.currency.connect(investor).approve(fixture.iro.address, value);
+  return fixture.iro.connect(investor).commit(iroId, amount);
+}
+
+/**
+ * @dev Move time forward until an IRO reaches `status`
+ * @dev SUCCESS requires the IRO to be fully funded (see fundIRO) and FAIL not to be,
+ *      since both are reached at the IRO end
+ *
+ * @param fixture IRO fixture
+ * @param iroId ID of the IRO
+ * @param status Status to reach
+ */
+export async function advanceToStatus(fixture: IROFixture, iroId: BigNumberish, status: IROStatus) {
+  const iro = await fixture.iro.getIRO(iroId);
+  const timestamp = status === IROStatus.FUNDING ? iro.start.toNumber() : iro.end.toNumber();
+  if (status !== IROStatus.PENDING && (await now()) < timestamp) await setBlockTimestamp(timestamp);
+  if ((await fixture.iro.getStatus(iroId)) !== status) {
+    throw new Error(`IRO #${iroId} could not reach ${IROStatus[status]} (is it correctly funded?)`);
+  }
+}
+
+/**
+ * @dev Commit the remaining IRO tokens, split between `investors`
+ *
+ * @param fixture IRO fixture
+ * @param iroId ID of the IRO
+ * @param investors Investor accounts
+ */
+export async function fundIRO(fixture: IROFixture, iroId: BigNumberish, investors: SignerWithAddress[]) {
+  const remainingTokens = await fixture.iro.remainingTokens(iroId);
+  const share = remainingTokens.div(investors.length);
+  for (let i = 0; i < investors.length; i++) {
+    const amount = i === investors.length - 1 ? remainingTokens.sub(share.mul(i)) : share;
+    if (amount.gt(0)) await commit(fixture, iroId, investors[i], amount);
+  }
+}
@@ -0,0 +1,187 @@
+// IROClient.test.ts: Unit tests for the IROClient namespace of the Horizon SDK
+
+// Solidity extension for chai
+import { solidity } from "ethereum-waffle";
+
+// Use Chai for testing
+import chai from "chai";
+import { expect } from "chai";
+// Setup chai plugins
+chai.use(solidity);
+
+// Import contract types
+import type { RealEstateReserves__factory } from "../../typechain-types";
+
+// Get BigNumber
+import { BigNumber } from "@ethersproject/bignumber";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+// Get ethers from hardhat
+import { ethers } from "hardhat";
+
+// Import IRO fixtures
+import {
+  IROFixture,
+  DEFAULT_IRO_PARAMS,
+  deployIROFixture,
+  deployTokenCommitFixture,
+  createIRO,
+  advanceToStatus,
+  fundIRO,
+} from "../protocol/utils/iro_fixtures";
+
+// Import SDK
+import { ETH, IROClient } from "../../sdk/iro";
+import { IROStatus } from "../../sdk/types";
+
+describe("IROClient Unit Tests", () => {
+  let fixture: IROFixture;
+  let user: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let client: IROClient;
+  let iroId: BigNumber;
+
+  const { unitPrice: UNIT_PRICE } = DEFAULT_IRO_PARAMS;
+  const MIN_UNITS = 5;
+  const MAX_UNITS_PER_WALLET = 100;
+
+  // mint the purchase price of an amount of IRO tokens to an investor
+  async function mintPrice(investor: SignerWithAddress, amount: number) {
+    await fixture.currency.connect(fixture.owner).freeMint(investor.address, UNIT_PRICE.mul(amount));
+  }
+
+  // expect a promise to be rejected with an error including a message
+  async function expectRejection(promise: Promise<unknown>, message: string) {
+    const error = await promise.then(
+      () => undefined,
+      (e: Error) => e,
+    );
+    expect(error?.message, "promise should be rejected").to.include(message);
+  }
+
+  before(async () => {
+    // deploy contracts and create an IRO with commit limits
+    fixture = await deployIROFixture();
+    [user, user2] = fixture.investors;
+    iroId = await createIRO(fixture, { minUnits: MIN_UNITS, maxUnitsPerWallet: MAX_UNITS_PER_WALLET });
+
+    // connect the client with the user
+    client = new IROClient(fixture.iro.address, user);
+  });
+
+  it("checkCommit: throws if the IRO is not funding", async () => {
+    // should throw while the IRO is pending
+    await expectRejection(
+      client.checkCommit(iroId, user.address, MIN_UNITS),
+      `IRO #${iroId} is not accepting commits (status: PENDING)`,
+    );
+    await advanceToStatus(fixture, iroId, IROStatus.FUNDING);
+  });
+
+  it("checkCommit: throws below the minimum units and above the wallet caps", async () => {
+    // should throw below the minimum units
+    await expectRejection(
+      client.checkCommit(iroId, user.address, MIN_UNITS - 1),
+      `Commits to IRO #${iroId} should be of at least ${MIN_UNITS} tokens`,
+    );
+
+    // should throw above the per-IRO wallet cap
+    await expectRejection(
+      client.checkCommit(iroId, user.address, MAX_UNITS_PER_WALLET + 1),
+      `Wallet cap of IRO #${iroId} reached`,
+    );
+
+    // should throw above the global wallet cap
+    await fixture.iro.connect(fixture.owner).setGlobalMaxUnitsPerWallet(MIN_UNITS);
+    await expectRejection(client.checkCommit(iroId, user.address, MIN_UNITS + 1), "Global wallet cap reached");
+    await fixture.iro.connect(fixture.owner).setGlobalMaxUnitsPerWallet(0);
+
+    // should accept a valid commit
+    await client.checkCommit(iroId, user.address, MIN_UNITS);
+  });
+
+  it("commit: should commit with a permit when the IRO currency supports it", async () => {
+    // commit through the client
+    await mintPrice(user, MIN_UNITS);
+    await client.commit(iroId, MIN_UNITS);
+
+    // check commit and allowance
+    expect(await fixture.iro.commits(iroId, user.address)).to.be.equal(UNIT_PRICE.mul(MIN_UNITS));
+    expect(await fixture.currency.allowance(user.address, fixture.iro.address)).to.be.equal(0);
+  });
+
+  it("commitWithApproval: should approve the IRO currency and commit", async () => {
+    // commit through the client
+    await mintPrice(user2, MIN_UNITS);
+    await new IROClient(fixture.iro.address, user2).commitWithApproval(iroId, MIN_UNITS);
+
+    // check commit
+    expect(await fixture.iro.commits(iroId, user2.address)).to.be.equal(UNIT_PRICE.mul(MIN_UNITS));
+  });
+
+  it("commit: throws before sending a commit the contract would reject", async () => {
+    // should throw above the per-IRO wallet cap, without committing
+    await mintPrice(user, MAX_UNITS_PER_WALLET);
+    await expectRejection(client.commit(iroId, MAX_UNITS_PER_WALLET), `Wallet cap of IRO #${iroId} reached`);
+    expect(await fixture.iro.commits(iroId, user.address)).to.be.equal(UNIT_PRICE.mul(MIN_UNITS));
+  });
+
+  it("refund: should list the funds a failed IRO refunds", async () => {
+    // let the IRO fail
+    await advanceToStatus(fixture, iroId, IROStatus.FAIL);
+
+    // check refund
+    const refund = await client.refund(iroId, user.address);
+    expect(refund.currency).to.be.equal(fixture.currency.address);
+    expect(refund.currencyAmount).to.be.equal(UNIT_PRICE.mul(MIN_UNITS));
+    expect(refund.tokens).to.be.deep.equal([]);
+  });
+
+  it("distribution: should match the funds split by the withdrawal, with reserves and token commits", async () => {
+    const { owner, treasury, listingOwner, currency, iro } = fixture;
+    const RESERVES_SHARE = 5000;
+
+    // route a share of the operation fee to the reserves
+    const reservesFactory = <RealEstateReserves__factory>await ethers.getContractFactory("RealEstateReserves");
+    const reserves = await reservesFactory.deploy(owner.address, 0);
+    await iro.connect(owner).setReserves(reserves.address, RESERVES_SHARE);
+
+    // fund an IRO in DAI, ETH and the IRO currency
+    const { dai } = await deployTokenCommitFixture(fixture);
+    const id = await createIRO(fixture, { startOffset: 0 });
+    await dai.connect(owner).freeMint(user.address, ethers.utils.parseEther("1000000"));
+    await client.commitWithToken(id, 100, dai.address);
+    await new IROClient(iro.address, user2).commitWithToken(id, 10, ETH);
+    await fundIRO(fixture, id, [user]);
+    await advanceToStatus(fixture, id, IROStatus.SUCCESS);
+
+    // check the preview
+    const distribution = await client.distribution(id);
+    expect(distribution.reserves).to.be.equal(reserves.address);
+    expect(distribution.reservesShare).to.be.equal(RESERVES_SHARE);
+    expect(distribution.splits.map(({ token }) => token)).to.be.deep.equal([currency.address, dai.address, ETH]);
+    expect(distribution.splits[0].reservesAmount).to.be.gt(0);
+    expect(distribution.splits[1].reservesAmount).to.be.gt(0);
+    expect(distribution.splits[2].reservesAmount).to.be.equal(0);
+
+    // withdraw and claim, depositing the pending reserves
+    const balance = (token: string, account: string) =>
+      token === ETH ? ethers.provider.getBalance(account) : dai.attach(token).balanceOf(account);
+    const balancesBefore = await Promise.all(
+      distribution.splits.map(({ token }) =>
+        Promise.all([balance(token, treasury.address), balance(token, listingOwner.address)]),
+      ),
+    );
+    await client.withdraw(id);
+    await client.claim(id, user.address);
+
+    // check the funds split
+    for (let i = 0; i < distribution.splits.length; i++) {
+      const { token, amount, treasuryAmount, reservesAmount, listingOwnerAmount } = distribution.splits[i];
+      expect(treasuryAmount.add(reservesAmount).add(listingOwnerAmount)).to.be.equal(amount);
+      expect(await balance(token, treasury.address)).to.be.equal(balancesBefore[i][0].add(treasuryAmount));
+      expect(await balance(token, listingOwner.address)).to.be.equal(balancesBefore[i][1].add(listingOwnerAmount));
+      if (token !== ETH) expect(await balance(token, reserves.address)).to.be.equal(reservesAmount);
+    }
+  });
+});
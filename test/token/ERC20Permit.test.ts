@@ -39,14 +39,16 @@ describe("ERC20Permit Unit tests", () => {
     erc20Permit = await erc20PermitFactory.connect(deployer).deploy(NAME, SYMBOL);
   });
 
-  it("supportsInterface: Supports IERC20 and IERC165", async () => {
+  it("supportsInterface: Supports IERC20, IERC165 and IERC20SignaturePermit", async () => {
     // Interface IDs
     const Ierc20InterfaceId = "0x36372b07";
     const Ierc165InterfaceId = "0x01ffc9a7";
+    const Ierc20SignaturePermitInterfaceId = "0xd75ffdda";
 
     // Check if interfaces are supported
     expect(await erc20Permit.supportsInterface(Ierc20InterfaceId)).to.be.true;
     expect(await erc20Permit.supportsInterface(Ierc165InterfaceId)).to.be.true;
+    expect(await erc20Permit.supportsInterface(Ierc20SignaturePermitInterfaceId)).to.be.true;
   });
 
   describe("Test permit", () => {
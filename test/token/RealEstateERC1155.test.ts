@@ -11,6 +11,8 @@ chai.use(solidity);
 
 // Import contract types
 import type {
+  ContractHolderMock,
+  ContractHolderMock__factory,
   RealEstateERC1155,
   RealEstateERC1155__factory,
   ERC20PermitMock,
@@ -24,11 +26,15 @@ import { ethers, upgrades } from "hardhat";
 import { BigNumber } from "@ethersproject/bignumber";
 import { Signer } from "@ethersproject/abstract-signer";
 
+// EVM utils
+import { now, setBlockTimestamp } from "../utils/evm_utils";
+
 describe("RealEstateERC1155 Unit Tests", () => {
   let admin: Signer;
   let owner: Signer;
   let minter: Signer;
   let burner: Signer;
+  let depositor: Signer;
   let yieldCurrency: ERC20PermitMock;
   let realEstateToken: RealEstateERC1155;
 
@@ -41,7 +47,7 @@ describe("RealEstateERC1155 Unit Tests", () => {
 
   before(async () => {
     // get signers
-    [, admin, owner, minter, burner] = await ethers.getSigners();
+    [, admin, owner, minter, burner, depositor] = await ethers.getSigners();
 
     // deploy the yield currency
     const yieldCurrencyFactory = <ERC20PermitMock__factory>await ethers.getContractFactory("ERC20PermitMock");
@@ -103,6 +109,72 @@ describe("RealEstateERC1155 Unit Tests", () => {
     await expect(realEstateToken.connect(admin).setBurner(burner.getAddress())).to.be.revertedWith("Same burner");
   });
 
+  it("setDepositor: should revert with '!admin' if caller is not the admin", async () => {
+    // should revert with "!admin" message
+    await expect(realEstateToken.setDepositor(depositor.getAddress())).to.be.revertedWith("!admin");
+  });
+
+  it("setDepositor: should emit 'SetDepositor' on success", async () => {
+    // should emit "SetDepositor"
+    await expect(realEstateToken.connect(admin).setDepositor(depositor.getAddress()))
+      .to.emit(realEstateToken, "SetDepositor")
+      .withArgs(await admin.getAddress(), await depositor.getAddress());
+  });
+
+  it("setDepositor: should revert with 'Same depositor' message when setting the same depositor", async () => {
+    // should revert with "Same depositor" message
+    await expect(realEstateToken.connect(admin).setDepositor(depositor.getAddress())).to.be.revertedWith(
+      "Same depositor",
+    );
+  });
+
+  it("setCompounder: should revert with '!admin' if caller is not the admin", async () => {
+    // should revert with "!admin" message
+    await expect(realEstateToken.setCompounder(depositor.getAddress())).to.be.revertedWith("!admin");
+  });
+
+  it("setCompounder: should emit 'SetCompounder' on success", async () => {
+    // should emit "SetCompounder"
+    await expect(realEstateToken.connect(admin).setCompounder(depositor.getAddress()))
+      .to.emit(realEstateToken, "SetCompounder")
+      .withArgs(await admin.getAddress(), await depositor.getAddress());
+  });
+
+  it("setCompounder: should revert with 'Same compounder' message when setting the same compounder", async () => {
+    // should revert with "Same compounder" message
+    await expect(realEstateToken.connect(admin).setCompounder(depositor.getAddress())).to.be.revertedWith(
+      "Same compounder",
+    );
+  });
+
+  it("setPropertyGovernor: should revert with '!admin' if caller is not the admin", async () => {
+    // should revert with "!admin" message
+    await expect(realEstateToken.setPropertyGovernor(depositor.getAddress())).to.be.revertedWith("!admin");
+  });
+
+  it("setPropertyGovernor: should emit 'SetPropertyGovernor' on success", async () => {
+    // should emit "SetPropertyGovernor"
+    await expect(realEstateToken.connect(admin).setPropertyGovernor(depositor.getAddress()))
+      .to.emit(realEstateToken, "SetPropertyGovernor")
+      .withArgs(await admin.getAddress(), await depositor.getAddress());
+  });
+
+  it("setPropertyGovernor: should revert with 'Same property governor' when setting the same property governor", async () => {
+    // should revert with "Same property governor" message
+    await expect(realEstateToken.connect(admin).setPropertyGovernor(depositor.getAddress())).to.be.revertedWith(
+      "Same property governor",
+    );
+
+    // unset the property governor, transfers would call it otherwise
+    await realEstateToken.connect(admin).setPropertyGovernor(ethers.constants.AddressZero);
+    expect(await realEstateToken.propertyGovernor()).to.be.equal(ethers.constants.AddressZero);
+  });
+
+  it("collectYield: should revert with '!compounder' if caller is not the compounder", async () => {
+    // should revert with "!compounder" message
+    await expect(realEstateToken.collectYield(0, depositor.getAddress())).to.be.revertedWith("!compounder");
+  });
+
   describe("Mint event", () => {
     let realEstateReceiver: Signer;
 
@@ -114,7 +186,7 @@ describe("RealEstateERC1155 Unit Tests", () => {
 
     before(async () => {
       // get realEstateReceiver
-      [realEstateReceiver] = (await ethers.getSigners()).slice(5);
+      [realEstateReceiver] = (await ethers.getSigners()).slice(6);
     });
 
     it("mint: revert if caller is not the minter", async () => {
@@ -219,5 +291,510 @@ describe("RealEstateERC1155 Unit Tests", () => {
         expect(await realEstateToken.balanceOf(burner.getAddress(), currentId.sub(1))).to.be.equal(BigNumber.from(0));
       });
     });
+
+    describe("Yield deposit", () => {
+      const DEPOSIT = BigNumber.from("1500000");
+      const DURATION = 1000;
+      const START_OFFSET = 100;
+
+      before(async () => {
+        // fund the depositor and approve the yield currency
+        await yieldCurrency.freeMint(depositor.getAddress(), DEPOSIT.mul(2));
+        await yieldCurrency.connect(depositor).approve(realEstateToken.address, DEPOSIT.mul(2));
+      });
+
+      it("deposit: reverts with '!depositor' message if caller is not the depositor", async () => {
+        // should revert with "!depositor"
+        await expect(realEstateToken.deposit(0, DEPOSIT, DURATION, START_OFFSET)).to.be.revertedWith("!depositor");
+      });
+
+      it("deposit: reverts with '!deposit' message if amount is zero", async () => {
+        // should revert with "!deposit"
+        await expect(realEstateToken.connect(depositor).deposit(0, 0, DURATION, START_OFFSET)).to.be.revertedWith(
+          "!deposit",
+        );
+      });
+
+      it("deposit: should lock the deposit until the unlock period starts", async () => {
+        // deposit yield
+        const unlockStart = (await now()) + 1 + START_OFFSET;
+        await expect(realEstateToken.connect(depositor).deposit(0, DEPOSIT, DURATION, START_OFFSET))
+          .to.emit(realEstateToken, "NewDeposit")
+          .withArgs(
+            0,
+            await depositor.getAddress(),
+            yieldCurrency.address,
+            DEPOSIT,
+            unlockStart,
+            unlockStart + DURATION,
+          );
+
+        // check the deposit is fully locked
+        const deposit = await realEstateToken.getDeposit(0);
+        expect(deposit.unlockedAmountPerToken).to.be.equal(0);
+        expect(deposit.lockedAmount).to.be.equal(DEPOSIT);
+        expect(deposit.unlockStart).to.be.equal(unlockStart);
+        expect(deposit.unlockEnd).to.be.equal(unlockStart + DURATION);
+      });
+
+      it("getDeposit: should roll the unlocked yield into unlockedAmountPerToken on a new deposit", async () => {
+        // go halfway through the unlock period
+        const { unlockStart } = await realEstateToken.getDeposit(0);
+        await setBlockTimestamp(unlockStart.toNumber() + DURATION / 2 - 1);
+
+        // deposit again, half of the previous deposit is unlocked
+        await realEstateToken.connect(depositor).deposit(0, DEPOSIT, DURATION, 0);
+        const unlocked = DEPOSIT.div(2);
+        const totalSupply = await realEstateToken.totalSupply(0);
+
+        // check the unlocked yield was rolled over and the rest carried over to the new deposit
+        const deposit = await realEstateToken.getDeposit(0);
+        expect(deposit.unlockedAmountPerToken).to.be.equal(unlocked.div(totalSupply));
+        expect(deposit.lockedAmount).to.be.equal(DEPOSIT.mul(2).sub(unlocked));
+        expect(await realEstateToken.yieldPerToken(0)).to.be.equal(unlocked.div(totalSupply));
+      });
+    });
+  });
+
+  describe("Multi-currency yield", () => {
+    let holder: Signer;
+    let receiver: Signer;
+    let secondCurrency: ERC20PermitMock;
+    let multiCurrencyToken: RealEstateERC1155;
+
+    const SUPPLY = BigNumber.from("100");
+    const TRANSFER = BigNumber.from("50");
+    const DEPOSIT = BigNumber.from("1000000");
+    const SECOND_DEPOSIT = BigNumber.from("3000000");
+    const DURATION = 1000;
+
+    before(async () => {
+      // get holders
+      [holder, receiver] = (await ethers.getSigners()).slice(7);
+
+      // deploy a second yield currency
+      const currencyFactory = <ERC20PermitMock__factory>await ethers.getContractFactory("ERC20PermitMock");
+      secondCurrency = await currencyFactory.deploy("Second Yield Currency", "SYDC");
+
+      // deploy a fresh RealEstateERC1155 contract and set roles
+      const realEstateTokenFactory = <RealEstateERC1155__factory>await ethers.getContractFactory("RealEstateERC1155");
+      multiCurrencyToken = <RealEstateERC1155>(
+        await upgrades.deployProxy(realEstateTokenFactory, [
+          URI,
+          await admin.getAddress(),
+          await owner.getAddress(),
+          yieldCurrency.address,
+        ])
+      );
+      await multiCurrencyToken.connect(admin).setMinter(minter.getAddress());
+      await multiCurrencyToken.connect(admin).setDepositor(depositor.getAddress());
+
+      // mint reNFTs to the holder
+      await multiCurrencyToken.connect(minter).mint(0, holder.getAddress(), SUPPLY);
+
+      // fund the depositor in both currencies
+      for (const currency of [yieldCurrency, secondCurrency]) {
+        await currency.freeMint(depositor.getAddress(), SECOND_DEPOSIT.mul(2));
+        await currency.connect(depositor).approve(multiCurrencyToken.address, SECOND_DEPOSIT.mul(2));
+      }
+    });
+
+    it("depositWithCurrency: reverts with '!depositor' message if caller is not the depositor", async () => {
+      // should revert with "!depositor"
+      await expect(
+        multiCurrencyToken.depositWithCurrency(0, secondCurrency.address, SECOND_DEPOSIT, DURATION, 0),
+      ).to.be.revertedWith("!depositor");
+    });
+
+    it("depositWithCurrency: reverts with '!_currency' message if currency is the zero address", async () => {
+      // should revert with "!_currency"
+      await expect(
+        multiCurrencyToken
+          .connect(depositor)
+          .depositWithCurrency(0, ethers.constants.AddressZero, SECOND_DEPOSIT, DURATION, 0),
+      ).to.be.revertedWith("!_currency");
+    });
+
+    it("depositWithCurrency: should add the currency to the yield currencies of the token ID", async () => {
+      // deposit in the default currency, then in the second currency
+      await multiCurrencyToken.connect(depositor).deposit(0, DEPOSIT, DURATION, 0);
+      await expect(
+        multiCurrencyToken
+          .connect(depositor)
+          .depositWithCurrency(0, secondCurrency.address, SECOND_DEPOSIT, DURATION, 0),
+      ).to.emit(multiCurrencyToken, "NewDeposit");
+
+      // check yield currencies and deposits are kept separately
+      expect(await multiCurrencyToken.yieldCurrencies(0)).to.be.deep.equal([
+        yieldCurrency.address,
+        secondCurrency.address,
+      ]);
+      expect((await multiCurrencyToken.getDeposit(0)).lockedAmount).to.be.equal(DEPOSIT);
+      expect((await multiCurrencyToken.getCurrencyDeposit(0, secondCurrency.address)).lockedAmount).to.be.equal(
+        SECOND_DEPOSIT,
+      );
+    });
+
+    it("transfer: should keep yieldPerTokenClaimed of every currency up to date mid-stream", async () => {
+      // go halfway through the unlock period and transfer half of the holder reNFTs
+      const { unlockStart } = await multiCurrencyToken.getCurrencyDeposit(0, secondCurrency.address);
+      await setBlockTimestamp(unlockStart.toNumber() + DURATION / 2 - 1);
+      await multiCurrencyToken
+        .connect(holder)
+        .safeTransferFrom(holder.getAddress(), receiver.getAddress(), 0, TRANSFER, ethers.utils.toUtf8Bytes(""));
+
+      // check both accounts checkpointed the yield per token of each currency
+      for (const currency of [yieldCurrency.address, secondCurrency.address]) {
+        const yieldPerToken = await multiCurrencyToken.currencyYieldPerToken(0, currency);
+        expect(yieldPerToken).to.be.gt(0);
+        for (const account of [holder, receiver]) {
+          expect(await multiCurrencyToken.currencyYieldPerTokenClaimed(0, currency, account.getAddress())).to.be.equal(
+            yieldPerToken,
+          );
+        }
+
+        // only the holder accrued yield so far
+        expect(await multiCurrencyToken.currencyYieldBalance(0, currency, holder.getAddress())).to.be.equal(
+          yieldPerToken.mul(SUPPLY),
+        );
+        expect(await multiCurrencyToken.currencyYieldBalance(0, currency, receiver.getAddress())).to.be.equal(0);
+      }
+    });
+
+    it("pendingYields: should return the pending yield of each currency", async () => {
+      // go past the end of the unlock period
+      const { unlockEnd } = await multiCurrencyToken.getCurrencyDeposit(0, secondCurrency.address);
+      await setBlockTimestamp(unlockEnd.toNumber() + 1);
+
+      // the holder earned the whole first half, both accounts share the second half
+      for (const [currency, deposit] of [
+        [yieldCurrency.address, DEPOSIT],
+        [secondCurrency.address, SECOND_DEPOSIT],
+      ] as [string, BigNumber][]) {
+        const claimedPerToken = await multiCurrencyToken.currencyYieldPerTokenClaimed(0, currency, holder.getAddress());
+        const secondHalfPerToken = deposit.div(SUPPLY).sub(claimedPerToken);
+        expect(await multiCurrencyToken.currencyPendingYield(0, currency, holder.getAddress())).to.be.equal(
+          claimedPerToken.mul(SUPPLY).add(secondHalfPerToken.mul(SUPPLY.sub(TRANSFER))),
+        );
+        expect(await multiCurrencyToken.currencyPendingYield(0, currency, receiver.getAddress())).to.be.equal(
+          secondHalfPerToken.mul(TRANSFER),
+        );
+      }
+
+      // pendingYields lists every currency, pendingYield the default one
+      const [currencies, amounts] = await multiCurrencyToken.pendingYields(0, receiver.getAddress());
+      expect(currencies).to.be.deep.equal([yieldCurrency.address, secondCurrency.address]);
+      expect(amounts[0]).to.be.equal(await multiCurrencyToken.pendingYield(0, receiver.getAddress()));
+      expect(amounts[1]).to.be.equal(
+        await multiCurrencyToken.currencyPendingYield(0, secondCurrency.address, receiver.getAddress()),
+      );
+    });
+
+    it("claimYield: should pay out each currency separately", async () => {
+      // get pending yields
+      const [currencies, amounts] = await multiCurrencyToken.pendingYields(0, holder.getAddress());
+
+      // claim yields, emitting 'ClaimYield' once per currency
+      const tx = await multiCurrencyToken.connect(holder).claimYield(0, holder.getAddress());
+      await expect(tx)
+        .to.emit(multiCurrencyToken, "ClaimYield")
+        .withArgs(0, await holder.getAddress(), await holder.getAddress(), currencies[0], amounts[0]);
+      await expect(tx)
+        .to.emit(multiCurrencyToken, "ClaimYield")
+        .withArgs(0, await holder.getAddress(), await holder.getAddress(), currencies[1], amounts[1]);
+
+      // check balances
+      expect(await yieldCurrency.balanceOf(holder.getAddress())).to.be.equal(amounts[0]);
+      expect(await secondCurrency.balanceOf(holder.getAddress())).to.be.equal(amounts[1]);
+      const [, pendingAfter] = await multiCurrencyToken.pendingYields(0, holder.getAddress());
+      expect(pendingAfter).to.be.deep.equal([BigNumber.from(0), BigNumber.from(0)]);
+    });
+
+    it("depositWithCurrency: reverts with 'Too many yield currencies' message over MAX_YIELD_CURRENCIES", async () => {
+      // deposit in new currencies until the maximum is reached
+      const currencyFactory = <ERC20PermitMock__factory>await ethers.getContractFactory("ERC20PermitMock");
+      const maxCurrencies = (await multiCurrencyToken.MAX_YIELD_CURRENCIES()).toNumber();
+      for (let i = 2; i <= maxCurrencies; i++) {
+        const currency = await currencyFactory.deploy(`Yield Currency ${i}`, `YDC${i}`);
+        await currency.freeMint(depositor.getAddress(), DEPOSIT);
+        await currency.connect(depositor).approve(multiCurrencyToken.address, DEPOSIT);
+        if (i < maxCurrencies) {
+          await multiCurrencyToken.connect(depositor).depositWithCurrency(0, currency.address, DEPOSIT, DURATION, 0);
+        } else {
+          // should revert with "Too many yield currencies"
+          await expect(
+            multiCurrencyToken.connect(depositor).depositWithCurrency(0, currency.address, DEPOSIT, DURATION, 0),
+          ).to.be.revertedWith("Too many yield currencies");
+        }
+      }
+    });
+  });
+
+  describe("Batch yield claiming", () => {
+    let holder: Signer;
+    let otherHolder: Signer;
+    let batchToken: RealEstateERC1155;
+
+    const IDS = [0, 1];
+    const SUPPLY = BigNumber.from("100");
+    const DEPOSIT = BigNumber.from("1000000");
+    const DURATION = 1000;
+
+    before(async () => {
+      // get holders
+      [holder, otherHolder] = (await ethers.getSigners()).slice(9);
+
+      // deploy a fresh RealEstateERC1155 contract and set roles
+      const realEstateTokenFactory = <RealEstateERC1155__factory>await ethers.getContractFactory("RealEstateERC1155");
+      batchToken = <RealEstateERC1155>(
+        await upgrades.deployProxy(realEstateTokenFactory, [
+          URI,
+          await admin.getAddress(),
+          await owner.getAddress(),
+          yieldCurrency.address,
+        ])
+      );
+      await batchToken.connect(admin).setMinter(minter.getAddress());
+      await batchToken.connect(admin).setDepositor(depositor.getAddress());
+
+      // mint two reNFT collections to the holder, the other holder only holds the first one
+      for (const id of IDS) await batchToken.connect(minter).mint(id, holder.getAddress(), SUPPLY);
+      await batchToken.connect(minter).mint(0, otherHolder.getAddress(), SUPPLY);
+
+      // deposit yield to both collections
+      await yieldCurrency.freeMint(depositor.getAddress(), DEPOSIT.mul(IDS.length));
+      await yieldCurrency.connect(depositor).approve(batchToken.address, DEPOSIT.mul(IDS.length));
+      for (const id of IDS) await batchToken.connect(depositor).deposit(id, DEPOSIT, DURATION, 0);
+
+      // go past the end of the unlock period
+      await setBlockTimestamp((await now()) + DURATION);
+    });
+
+    it("pendingYieldsOf: should list the pending yield of every ID held by the account", async () => {
+      // holder has pending yield on both IDs
+      const pendingYields = await batchToken.pendingYieldsOf(holder.getAddress());
+      expect(pendingYields.map(({ id }) => id.toNumber())).to.be.deep.equal(IDS);
+      for (const { id, currency, amount } of pendingYields) {
+        expect(currency).to.be.equal(yieldCurrency.address);
+        expect(amount).to.be.equal(await batchToken.pendingYield(id, holder.getAddress()));
+      }
+
+      // other holder only holds the first ID
+      const otherPendingYields = await batchToken.pendingYieldsOf(otherHolder.getAddress());
+      expect(otherPendingYields.map(({ id }) => id.toNumber())).to.be.deep.equal([0]);
+    });
+
+    it("claimYieldBatch: should claim the yield of every given ID", async () => {
+      // get pending yields
+      const pendingYields = await batchToken.pendingYieldsOf(holder.getAddress());
+      const balanceBefore = await yieldCurrency.balanceOf(holder.getAddress());
+
+      // claim yields, emitting 'ClaimYield' for each ID
+      const tx = await batchToken.connect(holder).claimYieldBatch(IDS, holder.getAddress());
+      for (const { id, currency, amount } of pendingYields) {
+        await expect(tx)
+          .to.emit(batchToken, "ClaimYield")
+          .withArgs(id, await holder.getAddress(), await holder.getAddress(), currency, amount);
+      }
+
+      // check balance and pending yields
+      const claimed = pendingYields.reduce((total, { amount }) => total.add(amount), BigNumber.from(0));
+      expect(await yieldCurrency.balanceOf(holder.getAddress())).to.be.equal(balanceBefore.add(claimed));
+      for (const id of IDS) expect(await batchToken.pendingYield(id, holder.getAddress())).to.be.equal(0);
+    });
+
+    it("claimAllYield: should claim the yield of every ID", async () => {
+      // transfer reNFTs away, the pending yield is still listed
+      await batchToken
+        .connect(otherHolder)
+        .safeTransferFrom(otherHolder.getAddress(), holder.getAddress(), 0, SUPPLY, ethers.utils.toUtf8Bytes(""));
+      const [{ id, amount }] = await batchToken.pendingYieldsOf(otherHolder.getAddress());
+      expect(id).to.be.equal(0);
+      expect(amount).to.be.gt(0);
+
+      // claim every yield
+      const balanceBefore = await yieldCurrency.balanceOf(otherHolder.getAddress());
+      await batchToken.connect(otherHolder).claimAllYield(otherHolder.getAddress());
+
+      // check balance, IDs without reNFTs nor pending yield are not listed anymore
+      expect(await yieldCurrency.balanceOf(otherHolder.getAddress())).to.be.equal(balanceBefore.add(amount));
+      expect(await batchToken.pendingYieldsOf(otherHolder.getAddress())).to.be.deep.equal([]);
+    });
+  });
+
+  describe("Forfeited yield redirection", () => {
+    let holder: Signer;
+    let treasury: Signer;
+    let beneficiary: Signer;
+    let contractHolder: ContractHolderMock;
+    let otherContractHolder: ContractHolderMock;
+    let redirectToken: RealEstateERC1155;
+
+    const ID = 0;
+    const SUPPLY = BigNumber.from("100");
+    const DEPOSIT = BigNumber.from("3000000");
+    const DURATION = 1000;
+
+    before(async () => {
+      // get holder, treasury and beneficiary
+      [holder, treasury, beneficiary] = (await ethers.getSigners()).slice(11);
+
+      // deploy a fresh RealEstateERC1155 contract and set roles
+      const realEstateTokenFactory = <RealEstateERC1155__factory>await ethers.getContractFactory("RealEstateERC1155");
+      redirectToken = <RealEstateERC1155>(
+        await upgrades.deployProxy(realEstateTokenFactory, [
+          URI,
+          await admin.getAddress(),
+          await owner.getAddress(),
+          yieldCurrency.address,
+        ])
+      );
+      await redirectToken.connect(admin).setMinter(minter.getAddress());
+      await redirectToken.connect(admin).setDepositor(depositor.getAddress());
+
+      // deploy non-whitelisted contract holders
+      const contractHolderFactory = <ContractHolderMock__factory>await ethers.getContractFactory("ContractHolderMock");
+      contractHolder = await contractHolderFactory.deploy();
+      otherContractHolder = await contractHolderFactory.deploy();
+
+      // mint reNFTs to an EOA and to the contract holders
+      for (const account of [await holder.getAddress(), contractHolder.address, otherContractHolder.address]) {
+        await redirectToken.connect(minter).mint(ID, account, SUPPLY);
+      }
+
+      // mint the yield to deposit
+      await yieldCurrency.freeMint(depositor.getAddress(), DEPOSIT.mul(2));
+      await yieldCurrency.connect(depositor).approve(redirectToken.address, DEPOSIT.mul(2));
+    });
+
+    it("setTreasury: should revert with '!admin' if caller is not the admin", async () => {
+      // should revert with "!admin" message
+      await expect(redirectToken.setTreasury(treasury.getAddress())).to.be.revertedWith("!admin");
+    });
+
+    it("setTreasury: should revert with '!_treasury' message when setting the zero address", async () => {
+      // should revert with "!_treasury" message
+      await expect(redirectToken.connect(admin).setTreasury(ethers.constants.AddressZero)).to.be.revertedWith(
+        "!_treasury",
+      );
+    });
+
+    it("setTreasury: should emit 'SetTreasury' on success", async () => {
+      // should emit "SetTreasury"
+      await expect(redirectToken.connect(admin).setTreasury(treasury.getAddress()))
+        .to.emit(redirectToken, "SetTreasury")
+        .withArgs(await admin.getAddress(), await treasury.getAddress());
+    });
+
+    it("setTreasury: should revert with 'Same treasury' message when setting the same treasury", async () => {
+      // should revert with "Same treasury" message
+      await expect(redirectToken.connect(admin).setTreasury(treasury.getAddress())).to.be.revertedWith("Same treasury");
+    });
+
+    it("setYieldBeneficiary: should revert with '!contract' if caller is not a contract", async () => {
+      // should revert with "!contract" message
+      await expect(redirectToken.connect(holder).setYieldBeneficiary(beneficiary.getAddress())).to.be.revertedWith(
+        "!contract",
+      );
+    });
+
+    it("setYieldBeneficiary: should emit 'SetYieldBeneficiary' on success", async () => {
+      // should emit "SetYieldBeneficiary"
+      const data = redirectToken.interface.encodeFunctionData("setYieldBeneficiary", [await beneficiary.getAddress()]);
+      await expect(contractHolder.execute(redirectToken.address, data))
+        .to.emit(redirectToken, "SetYieldBeneficiary")
+        .withArgs(contractHolder.address, await beneficiary.getAddress());
+      expect(await redirectToken.yieldBeneficiary(contractHolder.address)).to.be.equal(await beneficiary.getAddress());
+    });
+
+    it("pendingYield: should not include the yield accrued by non-whitelisted contracts", async () => {
+      // deposit yield and go past the end of the unlock period
+      await redirectToken.connect(depositor).deposit(ID, DEPOSIT, DURATION, 0);
+      await setBlockTimestamp((await now()) + DURATION);
+
+      // only the EOA has pending yield
+      const accrued = SUPPLY.mul(await redirectToken.yieldPerToken(ID));
+      expect(await redirectToken.pendingYield(ID, holder.getAddress())).to.be.equal(accrued);
+      expect(await redirectToken.pendingYield(ID, contractHolder.address)).to.be.equal(0);
+      expect(await redirectToken.pendingYield(ID, otherContractHolder.address)).to.be.equal(0);
+    });
+
+    it("redirectYield: should redirect the yield of a contract to its beneficiary", async () => {
+      // should emit "RedirectYield" to the beneficiary
+      const accrued = SUPPLY.mul(await redirectToken.yieldPerToken(ID));
+      await expect(redirectToken.redirectYield(ID, contractHolder.address))
+        .to.emit(redirectToken, "RedirectYield")
+        .withArgs(ID, contractHolder.address, await beneficiary.getAddress(), yieldCurrency.address, accrued);
+
+      // beneficiary can claim it
+      expect(await redirectToken.pendingYield(ID, beneficiary.getAddress())).to.be.equal(accrued);
+      await redirectToken.connect(beneficiary).claimYield(ID, beneficiary.getAddress());
+      expect(await yieldCurrency.balanceOf(beneficiary.getAddress())).to.be.equal(accrued);
+    });
+
+    it("redirectYield: should redirect the yield of a contract without beneficiary to the treasury", async () => {
+      // should emit "RedirectYield" to the treasury
+      const accrued = SUPPLY.mul(await redirectToken.yieldPerToken(ID));
+      await expect(redirectToken.redirectYield(ID, otherContractHolder.address))
+        .to.emit(redirectToken, "RedirectYield")
+        .withArgs(ID, otherContractHolder.address, await treasury.getAddress(), yieldCurrency.address, accrued);
+      expect(await redirectToken.pendingYield(ID, treasury.getAddress())).to.be.equal(accrued);
+    });
+
+    it("toggleWhitelistContract: should settle the yield accrued before whitelisting", async () => {
+      // deposit more yield and go halfway through the unlock period
+      const yieldPerTokenBefore = await redirectToken.yieldPerToken(ID);
+      await redirectToken.connect(depositor).deposit(ID, DEPOSIT, DURATION, 0);
+      await setBlockTimestamp((await now()) + DURATION / 2);
+
+      // yield accrued until whitelisting goes to the treasury
+      const treasuryPendingYield = await redirectToken.pendingYield(ID, treasury.getAddress());
+      await redirectToken.connect(admin).toggleWhitelistContract(otherContractHolder.address, true);
+      const yieldPerTokenWhitelisted = await redirectToken.yieldPerToken(ID);
+      expect(await redirectToken.pendingYield(ID, treasury.getAddress())).to.be.equal(
+        treasuryPendingYield.add(SUPPLY.mul(yieldPerTokenWhitelisted.sub(yieldPerTokenBefore))),
+      );
+
+      // the contract only earns the yield accrued after whitelisting
+      await setBlockTimestamp((await now()) + DURATION);
+      expect(await redirectToken.pendingYield(ID, otherContractHolder.address)).to.be.equal(
+        SUPPLY.mul((await redirectToken.yieldPerToken(ID)).sub(yieldPerTokenWhitelisted)),
+      );
+    });
+
+    it("redirectYield: should keep the yield of a contract without beneficiary while no treasury is set", async () => {
+      // deploy a fresh RealEstateERC1155 contract, without treasury
+      const realEstateTokenFactory = <RealEstateERC1155__factory>await ethers.getContractFactory("RealEstateERC1155");
+      const token = <RealEstateERC1155>(
+        await upgrades.deployProxy(realEstateTokenFactory, [
+          URI,
+          await admin.getAddress(),
+          await owner.getAddress(),
+          yieldCurrency.address,
+        ])
+      );
+      await token.connect(admin).setMinter(minter.getAddress());
+      await token.connect(admin).setDepositor(depositor.getAddress());
+      expect(await token.treasury()).to.be.equal(ethers.constants.AddressZero);
+
+      // mint reNFTs to the contract holder, deposit yield and go past the end of the unlock period
+      await token.connect(minter).mint(ID, contractHolder.address, SUPPLY);
+      await yieldCurrency.freeMint(depositor.getAddress(), DEPOSIT);
+      await yieldCurrency.connect(depositor).approve(token.address, DEPOSIT);
+      await token.connect(depositor).deposit(ID, DEPOSIT, DURATION, 0);
+      await setBlockTimestamp((await now()) + DURATION);
+
+      // should not emit "RedirectYield" to the zero address
+      const accrued = SUPPLY.mul(await token.yieldPerToken(ID));
+      await expect(token.redirectYield(ID, contractHolder.address)).not.to.emit(token, "RedirectYield");
+      expect(await token.pendingYield(ID, ethers.constants.AddressZero)).to.be.equal(0);
+      expect(await token.pendingYield(ID, contractHolder.address)).to.be.equal(accrued);
+
+      // the contract can claim the yield kept once whitelisted
+      await token.connect(admin).toggleWhitelistContract(contractHolder.address, true);
+      const data = token.interface.encodeFunctionData("claimYield", [ID, contractHolder.address]);
+      await contractHolder.execute(token.address, data);
+      expect(await yieldCurrency.balanceOf(contractHolder.address)).to.be.equal(accrued);
+    });
   });
 });
@@ -13,15 +13,21 @@ chai.use(solidity);
 import type { SkyERC20, SkyERC20__factory } from "../../typechain-types";
 
 // HardhatRuntimeEnvironment
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
 
 // Get BigNumber
 import { BigNumber } from "@ethersproject/bignumber";
 import { Signer } from "@ethersproject/abstract-signer";
 
+// Get SignerWithAddress
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
 // Import BigNumber utility functions
 import { randomUint256 } from "../utils/bn_utils";
 
+// Import EVM utils
+import { now, setBlockTimestamp } from "../utils/evm_utils";
+
 describe("SkyERC20 Unit Tests", () => {
   let deployer: Signer;
   let skyToken: SkyERC20;
@@ -134,4 +140,163 @@ describe("SkyERC20 Unit Tests", () => {
       } while (iteration++ < MAX_ITERATIONS && !mintableSupply.isZero());
     });
   });
+
+  describe("Delegation", () => {
+    let votesToken: SkyERC20;
+    let delegatee: Signer;
+
+    const SIGNATURE_VALIDITY = 3600; // 1 hour
+
+    // sign a delegation with the EIP-712 domain of the token
+    async function signDelegation(signer: Signer, delegateeAddress: string, nonce: BigNumber, expiry: number) {
+      const domain = {
+        name: "HorizonDAO Token",
+        version: "1",
+        chainId: network.config.chainId,
+        verifyingContract: votesToken.address,
+      };
+      const types = {
+        Delegation: [
+          { name: "delegatee", type: "address" },
+          { name: "nonce", type: "uint256" },
+          { name: "expiry", type: "uint256" },
+        ],
+      };
+      const signature = await (<SignerWithAddress>signer)._signTypedData(domain, types, {
+        delegatee: delegateeAddress,
+        nonce,
+        expiry,
+      });
+      return ethers.utils.splitSignature(signature);
+    }
+
+    before(async () => {
+      // deploy a new token, the previous one has been minted up to MAX_SUPPLY
+      [, , , , , , delegatee] = await ethers.getSigners();
+      const skyTokenFactory = <SkyERC20__factory>await ethers.getContractFactory("SkyERC20");
+      votesToken = await skyTokenFactory
+        .connect(deployer)
+        .deploy(admin.getAddress(), INITIAL_SUPPLY, initialHolder.getAddress());
+      await votesToken.connect(admin).setMinter(minter.getAddress());
+    });
+
+    it("supportsInterface: Supports IVotes", async () => {
+      // Interface ID
+      const IVotesInterfaceId = "0xe90fb3f6";
+
+      // Check if interface is supported
+      expect(await votesToken.supportsInterface(IVotesInterfaceId)).to.be.true;
+    });
+
+    it("getVotes: should be zero until the holder delegates", async () => {
+      // check votes
+      expect(await votesToken.getVotes(initialHolder.getAddress())).to.be.equal(0);
+      expect(await votesToken.delegates(initialHolder.getAddress())).to.be.equal(ethers.constants.AddressZero);
+    });
+
+    it("delegate: should emit 'DelegateChanged' and 'DelegateVotesChanged' and move the voting power", async () => {
+      // should emit "DelegateChanged" and "DelegateVotesChanged"
+      const holderAddress = await initialHolder.getAddress();
+      await expect(votesToken.connect(initialHolder).delegate(holderAddress))
+        .to.emit(votesToken, "DelegateChanged")
+        .withArgs(holderAddress, ethers.constants.AddressZero, holderAddress)
+        .and.to.emit(votesToken, "DelegateVotesChanged")
+        .withArgs(holderAddress, 0, INITIAL_SUPPLY);
+      expect(await votesToken.getVotes(holderAddress)).to.be.equal(INITIAL_SUPPLY);
+      expect(await votesToken.numCheckpoints(holderAddress)).to.be.equal(1);
+
+      // delegate to another account
+      await votesToken.connect(initialHolder).delegate(delegatee.getAddress());
+      expect(await votesToken.delegates(holderAddress)).to.be.equal(await delegatee.getAddress());
+      expect(await votesToken.getVotes(holderAddress)).to.be.equal(0);
+      expect(await votesToken.getVotes(delegatee.getAddress())).to.be.equal(INITIAL_SUPPLY);
+    });
+
+    it("transfer: should move the voting power between delegates", async () => {
+      // delegate user votes to itself and transfer from the holder
+      const amount = INITIAL_SUPPLY.div(4);
+      await votesToken.connect(user).delegate(user.getAddress());
+      await votesToken.connect(initialHolder).transfer(user.getAddress(), amount);
+      expect(await votesToken.getVotes(delegatee.getAddress())).to.be.equal(INITIAL_SUPPLY.sub(amount));
+      expect(await votesToken.getVotes(user.getAddress())).to.be.equal(amount);
+
+      // transfers to an account without delegate should not create voting power
+      await votesToken.connect(user).transfer(newAdmin.getAddress(), amount);
+      expect(await votesToken.getVotes(user.getAddress())).to.be.equal(0);
+      expect(await votesToken.getVotes(newAdmin.getAddress())).to.be.equal(0);
+    });
+
+    it("getPastVotes: reverts with 'ERC20Votes: future lookup' if the block is not mined yet", async () => {
+      // get current block
+      const blockNumber = await ethers.provider.getBlockNumber();
+
+      // should revert with "ERC20Votes: future lookup"
+      await expect(votesToken.getPastVotes(user.getAddress(), blockNumber)).to.be.revertedWith(
+        "ERC20Votes: future lookup",
+      );
+      await expect(votesToken.getPastTotalSupply(blockNumber)).to.be.revertedWith("ERC20Votes: future lookup");
+    });
+
+    it("getPastVotes: should return the voting power and total supply at the end of past blocks", async () => {
+      // mint to the user, it should checkpoint the user votes and the total supply
+      const amount = ethers.utils.parseEther("1000");
+      const blockBefore = await ethers.provider.getBlockNumber();
+      const votesBefore = await votesToken.getVotes(delegatee.getAddress());
+      await votesToken.connect(newAdmin).delegate(delegatee.getAddress());
+      const mintBlock = (await (await votesToken.connect(minter).mint(newAdmin.getAddress(), amount)).wait())
+        .blockNumber;
+      await ethers.provider.send("evm_mine", []);
+
+      // check past values
+      expect(await votesToken.getPastTotalSupply(blockBefore)).to.be.equal(INITIAL_SUPPLY);
+      expect(await votesToken.getPastTotalSupply(mintBlock)).to.be.equal(INITIAL_SUPPLY.add(amount));
+      expect(await votesToken.getPastVotes(delegatee.getAddress(), blockBefore)).to.be.equal(votesBefore);
+      expect(await votesToken.getPastVotes(delegatee.getAddress(), mintBlock)).to.be.equal(
+        votesBefore.add(INITIAL_SUPPLY.div(4)).add(amount),
+      );
+      expect(await votesToken.getVotes(delegatee.getAddress())).to.be.equal(
+        votesBefore.add(INITIAL_SUPPLY.div(4)).add(amount),
+      );
+    });
+
+    it("delegateBySig: reverts with 'ERC20Votes: signature expired' if the expiry has passed", async () => {
+      // sign delegation
+      const expiry = (await now()) + SIGNATURE_VALIDITY;
+      const { v, r, s } = await signDelegation(
+        user,
+        await user.getAddress(),
+        await votesToken.nonces(user.getAddress()),
+        expiry,
+      );
+
+      // advance time
+      await setBlockTimestamp(expiry);
+
+      // should revert with "ERC20Votes: signature expired"
+      await expect(
+        votesToken.delegateBySig(user.getAddress(), await votesToken.nonces(user.getAddress()), expiry, v, r, s),
+      ).to.be.revertedWith("ERC20Votes: signature expired");
+    });
+
+    it("delegateBySig: should delegate on behalf of the signer and reject replays", async () => {
+      // sign delegation
+      const nonce = await votesToken.nonces(user.getAddress());
+      const expiry = (await now()) + SIGNATURE_VALIDITY;
+      const { v, r, s } = await signDelegation(user, await delegatee.getAddress(), nonce, expiry);
+
+      // should emit "DelegateChanged" when executed by any account
+      await expect(votesToken.connect(deployer).delegateBySig(delegatee.getAddress(), nonce, expiry, v, r, s))
+        .to.emit(votesToken, "DelegateChanged")
+        .withArgs(await user.getAddress(), await user.getAddress(), await delegatee.getAddress());
+      expect(await votesToken.delegates(user.getAddress())).to.be.equal(await delegatee.getAddress());
+
+      // should share the nonce with permit
+      expect(await votesToken.nonces(user.getAddress())).to.be.equal(nonce.add(1));
+
+      // should revert with "ERC20Votes: invalid nonce"
+      await expect(
+        votesToken.connect(deployer).delegateBySig(delegatee.getAddress(), nonce, expiry, v, r, s),
+      ).to.be.revertedWith("ERC20Votes: invalid nonce");
+    });
+  });
 });